@@ -0,0 +1,152 @@
+// Service worker do Relatório de Inspeção: guarda o shell do formulário e os tiles do mapa para uso sem conexão.
+// A versão vem da query string do registro (/sw.js?v=<build>&tiles=<modelo>), então cada deploy gera um cache novo.
+
+const PARAMS = new URL(self.location.href).searchParams;
+const VERSION = PARAMS.get('v') || 'dev';
+const SHELL_CACHE = `inspecao-shell-${VERSION}`;
+const RUNTIME_CACHE = `inspecao-runtime-${VERSION}`;
+
+// Tiles do mapa: cache sem versão (sobrevive aos deploys), o mesmo em que a página guarda os tiles em volta
+// de cada posição capturada (MAP_TILE_CACHE em src/lib/geo/capture.ts). Os mais antigos saem acima do limite.
+const MAP_TILE_CACHE = 'inspecao-mapa';
+const MAX_MAP_TILES = 3000;
+const MAP_TILE_PATTERN = buildTilePattern(PARAMS.get('tiles'));
+
+/**
+ * Expressão que reconhece as URLs do modelo de tiles, ex.: https://tile.openstreetmap.org/{z}/{x}/{y}.png
+ */
+function buildTilePattern(template) {
+  if (!template) return null;
+  const escaped = template.replace(/[.*+?^$()|[\]\\]/g, '\\$&');
+  return new RegExp(`^${escaped
+    .replace('{s}', '[a-z0-9]+')
+    .replace('{z}', '\\d+')
+    .replace('{x}', '\\d+')
+    .replace('{y}', '\\d+')}$`);
+}
+
+const SHELL_URLS = ['/', '/manifest.webmanifest', '/logo.png', '/icons/icon-192.png', '/icons/icon-512.png'];
+
+// Modelos de checklist: necessários para começar uma inspeção sem conexão.
+// Exigem login, então entram no cache na primeira carga da página com sessão ativa (network-first)
+const CHECKLISTS_URL = '/api/checklists';
+
+/**
+ * Extrai os scripts e folhas de estilo do Next.js referenciados pelo HTML da página
+ */
+function extractAssetUrls(html) {
+  const urls = new Set();
+  const pattern = /(?:src|href)="(\/_next\/static\/[^"]+)"/g;
+  let match;
+  while ((match = pattern.exec(html)) !== null) {
+    urls.add(match[1]);
+  }
+  return [...urls];
+}
+
+async function precacheShell() {
+  const cache = await caches.open(SHELL_CACHE);
+
+  // Sem sessão, '/' redireciona para o login; a instalação falha e é refeita no próximo carregamento
+  const page = await fetch('/');
+  if (!page.ok || page.redirected) {
+    throw new Error('Shell indisponível (sem sessão ativa)');
+  }
+  await cache.put('/', page.clone());
+  await cache.addAll(SHELL_URLS.filter((url) => url !== '/'));
+
+  const assets = extractAssetUrls(await page.text());
+  await cache.addAll(assets);
+}
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(precacheShell());
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys().then((keys) =>
+      Promise.all(
+        keys
+          .filter((key) => key.startsWith('inspecao-') && key !== SHELL_CACHE && key !== RUNTIME_CACHE && key !== MAP_TILE_CACHE)
+          .map((key) => caches.delete(key))
+      )
+    ).then(() => self.clients.claim())
+  );
+});
+
+// A página pede a ativação da nova versão quando o usuário aceita atualizar
+self.addEventListener('message', (event) => {
+  if (event.data && event.data.type === 'SKIP_WAITING') {
+    self.skipWaiting();
+  }
+});
+
+async function networkFirst(request, fallbackUrl) {
+  const cache = await caches.open(RUNTIME_CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok) cache.put(request, response.clone());
+    return response;
+  } catch (error) {
+    const cached = (await caches.match(request)) || (fallbackUrl && (await caches.match(fallbackUrl)));
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+async function cacheFirst(request) {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.ok) {
+    const cache = await caches.open(RUNTIME_CACHE);
+    cache.put(request, response.clone());
+  }
+  return response;
+}
+
+// Tile guardado, se houver; senão busca e guarda, descartando os mais antigos acima do limite
+async function mapTile(request) {
+  const cache = await caches.open(MAP_TILE_CACHE);
+  const cached = await cache.match(request.url);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.ok) {
+    await cache.put(request.url, response.clone());
+    const keys = await cache.keys();
+    await Promise.all(keys.slice(0, Math.max(0, keys.length - MAX_MAP_TILES)).map((key) => cache.delete(key)));
+  }
+  return response;
+}
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+
+  if (request.method === 'GET' && MAP_TILE_PATTERN && MAP_TILE_PATTERN.test(request.url)) {
+    event.respondWith(mapTile(request));
+    return;
+  }
+
+  if (request.method === 'GET' && url.origin === self.location.origin && url.pathname === CHECKLISTS_URL) {
+    event.respondWith(networkFirst(request));
+    return;
+  }
+
+  // Somente GET do próprio app; as demais chamadas de API nunca são servidas do cache
+  if (request.method !== 'GET' || url.origin !== self.location.origin || url.pathname.startsWith('/api/')) {
+    return;
+  }
+
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirst(request, '/'));
+    return;
+  }
+
+  if (url.pathname.startsWith('/_next/static/') || SHELL_URLS.includes(url.pathname)) {
+    event.respondWith(cacheFirst(request));
+  }
+});
@@ -0,0 +1,15 @@
+// Gera o senhaHash de um usuário do login local (config/usuarios.json).
+// Uso: npm run hash-senha -- "senha do usuário"
+
+import { randomBytes, scryptSync } from 'crypto';
+
+const password = process.argv[2];
+if (!password) {
+  console.error('Uso: npm run hash-senha -- "<senha>"');
+  process.exit(1);
+}
+
+// Mesmo formato de src/lib/auth/users.ts: scrypt$<sal>$<hash>, em base64
+const salt = randomBytes(16);
+const hash = scryptSync(password, salt, 64);
+console.log(`scrypt$${salt.toString('base64')}$${hash.toString('base64')}`);
@@ -0,0 +1,160 @@
+// Provedor OIDC mínimo para testar o login corporativo sem um IdP real. NÃO usar em produção.
+// Uso: npm run mock-oidc   (e no .env.local: OIDC_ISSUER=http://localhost:4010, OIDC_CLIENT_ID=relatorio-inspecao, OIDC_CLIENT_SECRET=segredo-local)
+// A tela de autorização aceita qualquer nome e e-mail digitados.
+
+import { createHash, createSign, generateKeyPairSync, randomBytes } from 'crypto';
+import { createServer } from 'http';
+
+const PORT = Number(process.env.MOCK_OIDC_PORT || 4010);
+const ISSUER = process.env.MOCK_OIDC_ISSUER || `http://localhost:${PORT}`;
+const CLIENT_ID = process.env.OIDC_CLIENT_ID || 'relatorio-inspecao';
+const CLIENT_SECRET = process.env.OIDC_CLIENT_SECRET || 'segredo-local';
+const TOKEN_TTL_SECONDS = 3600;
+
+const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+const KEY_ID = 'mock-oidc';
+
+// Códigos e tokens emitidos, só em memória
+const codes = new Map();
+const accessTokens = new Map();
+
+const base64url = (input) => Buffer.from(input).toString('base64url');
+
+function signJwt(claims) {
+  const header = base64url(JSON.stringify({ alg: 'RS256', typ: 'JWT', kid: KEY_ID }));
+  const payload = base64url(JSON.stringify(claims));
+  const signature = createSign('RSA-SHA256').update(`${header}.${payload}`).sign(privateKey).toString('base64url');
+  return `${header}.${payload}.${signature}`;
+}
+
+const escapeHtml = (value) => String(value).replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+
+function sendJson(res, status, body) {
+  res.writeHead(status, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' });
+  res.end(JSON.stringify(body));
+}
+
+async function readForm(req) {
+  let body = '';
+  for await (const chunk of req) body += chunk;
+  return new URLSearchParams(body);
+}
+
+function readClientCredentials(req, form) {
+  const header = req.headers.authorization || '';
+  if (header.startsWith('Basic ')) {
+    const [id, secret] = Buffer.from(header.slice(6), 'base64').toString().split(':').map(decodeURIComponent);
+    return { id, secret };
+  }
+  return { id: form.get('client_id'), secret: form.get('client_secret') };
+}
+
+function renderAuthorizePage(params) {
+  const hidden = [...params.entries()]
+    .map(([name, value]) => `<input type="hidden" name="${escapeHtml(name)}" value="${escapeHtml(value)}">`)
+    .join('');
+  return `<!doctype html><html lang="pt-BR"><head><meta charset="utf-8"><title>Mock OIDC</title></head>
+<body style="font-family:sans-serif;max-width:360px;margin:48px auto">
+<h2>Mock OIDC</h2><p>Entrar como:</p>
+<form method="post" action="/authorize">${hidden}
+<p><label>Nome<br><input name="name" value="Inspetor OIDC" required></label></p>
+<p><label>E-mail<br><input name="email" type="email" value="inspetor.oidc@empresa.com" required></label></p>
+<button type="submit">Autorizar</button></form></body></html>`;
+}
+
+async function handleAuthorize(req, res, url) {
+  if (req.method === 'GET') {
+    if (url.searchParams.get('client_id') !== CLIENT_ID) return sendJson(res, 400, { error: 'invalid_client' });
+    res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+    return res.end(renderAuthorizePage(url.searchParams));
+  }
+
+  const form = await readForm(req);
+  const code = randomBytes(16).toString('hex');
+  const email = form.get('email');
+  codes.set(code, {
+    redirectUri: form.get('redirect_uri'),
+    codeChallenge: form.get('code_challenge'),
+    nonce: form.get('nonce'),
+    user: { sub: createHash('sha256').update(email).digest('hex').slice(0, 16), name: form.get('name'), email },
+  });
+
+  const redirect = new URL(form.get('redirect_uri'));
+  redirect.searchParams.set('code', code);
+  if (form.get('state')) redirect.searchParams.set('state', form.get('state'));
+  console.log(`🔑 Código emitido para ${email}`);
+  res.writeHead(302, { Location: redirect.toString() });
+  res.end();
+}
+
+async function handleToken(req, res) {
+  const form = await readForm(req);
+  const client = readClientCredentials(req, form);
+  if (client.id !== CLIENT_ID || client.secret !== CLIENT_SECRET) return sendJson(res, 401, { error: 'invalid_client' });
+
+  const grant = codes.get(form.get('code'));
+  codes.delete(form.get('code'));
+  if (!grant || grant.redirectUri !== form.get('redirect_uri')) return sendJson(res, 400, { error: 'invalid_grant' });
+
+  if (grant.codeChallenge) {
+    const verifier = form.get('code_verifier') || '';
+    if (createHash('sha256').update(verifier).digest('base64url') !== grant.codeChallenge) {
+      return sendJson(res, 400, { error: 'invalid_grant', error_description: 'PKCE inválido' });
+    }
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  const accessToken = randomBytes(24).toString('hex');
+  accessTokens.set(accessToken, grant.user);
+  const idToken = signJwt({
+    iss: ISSUER,
+    aud: CLIENT_ID,
+    iat: now,
+    exp: now + TOKEN_TTL_SECONDS,
+    ...(grant.nonce ? { nonce: grant.nonce } : {}),
+    ...grant.user,
+  });
+
+  sendJson(res, 200, { access_token: accessToken, id_token: idToken, token_type: 'Bearer', expires_in: TOKEN_TTL_SECONDS });
+}
+
+function handleUserinfo(req, res) {
+  const token = (req.headers.authorization || '').replace(/^Bearer /, '');
+  const user = accessTokens.get(token);
+  if (!user) return sendJson(res, 401, { error: 'invalid_token' });
+  sendJson(res, 200, user);
+}
+
+const server = createServer((req, res) => {
+  const url = new URL(req.url, ISSUER);
+  switch (url.pathname) {
+    case '/.well-known/openid-configuration':
+      return sendJson(res, 200, {
+        issuer: ISSUER,
+        authorization_endpoint: `${ISSUER}/authorize`,
+        token_endpoint: `${ISSUER}/token`,
+        userinfo_endpoint: `${ISSUER}/userinfo`,
+        jwks_uri: `${ISSUER}/jwks`,
+        response_types_supported: ['code'],
+        subject_types_supported: ['public'],
+        id_token_signing_alg_values_supported: ['RS256'],
+        scopes_supported: ['openid', 'email', 'profile'],
+        token_endpoint_auth_methods_supported: ['client_secret_basic', 'client_secret_post'],
+        code_challenge_methods_supported: ['S256'],
+      });
+    case '/jwks':
+      return sendJson(res, 200, { keys: [{ ...publicKey.export({ format: 'jwk' }), kid: KEY_ID, use: 'sig', alg: 'RS256' }] });
+    case '/authorize':
+      return handleAuthorize(req, res, url).catch((error) => sendJson(res, 500, { error: error.message }));
+    case '/token':
+      return handleToken(req, res).catch((error) => sendJson(res, 500, { error: error.message }));
+    case '/userinfo':
+      return handleUserinfo(req, res);
+    default:
+      return sendJson(res, 404, { error: 'not_found' });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`🧪 Mock OIDC em ${ISSUER} (client_id=${CLIENT_ID})`);
+});
@@ -0,0 +1,110 @@
+"use client";
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { CalendarClock, CheckCircle, History, Loader2 } from 'lucide-react';
+import ActionStatusBadge from '@/components/ActionStatusBadge';
+import UserMenu from '@/components/UserMenu';
+import { useActionBoard } from '@/hooks/useActionBoard';
+import { ACTION_STATUSES, ACTION_STATUS_LABELS } from '@/lib/validation/actionSchema';
+
+const formatDate = (value: string) => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  return match ? `${match[3]}/${match[2]}/${match[1]}` : value || '-';
+};
+
+// Data de hoje no fuso do aparelho, para comparar com o prazo (AAAA-MM-DD)
+const todayIso = () => {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+};
+
+const selectClassName = 'w-full bg-gray-700 border border-gray-600 text-white rounded-lg p-3 focus:ring-2 focus:ring-amber-500 focus:border-amber-500';
+
+// Quadro das ações corretivas em aberto de todas as inspeções, do prazo mais próximo ao mais distante
+export default function PendingActionsPage() {
+  const [status, setStatus] = useState('pendentes');
+  const [unidade, setUnidade] = useState('');
+  const { data, isLoading, error } = useActionBoard(status, unidade);
+  const today = todayIso();
+
+  return (
+    <div className="min-h-screen bg-gray-900 text-white font-sans">
+      <header className="bg-gray-800 p-3 md:p-4 shadow-lg">
+        <div className="flex items-center justify-between max-w-7xl mx-auto gap-3">
+          <h1 className="text-sm md:text-xl font-bold text-amber-500 flex-1">Ações pendentes</h1>
+          <Link href="/inspecoes" className="flex items-center gap-2 text-sm text-gray-300 hover:text-white">
+            <History size={18} /> Histórico
+          </Link>
+          <UserMenu />
+        </div>
+      </header>
+
+      <main className="p-4 md:p-8 max-w-5xl mx-auto space-y-6">
+        <section className="bg-gray-800 rounded-lg p-4 grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label htmlFor="status" className="block text-sm font-medium text-gray-300 mb-1">Situação</label>
+            <select id="status" value={status} onChange={(e) => setStatus(e.target.value)} className={selectClassName}>
+              <option value="pendentes">Pendentes (abertas e em andamento)</option>
+              {ACTION_STATUSES.map(option => <option key={option} value={option}>{ACTION_STATUS_LABELS[option]}</option>)}
+              <option value="todas">Todas</option>
+            </select>
+          </div>
+          <div>
+            <label htmlFor="unidade" className="block text-sm font-medium text-gray-300 mb-1">Unidade</label>
+            <select id="unidade" value={unidade} onChange={(e) => setUnidade(e.target.value)} className={selectClassName}>
+              <option value="">Todas</option>
+              {(data?.options.unidades || []).map(option => <option key={option} value={option}>{option}</option>)}
+            </select>
+          </div>
+        </section>
+
+        {error && (
+          <div className="bg-red-900/40 border border-red-700 rounded-lg p-4 text-sm text-red-200">{error}</div>
+        )}
+
+        <section>
+          <div className="flex items-center justify-between mb-3 text-sm text-gray-400">
+            <span>{data ? `${data.total} aç${data.total === 1 ? 'ão' : 'ões'}` : ' '}</span>
+            {isLoading && <Loader2 size={18} className="animate-spin text-amber-500" />}
+          </div>
+
+          {data && data.actions.length === 0 && !isLoading && (
+            <div className="bg-gray-800 rounded-lg p-8 text-center text-gray-400">
+              <CheckCircle size={40} className="mx-auto mb-3" />
+              Nenhuma ação nesta situação.
+            </div>
+          )}
+
+          <ul className={`space-y-3 transition-opacity ${isLoading ? 'opacity-60' : ''}`}>
+            {data?.actions.map(action => {
+              const isOverdue = Boolean(action.prazo) && action.prazo < today && (action.status === 'aberta' || action.status === 'em_andamento');
+              return (
+                <li key={`${action.inspectionId}-${action.item}`}>
+                  <Link
+                    href={`/inspecoes/${encodeURIComponent(action.inspectionId)}#item-${action.item}`}
+                    className="block bg-gray-800 hover:bg-gray-700/70 rounded-lg p-4 transition-colors"
+                  >
+                    <div className="flex flex-wrap items-center justify-between gap-2">
+                      <p className={`flex items-center gap-2 text-sm font-semibold ${isOverdue ? 'text-red-400' : 'text-gray-300'}`}>
+                        <CalendarClock size={16} />
+                        {action.prazo ? `Prazo ${formatDate(action.prazo)}${isOverdue ? ' · atrasada' : ''}` : 'Sem prazo'}
+                      </p>
+                      <ActionStatusBadge status={action.status} />
+                    </div>
+                    <p className="mt-2 line-clamp-2">{action.fato}</p>
+                    {action.recomendacoes && <p className="text-sm text-gray-400 mt-1 line-clamp-2">{action.recomendacoes}</p>}
+                    <div className="flex flex-wrap items-center justify-between gap-2 mt-2 text-xs text-gray-500">
+                      <span>{[action.unidade, action.local].filter(Boolean).join(' - ')} · Responsável: {action.responsavel || '-'}</span>
+                      <span>{action.inspectionId} · item {action.item}</span>
+                    </div>
+                  </Link>
+                </li>
+              );
+            })}
+          </ul>
+        </section>
+      </main>
+    </div>
+  );
+}
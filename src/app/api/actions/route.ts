@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { listTrackedActions, sortActionsByDeadline } from '@/lib/sheets/actions';
+import { normalizeText } from '@/lib/sheets/cells';
+import { ACTION_STATUSES, ActionStatus, PENDING_ACTION_STATUSES } from '@/lib/validation/actionSchema';
+import { ActionListResponse } from '@/types/actions';
+
+/**
+ * Quadro de ações corretivas de todas as inspeções, ordenado pelo prazo.
+ * Parâmetros: status ("pendentes" por padrão, "todas" ou uma lista separada por vírgula, ex.: "aberta,em_andamento") e unidade.
+ */
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const statusParam = params.get('status')?.trim() || 'pendentes';
+  const unidade = params.get('unidade')?.trim();
+
+  let statuses: ActionStatus[];
+  if (statusParam === 'pendentes') {
+    statuses = PENDING_ACTION_STATUSES;
+  } else if (statusParam === 'todas') {
+    statuses = [...ACTION_STATUSES];
+  } else {
+    const requested = statusParam.split(',').map(status => status.trim());
+    const invalid = requested.filter(status => !ACTION_STATUSES.includes(status as ActionStatus));
+    if (invalid.length > 0) {
+      return NextResponse.json({ error: `Situação inválida: ${invalid.join(', ')}` }, { status: 400 });
+    }
+    statuses = requested as ActionStatus[];
+  }
+
+  try {
+    const actions = await listTrackedActions();
+    const filtered = actions.filter(action =>
+      statuses.includes(action.status) && (!unidade || normalizeText(action.unidade) === normalizeText(unidade))
+    );
+
+    const response: ActionListResponse = {
+      actions: sortActionsByDeadline(filtered),
+      total: filtered.length,
+      options: {
+        unidades: [...new Set(actions.map(action => action.unidade).filter(Boolean))].sort((a, b) => a.localeCompare(b, 'pt-BR')),
+      },
+    };
+    return NextResponse.json(response);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Erro desconhecido';
+    console.error('❌ Erro ao ler as ações:', message);
+    return NextResponse.json({ error: `Não foi possível ler as ações: ${message}` }, { status: 500 });
+  }
+}
@@ -0,0 +1,161 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getStorageBackend, getStorageErrorMessage } from '@/lib/storage';
+import { EmailReport, sendEmailWithPDF, signedReportEmailOptions } from '@/lib/email/report';
+import { isSignatureBlank } from '@/lib/images/signature';
+import { ReportSigner, readClientInfo, sealReport, sha256Hex } from '@/lib/reports/integrity';
+import { renderStoredReportPdf } from '@/lib/reports/pdf';
+import { RemoteSignatureCheck, checkRemoteSignatureToken, markRemoteSignatureSigned } from '@/lib/reports/remoteSignature';
+import { enqueueRetry } from '@/lib/reports/retries';
+import { StoredReport, loadStoredReport, saveStoredReport } from '@/lib/reports/store';
+import { updateUnitSignatureCell } from '@/lib/sheets/inspections';
+import { SIGNATURE_PENDING, buildUploadKey } from '@/lib/validation/submitSchema';
+import { validateRemoteSignature } from '@/lib/validation/remoteSignatureSchema';
+import { RemoteSignatureReportResponse } from '@/types/history';
+
+// Página pública de assinatura remota (fora do login): o token do link enviado por e-mail é a única autorização
+
+const REMOTE_SIGNATURE_FILE_ID = 'assinatura-unidade-remota';
+
+// Assinaturas em andamento neste processo; impede que dois envios simultâneos usem o mesmo link
+const signingInProgress = new Set<string>();
+
+const TOKEN_ERRORS: { [status in Exclude<RemoteSignatureCheck['status'], 'ok'>]: { message: string; httpStatus: number } } = {
+  invalid: { message: 'Link de assinatura inválido', httpStatus: 404 },
+  expired: { message: 'Este link de assinatura expirou. Peça ao responsável pela inspeção que envie um novo.', httpStatus: 410 },
+  used: { message: 'Este link já foi usado e o relatório já está assinado.', httpStatus: 410 },
+};
+
+async function loadPendingReport(id: string, token: string): Promise<{ report: StoredReport; check: RemoteSignatureCheck & { status: 'ok' } } | NextResponse> {
+  const check = await checkRemoteSignatureToken(id, token);
+  if (check.status !== 'ok') {
+    const { message, httpStatus } = TOKEN_ERRORS[check.status];
+    return NextResponse.json({ error: message }, { status: httpStatus });
+  }
+
+  const report = await loadStoredReport(id);
+  if (!report) {
+    return NextResponse.json({ error: TOKEN_ERRORS.invalid.message }, { status: 404 });
+  }
+  if (report.signatureUrls.signature2 !== SIGNATURE_PENDING) {
+    return NextResponse.json({ error: TOKEN_ERRORS.used.message }, { status: 410 });
+  }
+  return { report, check };
+}
+
+/**
+ * Relatório (somente leitura) para o responsável da unidade revisar antes de assinar
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+
+  try {
+    const result = await loadPendingReport(id, request.nextUrl.searchParams.get('token') || '');
+    if (result instanceof NextResponse) return result;
+
+    const { inspectionId, submittedAt, payload, signatureUrls, evidenceUrls } = result.report;
+    const response: RemoteSignatureReportResponse = {
+      report: { inspectionId, submittedAt, payload, signatureUrls, evidenceUrls },
+      expiresAt: result.check.request.expiresAt,
+    };
+    return NextResponse.json(response);
+  } catch (error) {
+    const message = getStorageErrorMessage(error);
+    console.error(`❌ Erro ao abrir a assinatura remota de ${id}:`, message);
+    return NextResponse.json({ error: 'Não foi possível carregar o relatório. Tente novamente.' }, { status: 500 });
+  }
+}
+
+/**
+ * Recebe a assinatura: grava a imagem, atualiza o relatório guardado e as linhas da planilha
+ * e reenvia o PDF final. Planilha e e-mail são complementares; falhas neles não invalidam a assinatura
+ * e entram na fila de reenvio do servidor.
+ */
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Corpo da requisição não é um JSON válido' }, { status: 400 });
+  }
+
+  const validation = validateRemoteSignature(body);
+  if (!validation.success) {
+    return NextResponse.json({ error: validation.errors[0].message, fieldErrors: validation.errors }, { status: 400 });
+  }
+  const { token, assinatura } = validation.data;
+  if (isSignatureBlank(assinatura)) {
+    return NextResponse.json({ error: 'Assinatura em branco ou curta demais. Assine no quadro antes de enviar.' }, { status: 400 });
+  }
+
+  if (signingInProgress.has(id)) {
+    return NextResponse.json({ error: 'A assinatura deste relatório já está sendo registrada' }, { status: 409 });
+  }
+  signingInProgress.add(id);
+
+  try {
+    const result = await loadPendingReport(id, token);
+    if (result instanceof NextResponse) return result;
+    const { report, check } = result;
+
+    // Assinatura gravada junto das demais do relatório, com o ID da inspeção como lote
+    const backend = getStorageBackend();
+    const key = buildUploadKey('assinatura', id, REMOTE_SIGNATURE_FILE_ID, 'image/png');
+    const image = Buffer.from(assinatura.substring(assinatura.indexOf(',') + 1), 'base64');
+    const url = await backend.upload(key, image, 'image/png');
+
+    const signedReport: StoredReport = {
+      ...report,
+      payload: { ...report.payload, signatures: { ...report.payload.signatures, responsavelUnidade: key } },
+      signatureUrls: { ...report.signatureUrls, signature2: url },
+    };
+    // Novo selo com a assinatura da unidade; o hash anterior deixa de valer para esta versão do relatório
+    const signer: ReportSigner = {
+      role: 'responsavelUnidade',
+      name: report.payload.headerData.encarregado,
+      email: check.request.email,
+      signedAt: new Date().toISOString(),
+      ...readClientInfo(request.headers),
+      imageSha256: sha256Hex(image),
+    };
+    signedReport.integrity = sealReport(signedReport, [...(report.integrity?.signers || []), signer]);
+    await saveStoredReport(signedReport);
+    const signedRequest = await markRemoteSignatureSigned(check.request);
+    console.log(`✍️ Relatório ${id} assinado remotamente (${signedRequest.email}) em ${signedRequest.signedAt}`);
+
+    const origin = request.nextUrl.origin;
+    let sheetsUpdated = false;
+    let sheetsError = 'Linhas da inspeção não encontradas na planilha';
+    try {
+      sheetsUpdated = (await updateUnitSignatureCell(id, `=HYPERLINK("${url}"; "Ver Assinatura")`)) > 0;
+    } catch (error) {
+      sheetsError = getStorageErrorMessage(error);
+    }
+    if (!sheetsUpdated) {
+      console.error(`⚠️ Não foi possível atualizar a planilha de ${id}, agendando nova tentativa:`, sheetsError);
+      await enqueueRetry(id, 'planilhaAssinatura', sheetsError, origin);
+    }
+
+    let email: EmailReport | null = null;
+    let emailError = 'Nenhum destinatário aceitou o e-mail';
+    try {
+      const pdfBuffer = await renderStoredReportPdf(signedReport, origin, 'assinatura');
+      email = await sendEmailWithPDF(signedReport.payload.headerData, pdfBuffer, id, signedReportEmailOptions(id, signedRequest.email));
+    } catch (error) {
+      emailError = getStorageErrorMessage(error);
+    }
+    if (!email?.sent) {
+      console.error(`⚠️ Não foi possível reenviar o PDF final de ${id}, agendando novo envio:`, emailError);
+      await enqueueRetry(id, 'emailAssinado', emailError, origin);
+    }
+
+    return NextResponse.json({ message: 'Assinatura registrada', sheetsUpdated, email });
+  } catch (error) {
+    const message = getStorageErrorMessage(error);
+    console.error(`❌ Erro ao registrar a assinatura remota de ${id}:`, message);
+    return NextResponse.json({ error: 'Não foi possível registrar a assinatura. Tente novamente.' }, { status: 500 });
+  } finally {
+    signingInProgress.delete(id);
+  }
+}
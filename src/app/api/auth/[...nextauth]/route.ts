@@ -0,0 +1,9 @@
+import NextAuth from 'next-auth';
+import { authOptions } from '@/lib/auth/options';
+
+/**
+ * Rotas do next-auth: login, callback do OIDC, sessão e logout
+ */
+const handler = NextAuth(authOptions);
+
+export { handler as GET, handler as POST };
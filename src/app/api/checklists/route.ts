@@ -0,0 +1,14 @@
+import { NextResponse } from 'next/server';
+import { listChecklistTemplates } from '@/lib/checklists/templates';
+import { ChecklistTemplateListResponse } from '@/lib/validation/checklistSchema';
+
+/**
+ * Modelos de checklist disponíveis para a etapa 1 do formulário
+ */
+export async function GET() {
+  const templates = await listChecklistTemplates();
+  console.log(`📋 ${templates.length} modelo(s) de checklist disponíveis`);
+
+  const response: ChecklistTemplateListResponse = { templates };
+  return NextResponse.json(response);
+}
@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser, unauthorizedResponse } from '@/lib/auth/session';
+import { formatSubmitter } from '@/lib/auth/submitter';
+import { getStorageBackend, getStorageErrorMessage } from '@/lib/storage';
+import { loadUploadBatch } from '@/lib/reports/batches';
+import { loadUploadedImage } from '@/lib/reports/images';
+import { appendActionUpdate, getInspectionActions } from '@/lib/sheets/actions';
+import { validateActionUpdate } from '@/lib/validation/actionSchema';
+import { ALLOWED_PHOTO_MIME_TYPES, FieldError } from '@/lib/validation/submitSchema';
+import { ActionUpdate } from '@/types/actions';
+
+/**
+ * Registra uma atualização da ação corretiva de um item: nova situação, comentário, conclusão e fotos de fechamento.
+ * As fotos são enviadas antes por /api/uploads, num lote aberto pelo próprio usuário.
+ */
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string; item: string }> }) {
+  const { id, item: itemParam } = await params;
+  const item = Number(itemParam);
+
+  const user = await getCurrentUser();
+  if (!user) return unauthorizedResponse();
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Corpo da requisição não é um JSON válido' }, { status: 400 });
+  }
+
+  const validation = validateActionUpdate(body);
+  if (!validation.success) {
+    console.log('❌ Atualização de ação inválida:', validation.errors);
+    return NextResponse.json({ error: 'Dados inválidos', fieldErrors: validation.errors }, { status: 400 });
+  }
+  const input = validation.data;
+
+  try {
+    const actions = await getInspectionActions(id);
+    const action = actions.find(candidate => candidate.item === item);
+    if (!action) {
+      return NextResponse.json({ error: 'Item de inspeção não encontrado ou sem ação corretiva' }, { status: 404 });
+    }
+
+    // Fotos de fechamento: precisam estar num lote aberto por quem registra e existir no armazenamento
+    const backend = getStorageBackend();
+    const fieldErrors: FieldError[] = [];
+    const fotos = await Promise.all(input.fotos.map(async (foto, index) => {
+      const path = `fotos.${index}.imagem`;
+      const batch = await loadUploadBatch(foto.imagem.split('/')[1]);
+      if (batch?.enviadoPor !== formatSubmitter(user)) {
+        fieldErrors.push({ path, message: 'Foto não enviada por este usuário' });
+        return null;
+      }
+      const result = await loadUploadedImage(backend, foto.imagem, ALLOWED_PHOTO_MIME_TYPES);
+      if (result.status !== 'ok') {
+        fieldErrors.push({ path, message: result.status === 'missing' ? 'Arquivo não encontrado no armazenamento' : result.error });
+        return null;
+      }
+      return { url: result.image.url, legenda: foto.legenda };
+    }));
+    if (fieldErrors.length > 0) {
+      return NextResponse.json({ error: 'Fotos de fechamento inválidas', fieldErrors }, { status: 400 });
+    }
+
+    const update: ActionUpdate = {
+      registradoEm: new Date().toISOString(),
+      status: input.status,
+      comentario: input.comentario,
+      conclusao: input.conclusao,
+      // Quem registra é o usuário logado
+      autor: user.nome,
+      fotos: fotos.filter(foto => foto !== null),
+    };
+    await appendActionUpdate(id, item, update);
+
+    const updated = (await getInspectionActions(id)).find(candidate => candidate.item === item);
+    return NextResponse.json({ message: 'Ação atualizada', action: updated });
+  } catch (error) {
+    const message = getStorageErrorMessage(error);
+    console.error(`❌ Erro ao atualizar a ação ${id} #${item}:`, message);
+    return NextResponse.json({ error: `Não foi possível atualizar a ação: ${message}` }, { status: 500 });
+  }
+}
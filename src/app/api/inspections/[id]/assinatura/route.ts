@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getStorageErrorMessage } from '@/lib/storage';
+import { loadStoredReport } from '@/lib/reports/store';
+import { sendRemoteSignatureLink } from '@/lib/reports/remoteSignature';
+import { SIGNATURE_PENDING } from '@/lib/validation/submitSchema';
+
+/**
+ * Reenvia o link de assinatura remota ao responsável da unidade (link expirado ou e-mail perdido).
+ * O novo link substitui o anterior, que deixa de valer.
+ */
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+
+  try {
+    const report = await loadStoredReport(id);
+    const email = report?.payload.signatures.responsavelUnidadeEmail;
+    if (!report || !email) {
+      return NextResponse.json({ error: 'Esta inspeção não tem assinatura remota solicitada' }, { status: 404 });
+    }
+    if (report.signatureUrls.signature2 !== SIGNATURE_PENDING) {
+      return NextResponse.json({ error: 'O responsável da unidade já assinou este relatório' }, { status: 409 });
+    }
+
+    console.log(`📧 Reenviando o link de assinatura de ${id}...`);
+    const result = await sendRemoteSignatureLink(report.payload.headerData, id, email, request.nextUrl.origin);
+    if (!result.sent) {
+      return NextResponse.json({ error: 'O e-mail com o link não foi aceito', remoteSignature: result }, { status: 502 });
+    }
+    return NextResponse.json({ message: 'Link de assinatura reenviado', remoteSignature: result });
+  } catch (error) {
+    const message = getStorageErrorMessage(error);
+    console.error(`❌ Erro ao reenviar o link de assinatura de ${id}:`, message);
+    return NextResponse.json({ error: `Não foi possível reenviar o link: ${message}` }, { status: 500 });
+  }
+}
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getStorageErrorMessage } from '@/lib/storage';
+import { sendEmailWithPDF } from '@/lib/email/report';
+import { loadStoredReport } from '@/lib/reports/store';
+import { renderStoredReportPdf } from '@/lib/reports/pdf';
+
+/**
+ * Reenvia o e-mail do relatório com um PDF gerado novamente, aos mesmos destinatários do envio original
+ */
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+
+  try {
+    const report = await loadStoredReport(id);
+    if (!report) {
+      return NextResponse.json({ error: 'Relatório não disponível para esta inspeção' }, { status: 404 });
+    }
+
+    console.log(`📧 Reenviando o relatório ${id}...`);
+    const pdfBuffer = await renderStoredReportPdf(report, request.nextUrl.origin);
+    const email = await sendEmailWithPDF(report.payload.headerData, pdfBuffer, id);
+
+    if (!email.sent) {
+      return NextResponse.json({ error: 'Nenhum destinatário aceitou o e-mail', email }, { status: 502 });
+    }
+    return NextResponse.json({ message: 'E-mail reenviado', email });
+  } catch (error) {
+    const message = getStorageErrorMessage(error);
+    console.error(`❌ Erro ao reenviar o relatório ${id}:`, message);
+    return NextResponse.json({ error: `Não foi possível reenviar o e-mail: ${message}` }, { status: 500 });
+  }
+}
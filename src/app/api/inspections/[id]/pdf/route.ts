@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getStorageErrorMessage } from '@/lib/storage';
+import { loadStoredReport } from '@/lib/reports/store';
+import { renderStoredReportPdf } from '@/lib/reports/pdf';
+
+/**
+ * Gera novamente o PDF de uma inspeção a partir do relatório guardado no envio
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+
+  try {
+    const report = await loadStoredReport(id);
+    if (!report) {
+      return NextResponse.json({ error: 'Relatório não disponível para esta inspeção' }, { status: 404 });
+    }
+
+    console.log(`📄 Gerando novamente o PDF de ${id}...`);
+    const pdfBuffer = await renderStoredReportPdf(report, request.nextUrl.origin);
+
+    return new NextResponse(new Uint8Array(pdfBuffer), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `inline; filename="relatorio_inspecao_${id}.pdf"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    const message = getStorageErrorMessage(error);
+    console.error(`❌ Erro ao gerar o PDF de ${id}:`, message);
+    return NextResponse.json({ error: `Não foi possível gerar o PDF: ${message}` }, { status: 500 });
+  }
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getInspectionActions } from '@/lib/sheets/actions';
+import { getInspectionRecord } from '@/lib/sheets/inspections';
+import { getStorageErrorMessage } from '@/lib/storage';
+import { loadStoredReport } from '@/lib/reports/store';
+import { RemoteSignatureStatus, loadRemoteSignatureRequest, toRemoteSignatureStatus } from '@/lib/reports/remoteSignature';
+import { TrackedAction } from '@/types/actions';
+import { InspectionDetailResponse, InspectionRecord } from '@/types/history';
+
+/**
+ * Detalhe de uma inspeção: o relatório guardado no envio (dados completos, fotos e assinaturas)
+ * o registro da planilha e a situação das ações corretivas. Inspeções antigas, enviadas antes de os relatórios serem guardados, têm só o registro.
+ */
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+
+  let report: InspectionDetailResponse['report'] = null;
+  let remoteSignature: RemoteSignatureStatus | null = null;
+  try {
+    report = await loadStoredReport(id);
+    if (report?.payload.signatures.responsavelUnidadeEmail) {
+      const request = await loadRemoteSignatureRequest(id);
+      remoteSignature = request && toRemoteSignatureStatus(request);
+    }
+  } catch (error) {
+    console.error(`⚠️ Erro ao ler o relatório ${id}:`, getStorageErrorMessage(error));
+  }
+
+  // A planilha é complementar quando há relatório guardado; sem ele, é a única fonte
+  let record: InspectionRecord | null = null;
+  let actions: TrackedAction[] = [];
+  try {
+    record = await getInspectionRecord(id);
+    actions = await getInspectionActions(id);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Erro desconhecido';
+    console.error('❌ Erro ao ler o histórico de inspeções:', message);
+    if (!report) {
+      return NextResponse.json({ error: `Não foi possível ler o histórico: ${message}` }, { status: 500 });
+    }
+  }
+
+  if (!report && !record) {
+    return NextResponse.json({ error: 'Inspeção não encontrada' }, { status: 404 });
+  }
+
+  const response: InspectionDetailResponse = { report, record, actions, remoteSignature };
+  return NextResponse.json(response);
+}
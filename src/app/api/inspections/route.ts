@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { filterInspections, listInspectionRecords, toInspectionSummary } from '@/lib/sheets/inspections';
+import { InspectionFilters, InspectionListResponse, InspectionRecord } from '@/types/history';
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const distinctValues = (records: InspectionRecord[], field: 'unidade' | 'departamento' | 'local') =>
+  [...new Set(records.map(record => record[field]).filter(Boolean))].sort((a, b) => a.localeCompare(b, 'pt-BR'));
+
+const positiveInt = (value: string | null, fallback: number) => {
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+/**
+ * Lista as inspeções registradas na planilha, com filtros e paginação.
+ * Parâmetros: unidade, departamento, local, de, ate (AAAA-MM-DD), q (busca livre), page, pageSize.
+ */
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const text = (name: string) => params.get(name)?.trim() || undefined;
+
+  const filters: InspectionFilters = {
+    unidade: text('unidade'),
+    departamento: text('departamento'),
+    local: text('local'),
+    de: text('de'),
+    ate: text('ate'),
+    q: text('q'),
+  };
+  for (const name of ['de', 'ate'] as const) {
+    if (filters[name] && !DATE_PATTERN.test(filters[name]!)) {
+      return NextResponse.json({ error: `Parâmetro "${name}" inválido (use AAAA-MM-DD)` }, { status: 400 });
+    }
+  }
+
+  const pageSize = Math.min(positiveInt(params.get('pageSize'), DEFAULT_PAGE_SIZE), MAX_PAGE_SIZE);
+  const page = positiveInt(params.get('page'), 1);
+
+  try {
+    const records = await listInspectionRecords();
+    const filtered = filterInspections(records, filters);
+
+    const response: InspectionListResponse = {
+      inspections: filtered.slice((page - 1) * pageSize, page * pageSize).map(toInspectionSummary),
+      total: filtered.length,
+      page,
+      pageSize,
+      options: {
+        unidades: distinctValues(records, 'unidade'),
+        departamentos: distinctValues(records, 'departamento'),
+        locais: distinctValues(records, 'local'),
+      },
+    };
+    return NextResponse.json(response);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Erro desconhecido';
+    console.error('❌ Erro ao ler o histórico de inspeções:', message);
+    return NextResponse.json({ error: `Não foi possível ler o histórico: ${message}` }, { status: 500 });
+  }
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createHash, timingSafeEqual } from 'crypto';
+import { DEFAULT_REMINDER_DAYS_AHEAD, sendActionReminders } from '@/lib/email/reminders';
+
+const MAX_DAYS_AHEAD = 90;
+
+/**
+ * Compara o token recebido com REMINDERS_SECRET sem vazar o tamanho ou o conteúdo pelo tempo de resposta
+ */
+function isAuthorized(request: NextRequest, secret: string): boolean {
+  const token = request.headers.get('authorization')?.replace(/^Bearer\s+/i, '') || '';
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(token), digest(secret));
+}
+
+/**
+ * Envia os lembretes de prazo das ações corretivas; feito para ser chamado por um agendador (cron).
+ * Exige "Authorization: Bearer <REMINDERS_SECRET>". Parâmetros: dias (padrão REMINDER_DAYS_AHEAD ou 7) e simular=1.
+ */
+export async function POST(request: NextRequest) {
+  const secret = process.env.REMINDERS_SECRET;
+  if (!secret) {
+    console.log('⚠️ REMINDERS_SECRET não definida; lembretes desativados');
+    return NextResponse.json({ error: 'Lembretes desativados: defina REMINDERS_SECRET' }, { status: 503 });
+  }
+  if (!isAuthorized(request, secret)) {
+    return NextResponse.json({ error: 'Não autorizado' }, { status: 401 });
+  }
+
+  const params = request.nextUrl.searchParams;
+  const daysParam = params.get('dias') ?? process.env.REMINDER_DAYS_AHEAD;
+  const daysAhead = daysParam === undefined || daysParam === '' ? DEFAULT_REMINDER_DAYS_AHEAD : Number(daysParam);
+  if (!Number.isInteger(daysAhead) || daysAhead < 0 || daysAhead > MAX_DAYS_AHEAD) {
+    return NextResponse.json({ error: `Parâmetro "dias" inválido (inteiro de 0 a ${MAX_DAYS_AHEAD})` }, { status: 400 });
+  }
+  const dryRun = params.get('simular') === '1';
+
+  try {
+    const result = await sendActionReminders({ daysAhead, dryRun });
+    return NextResponse.json(result);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Erro desconhecido';
+    console.error('❌ Erro ao enviar os lembretes de prazo:', message);
+    return NextResponse.json({ error: `Não foi possível enviar os lembretes: ${message}` }, { status: 500 });
+  }
+}
@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { getLocalStorageDir } from '@/lib/storage';
+import { getLocalContentType, resolveLocalPath, writeLocalChunk } from '@/lib/storage/local';
+import { verifyUploadToken } from '@/lib/storage/uploadToken';
+import { STORED_REPORTS_PREFIX } from '@/lib/reports/store';
+
+const isLocalStorage = () => (process.env.STORAGE_BACKEND || 'gcs').toLowerCase() === 'local';
+
+// Cada segmento já vem decodificado pelo Next: um "%2F" ou "%2E%2E" viraria separador ou diretório acima
+const isValidKeySegment = (segment: string) => segment !== '' && segment !== '.' && segment !== '..' && !/[/\\]/.test(segment);
+
+// Serve os arquivos gravados pelo backend de armazenamento local (STORAGE_BACKEND=local)
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ key: string[] }> }) {
+  if (!isLocalStorage()) {
+    return NextResponse.json({ error: 'Armazenamento local desativado' }, { status: 404 });
+  }
+
+  const { key } = await params;
+  const rootDir = getLocalStorageDir();
+  const filePath = key.every(isValidKeySegment) ? resolveLocalPath(rootDir, key.join('/')) : null;
+  if (!filePath) {
+    return NextResponse.json({ error: 'Caminho inválido' }, { status: 400 });
+  }
+  // Relatórios guardados (JSON com todos os dados da inspeção) só saem pelas rotas de /api/inspections;
+  // a comparação é feita no caminho já resolvido, para nenhuma chave chegar a eles por outro diretório
+  const privateDir = path.resolve(rootDir, STORED_REPORTS_PREFIX);
+  if (filePath === privateDir || filePath.startsWith(privateDir + path.sep)) {
+    return NextResponse.json({ error: 'Arquivo não encontrado' }, { status: 404 });
+  }
+
+  try {
+    const data = await fs.readFile(filePath);
+    return new NextResponse(new Uint8Array(data), {
+      status: 200,
+      headers: {
+        'Content-Type': getLocalContentType(filePath),
+        'Cache-Control': 'public, max-age=31536000, immutable',
+      },
+    });
+  } catch {
+    return NextResponse.json({ error: 'Arquivo não encontrado' }, { status: 404 });
+  }
+}
+
+/**
+ * Recebe envios diretos do navegador (URLs geradas por /api/uploads), inteiros ou em partes com Content-Range.
+ * Responde com os bytes já recebidos; 409 indica que o cliente deve retomar a partir desse ponto.
+ */
+export async function PUT(request: NextRequest, { params }: { params: Promise<{ key: string[] }> }) {
+  if (!isLocalStorage()) {
+    return NextResponse.json({ error: 'Armazenamento local desativado' }, { status: 404 });
+  }
+
+  const { key: segments } = await params;
+  if (!segments.every(isValidKeySegment)) {
+    return NextResponse.json({ error: 'Caminho inválido' }, { status: 400 });
+  }
+  const key = segments.join('/');
+  const grant = verifyUploadToken(request.nextUrl.searchParams.get('token') || '', key);
+  if (!grant) {
+    return NextResponse.json({ error: 'URL de envio inválida ou expirada' }, { status: 403 });
+  }
+  if (request.headers.get('content-type') !== grant.contentType) {
+    return NextResponse.json({ error: `Tipo de arquivo diferente do autorizado (${grant.contentType})` }, { status: 400 });
+  }
+
+  const filePath = resolveLocalPath(getLocalStorageDir(), key);
+  if (!filePath) {
+    return NextResponse.json({ error: 'Caminho inválido' }, { status: 400 });
+  }
+
+  // Sem Content-Range, o corpo é o arquivo inteiro
+  let start = 0;
+  const contentRange = request.headers.get('content-range');
+  if (contentRange) {
+    const match = /^bytes (\d+)-(\d+)\/(\d+)$/.exec(contentRange);
+    if (!match || Number(match[3]) !== grant.size) {
+      return NextResponse.json({ error: 'Content-Range inválido' }, { status: 400 });
+    }
+    start = Number(match[1]);
+  }
+
+  const data = Buffer.from(await request.arrayBuffer());
+  if (contentRange ? start + data.length > grant.size : data.length !== grant.size) {
+    return NextResponse.json({ error: 'Tamanho diferente do autorizado' }, { status: 400 });
+  }
+
+  try {
+    const received = await writeLocalChunk(filePath, start, data, grant.size);
+    const accepted = received === start + data.length;
+    return NextResponse.json({ received, complete: received === grant.size }, { status: accepted ? 200 : 409 });
+  } catch (error) {
+    console.error('❌ Erro ao gravar envio local:', error);
+    return NextResponse.json({ error: 'Falha ao gravar o arquivo' }, { status: 500 });
+  }
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getStorageErrorMessage } from '@/lib/storage';
+import { loadSubmitJob, startSubmitWorker, toSubmitJobView } from '@/lib/reports/jobs';
+import { getCurrentUser, unauthorizedResponse } from '@/lib/auth/session';
+import { formatSubmitter } from '@/lib/auth/submitter';
+
+/**
+ * Andamento de um envio aceito por POST /api/submit: situação, etapas e, ao terminar, o resultado ou o erro.
+ * Só quem enviou consulta; para os demais o processamento não existe.
+ */
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ jobId: string }> }) {
+  const { jobId } = await params;
+
+  const user = await getCurrentUser();
+  if (!user) return unauthorizedResponse();
+  // O aparelho pode voltar a consultar depois de um reinício sem fazer outro envio
+  startSubmitWorker();
+
+  try {
+    const job = await loadSubmitJob(jobId);
+    if (!job || job.enviadoPor !== formatSubmitter(user)) {
+      return NextResponse.json({ error: 'Envio não encontrado' }, { status: 404 });
+    }
+    return NextResponse.json(toSubmitJobView(job), { headers: { 'Cache-Control': 'no-store' } });
+  } catch (error) {
+    const message = getStorageErrorMessage(error);
+    console.error(`❌ Erro ao consultar o envio ${jobId}:`, message);
+    return NextResponse.json({ error: `Não foi possível consultar o envio: ${message}` }, { status: 500 });
+  }
+}
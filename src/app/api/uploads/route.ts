@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { StorageBackend, getStorageBackend, getStorageErrorMessage } from '@/lib/storage';
+import { buildUploadKey } from '@/lib/validation/submitSchema';
+import { UploadTargetResponse, uploadRequestSchema } from '@/lib/validation/uploadSchema';
+import { claimUploadBatch } from '@/lib/reports/batches';
+import { getCurrentUser, unauthorizedResponse } from '@/lib/auth/session';
+import { formatSubmitter } from '@/lib/auth/submitter';
+
+/**
+ * Gera URLs de curta duração para o navegador enviar fotos e assinaturas direto ao armazenamento.
+ * O relatório enviado depois a /api/submit referencia os arquivos pelas chaves devolvidas aqui.
+ * O lote fica com o usuário que o abriu, e as URLs só criam objetos novos: nenhum arquivo já gravado é substituído.
+ */
+export async function POST(request: NextRequest) {
+  const user = await getCurrentUser();
+  if (!user) return unauthorizedResponse();
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Corpo da requisição não é um JSON válido' }, { status: 400 });
+  }
+
+  const parsed = uploadRequestSchema.safeParse(body);
+  if (!parsed.success) {
+    const fieldErrors = parsed.error.issues.map(issue => ({
+      path: issue.path.map(String).join('.') || '(corpo)',
+      message: issue.message,
+    }));
+    console.log('❌ Pedido de envio inválido:', fieldErrors);
+    return NextResponse.json({ error: 'Pedido de envio inválido', fieldErrors }, { status: 400 });
+  }
+
+  let backend: StorageBackend;
+  try {
+    backend = getStorageBackend();
+  } catch (error) {
+    const message = getStorageErrorMessage(error);
+    console.error(`⚠️ ${message}`);
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+
+  const { batchId, files } = parsed.data;
+  console.log(`🔑 Gerando ${files.length} URL(s) de envio (${backend.name}) para ${batchId}`);
+
+  try {
+    if (!(await claimUploadBatch(batchId, formatSubmitter(user)))) {
+      console.log(`🔒 Lote de envio ${batchId} pertence a outro usuário`);
+      return NextResponse.json({ error: 'Lote de envio pertence a outro usuário' }, { status: 403 });
+    }
+
+    const uploads: UploadTargetResponse[] = await Promise.all(
+      files.map(async (file) => {
+        const key = buildUploadKey(file.kind, batchId, file.id, file.contentType);
+        const target = await backend.createUploadTarget(key, file.contentType, file.size);
+        return { id: file.id, key, ...target };
+      })
+    );
+    return NextResponse.json({ uploads });
+  } catch (error) {
+    const message = getStorageErrorMessage(error);
+    console.error('❌ Erro ao gerar URLs de envio:', message);
+    return NextResponse.json({ error: `Não foi possível preparar o envio: ${message}` }, { status: 500 });
+  }
+}
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getStorageErrorMessage } from '@/lib/storage';
+import { findIssuedPdf, formatVerificationCode, sha256Hex, verifyStoredReport } from '@/lib/reports/integrity';
+import { loadStoredReport } from '@/lib/reports/store';
+import { SIGNATURE_PENDING } from '@/lib/validation/submitSchema';
+import { PdfVerificationResponse, ReportVerificationResponse } from '@/types/history';
+
+// Verificação pública (fora do login), aberta pelo QR code do PDF: só expõe o resumo do relatório e o resultado da conferência
+
+const MAX_PDF_BYTES = 25 * 1024 * 1024;
+
+const NOT_FOUND_MESSAGE = 'Relatório não encontrado';
+
+/**
+ * Confere se o relatório guardado e as imagens de assinatura ainda correspondem ao hash registrado
+ */
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+
+  try {
+    const report = await loadStoredReport(id);
+    if (!report) {
+      return NextResponse.json({ error: NOT_FOUND_MESSAGE }, { status: 404 });
+    }
+
+    const verification = await verifyStoredReport(report);
+    console.log(`🔎 Verificação de ${id}: ${verification.status}`);
+
+    const { headerData } = report.payload;
+    const response: ReportVerificationResponse = {
+      inspectionId: report.inspectionId,
+      submittedAt: report.submittedAt,
+      unidade: headerData.unidade,
+      local: headerData.local,
+      data: headerData.data,
+      status: verification.status,
+      sealedHash: verification.sealedHash,
+      verificationCode: verification.sealedHash ? formatVerificationCode(verification.sealedHash) : null,
+      alteredSignatures: verification.alteredSignatures,
+      signers: (report.integrity?.signers || []).map(({ role, name, signedAt }) => ({ role, name, signedAt })),
+      signaturePending: report.signatureUrls.signature2 === SIGNATURE_PENDING,
+    };
+    return NextResponse.json(response, { headers: { 'Cache-Control': 'no-store' } });
+  } catch (error) {
+    const message = getStorageErrorMessage(error);
+    console.error(`❌ Erro ao verificar o relatório ${id}:`, message);
+    return NextResponse.json({ error: 'Não foi possível verificar o relatório. Tente novamente.' }, { status: 500 });
+  }
+}
+
+/**
+ * Recebe um PDF (corpo da requisição, application/pdf) e diz se ele é idêntico a um PDF emitido pelo sistema para o relatório
+ */
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+
+  if (Number(request.headers.get('content-length') || 0) > MAX_PDF_BYTES) {
+    return NextResponse.json({ error: `Arquivo maior que ${MAX_PDF_BYTES / 1024 / 1024} MB` }, { status: 413 });
+  }
+
+  const data = Buffer.from(await request.arrayBuffer());
+  if (data.length > MAX_PDF_BYTES) {
+    return NextResponse.json({ error: `Arquivo maior que ${MAX_PDF_BYTES / 1024 / 1024} MB` }, { status: 413 });
+  }
+  if (data.subarray(0, 5).toString('latin1') !== '%PDF-') {
+    return NextResponse.json({ error: 'O arquivo enviado não é um PDF' }, { status: 400 });
+  }
+
+  try {
+    const report = await loadStoredReport(id);
+    if (!report) {
+      return NextResponse.json({ error: NOT_FOUND_MESSAGE }, { status: 404 });
+    }
+
+    const sha256 = sha256Hex(data);
+    const issued = await findIssuedPdf(id, sha256);
+    const response: PdfVerificationResponse = {
+      result: !issued ? 'unknown' : issued.reportHash === report.integrity?.hash ? 'current' : 'previous',
+      sha256,
+      issuedAt: issued?.issuedAt || null,
+    };
+    console.log(`🔎 PDF conferido para ${id}: ${response.result}`);
+    return NextResponse.json(response);
+  } catch (error) {
+    const message = getStorageErrorMessage(error);
+    console.error(`❌ Erro ao conferir o PDF de ${id}:`, message);
+    return NextResponse.json({ error: 'Não foi possível conferir o PDF. Tente novamente.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,289 @@
+"use client";
+
+import { ReactNode, Suspense, useEffect, useState } from 'react';
+import { useParams, useSearchParams } from 'next/navigation';
+import { AlertTriangle, CheckCircle, Loader2, PenLine } from 'lucide-react';
+import SignaturePad from '@/components/SignaturePad';
+import { FINDING_TYPE_COLORS, FINDING_TYPE_LABELS, RISK_LEVEL_INFO, assessRisk, formatRisk } from '@/lib/risk/matrix';
+import { CHECKLIST_ANSWER_COLORS, CHECKLIST_ANSWER_LABELS, formatChecklistRef } from '@/lib/validation/checklistSchema';
+import { NOT_SIGNED } from '@/lib/validation/submitSchema';
+import { RemoteSignatureReportResponse } from '@/types/history';
+
+type PageState =
+  | { status: 'loading' }
+  | { status: 'error'; error: string }
+  | { status: 'ready'; data: RemoteSignatureReportResponse }
+  | { status: 'signed'; emailSent: boolean };
+
+const formatDate = (value: string) => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  return match ? `${match[3]}/${match[2]}/${match[1]}` : value || '-';
+};
+
+const formatDateTime = (value: string) => {
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? value : date.toLocaleString('pt-BR', { dateStyle: 'short', timeStyle: 'short' });
+};
+
+type SectionProps = {
+  title: string;
+  children: ReactNode;
+};
+
+const Section = ({ title, children }: SectionProps) => (
+  <section className="bg-gray-800 rounded-lg p-4 md:p-6">
+    <h2 className="text-lg font-semibold text-amber-500 mb-4">{title}</h2>
+    {children}
+  </section>
+);
+
+type LabeledTextProps = {
+  label: string;
+  value: string;
+};
+
+const LabeledText = ({ label, value }: LabeledTextProps) => (
+  value ? (
+    <div>
+      <p className="text-xs uppercase tracking-wide text-gray-400">{label}</p>
+      <p className="text-sm whitespace-pre-wrap">{value}</p>
+    </div>
+  ) : null
+);
+
+type ReportViewProps = {
+  data: RemoteSignatureReportResponse;
+};
+
+// Relatório somente leitura, na ordem do PDF
+const ReportView = ({ data }: ReportViewProps) => {
+  const { payload, evidenceUrls, signatureUrls } = data.report;
+  const { headerData, checklist, participants, inspectionItems, conclusionData } = payload;
+  const header: [string, string][] = [
+    ['Data', `${formatDate(headerData.data)} às ${headerData.hora}`],
+    ['Unidade', headerData.unidade],
+    ['Local', headerData.local],
+    ['Departamento', headerData.departamento],
+    ['Encarregado', headerData.encarregado],
+    ['Responsável QSMS', headerData.responsavelQSMS],
+    ['Gerente do Contrato', headerData.gerenteContrato],
+    ['Checklist', checklist ? formatChecklistRef(checklist) : ''],
+  ];
+
+  return (
+    <>
+      <Section title="Cabeçalho">
+        <dl className="grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-3">
+          {header.filter(([, value]) => value).map(([label, value]) => (
+            <div key={label}>
+              <dt className="text-xs uppercase tracking-wide text-gray-400">{label}</dt>
+              <dd className="text-sm">{value}</dd>
+            </div>
+          ))}
+        </dl>
+      </Section>
+
+      {participants.length > 0 && (
+        <Section title="Participantes">
+          <ul className="space-y-1 text-sm">
+            {participants.map((participante, index) => (
+              <li key={index}>
+                {participante.nome}
+                {participante.funcao && <span className="text-gray-400"> · {participante.funcao}</span>}
+              </li>
+            ))}
+          </ul>
+        </Section>
+      )}
+
+      <Section title="Itens de Inspeção">
+        {inspectionItems.length === 0 ? (
+          <p className="text-sm text-gray-400">Nenhum item registrado.</p>
+        ) : (
+          <ol className="space-y-4">
+            {inspectionItems.map((item, index) => {
+              const risk = assessRisk(item.probabilidade, item.severidade);
+              const fotos = item.fotos
+                .map((foto, photoIndex) => ({ url: evidenceUrls[index]?.[photoIndex] || '', legenda: foto.legenda }))
+                .filter(foto => foto.url);
+              return (
+                <li key={index} className="bg-gray-700/50 rounded-lg p-4 space-y-3">
+                  <div className="flex items-center justify-between gap-2">
+                    <p className="font-semibold">Item {index + 1}</p>
+                    <div className="flex flex-wrap justify-end gap-2">
+                      {item.resposta ? (
+                        <span className={`text-xs font-semibold px-2 py-1 rounded ${CHECKLIST_ANSWER_COLORS[item.resposta].className}`}>{CHECKLIST_ANSWER_LABELS[item.resposta]}</span>
+                      ) : item.tipoAchado && (
+                        <span className={`text-xs font-semibold px-2 py-1 rounded ${FINDING_TYPE_COLORS[item.tipoAchado].className}`}>{FINDING_TYPE_LABELS[item.tipoAchado]}</span>
+                      )}
+                      {risk && <span className={`text-xs font-semibold px-2 py-1 rounded ${RISK_LEVEL_INFO[risk.level].className}`}>Risco {formatRisk(risk)}</span>}
+                    </div>
+                  </div>
+                  {item.pergunta && <p className="font-semibold">{item.pergunta}</p>}
+                  <LabeledText label="Fato Observado" value={item.fato} />
+                  <LabeledText label="Recomendações" value={item.recomendacoes} />
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                    <LabeledText label="Prazo" value={item.prazo ? formatDate(item.prazo) : ''} />
+                    <LabeledText label="Responsável" value={item.responsavel} />
+                  </div>
+                  <LabeledText label="Conclusão" value={item.conclusao} />
+                  {fotos.length > 0 && (
+                    <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+                      {fotos.map((foto, photoIndex) => (
+                        <figure key={photoIndex} className="bg-gray-800 rounded-lg overflow-hidden">
+                          <a href={foto.url} target="_blank" rel="noopener noreferrer">
+                            {/* eslint-disable-next-line @next/next/no-img-element */}
+                            <img src={foto.url} alt={foto.legenda || `Foto do item ${index + 1} - ${photoIndex + 1}`} className="w-full h-32 object-cover" />
+                          </a>
+                          {foto.legenda && <figcaption className="text-xs text-gray-300 p-2">{foto.legenda}</figcaption>}
+                        </figure>
+                      ))}
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ol>
+        )}
+      </Section>
+
+      <Section title="Conclusão">
+        <p className="text-sm whitespace-pre-wrap">{conclusionData.conclusaoGeral || '-'}</p>
+      </Section>
+
+      <Section title="Assinatura do Responsável pela Inspeção">
+        {signatureUrls.signature1 && signatureUrls.signature1 !== NOT_SIGNED ? (
+          // eslint-disable-next-line @next/next/no-img-element
+          <img src={signatureUrls.signature1} alt="Assinatura do responsável pela inspeção" className="bg-white rounded-lg h-28 w-full md:w-1/2 object-contain" />
+        ) : (
+          <p className="text-sm text-gray-400">{NOT_SIGNED}</p>
+        )}
+        <p className="text-sm mt-2">{headerData.responsavelQSMS}</p>
+      </Section>
+    </>
+  );
+};
+
+function RemoteSignatureForm() {
+  const { id } = useParams<{ id: string }>();
+  const token = useSearchParams().get('token') || '';
+  const [state, setState] = useState<PageState>({ status: 'loading' });
+  const [signature, setSignature] = useState<string | null>(null);
+  const [signatureError, setSignatureError] = useState<string | undefined>();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    fetch(`/api/assinaturas/${encodeURIComponent(id)}?token=${encodeURIComponent(token)}`, { signal: controller.signal })
+      .then(async (response) => {
+        const result = await response.json();
+        if (!response.ok) throw new Error(result.error || `Erro HTTP ${response.status}`);
+        setState({ status: 'ready', data: result });
+      })
+      .catch((err) => {
+        if (controller.signal.aborted) return;
+        setState({ status: 'error', error: err instanceof Error ? err.message : 'Não foi possível carregar o relatório' });
+      });
+    return () => controller.abort();
+  }, [id, token]);
+
+  const handleSign = async () => {
+    if (!signature) {
+      setSignatureError('Assine no quadro antes de enviar');
+      return;
+    }
+    setIsSubmitting(true);
+    setSignatureError(undefined);
+    try {
+      const response = await fetch(`/api/assinaturas/${encodeURIComponent(id)}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token, assinatura: signature }),
+      });
+      const result = await response.json().catch(() => ({}));
+      if (response.status === 400) {
+        setSignatureError(result.error || 'Assinatura inválida');
+      } else if (!response.ok) {
+        setState({ status: 'error', error: result.error || `Erro HTTP ${response.status}` });
+      } else {
+        setState({ status: 'signed', emailSent: Boolean(result.email?.sent) });
+      }
+    } catch {
+      setSignatureError('Sem conexão com o servidor. Tente novamente.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (state.status === 'loading') {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 size={32} className="animate-spin text-amber-500" />
+      </div>
+    );
+  }
+
+  if (state.status === 'error') {
+    return (
+      <div className="flex items-start gap-3 bg-red-900/40 border border-red-700 rounded-lg p-4 text-sm text-red-200">
+        <AlertTriangle size={18} className="shrink-0 mt-0.5" /> {state.error}
+      </div>
+    );
+  }
+
+  if (state.status === 'signed') {
+    return (
+      <div className="flex flex-col items-center text-center py-12">
+        <CheckCircle className="text-green-500 w-24 h-24 mb-4" />
+        <h2 className="text-3xl font-bold mb-2">Relatório Assinado</h2>
+        <p className="text-gray-400">
+          {state.emailSent
+            ? 'Sua assinatura foi registrada e o PDF final foi enviado por e-mail.'
+            : 'Sua assinatura foi registrada. O PDF final será enviado por e-mail em instantes.'}
+        </p>
+      </div>
+    );
+  }
+
+  const { data } = state;
+  return (
+    <div className="space-y-6">
+      <div className="bg-gray-800 rounded-lg p-4 text-sm text-gray-300">
+        Revise o relatório de inspeção <strong>{data.report.inspectionId}</strong>, enviado em {formatDateTime(data.report.submittedAt)}, e assine ao final como Responsável da Unidade.
+        Este link pode ser usado uma única vez e vale até {formatDateTime(data.expiresAt)}.
+      </div>
+
+      <ReportView data={data} />
+
+      <Section title="Sua Assinatura">
+        <div className="space-y-4">
+          <SignaturePad title={`Responsável da Unidade: ${data.report.payload.headerData.encarregado}`} value={signature} onChange={(value) => setSignature(value?.png ?? null)} error={signatureError} />
+          <button
+            type="button"
+            onClick={handleSign}
+            disabled={isSubmitting}
+            className="w-full md:w-auto flex items-center justify-center gap-2 bg-green-600 hover:bg-green-700 text-white font-bold py-3 px-6 rounded-lg disabled:opacity-60"
+          >
+            {isSubmitting ? <Loader2 size={20} className="animate-spin" /> : <PenLine size={20} />} Assinar Relatório
+          </button>
+        </div>
+      </Section>
+    </div>
+  );
+}
+
+// Página pública do link de assinatura remota enviado ao responsável da unidade
+export default function RemoteSignaturePage() {
+  return (
+    <div className="min-h-screen bg-gray-900 text-white font-sans">
+      <header className="bg-gray-800 p-3 md:p-4 shadow-lg">
+        <h1 className="text-sm md:text-xl font-bold text-amber-500 max-w-5xl mx-auto">Assinatura do Relatório de Inspeção</h1>
+      </header>
+      <main className="p-4 md:p-8 max-w-5xl mx-auto">
+        <Suspense fallback={<Loader2 size={32} className="animate-spin text-amber-500 mx-auto" />}>
+          <RemoteSignatureForm />
+        </Suspense>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,487 @@
+"use client";
+
+import { ReactNode, useState } from 'react';
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import { AlertTriangle, ArrowLeft, CheckCircle, ClipboardEdit, FileDown, Loader2, Mail, Send, ShieldCheck } from 'lucide-react';
+import ActionStatusBadge from '@/components/ActionStatusBadge';
+import ActionUpdateForm from '@/components/ActionUpdateForm';
+import UserMenu from '@/components/UserMenu';
+import { SignatureLinkState, useInspectionDetail } from '@/hooks/useInspectionDetail';
+import { FINDING_TYPES, FINDING_TYPE_COLORS, FINDING_TYPE_LABELS, RISK_LEVELS, RISK_LEVEL_INFO, assessRisk, formatRisk } from '@/lib/risk/matrix';
+import { InspectionItem, NOT_SIGNED, SIGNATURE_PENDING } from '@/lib/validation/submitSchema';
+import { ACTION_STATUS_LABELS } from '@/lib/validation/actionSchema';
+import { CHECKLIST_ANSWERS, CHECKLIST_ANSWER_COLORS, CHECKLIST_ANSWER_LABELS, formatChecklistRef } from '@/lib/validation/checklistSchema';
+import { formatSubmitter } from '@/lib/auth/submitter';
+import { formatCoordinates } from '@/lib/geo/location';
+import type { RemoteSignatureStatus } from '@/lib/reports/remoteSignature';
+import { TrackedAction } from '@/types/actions';
+import { InspectionDetailResponse, InspectionRecordItem } from '@/types/history';
+
+const formatDate = (value: string) => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  return match ? `${match[3]}/${match[2]}/${match[1]}` : value || '-';
+};
+
+const formatDateTime = (value: string) => {
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? value : date.toLocaleString('pt-BR', { dateStyle: 'short', timeStyle: 'short' });
+};
+
+interface DetailPhoto {
+  url: string;
+  legenda: string;
+  localizacao?: string;
+  // Foto sem as anotações do inspetor, quando a foto foi anotada
+  originalUrl?: string;
+}
+
+interface DetailBadge {
+  text: string;
+  className: string;
+}
+
+interface DetailItem {
+  // Resposta do checklist (ou tipo de achado) e nível de risco
+  badges: DetailBadge[];
+  pergunta: string;
+  fato: string;
+  recomendacoes: string;
+  prazo: string;
+  responsavel: string;
+  responsavelEmail: string;
+  conclusao: string;
+  fotos: DetailPhoto[];
+  // Texto da coluna de evidências, quando só há o registro da planilha
+  evidencias?: string;
+}
+
+interface InspectionDetailView {
+  header: [string, string][];
+  participantes: { nome: string; funcao: string }[];
+  itens: DetailItem[];
+  conclusaoGeral: string;
+  assinaturas: { titulo: string; url: string | null; pendente: boolean }[];
+}
+
+// Relatórios guardados antes da matriz de risco não têm tipo de achado nem classificação
+const reportItemBadges = (item: InspectionItem): DetailBadge[] => {
+  const badges: DetailBadge[] = [];
+  if (item.resposta) {
+    badges.push({ text: CHECKLIST_ANSWER_LABELS[item.resposta], className: CHECKLIST_ANSWER_COLORS[item.resposta].className });
+  } else if (item.tipoAchado) {
+    badges.push({ text: FINDING_TYPE_LABELS[item.tipoAchado], className: FINDING_TYPE_COLORS[item.tipoAchado].className });
+  }
+  const risk = assessRisk(item.probabilidade, item.severidade);
+  if (risk) {
+    badges.push({ text: `Risco ${formatRisk(risk)}`, className: RISK_LEVEL_INFO[risk.level].className });
+  }
+  return badges;
+};
+
+// Na planilha ficam os rótulos; as cores são recuperadas pelo texto
+const recordItemBadges = (item: InspectionRecordItem): DetailBadge[] => {
+  const badges: DetailBadge[] = [];
+  const answer = CHECKLIST_ANSWERS.find(candidate => CHECKLIST_ANSWER_LABELS[candidate] === item.resposta);
+  const findingType = FINDING_TYPES.find(type => FINDING_TYPE_LABELS[type] === item.tipoAchado);
+  if (item.resposta) {
+    badges.push({ text: item.resposta, className: answer ? CHECKLIST_ANSWER_COLORS[answer].className : 'bg-gray-600 text-white' });
+  } else if (item.tipoAchado) {
+    badges.push({ text: item.tipoAchado, className: findingType ? FINDING_TYPE_COLORS[findingType].className : 'bg-gray-600 text-white' });
+  }
+  const riskLevel = RISK_LEVELS.find(level => item.nivelRisco.startsWith(RISK_LEVEL_INFO[level].label));
+  if (item.nivelRisco) {
+    badges.push({ text: `Risco ${item.nivelRisco}`, className: riskLevel ? RISK_LEVEL_INFO[riskLevel].className : 'bg-gray-600 text-white' });
+  }
+  return badges;
+};
+
+/**
+ * Monta a visualização a partir do relatório guardado no envio ou, para inspeções antigas, do registro da planilha
+ */
+function buildView({ report, record }: InspectionDetailResponse): InspectionDetailView | null {
+  if (report) {
+    const { headerData, checklist, participants, inspectionItems, conclusionData } = report.payload;
+    const signatureUrl = (url: string) => (url && url !== NOT_SIGNED && url !== SIGNATURE_PENDING ? url : null);
+    return {
+      header: [
+        ['Data', `${formatDate(headerData.data)} às ${headerData.hora}`],
+        ['Departamento', headerData.departamento],
+        ['Encarregado', headerData.encarregado],
+        ['Responsável QSMS', headerData.responsavelQSMS],
+        ['Gerente do Contrato', headerData.gerenteContrato],
+        ['Unidade', headerData.unidade],
+        ['Local', headerData.local],
+        // Relatórios guardados antes da localização não têm o campo
+        ['Coordenadas', report.payload.localizacao ? formatCoordinates(report.payload.localizacao) : ''],
+        ['E-mail da Companhia', headerData.emailCompanhia],
+        // Relatórios guardados antes dos modelos de checklist não têm o campo
+        ['Checklist', checklist ? formatChecklistRef(checklist) : ''],
+        ['Enviado por', report.submittedBy ? formatSubmitter(report.submittedBy) : ''],
+      ],
+      participantes: participants,
+      itens: inspectionItems.map((item, index) => ({
+        badges: reportItemBadges(item),
+        pergunta: item.pergunta || '',
+        fato: item.fato,
+        recomendacoes: item.recomendacoes,
+        prazo: item.prazo,
+        responsavel: item.responsavel,
+        // Relatórios guardados antes do campo de e-mail não o têm
+        responsavelEmail: item.responsavelEmail || '',
+        conclusao: item.conclusao,
+        fotos: item.fotos.map((foto, photoIndex) => ({
+          url: report.evidenceUrls[index]?.[photoIndex] || '',
+          legenda: foto.legenda,
+          localizacao: foto.localizacao ? formatCoordinates(foto.localizacao) : '',
+          // Relatórios guardados antes das anotações não têm o campo
+          originalUrl: report.originalEvidenceUrls?.[index]?.[photoIndex] || '',
+        })).filter(foto => foto.url),
+      })),
+      conclusaoGeral: conclusionData.conclusaoGeral,
+      assinaturas: [
+        { titulo: 'Responsável pela Inspeção', url: signatureUrl(report.signatureUrls.signature1), pendente: false },
+        { titulo: 'Responsável pela Unidade', url: signatureUrl(report.signatureUrls.signature2), pendente: report.signatureUrls.signature2 === SIGNATURE_PENDING },
+      ],
+    };
+  }
+
+  if (record) {
+    const nomes = record.participantes.split(',').map(nome => nome.trim()).filter(Boolean);
+    const funcoes = record.funcoes.split(',').map(funcao => funcao.trim());
+    return {
+      header: [
+        ['Data', `${formatDate(record.data)}${record.hora ? ` às ${record.hora}` : ''}`],
+        ['Departamento', record.departamento],
+        ['Encarregado', record.encarregado],
+        ['Responsável QSMS', record.responsavelQSMS],
+        ['Gerente do Contrato', record.gerenteContrato],
+        ['Unidade', record.unidade],
+        ['Local', record.local],
+        ['Coordenadas', record.coordenadas],
+        ['E-mail da Companhia', record.emailCompanhia],
+        ['Checklist', record.checklist],
+        ['Enviado por', record.enviadoPor],
+      ],
+      participantes: nomes.map((nome, index) => ({ nome, funcao: funcoes[index] || '' })),
+      itens: record.itens.map(item => ({ ...item, badges: recordItemBadges(item), fotos: [] })),
+      conclusaoGeral: record.conclusaoGeral,
+      assinaturas: [],
+    };
+  }
+
+  return null;
+}
+
+type SectionProps = {
+  title: string;
+  children: ReactNode;
+};
+
+const Section = ({ title, children }: SectionProps) => (
+  <section className="bg-gray-800 rounded-lg p-4 md:p-6">
+    <h2 className="text-lg font-semibold text-amber-500 mb-4">{title}</h2>
+    {children}
+  </section>
+);
+
+type LabeledTextProps = {
+  label: string;
+  value: string;
+};
+
+const LabeledText = ({ label, value }: LabeledTextProps) => (
+  value ? (
+    <div>
+      <p className="text-xs uppercase tracking-wide text-gray-400">{label}</p>
+      <p className="text-sm whitespace-pre-wrap">{value}</p>
+    </div>
+  ) : null
+);
+
+type PhotoGridProps = {
+  fotos: DetailPhoto[];
+  altPrefix: string;
+};
+
+const PhotoGrid = ({ fotos, altPrefix }: PhotoGridProps) => (
+  <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+    {fotos.map((foto, photoIndex) => (
+      <figure key={photoIndex} className="bg-gray-800 rounded-lg overflow-hidden">
+        <a href={foto.url} target="_blank" rel="noopener noreferrer">
+          {/* eslint-disable-next-line @next/next/no-img-element */}
+          <img src={foto.url} alt={foto.legenda || `${altPrefix} ${photoIndex + 1}`} className="w-full h-32 object-cover" />
+        </a>
+        {(foto.legenda || foto.localizacao || foto.originalUrl) && (
+          <figcaption className="text-xs text-gray-300 p-2">
+            {foto.legenda}
+            {foto.localizacao && <span className="block text-gray-400">{foto.localizacao}</span>}
+            {foto.originalUrl && (
+              <a href={foto.originalUrl} target="_blank" rel="noopener noreferrer" className="block text-amber-500 hover:text-amber-400">
+                Anotada · ver original
+              </a>
+            )}
+          </figcaption>
+        )}
+      </figure>
+    ))}
+  </div>
+);
+
+type ActionTrackingProps = {
+  action: TrackedAction;
+  onUpdated: (action: TrackedAction) => void;
+};
+
+// Situação da ação corretiva do item, histórico de atualizações e formulário para registrar uma nova
+const ActionTracking = ({ action, onUpdated }: ActionTrackingProps) => {
+  const [isEditing, setIsEditing] = useState(false);
+
+  return (
+    <div className="space-y-3">
+      {action.historico.length > 0 && (
+        <div>
+          <p className="text-xs uppercase tracking-wide text-gray-400 mb-2">Histórico da ação</p>
+          <ol className="space-y-3 border-l-2 border-gray-600 pl-4">
+            {action.historico.map((update, index) => (
+              <li key={index} className="space-y-1">
+                <p className="text-xs text-gray-400">
+                  {formatDateTime(update.registradoEm)}{update.autor && ` · ${update.autor}`} · {ACTION_STATUS_LABELS[update.status]}
+                </p>
+                {update.comentario && <p className="text-sm whitespace-pre-wrap">{update.comentario}</p>}
+                {update.conclusao && <p className="text-sm whitespace-pre-wrap text-gray-300">Conclusão: {update.conclusao}</p>}
+                {update.fotos.length > 0 && <PhotoGrid fotos={update.fotos} altPrefix="Evidência de fechamento" />}
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+      {isEditing ? (
+        <ActionUpdateForm
+          action={action}
+          onCancel={() => setIsEditing(false)}
+          onUpdated={(updated) => {
+            onUpdated(updated);
+            setIsEditing(false);
+          }}
+        />
+      ) : (
+        <button type="button" onClick={() => setIsEditing(true)} className="flex items-center gap-2 text-sm text-amber-500 hover:text-amber-400">
+          <ClipboardEdit size={18} /> Atualizar ação
+        </button>
+      )}
+    </div>
+  );
+};
+
+type RemoteSignaturePendingProps = {
+  status: RemoteSignatureStatus | null;
+  state: SignatureLinkState;
+  onResend: () => void;
+};
+
+// Assinatura do responsável da unidade aguardando o link enviado por e-mail, com reenvio de um novo link
+const RemoteSignaturePending = ({ status, state, onResend }: RemoteSignaturePendingProps) => {
+  const expired = status ? Date.parse(status.expiresAt) < Date.now() : false;
+
+  return (
+    <div className="space-y-2 bg-gray-700/50 rounded-lg p-3">
+      <p className="text-sm font-semibold text-yellow-300">{SIGNATURE_PENDING}</p>
+      {status ? (
+        <p className="text-sm text-gray-300">
+          Link enviado para {status.email} em {formatDateTime(status.requestedAt)}; {expired ? 'expirou' : 'vale até'} {formatDateTime(status.expiresAt)}.
+        </p>
+      ) : (
+        <p className="text-sm text-gray-300">O link de assinatura não chegou a ser gerado.</p>
+      )}
+      <button
+        type="button"
+        onClick={onResend}
+        disabled={state.status === 'sending'}
+        className="flex items-center gap-2 text-sm bg-gray-700 hover:bg-gray-600 disabled:opacity-50 text-white font-semibold px-3 py-2 rounded-lg"
+      >
+        {state.status === 'sending' ? <Loader2 size={16} className="animate-spin" /> : <Send size={16} />}
+        Reenviar link
+      </button>
+      {state.status === 'done' && (
+        <p className="flex items-center gap-2 text-sm text-green-400">
+          <CheckCircle size={16} /> Novo link enviado; o anterior deixou de valer.
+        </p>
+      )}
+      {state.status === 'error' && <p className="text-sm text-red-300">{state.error}</p>}
+    </div>
+  );
+};
+
+// Detalhe de uma inspeção enviada, com download do PDF e reenvio do e-mail
+export default function InspectionDetailPage() {
+  const { id } = useParams<{ id: string }>();
+  const { data, isLoading, error, resend, resendEmail, signatureLink, resendSignatureLink, replaceAction } = useInspectionDetail(id);
+  const view = data ? buildView(data) : null;
+  const hasReport = Boolean(data?.report);
+
+  return (
+    <div className="min-h-screen bg-gray-900 text-white font-sans">
+      <header className="bg-gray-800 p-3 md:p-4 shadow-lg">
+        <div className="flex items-center justify-between max-w-7xl mx-auto gap-3">
+          <Link href="/inspecoes" className="text-gray-300 hover:text-white" aria-label="Voltar ao histórico">
+            <ArrowLeft size={22} />
+          </Link>
+          <h1 className="text-sm md:text-xl font-bold text-amber-500 flex-1 truncate">Inspeção {id}</h1>
+          <UserMenu />
+        </div>
+      </header>
+
+      <main className="p-4 md:p-8 max-w-5xl mx-auto space-y-6">
+        {isLoading && (
+          <div className="flex justify-center py-12">
+            <Loader2 size={32} className="animate-spin text-amber-500" />
+          </div>
+        )}
+
+        {error && (
+          <div className="bg-red-900/40 border border-red-700 rounded-lg p-4 text-sm text-red-200">{error}</div>
+        )}
+
+        {view && (
+          <>
+            {hasReport ? (
+              <div className="bg-gray-800 rounded-lg p-4 space-y-3">
+                <div className="flex flex-wrap gap-3">
+                  <a
+                    href={`/api/inspections/${encodeURIComponent(id)}/pdf`}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="flex items-center gap-2 text-sm bg-amber-600 hover:bg-amber-700 text-white font-semibold px-4 py-2 rounded-lg"
+                  >
+                    <FileDown size={18} /> Baixar PDF
+                  </a>
+                  <button
+                    type="button"
+                    onClick={resendEmail}
+                    disabled={resend.status === 'sending'}
+                    className="flex items-center gap-2 text-sm bg-gray-700 hover:bg-gray-600 disabled:opacity-50 text-white font-semibold px-4 py-2 rounded-lg"
+                  >
+                    {resend.status === 'sending' ? <Loader2 size={18} className="animate-spin" /> : <Mail size={18} />}
+                    Reenviar e-mail
+                  </button>
+                  <Link
+                    href={`/verificar/${encodeURIComponent(id)}`}
+                    target="_blank"
+                    className="flex items-center gap-2 text-sm bg-gray-700 hover:bg-gray-600 text-white font-semibold px-4 py-2 rounded-lg"
+                  >
+                    <ShieldCheck size={18} /> Verificar autenticidade
+                  </Link>
+                </div>
+                {resend.status === 'done' && (
+                  <p className="flex items-center gap-2 text-sm text-green-400">
+                    <CheckCircle size={16} /> E-mail reenviado para {resend.email.accepted.join(', ')}
+                  </p>
+                )}
+                {(resend.status === 'done' || resend.status === 'error') && resend.email && resend.email.rejected.length > 0 && (
+                  <p className="text-sm text-yellow-300">
+                    Não entregue para: {resend.email.rejected.map(failure => failure.address).join(', ')}
+                  </p>
+                )}
+                {resend.status === 'error' && (
+                  <p className="text-sm text-red-300">{resend.error}</p>
+                )}
+              </div>
+            ) : (
+              <div className="flex items-start gap-3 bg-yellow-900/30 border border-yellow-700 rounded-lg p-4 text-sm text-yellow-200">
+                <AlertTriangle size={18} className="shrink-0 mt-0.5" />
+                Esta inspeção foi enviada antes de os relatórios serem guardados. Os dados abaixo vêm da planilha; o PDF e o reenvio do e-mail não estão disponíveis.
+              </div>
+            )}
+
+            <Section title="Cabeçalho">
+              <dl className="grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-3">
+                {view.header.map(([label, value]) => (
+                  <div key={label}>
+                    <dt className="text-xs uppercase tracking-wide text-gray-400">{label}</dt>
+                    <dd className="text-sm">{value || '-'}</dd>
+                  </div>
+                ))}
+              </dl>
+            </Section>
+
+            <Section title="Participantes">
+              {view.participantes.length === 0 ? (
+                <p className="text-sm text-gray-400">Nenhum participante informado.</p>
+              ) : (
+                <ul className="space-y-1 text-sm">
+                  {view.participantes.map((participante, index) => (
+                    <li key={index}>
+                      {participante.nome}
+                      {participante.funcao && <span className="text-gray-400"> · {participante.funcao}</span>}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </Section>
+
+            <Section title="Itens de Inspeção">
+              {view.itens.length === 0 ? (
+                <p className="text-sm text-gray-400">Nenhum item registrado.</p>
+              ) : (
+                <ol className="space-y-4">
+                  {view.itens.map((item, index) => {
+                    const action = data?.actions.find(candidate => candidate.item === index + 1);
+                    return (
+                      <li key={index} id={`item-${index + 1}`} className="bg-gray-700/50 rounded-lg p-4 space-y-3 scroll-mt-4">
+                        <div className="flex items-center justify-between gap-2">
+                          <p className="font-semibold">Item {index + 1}</p>
+                          <div className="flex flex-wrap justify-end gap-2">
+                          {item.badges.map(badge => (
+                            <span key={badge.text} className={`text-xs font-semibold px-2 py-1 rounded whitespace-nowrap ${badge.className}`}>{badge.text}</span>
+                          ))}
+                          {action && <ActionStatusBadge status={action.status} />}
+                        </div>
+                        </div>
+                        {item.pergunta && <p className="font-semibold">{item.pergunta}</p>}
+                        <LabeledText label="Fato Observado" value={item.fato} />
+                        <LabeledText label="Recomendações" value={item.recomendacoes} />
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                          <LabeledText label="Prazo" value={item.prazo ? formatDate(item.prazo) : ''} />
+                          <LabeledText label="Responsável" value={[item.responsavel, item.responsavelEmail].filter(Boolean).join(' · ')} />
+                        </div>
+                        <LabeledText label="Conclusão" value={action?.conclusao || item.conclusao} />
+                        {item.fotos.length > 0 && <PhotoGrid fotos={item.fotos} altPrefix={`Foto do item ${index + 1} -`} />}
+                        {item.evidencias && <LabeledText label="Evidências" value={item.evidencias} />}
+                        {action && <ActionTracking action={action} onUpdated={replaceAction} />}
+                      </li>
+                    );
+                  })}
+                </ol>
+              )}
+            </Section>
+
+            <Section title="Conclusão">
+              <p className="text-sm whitespace-pre-wrap">{view.conclusaoGeral || '-'}</p>
+            </Section>
+
+            {view.assinaturas.length > 0 && (
+              <Section title="Assinaturas">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  {view.assinaturas.map(assinatura => (
+                    <div key={assinatura.titulo}>
+                      <p className="text-xs uppercase tracking-wide text-gray-400 mb-2">{assinatura.titulo}</p>
+                      {assinatura.url ? (
+                        // eslint-disable-next-line @next/next/no-img-element
+                        <img src={assinatura.url} alt={`Assinatura - ${assinatura.titulo}`} className="bg-white rounded-lg h-28 w-full object-contain" />
+                      ) : assinatura.pendente ? (
+                        <RemoteSignaturePending status={data?.remoteSignature || null} state={signatureLink} onResend={resendSignatureLink} />
+                      ) : (
+                        <p className="text-sm text-gray-400">{NOT_SIGNED}</p>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </Section>
+            )}
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
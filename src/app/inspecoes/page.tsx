@@ -0,0 +1,190 @@
+"use client";
+
+import { ChangeEvent, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { ChevronLeft, ChevronRight, ClipboardList, ListChecks, Loader2, PlusCircle, Search, X } from 'lucide-react';
+import UserMenu from '@/components/UserMenu';
+import { useInspectionHistory } from '@/hooks/useInspectionHistory';
+import { InspectionFilters } from '@/types/history';
+
+const PAGE_SIZE = 20;
+const SEARCH_DEBOUNCE_MS = 400;
+
+const EMPTY_FILTERS: InspectionFilters = { unidade: '', departamento: '', local: '', de: '', ate: '', q: '' };
+
+const formatDate = (value: string) => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  return match ? `${match[3]}/${match[2]}/${match[1]}` : value || '-';
+};
+
+type SelectFilterProps = {
+  label: string;
+  name: keyof InspectionFilters;
+  value: string;
+  options: string[];
+  onChange: (e: ChangeEvent<HTMLSelectElement>) => void;
+};
+
+const SelectFilter = ({ label, name, value, options, onChange }: SelectFilterProps) => (
+  <div>
+    <label htmlFor={name} className="block text-sm font-medium text-gray-300 mb-1">{label}</label>
+    <select
+      id={name}
+      name={name}
+      value={value}
+      onChange={onChange}
+      className="w-full bg-gray-700 border border-gray-600 text-white rounded-lg p-3 focus:ring-2 focus:ring-amber-500 focus:border-amber-500"
+    >
+      <option value="">Todos</option>
+      {options.map(option => <option key={option} value={option}>{option}</option>)}
+    </select>
+  </div>
+);
+
+// Histórico das inspeções enviadas, lido da planilha "Mapa de Controle"
+export default function InspectionHistoryPage() {
+  const [filters, setFilters] = useState<InspectionFilters>(EMPTY_FILTERS);
+  const [searchText, setSearchText] = useState('');
+  const [page, setPage] = useState(1);
+
+  // A busca livre só é aplicada depois de uma pausa na digitação
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      setFilters(prev => (prev.q === searchText ? prev : { ...prev, q: searchText }));
+      setPage(1);
+    }, SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [searchText]);
+
+  const { data, isLoading, error } = useInspectionHistory(filters, page, PAGE_SIZE);
+  const totalPages = data ? Math.max(1, Math.ceil(data.total / data.pageSize)) : 1;
+  const hasFilters = searchText !== '' || Object.values(filters).some(Boolean);
+
+  const handleFilterChange = (e: ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    setFilters(prev => ({ ...prev, [e.target.name]: e.target.value }));
+    setPage(1);
+  };
+
+  const clearFilters = () => {
+    setFilters(EMPTY_FILTERS);
+    setSearchText('');
+    setPage(1);
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-900 text-white font-sans">
+      <header className="bg-gray-800 p-3 md:p-4 shadow-lg">
+        <div className="flex items-center justify-between max-w-7xl mx-auto gap-3">
+          <h1 className="text-sm md:text-xl font-bold text-amber-500 flex-1">Inspeções Enviadas</h1>
+          <Link href="/acoes" className="flex items-center gap-2 text-sm text-gray-300 hover:text-white">
+            <ListChecks size={18} /> <span className="hidden md:inline">Ações pendentes</span>
+          </Link>
+          <Link href="/" className="flex items-center gap-2 text-sm bg-amber-600 hover:bg-amber-700 text-white font-semibold px-3 py-2 rounded-lg">
+            <PlusCircle size={18} /> Nova inspeção
+          </Link>
+          <UserMenu />
+        </div>
+      </header>
+
+      <main className="p-4 md:p-8 max-w-5xl mx-auto space-y-6">
+        <section className="bg-gray-800 rounded-lg p-4 space-y-4">
+          <div className="relative">
+            <Search size={18} className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" />
+            <input
+              type="search"
+              value={searchText}
+              onChange={(e) => setSearchText(e.target.value)}
+              placeholder="Buscar por fato, responsável, participante, ID..."
+              aria-label="Busca livre"
+              className="w-full bg-gray-700 border border-gray-600 text-white rounded-lg p-3 pl-10 focus:ring-2 focus:ring-amber-500 focus:border-amber-500"
+            />
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <SelectFilter label="Unidade" name="unidade" value={filters.unidade || ''} options={data?.options.unidades || []} onChange={handleFilterChange} />
+            <SelectFilter label="Departamento" name="departamento" value={filters.departamento || ''} options={data?.options.departamentos || []} onChange={handleFilterChange} />
+            <SelectFilter label="Local" name="local" value={filters.local || ''} options={data?.options.locais || []} onChange={handleFilterChange} />
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+            <div>
+              <label htmlFor="de" className="block text-sm font-medium text-gray-300 mb-1">De</label>
+              <input type="date" id="de" name="de" value={filters.de || ''} onChange={handleFilterChange} className="w-full bg-gray-700 border border-gray-600 text-white rounded-lg p-3 focus:ring-2 focus:ring-amber-500 focus:border-amber-500" />
+            </div>
+            <div>
+              <label htmlFor="ate" className="block text-sm font-medium text-gray-300 mb-1">Até</label>
+              <input type="date" id="ate" name="ate" value={filters.ate || ''} onChange={handleFilterChange} className="w-full bg-gray-700 border border-gray-600 text-white rounded-lg p-3 focus:ring-2 focus:ring-amber-500 focus:border-amber-500" />
+            </div>
+            {hasFilters && (
+              <button type="button" onClick={clearFilters} className="flex items-center justify-center gap-2 text-gray-300 hover:text-white border border-gray-600 rounded-lg p-3">
+                <X size={18} /> Limpar filtros
+              </button>
+            )}
+          </div>
+        </section>
+
+        {error && (
+          <div className="bg-red-900/40 border border-red-700 rounded-lg p-4 text-sm text-red-200">{error}</div>
+        )}
+
+        <section>
+          <div className="flex items-center justify-between mb-3 text-sm text-gray-400">
+            <span>{data ? `${data.total} inspeç${data.total === 1 ? 'ão' : 'ões'}` : ' '}</span>
+            {isLoading && <Loader2 size={18} className="animate-spin text-amber-500" />}
+          </div>
+
+          {data && data.inspections.length === 0 && !isLoading && (
+            <div className="bg-gray-800 rounded-lg p-8 text-center text-gray-400">
+              <ClipboardList size={40} className="mx-auto mb-3" />
+              {hasFilters ? 'Nenhuma inspeção encontrada com esses filtros.' : 'Nenhuma inspeção enviada ainda.'}
+            </div>
+          )}
+
+          <ul className={`space-y-3 transition-opacity ${isLoading ? 'opacity-60' : ''}`}>
+            {data?.inspections.map(inspection => (
+              <li key={inspection.inspectionId}>
+                <Link href={`/inspecoes/${encodeURIComponent(inspection.inspectionId)}`} className="block bg-gray-800 hover:bg-gray-700/70 rounded-lg p-4 transition-colors">
+                  <div className="flex flex-wrap items-baseline justify-between gap-2">
+                    <p className="font-semibold">{[inspection.unidade, inspection.local].filter(Boolean).join(' - ') || 'Inspeção'}</p>
+                    <span className="text-sm text-gray-400">{formatDate(inspection.data)}{inspection.hora && ` às ${inspection.hora}`}</span>
+                  </div>
+                  <p className="text-sm text-gray-400 mt-1">
+                    {inspection.departamento} · Responsável QSMS: {inspection.responsavelQSMS || '-'}
+                  </p>
+                  <div className="flex flex-wrap items-center justify-between gap-2 mt-2 text-xs text-gray-500">
+                    <span>{inspection.inspectionId}</span>
+                    <span className="bg-gray-700 text-gray-200 px-2 py-0.5 rounded">
+                      {inspection.itemCount} ite{inspection.itemCount === 1 ? 'm' : 'ns'}
+                    </span>
+                  </div>
+                </Link>
+              </li>
+            ))}
+          </ul>
+
+          {data && data.total > data.pageSize && (
+            <nav className="flex items-center justify-center gap-4 mt-6" aria-label="Paginação">
+              <button
+                type="button"
+                onClick={() => setPage(p => Math.max(1, p - 1))}
+                disabled={page <= 1 || isLoading}
+                className="p-2 rounded-lg bg-gray-700 hover:bg-gray-600 disabled:opacity-40"
+                aria-label="Página anterior"
+              >
+                <ChevronLeft size={20} />
+              </button>
+              <span className="text-sm text-gray-300">Página {page} de {totalPages}</span>
+              <button
+                type="button"
+                onClick={() => setPage(p => Math.min(totalPages, p + 1))}
+                disabled={page >= totalPages || isLoading}
+                className="p-2 rounded-lg bg-gray-700 hover:bg-gray-600 disabled:opacity-40"
+                aria-label="Próxima página"
+              >
+                <ChevronRight size={20} />
+              </button>
+            </nav>
+          )}
+        </section>
+      </main>
+    </div>
+  );
+}
@@ -1,5 +1,7 @@
-import type { Metadata } from "next";
+import type { Metadata, Viewport } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
+import AppStatusBanner from "@/components/AppStatusBanner";
+import AuthSessionProvider from "@/components/AuthSessionProvider";
 import "./globals.css";
 
 const geistSans = Geist({
@@ -13,8 +15,27 @@ const geistMono = Geist_Mono({
 });
 
 export const metadata: Metadata = {
-  title: "Create Next App",
-  description: "Generated by create next app",
+  title: "Relatório de Inspeção",
+  description: "Registro de inspeções de segurança em campo, com evidências, assinaturas e envio mesmo sem conexão.",
+  applicationName: "Relatório de Inspeção",
+  appleWebApp: {
+    capable: true,
+    title: "Inspeção",
+    statusBarStyle: "black-translucent",
+  },
+  icons: {
+    icon: "/icons/icon-192.png",
+    apple: "/icons/icon-192.png",
+  },
+  formatDetection: {
+    telephone: false,
+  },
+};
+
+export const viewport: Viewport = {
+  themeColor: "#1f2937",
+  width: "device-width",
+  initialScale: 1,
 };
 
 export default function RootLayout({
@@ -23,11 +44,14 @@ export default function RootLayout({
   children: React.ReactNode;
 }>) {
   return (
-    <html lang="en">
+    <html lang="pt-BR">
       <body
         className={`${geistSans.variable} ${geistMono.variable} antialiased`}
       >
-        {children}
+        <AuthSessionProvider>
+          <AppStatusBanner />
+          {children}
+        </AuthSessionProvider>
       </body>
     </html>
   );
@@ -0,0 +1,126 @@
+"use client";
+
+import { FormEvent, Suspense, useEffect, useState } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { ClientSafeProvider, getProviders, signIn } from 'next-auth/react';
+import { Loader2, LogIn, ShieldCheck } from 'lucide-react';
+
+// Mensagens para os códigos de erro que o next-auth devolve em ?error=
+const ERROR_MESSAGES: { [code: string]: string } = {
+  CredentialsSignin: 'E-mail ou senha inválidos.',
+  OAuthSignin: 'Não foi possível iniciar o login corporativo.',
+  OAuthCallback: 'O login corporativo não foi concluído. Tente novamente.',
+  OAuthAccountNotLinked: 'Esta conta não pode ser usada para entrar.',
+  Callback: 'O login corporativo não foi concluído. Tente novamente.',
+  SessionRequired: 'Entre para continuar.',
+};
+
+const inputClassName = 'w-full bg-gray-700 border border-gray-600 text-white rounded-lg p-3 focus:ring-2 focus:ring-amber-500 focus:border-amber-500';
+
+// Só aceita voltar para um caminho do próprio app
+const safeCallbackUrl = (value: string | null) => (value && value.startsWith('/') && !value.startsWith('//') ? value : '/');
+
+function LoginForm() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const callbackUrl = safeCallbackUrl(searchParams.get('callbackUrl'));
+  const errorCode = searchParams.get('error');
+
+  const [providers, setProviders] = useState<ClientSafeProvider[] | null>(null);
+  const [email, setEmail] = useState('');
+  const [senha, setSenha] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(errorCode ? ERROR_MESSAGES[errorCode] || 'Não foi possível entrar.' : null);
+
+  useEffect(() => {
+    getProviders()
+      .then(result => setProviders(Object.values(result || {})))
+      .catch(() => {
+        setProviders([]);
+        setError('Sem conexão com o servidor.');
+      });
+  }, []);
+
+  const localProvider = providers?.find(provider => provider.type === 'credentials');
+  const externalProviders = providers?.filter(provider => provider.type !== 'credentials') || [];
+
+  const handleSubmit = async (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+
+    const result = await signIn(localProvider!.id, { email, senha, redirect: false });
+    if (result?.ok) {
+      router.replace(callbackUrl);
+      router.refresh();
+      return;
+    }
+    setError(ERROR_MESSAGES[result?.error || ''] || 'Não foi possível entrar.');
+    setIsSubmitting(false);
+  };
+
+  return (
+    <div className="w-full max-w-sm bg-gray-800 rounded-lg shadow-lg p-6 space-y-6">
+      <div className="text-center space-y-2">
+        <ShieldCheck size={40} className="mx-auto text-amber-500" />
+        <h1 className="text-xl font-bold text-amber-500">Relatório de Inspeção</h1>
+        <p className="text-sm text-gray-400">Entre para registrar e consultar inspeções.</p>
+      </div>
+
+      {error && <div className="bg-red-900/40 border border-red-700 rounded-lg p-3 text-sm text-red-200">{error}</div>}
+
+      {providers === null && (
+        <div className="flex justify-center py-4">
+          <Loader2 size={28} className="animate-spin text-amber-500" />
+        </div>
+      )}
+
+      {localProvider && (
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label htmlFor="email" className="block text-sm font-medium text-gray-300 mb-1">E-mail</label>
+            <input id="email" type="email" value={email} onChange={(e) => setEmail(e.target.value)} required autoComplete="username" className={inputClassName} />
+          </div>
+          <div>
+            <label htmlFor="senha" className="block text-sm font-medium text-gray-300 mb-1">Senha</label>
+            <input id="senha" type="password" value={senha} onChange={(e) => setSenha(e.target.value)} required autoComplete="current-password" className={inputClassName} />
+          </div>
+          <button type="submit" disabled={isSubmitting} className="w-full flex items-center justify-center gap-2 bg-amber-600 hover:bg-amber-700 text-white font-bold py-3 rounded-lg disabled:opacity-60">
+            {isSubmitting ? <Loader2 size={20} className="animate-spin" /> : <LogIn size={20} />} Entrar
+          </button>
+        </form>
+      )}
+
+      {localProvider && externalProviders.length > 0 && (
+        <div className="flex items-center gap-3 text-xs text-gray-500">
+          <div className="h-px flex-1 bg-gray-700" /> ou <div className="h-px flex-1 bg-gray-700" />
+        </div>
+      )}
+
+      {externalProviders.map(provider => (
+        <button
+          key={provider.id}
+          type="button"
+          onClick={() => signIn(provider.id, { callbackUrl })}
+          className="w-full flex items-center justify-center gap-2 bg-gray-700 hover:bg-gray-600 text-white font-semibold py-3 rounded-lg border border-gray-600"
+        >
+          <ShieldCheck size={20} /> Entrar com {provider.name}
+        </button>
+      ))}
+
+      {providers !== null && providers.length === 0 && !error && (
+        <p className="text-sm text-yellow-300 text-center">Nenhuma forma de login configurada no servidor.</p>
+      )}
+    </div>
+  );
+}
+
+export default function LoginPage() {
+  return (
+    <div className="min-h-screen bg-gray-900 text-white font-sans flex items-center justify-center p-4">
+      <Suspense fallback={<Loader2 size={32} className="animate-spin text-amber-500" />}>
+        <LoginForm />
+      </Suspense>
+    </div>
+  );
+}
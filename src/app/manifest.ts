@@ -0,0 +1,22 @@
+import type { MetadataRoute } from 'next';
+
+export default function manifest(): MetadataRoute.Manifest {
+  return {
+    name: 'Relatório de Inspeção',
+    short_name: 'Inspeção',
+    description: 'Registro de inspeções de segurança em campo, com funcionamento offline.',
+    lang: 'pt-BR',
+    start_url: '/',
+    scope: '/',
+    display: 'standalone',
+    orientation: 'portrait',
+    background_color: '#111827',
+    theme_color: '#1f2937',
+    icons: [
+      { src: '/icons/icon-192.png', sizes: '192x192', type: 'image/png', purpose: 'any' },
+      { src: '/icons/icon-512.png', sizes: '512x512', type: 'image/png', purpose: 'any' },
+      { src: '/icons/icon-512.png', sizes: '512x512', type: 'image/png', purpose: 'maskable' },
+      { src: '/logo.png', sizes: '2645x496', type: 'image/png' },
+    ],
+  };
+}
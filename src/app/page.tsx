@@ -1,7 +1,29 @@
 "use client";
 
-import { useState, useRef, ChangeEvent, FormEvent, useEffect, useCallback } from 'react';
-import { FileUp, PlusCircle, Trash2, ChevronLeft, ChevronRight, CheckCircle, XCircle } from 'lucide-react';
+import { useState, ChangeEvent, FormEvent, useEffect, useCallback, useMemo, useRef } from 'react';
+import Link from 'next/link';
+import { useSession } from 'next-auth/react';
+import { PlusCircle, Trash2, ChevronLeft, ChevronRight, CheckCircle, XCircle, CloudOff, History, ListChecks, Mail, AlertTriangle } from 'lucide-react';
+import { HeaderData, Participant, InspectionItem, InspectionPhoto, ConclusionData, SignatureData, InspectionDraft, OutboxEntry } from '@/types/inspection';
+import { createLocalId } from '@/lib/offline/db';
+import { isItemEmpty } from '@/lib/offline/drafts';
+import { validateDraftForSubmit } from '@/lib/offline/payload';
+import { FieldError, GeoLocation } from '@/lib/validation/submitSchema';
+import { captureLocation } from '@/lib/geo/capture';
+import { ChecklistAnswer, ChecklistRef, FINDING_TYPE_BY_ANSWER, requiresFindingDetails } from '@/lib/validation/checklistSchema';
+import { summarizeSteps } from '@/lib/reports/steps';
+import { useChecklistTemplates } from '@/hooks/useChecklistTemplates';
+import { useDrafts } from '@/hooks/useDrafts';
+import { useOutbox } from '@/hooks/useOutbox';
+import DraftList from '@/components/DraftList';
+import OutboxPanel from '@/components/OutboxPanel';
+import PhotoGallery from '@/components/PhotoGallery';
+import RiskClassification from '@/components/RiskClassification';
+import ChecklistPicker from '@/components/ChecklistPicker';
+import ChecklistAnswerField from '@/components/ChecklistAnswerField';
+import LocationField from '@/components/LocationField';
+import UserMenu from '@/components/UserMenu';
+import SignaturePad, { SignatureValue } from '@/components/SignaturePad';
 // import Image from 'next/image';
 
 // Mock de imagem do logo - substitua pela URL do seu logo
@@ -16,6 +38,8 @@ interface InputFieldProps {
   placeholder: string;
   name: string;
   required?: boolean;
+  readOnly?: boolean;
+  error?: string;
 }
 
 interface TextareaFieldProps {
@@ -25,49 +49,49 @@ interface TextareaFieldProps {
   placeholder: string;
   name: string;
   required?: boolean;
+  error?: string;
 }
 
-interface SignaturePadProps {
-  title: string;
-  signatureRef?: React.RefObject<HTMLDivElement | null>; // Make optional since we're not using it
-  onClear: () => void;
-}
+type SubmissionStatus = 'success' | 'queued' | 'error' | null;
+
+const EMPTY_HEADER: HeaderData = {
+  departamento: '',
+  encarregado: '',
+  responsavelQSMS: '',
+  gerenteContrato: '',
+  unidade: '',
+  data: '',
+  hora: '',
+  local: '',
+  emailCompanhia: '',
+};
 
-interface HeaderData {
-  departamento: string;
-  encarregado: string;
-  responsavelQSMS: string;
-  gerenteContrato: string;
-  unidade: string;
-  data: string;
-  hora: string;
-  local: string;
-  emailCompanhia: string;
-}
+const EMPTY_SIGNATURES: SignatureData = {
+  responsavelInspecao: null, responsavelUnidade: null, responsavelInspecaoTracos: null, responsavelUnidadeTracos: null, responsavelUnidadeEmail: null,
+};
 
-interface Participant {
-  nome: string;
-  funcao: string;
-}
+const createEmptyItem = (item: number, pergunta = ''): InspectionItem => ({
+  item, pergunta, resposta: '', tipoAchado: '', probabilidade: null, severidade: null,
+  fato: '', recomendacoes: '', prazo: '', responsavel: '', responsavelEmail: '', conclusao: '', fotos: []
+});
 
-interface InspectionItem {
-  item: number;
-  fato: string;
-  recomendacoes: string;
-  prazo: string;
-  responsavel: string;
-  conclusao: string;
-  foto: File | null;
-}
+// Caminhos de erro que têm um campo próprio no formulário; os demais aparecem no resumo
+const FIELD_ERROR_PATH = /^(headerData|conclusionData|signatures|localizacao)\.\w+$|^(participants|inspectionItems)\.\d+\.\w+$|^inspectionItems\.\d+\.fotos\.\d+\.\w+$/;
 
-interface ConclusionData {
-  conclusaoGeral: string;
-}
+// Etapa do formulário onde fica o campo de um caminho de erro
+const stepForErrorPath = (path: string): number => {
+  if (path.startsWith('headerData') || path.startsWith('participants') || path.startsWith('checklist') || path.startsWith('localizacao')) return 1;
+  if (path.startsWith('inspectionItems')) return 2;
+  return 3;
+};
 
-type SubmissionStatus = 'success' | 'error' | null;
+// Mensagem de erro de validação exibida abaixo do campo
+const FieldErrorMessage = ({ error }: { error?: string }) => (
+  error ? <p className="text-sm text-red-400 mt-1">{error}</p> : null
+);
 
 // Componente para um campo de formulário padrão
-const InputField = ({ label, type = 'text', value, onChange, placeholder, name, required = true }: InputFieldProps) => (
+const InputField = ({ label, type = 'text', value, onChange, placeholder, name, required = true, readOnly = false, error }: InputFieldProps) => (
   <div>
     <label htmlFor={name} className="block text-sm font-medium text-gray-300 mb-1">{label}</label>
     <input
@@ -78,13 +102,16 @@ const InputField = ({ label, type = 'text', value, onChange, placeholder, name,
       onChange={onChange}
       placeholder={placeholder}
       required={required}
-      className="w-full bg-gray-700 border border-gray-600 text-white rounded-lg p-3 focus:ring-2 focus:ring-amber-500 focus:border-amber-500 transition-shadow duration-300"
+      readOnly={readOnly}
+      aria-invalid={!!error}
+      className={`w-full bg-gray-700 border ${error ? 'border-red-500' : 'border-gray-600'} text-white rounded-lg p-3 focus:ring-2 focus:ring-amber-500 focus:border-amber-500 transition-shadow duration-300 ${readOnly ? 'opacity-70 cursor-not-allowed' : ''}`}
     />
+    <FieldErrorMessage error={error} />
   </div>
 );
 
 // Componente para área de texto
-const TextareaField = ({ label, value, onChange, placeholder, name, required = true }: TextareaFieldProps) => (
+const TextareaField = ({ label, value, onChange, placeholder, name, required = true, error }: TextareaFieldProps) => (
   <div>
     <label htmlFor={name} className="block text-sm font-medium text-gray-300 mb-1">{label}</label>
     <textarea
@@ -95,177 +122,188 @@ const TextareaField = ({ label, value, onChange, placeholder, name, required = t
       placeholder={placeholder}
       required={required}
       rows={4}
-      className="w-full bg-gray-700 border border-gray-600 text-white rounded-lg p-3 focus:ring-2 focus:ring-amber-500 focus:border-amber-500 transition-shadow duration-300"
+      aria-invalid={!!error}
+      className={`w-full bg-gray-700 border ${error ? 'border-red-500' : 'border-gray-600'} text-white rounded-lg p-3 focus:ring-2 focus:ring-amber-500 focus:border-amber-500 transition-shadow duration-300`}
     />
+    <FieldErrorMessage error={error} />
   </div>
 );
 
-// Componente para a assinatura digital
-const SignaturePad = ({ title, onClear }: SignaturePadProps) => {
-  const canvasRef = useRef<HTMLCanvasElement>(null);
-  const [isDrawing, setIsDrawing] = useState(false);
-
-  const getEventPos = useCallback((e: MouseEvent | TouchEvent) => {
-    const canvas = canvasRef.current;
-    if (!canvas) return { x: 0, y: 0 };
-
-    const rect = canvas.getBoundingClientRect();
-    const scaleX = canvas.width / rect.width;
-    const scaleY = canvas.height / rect.height;
-
-    if ('touches' in e && e.touches[0]) {
-      return {
-        x: (e.touches[0].clientX - rect.left) * scaleX,
-        y: (e.touches[0].clientY - rect.top) * scaleY
-      };
-    }
-
-    if ('clientX' in e) {
-      return {
-        x: (e.clientX - rect.left) * scaleX,
-        y: (e.clientY - rect.top) * scaleY
-      };
-    }
-
-    return { x: 0, y: 0 };
-  }, []);
-
-  const startDrawing = useCallback((e: React.MouseEvent<HTMLCanvasElement> | React.TouchEvent<HTMLCanvasElement>) => {
-    e.preventDefault();
-    const canvas = canvasRef.current;
-    if (!canvas) return;
-
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
-
-    setIsDrawing(true);
-    const pos = getEventPos(e.nativeEvent);
-
-    ctx.beginPath();
-    ctx.moveTo(pos.x, pos.y);
-  }, [getEventPos]);
-
-  const draw = useCallback((e: React.MouseEvent<HTMLCanvasElement> | React.TouchEvent<HTMLCanvasElement>) => {
-    if (!isDrawing) return;
-    e.preventDefault();
-
-    const canvas = canvasRef.current;
-    if (!canvas) return;
-
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
-
-    const pos = getEventPos(e.nativeEvent);
-    ctx.lineTo(pos.x, pos.y);
-    ctx.stroke();
-  }, [isDrawing, getEventPos]);
-
-  const stopDrawing = useCallback(() => {
-    setIsDrawing(false);
-  }, []);
-
-  const clearCanvas = useCallback(() => {
-    const canvas = canvasRef.current;
-    if (!canvas) return;
-
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
-
-    ctx.clearRect(0, 0, canvas.width, canvas.height);
-    ctx.fillStyle = '#ffffff';
-    ctx.fillRect(0, 0, canvas.width, canvas.height);
-    onClear();
-  }, [onClear]);
-
-  useEffect(() => {
-    const canvas = canvasRef.current;
-    if (!canvas) return;
-
-    // Set canvas size
-    canvas.width = 400;
-    canvas.height = 150;
-
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
-
-    // Set up drawing context
-    ctx.fillStyle = '#ffffff';
-    ctx.fillRect(0, 0, canvas.width, canvas.height);
-    ctx.strokeStyle = '#000000';
-    ctx.lineWidth = 2;
-    ctx.lineCap = 'round';
-    ctx.lineJoin = 'round';
-  }, []);
-
-  return (
-    <div className="w-full">
-      <label className="block text-sm font-medium text-gray-300 mb-2">{title}</label>
-      <div className="bg-white border border-gray-400 rounded-lg p-2">
-        <canvas
-          ref={canvasRef}
-          className="w-full h-32 border rounded cursor-crosshair touch-none"
-          onMouseDown={startDrawing}
-          onMouseMove={draw}
-          onMouseUp={stopDrawing}
-          onMouseLeave={stopDrawing}
-          onTouchStart={startDrawing}
-          onTouchMove={draw}
-          onTouchEnd={stopDrawing}
-          style={{ touchAction: 'none' }}
-        />
-      </div>
-      <button
-        type="button"
-        onClick={clearCanvas}
-        className="text-sm text-amber-500 hover:text-amber-400 mt-2 bg-gray-700 px-3 py-1 rounded"
-      >
-        Limpar Assinatura
-      </button>
-    </div>
-  );
-};
-
 export default function InspectionForm() {
   const [step, setStep] = useState(1);
   const [submissionStatus, setSubmissionStatus] = useState<SubmissionStatus>(null);
+  // E-mail que recebeu o link de assinatura remota do relatório recém-enviado
+  const [remoteSignatureEmail, setRemoteSignatureEmail] = useState<string | null>(null);
+  // Etapas que falharam no servidor depois do registro (ex.: e-mail), reenviadas por ele automaticamente
+  const [submissionWarnings, setSubmissionWarnings] = useState<string[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [mounted, setMounted] = useState(false);
 
-  const [headerData, setHeaderData] = useState<HeaderData>({
-    departamento: '',
-    encarregado: '',
-    responsavelQSMS: '',
-    gerenteContrato: '',
-    unidade: '',
-    data: '',
-    hora: '',
-    local: '',
-    emailCompanhia: '',
-  });
+  const [draftId, setDraftId] = useState(() => createLocalId());
+  const [headerData, setHeaderData] = useState<HeaderData>(EMPTY_HEADER);
+  const [checklist, setChecklist] = useState<ChecklistRef | null>(null);
+  const [localizacao, setLocalizacao] = useState<GeoLocation | null>(null);
+  // Captura automática ao abrir uma inspeção nova; o contador descarta a resposta se outro rascunho for carregado antes
+  const [isLocating, setIsLocating] = useState(false);
+  const [locatingError, setLocatingError] = useState<string | null>(null);
+  const locatingRequestRef = useRef(0);
 
   const [participants, setParticipants] = useState<Participant[]>([{ nome: '', funcao: '' }]);
-  const [inspectionItems, setInspectionItems] = useState<InspectionItem[]>([
-    { item: 1, fato: '', recomendacoes: '', prazo: '', responsavel: '', conclusao: '', foto: null }
-  ]);
+  const [inspectionItems, setInspectionItems] = useState<InspectionItem[]>([createEmptyItem(1)]);
 
   const [conclusionData, setConclusionData] = useState<ConclusionData>({
     conclusaoGeral: '',
   });
 
-  const signature1Ref = useRef<HTMLDivElement | null>(null);
-  const signature2Ref = useRef<HTMLDivElement | null>(null);
+  const [signatures, setSignatures] = useState<SignatureData>(EMPTY_SIGNATURES);
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+
+  const currentDraft = useMemo<InspectionDraft>(() => ({
+    id: draftId,
+    updatedAt: Date.now(),
+    step,
+    checklist,
+    localizacao,
+    headerData,
+    participants,
+    inspectionItems,
+    conclusionData,
+    signatures,
+  }), [draftId, step, checklist, localizacao, headerData, participants, inspectionItems, conclusionData, signatures]);
+
+  const drafts = useDrafts(currentDraft);
+  const outbox = useOutbox();
+  const checklistTemplates = useChecklistTemplates();
+  const { data: session } = useSession();
+  const sessionName = session?.user?.name || '';
+  const activeTemplate = checklistTemplates.templates.find(template => template.id === checklist?.id && template.versao === checklist.versao);
+
+  // Localização do início da inspeção, pelo GPS do aparelho
+  const locateInspection = useCallback(() => {
+    const request = ++locatingRequestRef.current;
+    setIsLocating(true);
+    setLocatingError(null);
+    captureLocation()
+      .then(location => {
+        if (request === locatingRequestRef.current) setLocalizacao(prev => prev ?? location);
+      })
+      .catch(err => {
+        console.log('⚠️ Localização da inspeção não capturada:', err instanceof Error ? err.message : err);
+        if (request === locatingRequestRef.current) setLocatingError(err instanceof Error ? err.message : 'Não foi possível obter a localização.');
+      })
+      .finally(() => {
+        if (request === locatingRequestRef.current) setIsLocating(false);
+      });
+  }, []);
 
   useEffect(() => {
     setMounted(true);
+    locateInspection();
+  }, [locateInspection]);
+
+  // O responsável pela inspeção é o usuário logado (o servidor grava o nome da sessão de qualquer forma)
+  useEffect(() => {
+    if (!sessionName) return;
+    setHeaderData(prev => (prev.responsavelQSMS === sessionName ? prev : { ...prev, responsavelQSMS: sessionName }));
+  }, [sessionName, draftId]);
+
+  const loadDraft = (draft: InspectionDraft) => {
+    setDraftId(draft.id);
+    setStep(draft.step);
+    setChecklist(draft.checklist);
+    setLocalizacao(draft.localizacao);
+    // Um rascunho retomado fica com a localização que tinha; a captura em andamento é descartada
+    locatingRequestRef.current++;
+    setIsLocating(false);
+    setLocatingError(null);
+    setHeaderData(draft.headerData);
+    setParticipants(draft.participants);
+    setInspectionItems(draft.inspectionItems);
+    setConclusionData(draft.conclusionData);
+    setSignatures(draft.signatures);
+    setFieldErrors({});
+  };
+
+  // Exibe os erros de validação ao lado dos campos e leva o usuário à primeira etapa com erro
+  const showFieldErrors = (errors: FieldError[]) => {
+    setFieldErrors(Object.fromEntries(errors.map(error => [error.path, error.message])));
+    if (errors.length > 0) {
+      setStep(Math.min(...errors.map(error => stepForErrorPath(error.path))));
+    }
+  };
+
+  const clearFieldError = (pathPrefix: string) => {
+    setFieldErrors(prev => {
+      const keys = Object.keys(prev).filter(key => key === pathPrefix || key.startsWith(`${pathPrefix}.`));
+      if (keys.length === 0) return prev;
+      const next = { ...prev };
+      keys.forEach(key => delete next[key]);
+      return next;
+    });
+  };
+
+  // Devolve ao formulário um relatório da fila recusado pela validação do servidor
+  const editOutboxEntry = async (entry: OutboxEntry) => {
+    await outbox.remove(entry.id);
+    await drafts.save(entry.draft);
+    loadDraft(entry.draft);
+    showFieldErrors(entry.fieldErrors || []);
+    setSubmissionStatus(null);
+  };
+
+  const startNewForm = () => {
+    loadDraft({
+      id: createLocalId(),
+      updatedAt: Date.now(),
+      step: 1,
+      checklist: null,
+      localizacao: null,
+      headerData: EMPTY_HEADER,
+      participants: [{ nome: '', funcao: '' }],
+      inspectionItems: [createEmptyItem(1)],
+      conclusionData: { conclusaoGeral: '' },
+      signatures: EMPTY_SIGNATURES,
+    });
+    locateInspection();
+    setSubmissionStatus(null);
+  };
+
+  const handleSignatureChange = useCallback((field: 'responsavelInspecao' | 'responsavelUnidade', signature: SignatureValue | null) => {
+    setSignatures(prev => ({ ...prev, [field]: signature?.png ?? null, [`${field}Tracos`]: signature?.strokes ?? null }));
+    clearFieldError(`signatures.${field}`);
   }, []);
 
+  // Assinatura remota: o desenho do responsável da unidade é descartado e o link vai para o e-mail informado
+  const handleRemoteSignatureToggle = (e: ChangeEvent<HTMLInputElement>) => {
+    const enabled = e.target.checked;
+    setSignatures(prev => ({ ...prev, responsavelUnidade: null, responsavelUnidadeTracos: null, responsavelUnidadeEmail: enabled ? '' : null }));
+    clearFieldError('signatures.responsavelUnidade');
+    clearFieldError('signatures.responsavelUnidadeEmail');
+  };
+
+  const handleRemoteSignatureEmailChange = (e: ChangeEvent<HTMLInputElement>) => {
+    const { value } = e.target;
+    setSignatures(prev => ({ ...prev, responsavelUnidadeEmail: value }));
+    clearFieldError('signatures.responsavelUnidadeEmail');
+  };
+
+  const handleLocationChange = (location: GeoLocation | null) => {
+    // Escolha do inspetor prevalece sobre a captura automática ainda em andamento
+    locatingRequestRef.current++;
+    setIsLocating(false);
+    setLocalizacao(location);
+    clearFieldError('localizacao');
+  };
+
   const handleHeaderChange = (e: ChangeEvent<HTMLInputElement>) => {
     const { name, value } = e.target;
     setHeaderData(prev => ({ ...prev, [name]: value }));
+    clearFieldError(`headerData.${name}`);
   };
 
   const handleParticipantChange = (index: number, e: ChangeEvent<HTMLInputElement>) => {
     const { name, value } = e.target;
+    clearFieldError(`participants.${index}.${name}`);
     const newParticipants = [...participants];
     newParticipants[index] = { ...newParticipants[index], [name]: value };
     setParticipants(newParticipants);
@@ -278,86 +316,83 @@ export default function InspectionForm() {
   const removeParticipant = (index: number) => {
     const newParticipants = participants.filter((_, i) => i !== index);
     setParticipants(newParticipants);
+    clearFieldError('participants');
+  };
+
+  // Troca os itens da etapa 2 pelas perguntas do modelo (ou por um item livre, sem modelo)
+  const handleChecklistChange = (templateId: string) => {
+    const template = checklistTemplates.templates.find(candidate => candidate.id === templateId) || null;
+    if (template?.id === checklist?.id && template?.versao === checklist?.versao) return;
+    if (inspectionItems.some(item => !isItemEmpty(item)) &&
+      !window.confirm('Os itens já preenchidos na etapa 2 serão substituídos. Deseja continuar?')) {
+      return;
+    }
+
+    setChecklist(template ? { id: template.id, nome: template.nome, versao: template.versao } : null);
+    setInspectionItems(template
+      ? template.perguntas.map((pergunta, index) => createEmptyItem(index + 1, pergunta.texto))
+      : [createEmptyItem(1)]);
+    clearFieldError('checklist');
+    clearFieldError('inspectionItems');
+  };
+
+  // A resposta define o tipo de achado; fora da não conformidade não há risco nem ação corretiva
+  const handleItemAnswerChange = (index: number, resposta: ChecklistAnswer) => {
+    clearFieldError(`inspectionItems.${index}`);
+    setInspectionItems(prev => prev.map((item, i) => {
+      if (i !== index) return item;
+      const answered = { ...item, resposta, tipoAchado: FINDING_TYPE_BY_ANSWER[resposta] || '' as const };
+      return requiresFindingDetails(resposta) ? answered : {
+        ...answered, probabilidade: null, severidade: null,
+        recomendacoes: '', prazo: '', responsavel: '', responsavelEmail: '', conclusao: '',
+      };
+    }));
   };
 
   const handleItemChange = (index: number, e: ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
     const { name, value } = e.target;
-    const files = (e.target as HTMLInputElement).files;
     const newItems = [...inspectionItems];
-    
-    if (name === 'foto') {
-      const file = files?.[0] || null;
-      console.log(`📷 Foto selecionada para item ${index + 1}:`, {
-        fileName: file?.name || 'Nenhuma',
-        fileSize: file?.size || 0,
-        fileType: file?.type || 'N/A'
-      });
-      
-      // Converter para base64 para enviar na API
-      if (file) {
-        const reader = new FileReader();
-        reader.onload = (e) => {
-          const base64 = e.target?.result as string;
-          console.log(`📷 Arquivo convertido para base64:`, {
-            fileName: file.name,
-            base64Length: base64?.length || 0,
-            preview: base64?.substring(0, 50) + '...'
-          });
-        };
-        reader.readAsDataURL(file);
-      }
-      
-      newItems[index] = { ...newItems[index], [name]: file };
-    } else {
-      newItems[index] = { ...newItems[index], [name]: value };
-    }
+    clearFieldError(`inspectionItems.${index}.${name}`);
+    newItems[index] = { ...newItems[index], [name]: value };
     setInspectionItems(newItems);
   };
 
+  const handleItemRiskChange = (index: number, changes: Partial<Pick<InspectionItem, 'tipoAchado' | 'probabilidade' | 'severidade'>>) => {
+    Object.keys(changes).forEach(field => clearFieldError(`inspectionItems.${index}.${field}`));
+    setInspectionItems(prev => prev.map((item, i) => (i === index ? { ...item, ...changes } : item)));
+  };
+
+  // As fotos já chegam comprimidas e com a orientação corrigida pela PhotoGallery
+  const handleItemPhotosChange = (index: number, fotos: InspectionPhoto[]) => {
+    clearFieldError(`inspectionItems.${index}.fotos`);
+    setInspectionItems(prev => prev.map((item, i) => (i === index ? { ...item, fotos } : item)));
+  };
+
+  // Erros da galeria do item (lista de fotos e cada foto), identificando a foto pelo número
+  const photoErrorsFor = (index: number) => {
+    const prefix = `inspectionItems.${index}.fotos`;
+    const messages = Object.entries(fieldErrors)
+      .filter(([path]) => path === prefix || path.startsWith(`${prefix}.`))
+      .map(([path, message]) => {
+        const photoIndex = path.slice(prefix.length + 1).split('.')[0];
+        return photoIndex ? `Foto ${Number(photoIndex) + 1}: ${message}` : message;
+      });
+    return messages.length > 0 ? messages.join(' ') : undefined;
+  };
+
   const addItem = () => {
-    setInspectionItems([...inspectionItems, { item: inspectionItems.length + 1, fato: '', recomendacoes: '', prazo: '', responsavel: '', conclusao: '', foto: null }]);
+    setInspectionItems([...inspectionItems, createEmptyItem(inspectionItems.length + 1)]);
   };
 
   const removeItem = (index: number) => {
     const newItems = inspectionItems.filter((_, i) => i !== index).map((item, idx) => ({ ...item, item: idx + 1 }));
     setInspectionItems(newItems);
+    clearFieldError('inspectionItems');
   };
 
   const handleConclusionChange = (e: ChangeEvent<HTMLTextAreaElement>) => {
     setConclusionData({ ...conclusionData, [e.target.name]: e.target.value });
-  };
-
-  // eslint-disable-next-line @typescript-eslint/no-unused-vars
-  const clearSignature = (_ref: React.RefObject<HTMLDivElement | null>) => {
-    // Esta função agora é gerenciada pelo componente SignaturePad
-    // console.log("Assinatura limpa para:", ref);
-  };
-
-  // Função para verificar se uma assinatura está em branco
-  const isCanvasBlank = (canvas: HTMLCanvasElement): boolean => {
-    if (!canvas) return true;
-    
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return true;
-    
-    // Pegar os dados dos pixels
-    const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-    const pixels = imageData.data;
-    
-    // Verificar se todos os pixels são brancos (RGBA: 255,255,255,255)
-    for (let i = 0; i < pixels.length; i += 4) {
-      const r = pixels[i];     // Red
-      const g = pixels[i + 1]; // Green  
-      const b = pixels[i + 2]; // Blue
-      const a = pixels[i + 3]; // Alpha
-      
-      // Se encontrarmos qualquer pixel que não seja branco, a assinatura não está em branco
-      if (r !== 255 || g !== 255 || b !== 255 || a !== 255) {
-        return false;
-      }
-    }
-    
-    return true; // Todos os pixels são brancos
+    clearFieldError(`conclusionData.${e.target.name}`);
   };
 
   const nextStep = () => setStep(s => Math.min(s + 1, 3));
@@ -369,103 +404,43 @@ export default function InspectionForm() {
     setIsLoading(true);
     setSubmissionStatus(null);
 
-    // Capturar dados das assinaturas dos canvas
-    const canvases = document.querySelectorAll('canvas');
-    const signature1Canvas = canvases[0] as HTMLCanvasElement;
-    const signature2Canvas = canvases[1] as HTMLCanvasElement;
-    
-    const signature1 = signature1Canvas ? signature1Canvas.toDataURL() : '';
-    const signature2 = signature2Canvas ? signature2Canvas.toDataURL() : '';
-
-    // Verificar se as assinaturas estão em branco usando análise de pixels
-    const signature1IsBlank = signature1Canvas ? isCanvasBlank(signature1Canvas) : true;
-    const signature2IsBlank = signature2Canvas ? isCanvasBlank(signature2Canvas) : true;
-    
-    console.log("✍️ Status das assinaturas (análise de pixels):", {
-      signature1IsBlank,
-      signature2IsBlank,
-      signature1Size: signature1 ? signature1.length : 0,
-      signature2Size: signature2 ? signature2.length : 0
+    console.log("✍️ Status das assinaturas:", {
+      hasSignature1: !!signatures.responsavelInspecao,
+      hasSignature2: !!signatures.responsavelUnidade,
     });
 
-    // Converter arquivos para base64
-    console.log("📷 Convertendo arquivos para base64...");
-    const processedItems = await Promise.all(
-      inspectionItems.map(async (item, index) => {
-        if (item.foto && item.foto instanceof File) {
-          return new Promise<{ item: number; fato: string; recomendacoes: string; prazo: string; responsavel: string; conclusao: string; foto: string }>((resolve) => {
-            const reader = new FileReader();
-            reader.onload = (e) => {
-              const base64 = e.target?.result as string;
-              console.log(`📷 Item ${index + 1} convertido:`, {
-                fileName: (item.foto as File)?.name,
-                base64Length: base64?.length || 0
-              });
-              resolve({
-                item: item.item,
-                fato: item.fato,
-                recomendacoes: item.recomendacoes,
-                prazo: item.prazo,
-                responsavel: item.responsavel,
-                conclusao: item.conclusao,
-                foto: base64
-              });
-            };
-            reader.readAsDataURL(item.foto as File);
-          });
-        } else {
-          return Promise.resolve({
-            item: item.item,
-            fato: item.fato,
-            recomendacoes: item.recomendacoes,
-            prazo: item.prazo,
-            responsavel: item.responsavel,
-            conclusao: item.conclusao,
-            foto: 'Nenhuma'
-          });
-        }
-      })
-    );
-
-    const formData = {
-      headerData,
-      participants,
-      inspectionItems: processedItems,
-      conclusionData,
-      signatures: {
-        responsavelInspecao: signature1IsBlank ? 'Não assinado' : signature1,
-        responsavelUnidade: signature2IsBlank ? 'Não assinado' : signature2,
+    try {
+      // Mesma validação do servidor, para apontar os erros antes de o relatório ir para a fila
+      const validation = validateDraftForSubmit(currentDraft);
+      if (!validation.success) {
+        console.log("❌ Formulário com erros de validação:", validation.errors);
+        showFieldErrors(validation.errors);
+        return;
       }
-    };
 
-    console.log("📤 Dados preparados para envio:", {
-      itemsCount: formData.inspectionItems.length,
-      hasSignature1: formData.signatures.responsavelInspecao !== 'Não assinado',
-      hasSignature2: formData.signatures.responsavelUnidade !== 'Não assinado',
-      itemsWithPhotos: formData.inspectionItems.filter(item => item.foto !== 'Nenhuma').length
-    });
+      // O relatório vai para a fila local antes do envio, para não se perder sem conexão
+      const entry = await outbox.enqueue(currentDraft);
+      await drafts.remove(entry.id);
+      console.log("📥 Relatório adicionado à fila de envio:", entry.id);
 
-    try {
-      const response = await fetch('/api/submit', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(formData),
-      });
+      if (!navigator.onLine) {
+        setSubmissionStatus('queued');
+        return;
+      }
 
-      const result = await response.json();
+      const result = await outbox.send(entry.id);
+      console.log("Resposta da fila de envio:", result);
 
-      if (response.ok) {
-        console.log("Resposta da API:", result);
-        
-        // Guardar informações sobre warnings para exibir
-        if (result.warnings && result.warnings.length > 0) {
-          console.log("⚠️ Avisos recebidos:", result.warnings);
-          // Você pode armazenar os warnings em um estado se quiser exibi-los
-        }
-        
+      if (result?.status === 'enviado') {
+        setRemoteSignatureEmail(result.draft.signatures.responsavelUnidadeEmail ?? null);
+        setSubmissionWarnings(result.warnings ?? []);
         setSubmissionStatus('success');
+      } else if (result?.status === 'pendente') {
+        setSubmissionStatus('queued');
+      } else if (result?.fieldErrors && result.fieldErrors.length > 0) {
+        await editOutboxEntry(result);
       } else {
-        throw new Error(result.message || 'Falha no envio do formulário.');
+        throw new Error(result?.lastError || 'Falha no envio do formulário.');
       }
     } catch (error) {
       console.error('Erro ao enviar formulário:', error);
@@ -475,6 +450,12 @@ export default function InspectionForm() {
     }
   };
 
+  const errorPaths = Object.keys(fieldErrors);
+  const uploadProgress = outbox.progress[draftId];
+  const uploadPercent = uploadProgress && uploadProgress.total > 0 ? Math.round((uploadProgress.loaded / uploadProgress.total) * 100) : null;
+  // Etapa em andamento no servidor, depois que ele aceita o relatório
+  const currentStep = uploadProgress?.etapas && summarizeSteps(uploadProgress.etapas).find(step => step.status === 'andamento');
+
   if (!mounted) {
     return null; // Prevent hydration mismatch
   }
@@ -482,22 +463,50 @@ export default function InspectionForm() {
   if (submissionStatus) {
     return (
       <div className="min-h-screen bg-gray-900 flex flex-col items-center justify-center p-4 text-white">
-        {submissionStatus === 'success' ? (
+        {submissionStatus === 'success' && (
           <>
             <CheckCircle className="text-green-500 w-24 h-24 mb-4" />
             <h2 className="text-3xl font-bold mb-2">Enviado com Sucesso!</h2>
             <p className="text-gray-400">Seu relatório de inspeção foi registrado.</p>
+            {remoteSignatureEmail && (
+              <p className="flex items-center gap-2 text-amber-300 text-center mt-3">
+                <Mail size={18} className="shrink-0" /> Assinatura solicitada a {remoteSignatureEmail}. O PDF final será reenviado quando o responsável da unidade assinar.
+              </p>
+            )}
+            {submissionWarnings.length > 0 && (
+              <ul className="mt-4 space-y-1 bg-amber-900/30 border border-amber-700 rounded-lg p-3 text-sm text-amber-200">
+                {submissionWarnings.map(warning => (
+                  <li key={warning} className="flex items-start gap-2">
+                    <AlertTriangle size={16} className="shrink-0 mt-0.5" /> {warning}
+                  </li>
+                ))}
+              </ul>
+            )}
           </>
-        ) : (
+        )}
+        {submissionStatus === 'queued' && (
+          <>
+            <CloudOff className="text-amber-500 w-24 h-24 mb-4" />
+            <h2 className="text-3xl font-bold mb-2">Salvo na Fila de Envio</h2>
+            <p className="text-gray-400 text-center">Sem conexão no momento. O relatório será enviado automaticamente quando o aparelho voltar a ficar online.</p>
+          </>
+        )}
+        {submissionStatus === 'error' && (
           <>
             <XCircle className="text-red-500 w-24 h-24 mb-4" />
             <h2 className="text-3xl font-bold mb-2">Ocorreu um Erro</h2>
-            <p className="text-gray-400">Não foi possível enviar seu relatório. Tente novamente mais tarde.</p>
+            <p className="text-gray-400 text-center">Não foi possível enviar seu relatório. Ele continua na fila de envio para uma nova tentativa.</p>
           </>
         )}
-        <button onClick={() => setSubmissionStatus(null)} className="mt-8 bg-amber-600 hover:bg-amber-700 text-white font-bold py-3 px-6 rounded-lg transition-transform transform hover:scale-105">
+        <div className="w-full max-w-2xl mt-8">
+          <OutboxPanel entries={outbox.entries} progress={outbox.progress} isOnline={outbox.isOnline} onRetry={outbox.send} onRemove={outbox.remove} onClearSent={outbox.clearSent} onEdit={editOutboxEntry} />
+        </div>
+        <button onClick={startNewForm} className="mt-4 bg-amber-600 hover:bg-amber-700 text-white font-bold py-3 px-6 rounded-lg transition-transform transform hover:scale-105">
           Preencher Novo Formulário
         </button>
+        <Link href="/inspecoes" className="mt-4 text-amber-500 hover:text-amber-400 underline">
+          Ver inspeções enviadas
+        </Link>
       </div>
     )
   }
@@ -518,6 +527,15 @@ export default function InspectionForm() {
           <h1 className="text-sm md:text-xl font-bold text-amber-500 text-center flex-1 ml-3 md:ml-0">
             Relatório de Inspeção
           </h1>
+          <Link href="/inspecoes" className="flex items-center gap-2 text-sm text-gray-300 hover:text-white" aria-label="Inspeções enviadas">
+            <History size={20} /> <span className="hidden md:inline">Inspeções enviadas</span>
+          </Link>
+          <Link href="/acoes" className="flex items-center gap-2 text-sm text-gray-300 hover:text-white ml-4" aria-label="Ações pendentes">
+            <ListChecks size={20} /> <span className="hidden md:inline">Ações pendentes</span>
+          </Link>
+          <div className="ml-4">
+            <UserMenu />
+          </div>
         </div>
       </header>
 
@@ -542,30 +560,70 @@ export default function InspectionForm() {
 
         </div>
 
-        <form onSubmit={handleSubmit} className="space-y-6">
+        <OutboxPanel entries={outbox.entries} progress={outbox.progress} isOnline={outbox.isOnline} onRetry={outbox.send} onRemove={outbox.remove} onClearSent={outbox.clearSent} onEdit={editOutboxEntry} />
+        <DraftList drafts={drafts.drafts} currentDraftId={draftId} onResume={loadDraft} onDelete={drafts.remove} />
+
+        {errorPaths.length > 0 && (
+          <div className="mb-8 bg-red-900/40 border border-red-700 rounded-lg p-4 text-sm">
+            <p className="font-semibold text-red-300 mb-1">Corrija os campos destacados antes de enviar:</p>
+            <ul className="list-disc list-inside text-red-200">
+              {[1, 2, 3].map(s => {
+                const count = errorPaths.filter(path => stepForErrorPath(path) === s).length;
+                return count > 0 && (
+                  <li key={s}>
+                    <button type="button" onClick={() => setStep(s)} className="underline">Etapa {s}</button>: {count} erro(s)
+                  </li>
+                );
+              })}
+              {errorPaths.filter(path => !FIELD_ERROR_PATH.test(path)).map(path => (
+                <li key={path}>{fieldErrors[path]}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <form key={draftId} onSubmit={handleSubmit} className="space-y-6">
           {step === 1 && (
             <section className="space-y-6 animate-fade-in">
               <h2 className="text-2xl font-semibold text-amber-400 border-l-4 border-amber-400 pl-4">Cabeçalho da Inspeção</h2>
+              <ChecklistPicker
+                templates={checklistTemplates.templates}
+                isLoading={checklistTemplates.isLoading}
+                loadError={checklistTemplates.error}
+                value={checklist}
+                onChange={handleChecklistChange}
+                error={fieldErrors['checklist']}
+              />
               <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                <InputField label="E-mail da Companhia (Profissional)" name="emailCompanhia" type="email" value={headerData.emailCompanhia} onChange={handleHeaderChange} placeholder="exemplo@empresa.com" />
+                <InputField label="E-mail da Companhia (Profissional)" name="emailCompanhia" type="email" value={headerData.emailCompanhia} onChange={handleHeaderChange} placeholder="exemplo@empresa.com" error={fieldErrors['headerData.emailCompanhia']} />
                 <br />
-                <InputField label="Departamento" name="departamento" value={headerData.departamento} onChange={handleHeaderChange} placeholder="Ex: Manutenção de Frota" />
-                <InputField label="Encarregado" name="encarregado" value={headerData.encarregado} onChange={handleHeaderChange} placeholder="Nome do encarregado" />
-                <InputField label="Responsável QSMS" name="responsavelQSMS" value={headerData.responsavelQSMS} onChange={handleHeaderChange} placeholder="Nome do responsável" />
-                <InputField label="Gerente de Contrato" name="gerenteContrato" value={headerData.gerenteContrato} onChange={handleHeaderChange} placeholder="Nome do gerente" />
-                <InputField label="Unidade" name="unidade" value={headerData.unidade} onChange={handleHeaderChange} placeholder="Ex: Mina do Sossego" />
-                <InputField label="Data" name="data" type="date" value={headerData.data} onChange={handleHeaderChange} placeholder="" />
-                <InputField label="Hora" name="hora" type="time" value={headerData.hora} onChange={handleHeaderChange} placeholder="" />
-                <InputField label="Local da Inspeção" name="local" value={headerData.local} onChange={handleHeaderChange} placeholder="Ex: Frente de lavra 3" />
+                <InputField label="Departamento" name="departamento" value={headerData.departamento} onChange={handleHeaderChange} placeholder="Ex: Manutenção de Frota" error={fieldErrors['headerData.departamento']} />
+                <InputField label="Encarregado" name="encarregado" value={headerData.encarregado} onChange={handleHeaderChange} placeholder="Nome do encarregado" error={fieldErrors['headerData.encarregado']} />
+                <InputField label="Responsável QSMS" name="responsavelQSMS" value={headerData.responsavelQSMS} onChange={handleHeaderChange} placeholder="Nome do responsável" readOnly={!!sessionName} error={fieldErrors['headerData.responsavelQSMS']} />
+                <InputField label="Gerente de Contrato" name="gerenteContrato" value={headerData.gerenteContrato} onChange={handleHeaderChange} placeholder="Nome do gerente" error={fieldErrors['headerData.gerenteContrato']} />
+                <InputField label="Unidade" name="unidade" value={headerData.unidade} onChange={handleHeaderChange} placeholder="Ex: Mina do Sossego" error={fieldErrors['headerData.unidade']} />
+                <InputField label="Data" name="data" type="date" value={headerData.data} onChange={handleHeaderChange} placeholder="" error={fieldErrors['headerData.data']} />
+                <InputField label="Hora" name="hora" type="time" value={headerData.hora} onChange={handleHeaderChange} placeholder="" error={fieldErrors['headerData.hora']} />
+                <InputField label="Local da Inspeção" name="local" value={headerData.local} onChange={handleHeaderChange} placeholder="Ex: Frente de lavra 3" error={fieldErrors['headerData.local']} />
               </div>
 
+              <LocationField
+                id="localizacao"
+                label="Coordenadas do Local"
+                value={localizacao}
+                onChange={handleLocationChange}
+                capturing={isLocating}
+                captureError={locatingError}
+                error={fieldErrors['localizacao'] || Object.entries(fieldErrors).find(([path]) => path.startsWith('localizacao.'))?.[1]}
+              />
+
               <div className="pt-4">
                 <h3 className="text-xl font-semibold text-amber-400 border-l-4 border-amber-400 pl-4 mb-4">Participantes</h3>
                 {participants.map((p, index) => (
                   <div key={index} className="flex items-center gap-4 mb-4 p-4 bg-gray-800 rounded-lg">
                     <div className="flex-grow grid grid-cols-1 md:grid-cols-2 gap-4">
-                      <InputField label="Nome do Participante" name="nome" value={p.nome} onChange={(e) => handleParticipantChange(index, e)} placeholder="Nome completo" />
-                      <InputField label="Função" name="funcao" value={p.funcao} onChange={(e) => handleParticipantChange(index, e)} placeholder="Ex: Mecânico" />
+                      <InputField label="Nome do Participante" name="nome" value={p.nome} onChange={(e) => handleParticipantChange(index, e)} placeholder="Nome completo" error={fieldErrors[`participants.${index}.nome`]} />
+                      <InputField label="Função" name="funcao" value={p.funcao} onChange={(e) => handleParticipantChange(index, e)} placeholder="Ex: Mecânico" error={fieldErrors[`participants.${index}.funcao`]} />
                     </div>
                     <button type="button" onClick={() => removeParticipant(index)} className="p-2 text-red-500 hover:text-red-400">
                       <Trash2 size={20} />
@@ -585,25 +643,65 @@ export default function InspectionForm() {
               {inspectionItems.map((item, index) => (
                 <div key={index} className="bg-gray-800 p-4 rounded-lg space-y-4 relative">
                   <span className="absolute top-4 right-4 bg-amber-500 text-white text-sm font-bold w-8 h-8 rounded-full flex items-center justify-center">{item.item}</span>
-                  <TextareaField label="Fato Observado" name="fato" value={item.fato} onChange={(e) => handleItemChange(index, e)} placeholder="Descrever irregularidade ou regularidade..." />
-
-                  <div>
-                    <label className="block text-sm font-medium text-gray-300 mb-1">Evidência Fotográfica</label>
-                    <label htmlFor={`foto-${index}`} className="w-full flex items-center justify-center gap-2 bg-gray-700 border-2 border-dashed border-gray-600 text-gray-400 rounded-lg p-3 cursor-pointer hover:bg-gray-600 hover:border-amber-500 hover:text-white transition">
-                      <FileUp size={20} />
-                      <span>{item.foto && item.foto instanceof File ? item.foto.name : "Anexar foto"}</span>
-                    </label>
-                    <input id={`foto-${index}`} name="foto" type="file" accept="image/*" onChange={(e) => handleItemChange(index, e)} className="hidden" />
-                  </div>
+                  {item.pergunta && (
+                    <ChecklistAnswerField
+                      id={`resposta-${index}`}
+                      pergunta={item.pergunta}
+                      ajuda={activeTemplate?.perguntas.find(pergunta => pergunta.texto === item.pergunta)?.ajuda}
+                      value={item.resposta}
+                      onChange={(resposta) => handleItemAnswerChange(index, resposta)}
+                      error={fieldErrors[`inspectionItems.${index}.resposta`]}
+                    />
+                  )}
 
-                  <TextareaField label="Recomendações para Correção" name="recomendacoes" value={item.recomendacoes} onChange={(e) => handleItemChange(index, e)} placeholder="Descrever sugestões de correção..." />
-                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                    <InputField label="Prazo de Execução" name="prazo" type="date" value={item.prazo} onChange={(e) => handleItemChange(index, e)} placeholder="" />
-                    <InputField label="Responsável" name="responsavel" value={item.responsavel} onChange={(e) => handleItemChange(index, e)} placeholder="Nome do responsável pela correção" />
-                  </div>
-                  <TextareaField label="Conclusão da Ação" name="conclusao" value={item.conclusao} onChange={(e) => handleItemChange(index, e)} placeholder="Descrever a conclusão após a correção." />
+                  {item.pergunta && !requiresFindingDetails(item.resposta) ? (
+                    // Conforme, N/A ou ainda sem resposta: observação e fotos opcionais
+                    <>
+                      <TextareaField label="Observação (opcional)" name="fato" value={item.fato} onChange={(e) => handleItemChange(index, e)} placeholder="Registrar algum detalhe, se necessário..." required={false} error={fieldErrors[`inspectionItems.${index}.fato`]} />
+                      <PhotoGallery
+                        id={`fotos-${index}`}
+                        label="Evidência Fotográfica (opcional)"
+                        photos={item.fotos}
+                        onChange={(fotos) => handleItemPhotosChange(index, fotos)}
+                        error={photoErrorsFor(index)}
+                      />
+                    </>
+                  ) : (
+                    <>
+                      <RiskClassification
+                        id={`risco-${index}`}
+                        value={item}
+                        onChange={(changes) => handleItemRiskChange(index, changes)}
+                        showFindingType={!item.pergunta}
+                        errors={{
+                          tipoAchado: fieldErrors[`inspectionItems.${index}.tipoAchado`],
+                          probabilidade: fieldErrors[`inspectionItems.${index}.probabilidade`],
+                          severidade: fieldErrors[`inspectionItems.${index}.severidade`],
+                        }}
+                      />
+
+                      <TextareaField label="Fato Observado" name="fato" value={item.fato} onChange={(e) => handleItemChange(index, e)} placeholder="Descrever irregularidade ou regularidade..." error={fieldErrors[`inspectionItems.${index}.fato`]} />
+
+                      <PhotoGallery
+                        id={`fotos-${index}`}
+                        label="Evidência Fotográfica"
+                        photos={item.fotos}
+                        onChange={(fotos) => handleItemPhotosChange(index, fotos)}
+                        error={photoErrorsFor(index)}
+                      />
+
+                      <TextareaField label="Recomendações para Correção" name="recomendacoes" value={item.recomendacoes} onChange={(e) => handleItemChange(index, e)} placeholder="Descrever sugestões de correção..." error={fieldErrors[`inspectionItems.${index}.recomendacoes`]} />
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        <InputField label="Prazo de Execução" name="prazo" type="date" value={item.prazo} onChange={(e) => handleItemChange(index, e)} placeholder="" error={fieldErrors[`inspectionItems.${index}.prazo`]} />
+                        <InputField label="Responsável" name="responsavel" value={item.responsavel} onChange={(e) => handleItemChange(index, e)} placeholder="Nome do responsável pela correção" error={fieldErrors[`inspectionItems.${index}.responsavel`]} />
+                      </div>
+                      <InputField label="E-mail do Responsável" name="responsavelEmail" type="email" value={item.responsavelEmail} onChange={(e) => handleItemChange(index, e)} placeholder="Recebe os lembretes do prazo" required={false} error={fieldErrors[`inspectionItems.${index}.responsavelEmail`]} />
+                      <TextareaField label="Conclusão da Ação" name="conclusao" value={item.conclusao} onChange={(e) => handleItemChange(index, e)} placeholder="Descrever a conclusão após a correção." error={fieldErrors[`inspectionItems.${index}.conclusao`]} />
+                    </>
+                  )}
 
-                  {inspectionItems.length > 1 && (
+                  {/* Perguntas do checklist ficam no relatório; as não aplicáveis são respondidas com N/A */}
+                  {!item.pergunta && inspectionItems.length > 1 && (
                     <button type="button" onClick={() => removeItem(index)} className="w-full mt-2 flex items-center justify-center gap-2 text-red-500 hover:text-red-400 font-semibold py-2 rounded-lg border-2 border-dashed border-red-800 hover:border-red-500 transition">
                       <Trash2 size={18} /> Remover Item
                     </button>
@@ -611,7 +709,7 @@ export default function InspectionForm() {
                 </div>
               ))}
               <button type="button" onClick={addItem} className="w-full flex items-center justify-center gap-2 text-amber-500 hover:text-amber-400 font-semibold py-3 px-4 rounded-lg border-2 border-dashed border-gray-600 hover:border-amber-500 transition">
-                <PlusCircle size={20} /> Adicionar Novo Item
+                <PlusCircle size={20} /> {checklist ? 'Adicionar Item Fora do Checklist' : 'Adicionar Novo Item'}
               </button>
             </section>
           )}
@@ -619,11 +717,27 @@ export default function InspectionForm() {
           {step === 3 && (
             <section className="space-y-8 animate-fade-in">
               <h2 className="text-2xl font-semibold text-amber-400 border-l-4 border-amber-400 pl-4">Conclusão Geral</h2>
-              <TextareaField label="Parecer Técnico da Inspeção" name="conclusaoGeral" value={conclusionData.conclusaoGeral} onChange={handleConclusionChange} placeholder="Descreva as condições ambientais, de trabalho, e se o local/equipamento está apto." />
+              <TextareaField label="Parecer Técnico da Inspeção" name="conclusaoGeral" value={conclusionData.conclusaoGeral} onChange={handleConclusionChange} placeholder="Descreva as condições ambientais, de trabalho, e se o local/equipamento está apto." error={fieldErrors['conclusionData.conclusaoGeral']} />
 
               <div className="space-y-8 md:space-y-0 md:flex md:gap-8">
-                <SignaturePad title="Assinatura do Responsável pela Inspeção" onClear={() => clearSignature(signature1Ref)} />
-                <SignaturePad title="Assinatura do Responsável da Unidade" onClear={() => clearSignature(signature2Ref)} />
+                <SignaturePad title="Assinatura do Responsável pela Inspeção" value={signatures.responsavelInspecao} strokes={signatures.responsavelInspecaoTracos} onChange={(signature) => handleSignatureChange('responsavelInspecao', signature)} error={fieldErrors['signatures.responsavelInspecao']} />
+                <div className="w-full space-y-3">
+                  {signatures.responsavelUnidadeEmail === null ? (
+                    <SignaturePad title="Assinatura do Responsável da Unidade" value={signatures.responsavelUnidade} strokes={signatures.responsavelUnidadeTracos} onChange={(signature) => handleSignatureChange('responsavelUnidade', signature)} error={fieldErrors['signatures.responsavelUnidade']} />
+                  ) : (
+                    <div className="space-y-3">
+                      <p className="block text-sm font-medium text-gray-300">Assinatura do Responsável da Unidade</p>
+                      <p className="text-sm text-gray-400 bg-gray-700/50 rounded-lg p-3">
+                        O relatório será enviado com a assinatura pendente. O responsável da unidade receberá por e-mail um link de uso único, com validade limitada, para ver o relatório e assinar; o PDF final é reenviado depois da assinatura.
+                      </p>
+                      <InputField label="E-mail do Responsável da Unidade" type="email" name="responsavelUnidadeEmail" value={signatures.responsavelUnidadeEmail} onChange={handleRemoteSignatureEmailChange} placeholder="responsavel@empresa.com" error={fieldErrors['signatures.responsavelUnidadeEmail']} />
+                    </div>
+                  )}
+                  <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer">
+                    <input type="checkbox" checked={signatures.responsavelUnidadeEmail !== null} onChange={handleRemoteSignatureToggle} className="accent-amber-500 w-4 h-4" />
+                    Responsável ausente: enviar link para assinar depois
+                  </label>
+                </div>
               </div>
             </section>
           )}
@@ -656,10 +770,14 @@ export default function InspectionForm() {
                 className="bg-green-600 hover:bg-green-700 text-white font-bold py-3 px-6 rounded-lg transition-transform transform hover:scale-105 flex items-center justify-center disabled:opacity-60 disabled:transform-none"
               >
                 {isLoading ? (
-                  <svg className="animate-spin -ml-1 mr-3 h-5 w-5 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
-                    <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                    <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-                  </svg>
+                  <>
+                    <svg className="animate-spin -ml-1 mr-3 h-5 w-5 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                      <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                      <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                    </svg>
+                    {uploadPercent !== null && `Enviando arquivos ${uploadPercent}%`}
+                    {currentStep && `Processando: ${currentStep.label}`}
+                  </>
                 ) : (
                   "Enviar Relatório"
                 )}
@@ -0,0 +1,266 @@
+"use client";
+
+import { ChangeEvent, ReactNode, useEffect, useState } from 'react';
+import { useParams } from 'next/navigation';
+import { AlertTriangle, CheckCircle, FileSearch, Loader2, ShieldAlert, ShieldCheck, ShieldQuestion } from 'lucide-react';
+import type { SignatureRole } from '@/lib/reports/integrity';
+import { PdfVerificationResponse, ReportVerificationResponse } from '@/types/history';
+
+type PageState =
+  | { status: 'loading' }
+  | { status: 'error'; error: string }
+  | { status: 'ready'; data: ReportVerificationResponse };
+
+type PdfCheckState =
+  | { status: 'idle' }
+  | { status: 'checking'; fileName: string }
+  | { status: 'done'; fileName: string; result: PdfVerificationResponse }
+  | { status: 'error'; fileName: string; error: string };
+
+const ROLE_LABELS: { [role in SignatureRole]: string } = {
+  responsavelInspecao: 'Responsável pela Inspeção',
+  responsavelUnidade: 'Responsável da Unidade',
+};
+
+const formatDate = (value: string) => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  return match ? `${match[3]}/${match[2]}/${match[1]}` : value || '-';
+};
+
+const formatDateTime = (value: string) => {
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? value : date.toLocaleString('pt-BR', { dateStyle: 'short', timeStyle: 'short' });
+};
+
+// Compara o código digitado sem diferenciar maiúsculas, espaços ou hífens
+const normalizeCode = (value: string) => value.replace(/[\s-]/g, '').toUpperCase();
+
+type SectionProps = {
+  title: string;
+  children: ReactNode;
+};
+
+const Section = ({ title, children }: SectionProps) => (
+  <section className="bg-gray-800 rounded-lg p-4 md:p-6">
+    <h2 className="text-lg font-semibold text-amber-500 mb-4">{title}</h2>
+    {children}
+  </section>
+);
+
+type StatusBannerProps = {
+  data: ReportVerificationResponse;
+};
+
+const StatusBanner = ({ data }: StatusBannerProps) => {
+  if (data.status === 'valid') {
+    return (
+      <div className="flex items-start gap-3 bg-green-900/40 border border-green-700 rounded-lg p-4 text-green-200">
+        <ShieldCheck size={28} className="shrink-0" />
+        <div>
+          <p className="font-semibold">Relatório autêntico</p>
+          <p className="text-sm">O conteúdo e as assinaturas guardados conferem com o hash registrado no envio.</p>
+        </div>
+      </div>
+    );
+  }
+  if (data.status === 'altered') {
+    return (
+      <div className="flex items-start gap-3 bg-red-900/40 border border-red-700 rounded-lg p-4 text-red-200">
+        <ShieldAlert size={28} className="shrink-0" />
+        <div>
+          <p className="font-semibold">Relatório alterado</p>
+          <p className="text-sm">
+            {data.alteredSignatures.length > 0
+              ? `A imagem de assinatura não confere mais com a registrada: ${data.alteredSignatures.map(role => ROLE_LABELS[role]).join(', ')}.`
+              : 'O conteúdo guardado não confere com o hash registrado no envio.'}
+          </p>
+        </div>
+      </div>
+    );
+  }
+  return (
+    <div className="flex items-start gap-3 bg-yellow-900/30 border border-yellow-700 rounded-lg p-4 text-yellow-200">
+      <ShieldQuestion size={28} className="shrink-0" />
+      <div>
+        <p className="font-semibold">Relatório sem selo de integridade</p>
+        <p className="text-sm">Este relatório foi enviado antes do registro de hash e não pode ser conferido.</p>
+      </div>
+    </div>
+  );
+};
+
+const PDF_RESULT_MESSAGES: { [result in PdfVerificationResponse['result']]: { text: string; className: string } } = {
+  current: { text: 'Este PDF foi emitido pelo sistema e corresponde à versão atual do relatório.', className: 'text-green-400' },
+  previous: { text: 'Este PDF foi emitido pelo sistema, mas para uma versão anterior do relatório (por exemplo, antes da assinatura do responsável da unidade).', className: 'text-yellow-300' },
+  unknown: { text: 'Este arquivo não é idêntico a nenhum PDF emitido para este relatório. Ele pode ter sido alterado.', className: 'text-red-300' },
+};
+
+type VerificationChecksProps = {
+  id: string;
+  data: ReportVerificationResponse;
+};
+
+// Conferência de um PDF recebido (arquivo idêntico ao emitido) ou do código impresso no rodapé
+const VerificationChecks = ({ id, data }: VerificationChecksProps) => {
+  const [pdfCheck, setPdfCheck] = useState<PdfCheckState>({ status: 'idle' });
+  const [code, setCode] = useState('');
+
+  const handlePdfChange = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setPdfCheck({ status: 'checking', fileName: file.name });
+    try {
+      const response = await fetch(`/api/verificar/${encodeURIComponent(id)}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/pdf' },
+        body: file,
+      });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || `Erro HTTP ${response.status}`);
+      setPdfCheck({ status: 'done', fileName: file.name, result });
+    } catch (err) {
+      setPdfCheck({ status: 'error', fileName: file.name, error: err instanceof Error ? err.message : 'Não foi possível conferir o PDF' });
+    }
+  };
+
+  const codeMatches = data.verificationCode && code.trim() ? normalizeCode(code) === normalizeCode(data.verificationCode) : null;
+
+  return (
+    <Section title="Conferir um Documento">
+      <div className="space-y-6">
+        <div className="space-y-2">
+          <p className="text-sm text-gray-300">Envie o PDF recebido para saber se ele é exatamente o arquivo emitido pelo sistema.</p>
+          <label className="inline-flex items-center gap-2 text-sm bg-amber-600 hover:bg-amber-700 text-white font-semibold px-4 py-2 rounded-lg cursor-pointer">
+            <FileSearch size={18} /> Selecionar PDF
+            <input type="file" accept="application/pdf,.pdf" onChange={handlePdfChange} className="hidden" />
+          </label>
+          {pdfCheck.status === 'checking' && (
+            <p className="flex items-center gap-2 text-sm text-gray-300">
+              <Loader2 size={16} className="animate-spin" /> Conferindo {pdfCheck.fileName}...
+            </p>
+          )}
+          {pdfCheck.status === 'done' && (
+            <div className="text-sm space-y-1">
+              <p className={PDF_RESULT_MESSAGES[pdfCheck.result.result].className}>
+                <strong>{pdfCheck.fileName}:</strong> {PDF_RESULT_MESSAGES[pdfCheck.result.result].text}
+              </p>
+              {pdfCheck.result.issuedAt && <p className="text-gray-400">Emitido em {formatDateTime(pdfCheck.result.issuedAt)}</p>}
+              <p className="text-xs text-gray-500 break-all">SHA-256 do arquivo: {pdfCheck.result.sha256}</p>
+            </div>
+          )}
+          {pdfCheck.status === 'error' && <p className="text-sm text-red-300">{pdfCheck.fileName}: {pdfCheck.error}</p>}
+        </div>
+
+        {data.verificationCode && (
+          <div className="space-y-2">
+            <label htmlFor="codigo" className="block text-sm text-gray-300">Ou digite o código de verificação impresso no rodapé do PDF:</label>
+            <input
+              id="codigo"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              placeholder="XXXX-XXXX-XXXX-XXXX"
+              className="w-full md:w-80 bg-gray-700 border border-gray-600 text-white rounded-lg p-3 font-mono uppercase focus:ring-2 focus:ring-amber-500 focus:border-amber-500"
+            />
+            {codeMatches === true && (
+              <p className="flex items-center gap-2 text-sm text-green-400"><CheckCircle size={16} /> O código confere com a versão atual do relatório.</p>
+            )}
+            {codeMatches === false && (
+              <p className="flex items-center gap-2 text-sm text-red-300"><AlertTriangle size={16} /> O código não confere com a versão atual do relatório.</p>
+            )}
+          </div>
+        )}
+      </div>
+    </Section>
+  );
+};
+
+// Página pública aberta pelo QR code do PDF
+export default function VerificationPage() {
+  const { id } = useParams<{ id: string }>();
+  const [state, setState] = useState<PageState>({ status: 'loading' });
+
+  useEffect(() => {
+    const controller = new AbortController();
+    fetch(`/api/verificar/${encodeURIComponent(id)}`, { signal: controller.signal })
+      .then(async (response) => {
+        const result = await response.json();
+        if (!response.ok) throw new Error(result.error || `Erro HTTP ${response.status}`);
+        setState({ status: 'ready', data: result });
+      })
+      .catch((err) => {
+        if (controller.signal.aborted) return;
+        setState({ status: 'error', error: err instanceof Error ? err.message : 'Não foi possível verificar o relatório' });
+      });
+    return () => controller.abort();
+  }, [id]);
+
+  return (
+    <div className="min-h-screen bg-gray-900 text-white font-sans">
+      <header className="bg-gray-800 p-3 md:p-4 shadow-lg">
+        <h1 className="text-sm md:text-xl font-bold text-amber-500 max-w-5xl mx-auto">Verificação do Relatório de Inspeção</h1>
+      </header>
+      <main className="p-4 md:p-8 max-w-5xl mx-auto">
+        {state.status === 'loading' && (
+          <div className="flex justify-center py-12">
+            <Loader2 size={32} className="animate-spin text-amber-500" />
+          </div>
+        )}
+
+        {state.status === 'error' && (
+          <div className="flex items-start gap-3 bg-red-900/40 border border-red-700 rounded-lg p-4 text-sm text-red-200">
+            <AlertTriangle size={18} className="shrink-0 mt-0.5" /> {state.error}
+          </div>
+        )}
+
+        {state.status === 'ready' && (
+          <div className="space-y-6">
+            <StatusBanner data={state.data} />
+
+            <Section title="Relatório">
+              <dl className="grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-3">
+                {([
+                  ['ID', state.data.inspectionId],
+                  ['Enviado em', formatDateTime(state.data.submittedAt)],
+                  ['Unidade', state.data.unidade],
+                  ['Local', state.data.local],
+                  ['Data da inspeção', formatDate(state.data.data)],
+                  ['Código de verificação', state.data.verificationCode || '-'],
+                ] as [string, string][]).map(([label, value]) => (
+                  <div key={label}>
+                    <dt className="text-xs uppercase tracking-wide text-gray-400">{label}</dt>
+                    <dd className="text-sm">{value}</dd>
+                  </div>
+                ))}
+              </dl>
+              {state.data.sealedHash && (
+                <p className="text-xs text-gray-500 break-all mt-4">SHA-256: {state.data.sealedHash}</p>
+              )}
+            </Section>
+
+            <Section title="Assinaturas">
+              {state.data.signers.length === 0 ? (
+                <p className="text-sm text-gray-400">Nenhuma assinatura registrada.</p>
+              ) : (
+                <ul className="space-y-2 text-sm">
+                  {state.data.signers.map(signer => (
+                    <li key={signer.role}>
+                      <span className="font-semibold">{signer.name}</span>
+                      <span className="text-gray-400"> · {ROLE_LABELS[signer.role]} · assinado em {formatDateTime(signer.signedAt)}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {state.data.signaturePending && (
+                <p className="text-sm text-yellow-300 mt-3">A assinatura do responsável da unidade ainda está pendente.</p>
+              )}
+            </Section>
+
+            {state.data.status !== 'unsealed' && <VerificationChecks id={id} data={state.data} />}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
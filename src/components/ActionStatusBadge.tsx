@@ -0,0 +1,20 @@
+import { ACTION_STATUS_LABELS, ActionStatus } from '@/lib/validation/actionSchema';
+
+type ActionStatusBadgeProps = {
+  status: ActionStatus;
+};
+
+const STATUS_CLASSES: Record<ActionStatus, string> = {
+  aberta: 'bg-red-700 text-white',
+  em_andamento: 'bg-yellow-600 text-white',
+  concluida: 'bg-blue-700 text-white',
+  verificada: 'bg-green-700 text-white',
+};
+
+const ActionStatusBadge = ({ status }: ActionStatusBadgeProps) => (
+  <span className={`text-xs font-semibold px-2 py-1 rounded whitespace-nowrap ${STATUS_CLASSES[status]}`}>
+    {ACTION_STATUS_LABELS[status]}
+  </span>
+);
+
+export default ActionStatusBadge;
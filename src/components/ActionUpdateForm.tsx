@@ -0,0 +1,132 @@
+"use client";
+
+import { FormEvent, useState } from 'react';
+import { useSession } from 'next-auth/react';
+import { Loader2, Send } from 'lucide-react';
+import PhotoGallery from '@/components/PhotoGallery';
+import { createLocalId } from '@/lib/offline/db';
+import { DraftFile } from '@/lib/offline/payload';
+import { UploadProgress, uploadDraftFiles } from '@/lib/offline/uploads';
+import { ACTION_STATUSES, ACTION_STATUS_LABELS, ActionStatus, isClosedActionStatus } from '@/lib/validation/actionSchema';
+import { FieldError, buildUploadKey } from '@/lib/validation/submitSchema';
+import { TrackedAction } from '@/types/actions';
+import { InspectionPhoto } from '@/types/inspection';
+
+type ActionUpdateFormProps = {
+  action: TrackedAction;
+  onUpdated: (action: TrackedAction) => void;
+  onCancel: () => void;
+};
+
+const inputClassName = 'w-full bg-gray-700 border border-gray-600 text-white rounded-lg p-3 focus:ring-2 focus:ring-amber-500 focus:border-amber-500';
+
+// Formulário de atualização de uma ação corretiva; as fotos de fechamento vão direto ao armazenamento antes do registro
+const ActionUpdateForm = ({ action, onUpdated, onCancel }: ActionUpdateFormProps) => {
+  const [status, setStatus] = useState<ActionStatus>(action.status);
+  const [conclusao, setConclusao] = useState(action.conclusao);
+  const [comentario, setComentario] = useState('');
+  const { data: session } = useSession();
+  const [fotos, setFotos] = useState<InspectionPhoto[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [progress, setProgress] = useState<UploadProgress | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+
+  const showFieldErrors = (errors: FieldError[] = []) =>
+    setFieldErrors(Object.fromEntries(errors.map(fieldError => [fieldError.path.replace(/^fotos\.\d+\.imagem$/, 'fotos'), fieldError.message])));
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    setError(null);
+    setFieldErrors({});
+
+    try {
+      // Cada atualização abre o seu lote (o lote fica com quem o abriu): evidencias/<lote>/<foto>.jpg
+      const batchId = createLocalId();
+      const files: DraftFile[] = fotos.map((foto, index) => ({
+        id: foto.id,
+        kind: 'evidencia',
+        key: buildUploadKey('evidencia', batchId, foto.id, foto.file.type),
+        blob: foto.file,
+        path: `fotos.${index}.imagem`,
+      }));
+      if (files.length > 0) {
+        const upload = await uploadDraftFiles(batchId, files, async () => {}, setProgress);
+        if (!upload.ok) {
+          setError(upload.error);
+          showFieldErrors(upload.fieldErrors);
+          return;
+        }
+      }
+
+      const response = await fetch(`/api/inspections/${encodeURIComponent(action.inspectionId)}/actions/${action.item}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          status,
+          comentario,
+          conclusao,
+          fotos: files.map((file, index) => ({ imagem: file.key, legenda: fotos[index].legenda })),
+        }),
+      });
+      const result = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        setError(result.error || `Erro HTTP ${response.status}`);
+        showFieldErrors(result.fieldErrors);
+        return;
+      }
+      onUpdated(result.action);
+    } catch (err) {
+      console.error('Erro ao atualizar a ação:', err);
+      setError('Sem conexão com o servidor');
+    } finally {
+      setIsSaving(false);
+      setProgress(null);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4 border-t border-gray-600 pt-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label htmlFor={`status-${action.item}`} className="block text-sm font-medium text-gray-300 mb-1">Situação</label>
+          <select id={`status-${action.item}`} value={status} onChange={(e) => setStatus(e.target.value as ActionStatus)} className={inputClassName}>
+            {ACTION_STATUSES.map(option => <option key={option} value={option}>{ACTION_STATUS_LABELS[option]}</option>)}
+          </select>
+        </div>
+        <div>
+          <label htmlFor={`autor-${action.item}`} className="block text-sm font-medium text-gray-300 mb-1">Atualizado por</label>
+          <input id={`autor-${action.item}`} type="text" value={session?.user?.name || ''} readOnly placeholder="Usuário logado" className={`${inputClassName} opacity-70 cursor-not-allowed`} />
+        </div>
+      </div>
+      <div>
+        <label htmlFor={`conclusao-${action.item}`} className="block text-sm font-medium text-gray-300 mb-1">
+          Conclusão{isClosedActionStatus(status) && ' *'}
+        </label>
+        <textarea id={`conclusao-${action.item}`} value={conclusao} onChange={(e) => setConclusao(e.target.value)} rows={3} maxLength={2000} placeholder="O que foi feito para resolver" className={inputClassName} />
+        {fieldErrors.conclusao && <p className="text-sm text-red-400 mt-1">{fieldErrors.conclusao}</p>}
+      </div>
+      <div>
+        <label htmlFor={`comentario-${action.item}`} className="block text-sm font-medium text-gray-300 mb-1">Comentário</label>
+        <textarea id={`comentario-${action.item}`} value={comentario} onChange={(e) => setComentario(e.target.value)} rows={2} maxLength={2000} placeholder="Andamento, dificuldades, próximos passos" className={inputClassName} />
+        {fieldErrors.comentario && <p className="text-sm text-red-400 mt-1">{fieldErrors.comentario}</p>}
+      </div>
+      <PhotoGallery id={`fotos-acao-${action.item}`} label="Evidências de Fechamento" photos={fotos} onChange={setFotos} error={fieldErrors.fotos} />
+
+      {error && <p className="text-sm text-red-300">{error}</p>}
+
+      <div className="flex justify-end gap-3">
+        <button type="button" onClick={onCancel} disabled={isSaving} className="text-sm text-gray-300 hover:text-white px-4 py-2">
+          Cancelar
+        </button>
+        <button type="submit" disabled={isSaving} className="flex items-center gap-2 text-sm bg-amber-600 hover:bg-amber-700 disabled:opacity-50 text-white font-semibold px-4 py-2 rounded-lg">
+          {isSaving ? <Loader2 size={18} className="animate-spin" /> : <Send size={18} />}
+          {progress && progress.total > 0 ? `Enviando fotos ${Math.round((progress.loaded / progress.total) * 100)}%` : 'Registrar atualização'}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default ActionUpdateForm;
@@ -0,0 +1,34 @@
+"use client";
+
+import { RefreshCw, WifiOff } from 'lucide-react';
+import { useOnlineStatus } from '@/hooks/useOnlineStatus';
+import { useServiceWorker } from '@/hooks/useServiceWorker';
+
+// Faixa fixa no topo que avisa sobre falta de conexão e novas versões do app
+const AppStatusBanner = () => {
+  const isOnline = useOnlineStatus();
+  const { updateAvailable, applyUpdate } = useServiceWorker();
+
+  if (isOnline && !updateAvailable) return null;
+
+  return (
+    <div className="sticky top-0 z-50 text-sm font-semibold">
+      {!isOnline && (
+        <div className="flex items-center justify-center gap-2 bg-gray-700 text-amber-300 px-4 py-2">
+          <WifiOff size={16} />
+          Sem conexão. Os relatórios ficam salvos no aparelho e serão enviados quando a conexão voltar.
+        </div>
+      )}
+      {updateAvailable && (
+        <div className="flex items-center justify-center gap-3 bg-amber-600 text-white px-4 py-2">
+          <span>Uma nova versão do aplicativo está pronta.</span>
+          <button type="button" onClick={applyUpdate} className="flex items-center gap-1 bg-white text-amber-700 px-3 py-1 rounded">
+            <RefreshCw size={14} /> Atualizar
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AppStatusBanner;
@@ -0,0 +1,11 @@
+"use client";
+
+import { ReactNode } from 'react';
+import { SessionProvider } from 'next-auth/react';
+
+// Disponibiliza a sessão do next-auth (useSession) às páginas do app
+const AuthSessionProvider = ({ children }: { children: ReactNode }) => (
+  <SessionProvider>{children}</SessionProvider>
+);
+
+export default AuthSessionProvider;
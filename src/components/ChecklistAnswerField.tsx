@@ -0,0 +1,39 @@
+import { CHECKLIST_ANSWERS, CHECKLIST_ANSWER_COLORS, CHECKLIST_ANSWER_LABELS, ChecklistAnswer } from '@/lib/validation/checklistSchema';
+
+type ChecklistAnswerFieldProps = {
+  id: string;
+  pergunta: string;
+  ajuda?: string;
+  value: ChecklistAnswer | '';
+  onChange: (resposta: ChecklistAnswer) => void;
+  error?: string;
+};
+
+// Pergunta do modelo de checklist com a resposta Conforme / Não conforme / N/A
+const ChecklistAnswerField = ({ id, pergunta, ajuda, value, onChange, error }: ChecklistAnswerFieldProps) => (
+  <div className="pr-10">
+    <p id={`${id}-pergunta`} className="font-semibold text-white">{pergunta}</p>
+    {ajuda && <p className="text-sm text-gray-400 mt-1">{ajuda}</p>}
+    <div className="grid grid-cols-3 gap-2 mt-3" role="radiogroup" aria-labelledby={`${id}-pergunta`}>
+      {CHECKLIST_ANSWERS.map(answer => (
+        <button
+          key={answer}
+          type="button"
+          role="radio"
+          aria-checked={value === answer}
+          onClick={() => onChange(answer)}
+          className={`text-sm font-semibold py-2 px-2 rounded-lg border transition ${
+            value === answer
+              ? `${CHECKLIST_ANSWER_COLORS[answer].className} border-transparent`
+              : `bg-gray-700 ${error ? 'border-red-500' : 'border-gray-600'} text-gray-300 hover:border-amber-500`
+          }`}
+        >
+          {CHECKLIST_ANSWER_LABELS[answer]}
+        </button>
+      ))}
+    </div>
+    {error && <p className="text-sm text-red-400 mt-1">{error}</p>}
+  </div>
+);
+
+export default ChecklistAnswerField;
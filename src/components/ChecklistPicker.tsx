@@ -0,0 +1,52 @@
+import { ClipboardList } from 'lucide-react';
+import { ChecklistRef, ChecklistTemplate } from '@/lib/validation/checklistSchema';
+
+type ChecklistPickerProps = {
+  templates: ChecklistTemplate[];
+  isLoading: boolean;
+  loadError: string | null;
+  value: ChecklistRef | null;
+  onChange: (templateId: string) => void;
+  error?: string;
+};
+
+// Escolha do modelo de checklist na etapa 1; as perguntas do modelo viram os itens da etapa 2
+const ChecklistPicker = ({ templates, isLoading, loadError, value, onChange, error }: ChecklistPickerProps) => {
+  const selected = templates.find(template => template.id === value?.id);
+  // Rascunho com um modelo que saiu da lista (ou mudou de versão): mantém o que foi preenchido
+  const missing = value && (!selected || selected.versao !== value.versao);
+
+  return (
+    <div className="bg-gray-800 p-4 rounded-lg space-y-2">
+      <label htmlFor="checklist" className="flex items-center gap-2 text-sm font-medium text-gray-300">
+        <ClipboardList size={18} className="text-amber-500" /> Modelo de Checklist
+      </label>
+      <select
+        id="checklist"
+        value={value?.id ?? ''}
+        onChange={(e) => onChange(e.target.value)}
+        disabled={isLoading}
+        aria-invalid={!!error}
+        className={`w-full bg-gray-700 border ${error ? 'border-red-500' : 'border-gray-600'} text-white rounded-lg p-3 focus:ring-2 focus:ring-amber-500 focus:border-amber-500 disabled:opacity-60`}
+      >
+        <option value="">Sem modelo (itens livres)</option>
+        {missing && <option value={value.id}>{value.nome} (v{value.versao})</option>}
+        {templates.map(template => (
+          <option key={template.id} value={template.id}>{template.nome} · {template.tipoInspecao}</option>
+        ))}
+      </select>
+      {isLoading && <p className="text-sm text-gray-400">Carregando modelos...</p>}
+      {loadError && <p className="text-sm text-yellow-300">{loadError}. Os itens podem ser preenchidos livremente.</p>}
+      {value && (
+        <p className="text-sm text-gray-400">
+          Versão {value.versao}
+          {selected && !missing && ` · ${selected.perguntas.length} perguntas`}
+          {selected?.descricao && !missing && ` · ${selected.descricao}`}
+        </p>
+      )}
+      {error && <p className="text-sm text-red-400">{error}</p>}
+    </div>
+  );
+};
+
+export default ChecklistPicker;
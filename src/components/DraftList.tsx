@@ -0,0 +1,50 @@
+import { FileText, Trash2 } from 'lucide-react';
+import { InspectionDraft } from '@/types/inspection';
+
+type DraftListProps = {
+  drafts: InspectionDraft[];
+  currentDraftId: string;
+  onResume: (draft: InspectionDraft) => void;
+  onDelete: (id: string) => void;
+};
+
+const formatDateTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleString('pt-BR', { dateStyle: 'short', timeStyle: 'short' });
+
+const DraftList = ({ drafts, currentDraftId, onResume, onDelete }: DraftListProps) => {
+  const otherDrafts = drafts.filter(draft => draft.id !== currentDraftId);
+  if (otherDrafts.length === 0) return null;
+
+  return (
+    <div className="mb-8 bg-gray-800 rounded-lg p-4">
+      <h3 className="text-lg font-semibold text-amber-400 mb-3">Rascunhos salvos</h3>
+      <ul className="space-y-2">
+        {otherDrafts.map(draft => (
+          <li key={draft.id} className="flex items-center gap-3 bg-gray-700 rounded-lg p-3">
+            <FileText size={20} className="text-gray-400 flex-shrink-0" />
+            <div className="flex-1 min-w-0">
+              <p className="font-medium truncate">
+                {[draft.headerData.unidade, draft.headerData.local].filter(Boolean).join(' - ') || 'Inspeção sem título'}
+              </p>
+              <p className="text-xs text-gray-400">
+                Etapa {draft.step} de 3 · salvo em {formatDateTime(draft.updatedAt)}
+              </p>
+            </div>
+            <button
+              type="button"
+              onClick={() => onResume(draft)}
+              className="text-sm bg-amber-600 hover:bg-amber-700 text-white font-semibold px-3 py-1 rounded"
+            >
+              Retomar
+            </button>
+            <button type="button" onClick={() => onDelete(draft.id)} className="p-1 text-red-500 hover:text-red-400" aria-label="Excluir rascunho">
+              <Trash2 size={18} />
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default DraftList;
@@ -0,0 +1,155 @@
+"use client";
+
+import { useState } from 'react';
+import { Crosshair, Keyboard, Loader2, Map as MapIcon, MapPin, X } from 'lucide-react';
+import LocationMap from '@/components/LocationMap';
+import { captureLocation } from '@/lib/geo/capture';
+import { GEO_SOURCE_LABELS, formatAccuracy, formatLatLng, parseCoordinate } from '@/lib/geo/location';
+import { GeoLocation } from '@/lib/validation/submitSchema';
+
+type LocationFieldProps = {
+  id: string;
+  label: string;
+  value: GeoLocation | null;
+  onChange: (location: GeoLocation | null) => void;
+  /** Captura iniciada fora do campo (ex.: ao abrir uma inspeção nova) ainda em andamento */
+  capturing?: boolean;
+  /** Erro da captura iniciada fora do campo */
+  captureError?: string | null;
+  error?: string;
+};
+
+type Mode = 'view' | 'map' | 'manual';
+
+// Sem posição para começar, o mapa abre no Brasil inteiro e o inspetor aproxima até o local
+const DEFAULT_CENTER = { latitude: -14.235, longitude: -51.9253 };
+const DEFAULT_ZOOM = 4;
+const LOCATION_ZOOM = 17;
+
+const formatCapturedAt = (value: string) => {
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? value : date.toLocaleString('pt-BR', { dateStyle: 'short', timeStyle: 'short' });
+};
+
+// Localização com as três formas de informar: GPS do aparelho, pino ajustado no mapa ou coordenadas digitadas
+const LocationField = ({ id, label, value, onChange, capturing = false, captureError = null, error }: LocationFieldProps) => {
+  const [mode, setMode] = useState<Mode>('view');
+  const [isCapturing, setIsCapturing] = useState(false);
+  const [localError, setLocalError] = useState<string | null>(null);
+  const [manual, setManual] = useState({ latitude: '', longitude: '' });
+
+  const busy = capturing || isCapturing;
+  const message = localError || (value ? null : captureError);
+
+  const capture = async () => {
+    setIsCapturing(true);
+    setLocalError(null);
+    try {
+      onChange(await captureLocation());
+      setMode('view');
+    } catch (err) {
+      setLocalError(err instanceof Error ? err.message : 'Não foi possível obter a localização.');
+    } finally {
+      setIsCapturing(false);
+    }
+  };
+
+  const handleMapChange = (latitude: number, longitude: number) => {
+    onChange({ latitude, longitude, precisao: null, origem: 'mapa', capturadaEm: new Date().toISOString() });
+  };
+
+  const openManual = () => {
+    setManual(value
+      ? { latitude: value.latitude.toFixed(6), longitude: value.longitude.toFixed(6) }
+      : { latitude: '', longitude: '' });
+    setLocalError(null);
+    setMode(mode === 'manual' ? 'view' : 'manual');
+  };
+
+  const applyManual = () => {
+    const latitude = parseCoordinate(manual.latitude, 90);
+    const longitude = parseCoordinate(manual.longitude, 180);
+    if (latitude === null || longitude === null) {
+      setLocalError('Coordenadas inválidas. Use graus decimais, ex.: latitude -6.43912 e longitude -50.07231.');
+      return;
+    }
+    setLocalError(null);
+    onChange({ latitude, longitude, precisao: null, origem: 'manual', capturadaEm: new Date().toISOString() });
+    setMode('view');
+  };
+
+  const buttonClass = (active = false) =>
+    `flex items-center gap-1 text-sm px-3 py-1.5 rounded ${active ? 'bg-amber-600 text-white' : 'bg-gray-700 text-amber-500 hover:text-amber-400'} disabled:opacity-50`;
+
+  return (
+    <div className="space-y-3">
+      <p className="block text-sm font-medium text-gray-300">{label}</p>
+      <div className={`flex items-start gap-3 bg-gray-700/50 border ${error ? 'border-red-500' : 'border-gray-600'} rounded-lg p-3`}>
+        {busy ? <Loader2 size={20} className="animate-spin text-amber-500 shrink-0 mt-0.5" /> : <MapPin size={20} className="text-amber-500 shrink-0 mt-0.5" />}
+        <div className="flex-1 text-sm">
+          {busy && !value && <p className="text-gray-300">Obtendo a localização...</p>}
+          {value && (
+            <>
+              <p className="font-mono">{formatLatLng(value)}</p>
+              <p className="text-gray-400 text-xs">
+                {[formatAccuracy(value) ? `Precisão ${formatAccuracy(value)}` : '', GEO_SOURCE_LABELS[value.origem], formatCapturedAt(value.capturadaEm)].filter(Boolean).join(' · ')}
+              </p>
+            </>
+          )}
+          {!busy && !value && <p className="text-gray-400">Localização não informada.</p>}
+        </div>
+        {value && (
+          <button type="button" onClick={() => onChange(null)} className="p-1 text-gray-400 hover:text-red-400" aria-label="Remover localização">
+            <X size={16} />
+          </button>
+        )}
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <button type="button" onClick={capture} disabled={busy} className={buttonClass()}>
+          <Crosshair size={14} /> {value ? 'Capturar de novo' : 'Capturar GPS'}
+        </button>
+        <button type="button" onClick={() => setMode(mode === 'map' ? 'view' : 'map')} className={buttonClass(mode === 'map')}>
+          <MapIcon size={14} /> Ajustar no mapa
+        </button>
+        <button type="button" onClick={openManual} className={buttonClass(mode === 'manual')}>
+          <Keyboard size={14} /> Digitar coordenadas
+        </button>
+      </div>
+
+      {mode === 'map' && (
+        <div className="space-y-1">
+          <LocationMap
+            latitude={value?.latitude ?? DEFAULT_CENTER.latitude}
+            longitude={value?.longitude ?? DEFAULT_CENTER.longitude}
+            zoom={value ? LOCATION_ZOOM : DEFAULT_ZOOM}
+            accuracy={value?.precisao}
+            onChange={handleMapChange}
+          />
+          <p className="text-xs text-gray-400">Arraste o mapa até o pino ficar sobre o local. Sem conexão, aparecem só as áreas já visitadas.</p>
+        </div>
+      )}
+
+      {mode === 'manual' && (
+        <div className="grid grid-cols-1 md:grid-cols-[1fr_1fr_auto] gap-3 items-end">
+          <div>
+            <label htmlFor={`${id}-latitude`} className="block text-xs text-gray-400 mb-1">Latitude</label>
+            <input id={`${id}-latitude`} inputMode="decimal" value={manual.latitude} onChange={(e) => setManual(prev => ({ ...prev, latitude: e.target.value }))} placeholder="-6.43912" className="w-full bg-gray-700 border border-gray-600 text-white rounded-lg p-2 font-mono focus:ring-2 focus:ring-amber-500 focus:border-amber-500" />
+          </div>
+          <div>
+            <label htmlFor={`${id}-longitude`} className="block text-xs text-gray-400 mb-1">Longitude</label>
+            <input id={`${id}-longitude`} inputMode="decimal" value={manual.longitude} onChange={(e) => setManual(prev => ({ ...prev, longitude: e.target.value }))} placeholder="-50.07231" className="w-full bg-gray-700 border border-gray-600 text-white rounded-lg p-2 font-mono focus:ring-2 focus:ring-amber-500 focus:border-amber-500" />
+          </div>
+          <button type="button" onClick={applyManual} className="bg-amber-600 hover:bg-amber-700 text-white text-sm font-semibold px-4 py-2 rounded-lg">
+            Aplicar
+          </button>
+        </div>
+      )}
+
+      {message && <p className="text-sm text-yellow-300">{message}</p>}
+      {error && <p className="text-sm text-red-400">{error}</p>}
+    </div>
+  );
+};
+
+export default LocationField;
@@ -0,0 +1,138 @@
+"use client";
+
+import { PointerEvent, useEffect, useRef, useState } from 'react';
+import { MapPin, Minus, Plus } from 'lucide-react';
+import { MAP_ATTRIBUTION, MAX_ZOOM, MIN_ZOOM, TILE_SIZE, buildTileUrl, projectToWorld, worldToLatLng } from '@/lib/geo/tiles';
+
+type LocationMapProps = {
+  latitude: number;
+  longitude: number;
+  zoom: number;
+  /** Raio de precisão do GPS, em metros, desenhado em volta do pino */
+  accuracy?: number | null;
+  onChange: (latitude: number, longitude: number) => void;
+};
+
+// Metros por pixel no equador, no zoom 0
+const METERS_PER_PIXEL_AT_ZOOM_0 = 156543.03392;
+
+// Mapa leve com o pino fixo no centro: o inspetor arrasta o mapa até o pino ficar no lugar certo.
+// Os tiles vêm do servidor configurado ou, sem conexão, do cache do service worker; os que faltarem ficam em branco.
+const LocationMap = ({ latitude, longitude, zoom: initialZoom, accuracy = null, onChange }: LocationMapProps) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ pointerId: number; startX: number; startY: number; origin: { x: number; y: number }; moved: boolean } | null>(null);
+  const [center, setCenter] = useState({ latitude, longitude });
+  const [zoom, setZoom] = useState(initialZoom);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+
+  // Nova posição vinda de fora (GPS recapturado, coordenadas digitadas)
+  useEffect(() => {
+    setCenter({ latitude, longitude });
+  }, [latitude, longitude]);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const resize = () => setSize({ width: container.clientWidth, height: container.clientHeight });
+    resize();
+    const observer = new ResizeObserver(resize);
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  const world = projectToWorld(center.latitude, center.longitude, zoom);
+  const left = world.x - size.width / 2;
+  const top = world.y - size.height / 2;
+
+  const tiles: { key: string; url: string; x: number; y: number }[] = [];
+  if (size.width > 0) {
+    for (let tileY = Math.floor(top / TILE_SIZE); tileY <= Math.floor((top + size.height) / TILE_SIZE); tileY++) {
+      for (let tileX = Math.floor(left / TILE_SIZE); tileX <= Math.floor((left + size.width) / TILE_SIZE); tileX++) {
+        const url = buildTileUrl({ z: zoom, x: tileX, y: tileY });
+        if (url) tiles.push({ key: `${zoom}/${tileX}/${tileY}`, url, x: tileX * TILE_SIZE - left, y: tileY * TILE_SIZE - top });
+      }
+    }
+  }
+
+  const accuracyRadius = accuracy
+    ? accuracy / ((METERS_PER_PIXEL_AT_ZOOM_0 * Math.cos((center.latitude * Math.PI) / 180)) / 2 ** zoom)
+    : 0;
+
+  const handlePointerDown = (e: PointerEvent<HTMLDivElement>) => {
+    if (dragRef.current || (e.pointerType === 'mouse' && e.button !== 0)) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { pointerId: e.pointerId, startX: e.clientX, startY: e.clientY, origin: world, moved: false };
+  };
+
+  const handlePointerMove = (e: PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag || drag.pointerId !== e.pointerId) return;
+    const dx = e.clientX - drag.startX;
+    const dy = e.clientY - drag.startY;
+    if (Math.abs(dx) + Math.abs(dy) > 2) drag.moved = true;
+    setCenter(worldToLatLng({ x: drag.origin.x - dx, y: drag.origin.y - dy }, zoom));
+  };
+
+  const handlePointerUp = (e: PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag || drag.pointerId !== e.pointerId) return;
+    dragRef.current = null;
+    if (!drag.moved) return;
+    const position = worldToLatLng({ x: drag.origin.x - (e.clientX - drag.startX), y: drag.origin.y - (e.clientY - drag.startY) }, zoom);
+    setCenter(position);
+    onChange(position.latitude, position.longitude);
+  };
+
+  const changeZoom = (delta: number) => setZoom(current => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, current + delta)));
+
+  return (
+    <div className="relative w-full h-64 md:h-80 rounded-lg overflow-hidden border border-gray-600 bg-gray-300 select-none">
+      <div
+        ref={containerRef}
+        className="absolute inset-0 cursor-grab active:cursor-grabbing"
+        style={{ touchAction: 'none' }}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+      >
+        {tiles.map(tile => (
+          // eslint-disable-next-line @next/next/no-img-element
+          <img
+            key={tile.key}
+            src={tile.url}
+            alt=""
+            // Requisição CORS: o service worker só guarda respostas legíveis (as opacas ocupariam a cota toda)
+            crossOrigin="anonymous"
+            draggable={false}
+            width={TILE_SIZE}
+            height={TILE_SIZE}
+            className="absolute max-w-none pointer-events-none"
+            style={{ left: tile.x, top: tile.y }}
+            onError={(e) => { e.currentTarget.style.visibility = 'hidden'; }}
+          />
+        ))}
+      </div>
+
+      {accuracyRadius > 4 && (
+        <div
+          className="absolute rounded-full bg-blue-500/20 border border-blue-500/60 pointer-events-none"
+          style={{ width: accuracyRadius * 2, height: accuracyRadius * 2, left: `calc(50% - ${accuracyRadius}px)`, top: `calc(50% - ${accuracyRadius}px)` }}
+        />
+      )}
+      <MapPin size={36} className="absolute left-1/2 top-1/2 -translate-x-1/2 -translate-y-full text-red-600 fill-red-600/30 pointer-events-none drop-shadow" />
+
+      <div className="absolute top-2 right-2 flex flex-col bg-white rounded shadow text-gray-800">
+        <button type="button" onClick={() => changeZoom(1)} disabled={zoom >= MAX_ZOOM} className="p-1.5 hover:bg-gray-100 disabled:opacity-40" aria-label="Aproximar">
+          <Plus size={18} />
+        </button>
+        <button type="button" onClick={() => changeZoom(-1)} disabled={zoom <= MIN_ZOOM} className="p-1.5 border-t border-gray-200 hover:bg-gray-100 disabled:opacity-40" aria-label="Afastar">
+          <Minus size={18} />
+        </button>
+      </div>
+      <span className="absolute bottom-0 right-0 text-[10px] text-gray-700 bg-white/80 px-1">{MAP_ATTRIBUTION}</span>
+    </div>
+  );
+};
+
+export default LocationMap;
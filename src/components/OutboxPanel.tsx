@@ -0,0 +1,113 @@
+import { Check, Circle, Clock, Loader2, Minus, Pencil, RefreshCw, Trash2, X } from 'lucide-react';
+import { OutboxEntry, OutboxStatus } from '@/types/inspection';
+import { SendProgress } from '@/lib/offline/outbox';
+import { SubmitStepStatus, summarizeSteps } from '@/lib/reports/steps';
+
+type OutboxPanelProps = {
+  entries: OutboxEntry[];
+  progress?: Record<string, SendProgress>;
+  isOnline: boolean;
+  onRetry: (id: string) => void;
+  onRemove: (id: string) => void;
+  onClearSent: () => void;
+  onEdit?: (entry: OutboxEntry) => void;
+};
+
+const STATUS_LABELS: Record<OutboxStatus, { label: string; className: string }> = {
+  pendente: { label: 'Aguardando conexão', className: 'bg-gray-600 text-gray-200' },
+  enviando: { label: 'Enviando...', className: 'bg-blue-700 text-white' },
+  enviado: { label: 'Enviado', className: 'bg-green-700 text-white' },
+  erro: { label: 'Erro no envio', className: 'bg-red-700 text-white' },
+};
+
+// Etapas do processamento no servidor, exibidas enquanto o item está sendo enviado
+const STEP_STATUS_STYLES: Record<SubmitStepStatus, { icon: typeof Check; className: string }> = {
+  pendente: { icon: Circle, className: 'text-gray-500' },
+  andamento: { icon: Loader2, className: 'text-blue-300' },
+  ok: { icon: Check, className: 'text-green-400' },
+  falhou: { icon: X, className: 'text-red-400' },
+  reenvio: { icon: Clock, className: 'text-amber-400' },
+  pulado: { icon: Minus, className: 'text-gray-500' },
+};
+
+const OutboxPanel = ({ entries, progress = {}, isOnline, onRetry, onRemove, onClearSent, onEdit }: OutboxPanelProps) => {
+  if (entries.length === 0) return null;
+
+  const hasSent = entries.some(entry => entry.status === 'enviado');
+
+  return (
+    <div className="mb-8 bg-gray-800 rounded-lg p-4">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-lg font-semibold text-amber-400">Fila de envio</h3>
+        {hasSent && (
+          <button type="button" onClick={onClearSent} className="text-sm text-gray-400 hover:text-white">
+            Limpar enviados
+          </button>
+        )}
+      </div>
+      <ul className="space-y-2">
+        {entries.map(entry => {
+          const status = STATUS_LABELS[entry.status];
+          const { unidade, local, data } = entry.draft.headerData;
+          const upload = entry.status === 'enviando' ? progress[entry.id] : undefined;
+
+          return (
+            <li key={entry.id} className="flex items-center gap-3 bg-gray-700 rounded-lg p-3">
+              <div className="flex-1 min-w-0">
+                <p className="font-medium truncate">
+                  {entry.inspectionId || [unidade, local].filter(Boolean).join(' - ') || 'Relatório de inspeção'}
+                </p>
+                <p className="text-xs text-gray-400">
+                  {data && `${data} · `}{entry.attempts} tentativa(s)
+                  {entry.lastError && entry.status !== 'enviado' && ` · ${entry.lastError}`}
+                  {entry.status === 'enviado' && entry.warnings && ` · ${entry.warnings.join(' · ')}`}
+                </p>
+                {upload && upload.total > 0 && (
+                  <div className="mt-2 h-1.5 bg-gray-600 rounded-full overflow-hidden" role="progressbar" aria-valuenow={Math.round((upload.loaded / upload.total) * 100)} aria-valuemin={0} aria-valuemax={100}>
+                    <div className="h-full bg-blue-500 transition-all" style={{ width: `${(upload.loaded / upload.total) * 100}%` }} />
+                  </div>
+                )}
+                {upload?.etapas && (
+                  <ul className="mt-2 flex flex-wrap gap-x-3 gap-y-1 text-xs">
+                    {summarizeSteps(upload.etapas).map(step => {
+                      const { icon: Icon, className } = STEP_STATUS_STYLES[step.status];
+                      return (
+                        <li key={step.etapa} className={`flex items-center gap-1 ${className}`}>
+                          <Icon size={12} className={step.status === 'andamento' ? 'animate-spin' : undefined} /> {step.label}
+                        </li>
+                      );
+                    })}
+                  </ul>
+                )}
+              </div>
+              <span className={`text-xs font-semibold px-2 py-1 rounded ${status.className}`}>{status.label}</span>
+              {entry.status === 'erro' && entry.fieldErrors && entry.fieldErrors.length > 0 && onEdit && (
+                <button type="button" onClick={() => onEdit(entry)} className="p-1 text-amber-500 hover:text-amber-400" aria-label="Corrigir relatório">
+                  <Pencil size={18} />
+                </button>
+              )}
+              {(entry.status === 'erro' || entry.status === 'pendente') && (
+                <button
+                  type="button"
+                  onClick={() => onRetry(entry.id)}
+                  disabled={!isOnline}
+                  className="p-1 text-amber-500 hover:text-amber-400 disabled:opacity-40"
+                  aria-label="Tentar novamente"
+                >
+                  <RefreshCw size={18} />
+                </button>
+              )}
+              {entry.status !== 'enviando' && (
+                <button type="button" onClick={() => onRemove(entry.id)} className="p-1 text-red-500 hover:text-red-400" aria-label="Remover da fila">
+                  <Trash2 size={18} />
+                </button>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default OutboxPanel;
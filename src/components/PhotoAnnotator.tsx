@@ -0,0 +1,256 @@
+"use client";
+
+import { PointerEvent, useCallback, useEffect, useRef, useState } from 'react';
+import { ArrowUpRight, Circle, Eraser, Loader2, Pencil, Square, Type, Undo2, X } from 'lucide-react';
+import {
+  ANNOTATION_COLORS,
+  ANNOTATION_TOOLS,
+  ANNOTATION_TOOL_LABELS,
+  AnnotationPoint,
+  AnnotationTool,
+  MAX_ANNOTATION_TEXT,
+  PhotoAnnotation,
+  renderAnnotations,
+} from '@/lib/images/annotations';
+
+type PhotoAnnotatorProps = {
+  title: string;
+  /** Foto sem anotações */
+  image: File;
+  annotations: PhotoAnnotation[];
+  onSave: (annotations: PhotoAnnotation[]) => Promise<void>;
+  onCancel: () => void;
+};
+
+const TOOL_ICONS = {
+  seta: ArrowUpRight,
+  circulo: Circle,
+  retangulo: Square,
+  livre: Pencil,
+  texto: Type,
+};
+
+// Arrastes menores que isso (em pixels da foto) são toques acidentais e não viram anotação
+const MIN_SHAPE_SIZE = 8;
+
+// Editor de anotações em tela cheia: o canvas tem as dimensões da foto e é reduzido pelo CSS,
+// então as anotações ficam em pixels da foto e saem iguais na versão achatada
+const PhotoAnnotator = ({ title, image, annotations: initialAnnotations, onSave, onCancel }: PhotoAnnotatorProps) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const imageRef = useRef<HTMLImageElement | null>(null);
+  const draftRef = useRef<{ pointerId: number; annotation: PhotoAnnotation } | null>(null);
+  const [annotations, setAnnotations] = useState(initialAnnotations);
+  // Estados anteriores da lista, para desfazer (inclusive o "Limpar")
+  const [history, setHistory] = useState<PhotoAnnotation[][]>([]);
+  const [tool, setTool] = useState<AnnotationTool>('seta');
+  const [color, setColor] = useState(ANNOTATION_COLORS[0]);
+  const [label, setLabel] = useState('');
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const redraw = useCallback(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || !imageRef.current) return;
+    ctx.drawImage(imageRef.current, 0, 0, canvas.width, canvas.height);
+    const pending = draftRef.current ? [...annotations, draftRef.current.annotation] : annotations;
+    renderAnnotations(ctx, pending, canvas.width, canvas.height);
+  }, [annotations]);
+
+  useEffect(() => {
+    const url = URL.createObjectURL(image);
+    const element = new Image();
+    element.onload = () => {
+      const canvas = canvasRef.current;
+      if (!canvas) return;
+      canvas.width = element.naturalWidth;
+      canvas.height = element.naturalHeight;
+      imageRef.current = element;
+      setIsLoaded(true);
+    };
+    element.onerror = () => setError('Não foi possível abrir a foto para anotar.');
+    element.src = url;
+    return () => {
+      URL.revokeObjectURL(url);
+      imageRef.current = null;
+    };
+  }, [image]);
+
+  useEffect(() => {
+    if (isLoaded) redraw();
+  }, [isLoaded, redraw]);
+
+  // Esc fecha sem salvar
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && !isSaving) onCancel();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isSaving, onCancel]);
+
+  const commit = (next: PhotoAnnotation[]) => {
+    setHistory(prev => [...prev, annotations]);
+    setAnnotations(next);
+  };
+
+  // Posição do ponteiro em pixels da foto
+  const toImagePoint = (e: PointerEvent<HTMLCanvasElement>): AnnotationPoint => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: Math.round(((e.clientX - rect.left) / rect.width) * e.currentTarget.width),
+      y: Math.round(((e.clientY - rect.top) / rect.height) * e.currentTarget.height),
+    };
+  };
+
+  const handlePointerDown = (e: PointerEvent<HTMLCanvasElement>) => {
+    if (!isLoaded || isSaving || draftRef.current || (e.pointerType === 'mouse' && e.button !== 0)) return;
+    const point = toImagePoint(e);
+
+    if (tool === 'texto') {
+      const text = label.trim();
+      if (!text) {
+        setError('Digite o texto do rótulo e toque na foto onde ele deve ficar.');
+        return;
+      }
+      setError(null);
+      commit([...annotations, { ferramenta: 'texto', cor: color, pontos: [point], texto: text }]);
+      return;
+    }
+
+    e.currentTarget.setPointerCapture(e.pointerId);
+    draftRef.current = { pointerId: e.pointerId, annotation: { ferramenta: tool, cor: color, pontos: [point, point] } };
+    redraw();
+  };
+
+  const handlePointerMove = (e: PointerEvent<HTMLCanvasElement>) => {
+    const draft = draftRef.current;
+    if (!draft || draft.pointerId !== e.pointerId) return;
+    const point = toImagePoint(e);
+    const { annotation } = draft;
+    annotation.pontos = annotation.ferramenta === 'livre' ? [...annotation.pontos, point] : [annotation.pontos[0], point];
+    redraw();
+  };
+
+  const handlePointerUp = (e: PointerEvent<HTMLCanvasElement>) => {
+    const draft = draftRef.current;
+    if (!draft || draft.pointerId !== e.pointerId) return;
+    draftRef.current = null;
+
+    const { pontos } = draft.annotation;
+    const xs = pontos.map(point => point.x);
+    const ys = pontos.map(point => point.y);
+    if (Math.max(...xs) - Math.min(...xs) < MIN_SHAPE_SIZE && Math.max(...ys) - Math.min(...ys) < MIN_SHAPE_SIZE) {
+      redraw();
+      return;
+    }
+    // Traço livre com o primeiro ponto repetido pelo pointerdown
+    commit([...annotations, draft.annotation.ferramenta === 'livre' ? { ...draft.annotation, pontos: pontos.slice(1) } : draft.annotation]);
+  };
+
+  const undo = () => {
+    if (history.length === 0) return;
+    setAnnotations(history[history.length - 1]);
+    setHistory(prev => prev.slice(0, -1));
+  };
+
+  const save = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await onSave(annotations);
+    } catch (err) {
+      console.error('Erro ao salvar a foto anotada:', err);
+      setError('Não foi possível salvar a foto anotada. Tente de novo.');
+      setIsSaving(false);
+    }
+  };
+
+  const toolButtonClass = (active: boolean) =>
+    `flex items-center gap-1 text-sm px-2.5 py-1.5 rounded ${active ? 'bg-amber-600 text-white' : 'bg-gray-700 text-gray-200 hover:text-white'} disabled:opacity-40`;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/90 flex flex-col" role="dialog" aria-modal="true" aria-label={title}>
+      <div className="flex items-center justify-between gap-3 px-4 py-2 bg-gray-800 border-b border-gray-700">
+        <h2 className="text-white font-semibold truncate">{title}</h2>
+        <button type="button" onClick={onCancel} disabled={isSaving} className="p-1 text-gray-400 hover:text-white disabled:opacity-40" aria-label="Fechar sem salvar">
+          <X size={20} />
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 px-4 py-2 bg-gray-800/80">
+        {ANNOTATION_TOOLS.map(option => {
+          const Icon = TOOL_ICONS[option];
+          return (
+            <button key={option} type="button" onClick={() => setTool(option)} className={toolButtonClass(tool === option)} aria-label={ANNOTATION_TOOL_LABELS[option]} aria-pressed={tool === option}>
+              <Icon size={14} /> <span className="hidden sm:inline">{ANNOTATION_TOOL_LABELS[option]}</span>
+            </button>
+          );
+        })}
+        <span className="w-px h-6 bg-gray-600 mx-1" />
+        {ANNOTATION_COLORS.map(option => (
+          <button
+            key={option}
+            type="button"
+            onClick={() => setColor(option)}
+            className={`w-7 h-7 rounded-full border-2 ${color === option ? 'border-amber-400 scale-110' : 'border-gray-500'}`}
+            style={{ backgroundColor: option }}
+            aria-label={`Cor ${option}`}
+            aria-pressed={color === option}
+          />
+        ))}
+        <span className="w-px h-6 bg-gray-600 mx-1" />
+        <button type="button" onClick={undo} disabled={history.length === 0} className={toolButtonClass(false)}>
+          <Undo2 size={14} /> Desfazer
+        </button>
+        <button type="button" onClick={() => commit([])} disabled={annotations.length === 0} className={toolButtonClass(false)}>
+          <Eraser size={14} /> Limpar
+        </button>
+      </div>
+
+      {tool === 'texto' && (
+        <div className="px-4 py-2 bg-gray-800/80">
+          <input
+            type="text"
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+            maxLength={MAX_ANNOTATION_TEXT}
+            placeholder="Texto do rótulo; depois toque na foto onde ele deve ficar"
+            className="w-full bg-gray-700 border border-gray-600 text-white text-sm rounded-lg p-2 focus:ring-2 focus:ring-amber-500 focus:border-amber-500"
+          />
+        </div>
+      )}
+
+      {/* Posicionamento absoluto: o canvas encolhe para caber na área mantendo a proporção da foto */}
+      <div className="relative flex-1 min-h-0 m-2">
+        {!isLoaded && !error && <Loader2 size={32} className="absolute inset-0 m-auto animate-spin text-amber-500" />}
+        <canvas
+          ref={canvasRef}
+          className={`absolute inset-0 m-auto max-w-full max-h-full ${tool === 'texto' ? 'cursor-text' : 'cursor-crosshair'} ${isLoaded ? '' : 'hidden'}`}
+          style={{ touchAction: 'none' }}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+        />
+      </div>
+
+      <div className="flex items-center justify-between gap-3 px-4 py-3 bg-gray-800 border-t border-gray-700">
+        <p className={`text-sm ${error ? 'text-red-400' : 'text-gray-400'}`}>
+          {error || 'A foto original fica guardada junto da versão anotada.'}
+        </p>
+        <div className="flex gap-2 shrink-0">
+          <button type="button" onClick={onCancel} disabled={isSaving} className="text-sm text-gray-300 hover:text-white px-4 py-2 disabled:opacity-40">
+            Cancelar
+          </button>
+          <button type="button" onClick={save} disabled={!isLoaded || isSaving} className="flex items-center gap-1 bg-amber-600 hover:bg-amber-700 text-white text-sm font-semibold px-4 py-2 rounded-lg disabled:opacity-50">
+            {isSaving && <Loader2 size={14} className="animate-spin" />} Salvar
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PhotoAnnotator;
@@ -0,0 +1,242 @@
+"use client";
+
+import { ChangeEvent, useEffect, useState } from 'react';
+import { ChevronLeft, ChevronRight, FileUp, Loader2, MapPin, PenLine, X } from 'lucide-react';
+import LocationField from '@/components/LocationField';
+import PhotoAnnotator from '@/components/PhotoAnnotator';
+import { captureLocation } from '@/lib/geo/capture';
+import { formatAccuracy } from '@/lib/geo/location';
+import { PhotoAnnotation, flattenAnnotations } from '@/lib/images/annotations';
+import { compressPhoto, formatFileSize } from '@/lib/images/compress';
+import { createLocalId } from '@/lib/offline/db';
+import { GeoLocation, MAX_PHOTOS_PER_ITEM } from '@/lib/validation/submitSchema';
+import { InspectionPhoto } from '@/types/inspection';
+
+type PhotoGalleryProps = {
+  id: string;
+  label: string;
+  photos: InspectionPhoto[];
+  onChange: (photos: InspectionPhoto[]) => void;
+  error?: string;
+};
+
+// Espera menor que a da localização da inspeção, para não segurar o anexo das fotos
+const PHOTO_CAPTURE_TIMEOUT_MS = 8000;
+
+type PhotoThumbnailProps = {
+  photo: InspectionPhoto;
+  position: number;
+  total: number;
+  isEditingLocation: boolean;
+  onCaptionChange: (legenda: string) => void;
+  onEditLocation: () => void;
+  onAnnotate: () => void;
+  onMove: (direction: -1 | 1) => void;
+  onRemove: () => void;
+};
+
+// Miniatura de uma foto com legenda, tamanho, localização e controles de anotação, ordem e remoção
+const PhotoThumbnail = ({ photo, position, total, isEditingLocation, onCaptionChange, onEditLocation, onAnnotate, onMove, onRemove }: PhotoThumbnailProps) => {
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    const url = URL.createObjectURL(photo.file);
+    setPreviewUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [photo.file]);
+
+  return (
+    <div className="bg-gray-800 border border-gray-600 rounded-lg overflow-hidden flex flex-col">
+      <div className="relative aspect-square bg-gray-900">
+        {previewUrl && (
+          // eslint-disable-next-line @next/next/no-img-element
+          <img src={previewUrl} alt={photo.legenda || `Foto ${position + 1}`} className="w-full h-full object-cover" />
+        )}
+        <span className="absolute top-1 left-1 text-xs text-white bg-black/60 px-1.5 py-0.5 rounded">{position + 1}</span>
+        <span className="absolute bottom-1 right-1 text-xs text-gray-200 bg-black/60 px-1.5 py-0.5 rounded">{formatFileSize(photo.file.size)}</span>
+        <button
+          type="button"
+          onClick={onEditLocation}
+          className={`absolute bottom-1 left-1 flex items-center gap-0.5 text-xs px-1.5 py-0.5 rounded ${isEditingLocation ? 'bg-amber-600 text-white' : photo.localizacao ? 'bg-black/60 text-green-300' : 'bg-black/60 text-yellow-300'}`}
+          aria-label={`Localização da foto ${position + 1}`}
+        >
+          <MapPin size={12} /> {photo.localizacao ? formatAccuracy(photo.localizacao) || 'OK' : 'Sem local'}
+        </button>
+        <button
+          type="button"
+          onClick={onAnnotate}
+          className={`absolute top-1 right-9 flex items-center gap-0.5 text-xs px-1.5 py-1 rounded bg-black/60 ${photo.original ? 'text-amber-400' : 'text-gray-200 hover:text-white'}`}
+          aria-label={`Anotar foto ${position + 1}`}
+        >
+          <PenLine size={14} /> {photo.original ? 'Anotada' : 'Anotar'}
+        </button>
+        <button type="button" onClick={onRemove} className="absolute top-1 right-1 p-1 bg-black/60 text-red-400 hover:text-red-300 rounded" aria-label={`Remover foto ${position + 1}`}>
+          <X size={16} />
+        </button>
+      </div>
+      <input
+        type="text"
+        value={photo.legenda}
+        onChange={(e) => onCaptionChange(e.target.value)}
+        placeholder="Legenda"
+        maxLength={200}
+        className="w-full bg-gray-700 border-0 border-t border-gray-600 text-white text-sm px-2 py-1.5 focus:ring-2 focus:ring-amber-500 focus:outline-none"
+      />
+      {total > 1 && (
+        <div className="flex justify-between border-t border-gray-600">
+          <button type="button" onClick={() => onMove(-1)} disabled={position === 0} className="flex-1 p-1 text-gray-400 hover:text-white disabled:opacity-30 flex justify-center" aria-label="Mover para a esquerda">
+            <ChevronLeft size={18} />
+          </button>
+          <button type="button" onClick={() => onMove(1)} disabled={position === total - 1} className="flex-1 p-1 text-gray-400 hover:text-white disabled:opacity-30 flex justify-center" aria-label="Mover para a direita">
+            <ChevronRight size={18} />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Galeria de fotos do item: comprime cada imagem escolhida, registra onde foi anexada e permite legendar, localizar, anotar, reordenar e remover
+const PhotoGallery = ({ id, label, photos, onChange, error }: PhotoGalleryProps) => {
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [processingError, setProcessingError] = useState<string | null>(null);
+  const [editingLocationId, setEditingLocationId] = useState<string | null>(null);
+  const [annotatingId, setAnnotatingId] = useState<string | null>(null);
+
+  const remaining = MAX_PHOTOS_PER_ITEM - photos.length;
+  const editingPhoto = photos.find(photo => photo.id === editingLocationId) || null;
+  const annotatingPhoto = photos.find(photo => photo.id === annotatingId) || null;
+  const totalSize = photos.reduce((sum, photo) => sum + photo.file.size, 0);
+
+  const handleFileChange = async (e: ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(e.target.files || []);
+    e.target.value = ''; // Permite escolher as mesmas fotos de novo
+    if (selected.length === 0) return;
+
+    setIsProcessing(true);
+    setProcessingError(null);
+    // Posição de onde as fotos foram anexadas, obtida enquanto elas são comprimidas; sem GPS, ficam sem localização
+    const location = captureLocation(PHOTO_CAPTURE_TIMEOUT_MS).catch((err): GeoLocation | null => {
+      console.log('⚠️ Fotos sem localização:', err instanceof Error ? err.message : err);
+      return null;
+    });
+    const added: InspectionPhoto[] = [];
+    let failures = 0;
+    for (const file of selected.slice(0, remaining)) {
+      try {
+        added.push({ id: createLocalId(), file: await compressPhoto(file), legenda: '', localizacao: null, original: null, anotacoes: [] });
+      } catch (err) {
+        console.error('Erro ao processar foto:', err);
+        failures++;
+      }
+    }
+    const localizacao = await location;
+    setIsProcessing(false);
+
+    if (added.length > 0) onChange([...photos, ...added.map(photo => ({ ...photo, localizacao }))]);
+    if (failures > 0) {
+      setProcessingError(`Não foi possível processar ${failures === 1 ? '1 foto' : `${failures} fotos`}. Tente outra imagem.`);
+    } else if (selected.length > remaining) {
+      setProcessingError(`Limite de ${MAX_PHOTOS_PER_ITEM} fotos por item; ${selected.length - remaining} foto(s) ignorada(s).`);
+    }
+  };
+
+  const updatePhoto = (photoId: string, changes: Partial<Omit<InspectionPhoto, 'id'>>) => {
+    onChange(photos.map(photo => (photo.id === photoId ? { ...photo, ...changes } : photo)));
+  };
+
+  // O editor sempre parte da foto original; sem anotações, a foto volta a ser a original.
+  // A foto alterada ganha outro id, e com ele outra chave no armazenamento, onde o envio não substitui arquivos já gravados
+  const saveAnnotations = async (photo: InspectionPhoto, anotacoes: PhotoAnnotation[]) => {
+    const original = photo.original || photo.file;
+    const changes = anotacoes.length === 0
+      ? { file: original, original: null, anotacoes: [] }
+      : { file: await flattenAnnotations(original, anotacoes), original, anotacoes };
+    onChange(photos.map(current => (current.id === photo.id ? { ...current, ...changes, id: createLocalId() } : current)));
+    setAnnotatingId(null);
+  };
+
+  const movePhoto = (position: number, direction: -1 | 1) => {
+    const target = position + direction;
+    if (target < 0 || target >= photos.length) return;
+    const next = [...photos];
+    [next[position], next[target]] = [next[target], next[position]];
+    onChange(next);
+  };
+
+  const removePhoto = (photoId: string) => {
+    setProcessingError(null);
+    if (editingLocationId === photoId) setEditingLocationId(null);
+    if (annotatingId === photoId) setAnnotatingId(null);
+    onChange(photos.filter(photo => photo.id !== photoId));
+  };
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-300 mb-1">{label}</label>
+      {photos.length > 0 && (
+        <div className="grid grid-cols-2 sm:grid-cols-3 gap-3 mb-3">
+          {photos.map((photo, position) => (
+            <PhotoThumbnail
+              key={photo.id}
+              photo={photo}
+              position={position}
+              total={photos.length}
+              isEditingLocation={editingLocationId === photo.id}
+              onCaptionChange={(legenda) => updatePhoto(photo.id, { legenda })}
+              onEditLocation={() => setEditingLocationId(editingLocationId === photo.id ? null : photo.id)}
+              onAnnotate={() => setAnnotatingId(photo.id)}
+              onMove={(direction) => movePhoto(position, direction)}
+              onRemove={() => removePhoto(photo.id)}
+            />
+          ))}
+        </div>
+      )}
+      {editingPhoto && (
+        <div className="bg-gray-900/60 border border-gray-600 rounded-lg p-3 mb-3">
+          <LocationField
+            key={editingPhoto.id}
+            id={`${id}-local-${editingPhoto.id}`}
+            label={`Localização da foto ${photos.indexOf(editingPhoto) + 1}`}
+            value={editingPhoto.localizacao}
+            onChange={(localizacao) => updatePhoto(editingPhoto.id, { localizacao })}
+          />
+          <button type="button" onClick={() => setEditingLocationId(null)} className="mt-3 text-sm text-gray-300 hover:text-white underline">
+            Concluir
+          </button>
+        </div>
+      )}
+      {annotatingPhoto && (
+        <PhotoAnnotator
+          key={annotatingPhoto.id}
+          title={`${label} · Foto ${photos.indexOf(annotatingPhoto) + 1}`}
+          image={annotatingPhoto.original || annotatingPhoto.file}
+          annotations={annotatingPhoto.anotacoes}
+          onSave={(anotacoes) => saveAnnotations(annotatingPhoto, anotacoes)}
+          onCancel={() => setAnnotatingId(null)}
+        />
+      )}
+      {remaining > 0 ? (
+        <label htmlFor={id} className={`flex items-center justify-center gap-2 bg-gray-700 border-2 border-dashed ${error ? 'border-red-500' : 'border-gray-600'} text-gray-400 rounded-lg p-3 cursor-pointer hover:bg-gray-600 hover:border-amber-500 hover:text-white transition`}>
+          {isProcessing ? <Loader2 size={20} className="animate-spin" /> : <FileUp size={20} />}
+          <span className="truncate">
+            {isProcessing ? 'Processando fotos...' : photos.length > 0 ? 'Anexar mais fotos' : 'Anexar fotos'}
+          </span>
+          {photos.length > 0 && !isProcessing && (
+            <span className="text-xs text-gray-300 bg-gray-800 px-2 py-0.5 rounded flex-shrink-0">
+              {photos.length}/{MAX_PHOTOS_PER_ITEM} · {formatFileSize(totalSize)}
+            </span>
+          )}
+        </label>
+      ) : (
+        <p className="text-sm text-gray-400">
+          Limite de {MAX_PHOTOS_PER_ITEM} fotos atingido · {formatFileSize(totalSize)}
+        </p>
+      )}
+      <input id={id} type="file" accept="image/*" multiple onChange={handleFileChange} className="hidden" disabled={isProcessing || remaining <= 0} />
+      {(processingError || error) && <p className="text-sm text-red-400 mt-1">{processingError || error}</p>}
+    </div>
+  );
+};
+
+export default PhotoGallery;
@@ -0,0 +1,20 @@
+import { RISK_LEVEL_INFO, assessRisk, formatRisk } from '@/lib/risk/matrix';
+
+type RiskBadgeProps = {
+  probabilidade: number | null | undefined;
+  severidade: number | null | undefined;
+};
+
+// Selo colorido com o nível de risco (probabilidade × severidade); nada enquanto o risco não for avaliado
+const RiskBadge = ({ probabilidade, severidade }: RiskBadgeProps) => {
+  const risk = assessRisk(probabilidade, severidade);
+  if (!risk) return null;
+
+  return (
+    <span className={`text-xs font-semibold px-2 py-1 rounded whitespace-nowrap ${RISK_LEVEL_INFO[risk.level].className}`} title={`Probabilidade ${probabilidade} × Severidade ${severidade}`}>
+      Risco {formatRisk(risk)}
+    </span>
+  );
+};
+
+export default RiskBadge;
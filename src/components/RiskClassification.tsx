@@ -0,0 +1,81 @@
+import { FINDING_TYPES, FINDING_TYPE_LABELS, FindingType, PROBABILITY_LABELS, RISK_SCALE, SEVERITY_LABELS, requiresRiskAssessment } from '@/lib/risk/matrix';
+import RiskBadge from './RiskBadge';
+
+type RiskClassificationValue = {
+  tipoAchado: FindingType | '';
+  probabilidade: number | null;
+  severidade: number | null;
+};
+
+type RiskClassificationProps = {
+  id: string;
+  value: RiskClassificationValue;
+  onChange: (changes: Partial<RiskClassificationValue>) => void;
+  errors: { tipoAchado?: string; probabilidade?: string; severidade?: string };
+  // Nas perguntas do checklist o tipo de achado vem da resposta
+  showFindingType?: boolean;
+};
+
+const selectClassName = (error?: string) =>
+  `w-full bg-gray-700 border ${error ? 'border-red-500' : 'border-gray-600'} text-white rounded-lg p-3 focus:ring-2 focus:ring-amber-500 focus:border-amber-500`;
+
+// Tipo de achado e classificação na matriz de risco de um item, com o nível calculado
+const RiskClassification = ({ id, value, onChange, errors, showFindingType = true }: RiskClassificationProps) => {
+  const riskRequired = requiresRiskAssessment(value.tipoAchado);
+
+  const scaleSelect = (field: 'probabilidade' | 'severidade', label: string, labels: { [level: number]: string }) => (
+    <div>
+      <label htmlFor={`${id}-${field}`} className="block text-sm font-medium text-gray-300 mb-1">{label}{riskRequired && ' *'}</label>
+      <select
+        id={`${id}-${field}`}
+        value={value[field] ?? ''}
+        onChange={(e) => onChange({ [field]: e.target.value === '' ? null : Number(e.target.value) })}
+        aria-invalid={!!errors[field]}
+        className={selectClassName(errors[field])}
+      >
+        <option value="">Não avaliada</option>
+        {RISK_SCALE.map(level => <option key={level} value={level}>{level} - {labels[level]}</option>)}
+      </select>
+      {errors[field] && <p className="text-sm text-red-400 mt-1">{errors[field]}</p>}
+    </div>
+  );
+
+  return (
+    <div className="space-y-4">
+      {showFindingType && <div>
+        <span className="block text-sm font-medium text-gray-300 mb-1">Tipo de Achado</span>
+        <div className="grid grid-cols-3 gap-2" role="radiogroup" aria-label="Tipo de achado">
+          {FINDING_TYPES.map(type => (
+            <button
+              key={type}
+              type="button"
+              role="radio"
+              aria-checked={value.tipoAchado === type}
+              onClick={() => onChange(type === 'conformidade' ? { tipoAchado: type, probabilidade: null, severidade: null } : { tipoAchado: type })}
+              className={`text-sm font-semibold py-2 px-2 rounded-lg border transition ${
+                value.tipoAchado === type
+                  ? 'bg-amber-600 border-amber-500 text-white'
+                  : `bg-gray-700 ${errors.tipoAchado ? 'border-red-500' : 'border-gray-600'} text-gray-300 hover:border-amber-500`
+              }`}
+            >
+              {FINDING_TYPE_LABELS[type]}
+            </button>
+          ))}
+        </div>
+        {errors.tipoAchado && <p className="text-sm text-red-400 mt-1">{errors.tipoAchado}</p>}
+      </div>}
+
+      {value.tipoAchado !== 'conformidade' && (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+          {scaleSelect('probabilidade', 'Probabilidade', PROBABILITY_LABELS)}
+          {scaleSelect('severidade', 'Severidade', SEVERITY_LABELS)}
+          <div className="pb-3">
+            <RiskBadge probabilidade={value.probabilidade} severidade={value.severidade} />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RiskClassification;
@@ -1,32 +1,216 @@
-import SignatureCanvas from 'react-signature-canvas';
+"use client";
+
+import { PointerEvent, useCallback, useEffect, useRef, useState } from 'react';
+import { Eraser, Undo2 } from 'lucide-react';
+import {
+  MIN_SIGNATURE_LENGTH,
+  SIGNATURE_HEIGHT,
+  SIGNATURE_PNG_SCALE,
+  SIGNATURE_WIDTH,
+  Stroke,
+  measureInkLength,
+  renderStrokes,
+} from '@/lib/images/signatureStrokes';
+
+/** Assinatura publicada pelo quadro: PNG para o envio e os traços para o rascunho (null quando há só a imagem de um rascunho antigo) */
+export interface SignatureValue {
+  png: string;
+  strokes: Stroke[] | null;
+}
 
 type SignaturePadProps = {
   title: string;
-  signatureRef: React.RefObject<SignatureCanvas>;
-  onClear: () => void;
+  /** PNG salvo; usado para restaurar rascunhos antigos, que não têm os traços */
+  value: string | null;
+  /** Traços salvos no rascunho */
+  strokes?: Stroke[] | null;
+  onChange: (signature: SignatureValue | null) => void;
+  error?: string;
 };
 
-const SignaturePad = ({ title, signatureRef, onClear }: SignaturePadProps) => (
-  <div className="w-full">
-    <label className="block text-sm font-medium text-gray-300 mb-2">{title}</label>
-    <div className="bg-white border border-gray-400 rounded-lg">
-      <SignatureCanvas 
-        ref={signatureRef}
-        canvasProps={{
-          className: "h-32 w-full cursor-crosshair",
-          style: { width: '100%', height: '100%' }
-        }}
-        backgroundColor="white"
-      />
+// Mede os pixels que vão no PNG, com a mesma conta da conferência no servidor
+const measure = (canvas: HTMLCanvasElement) =>
+  measureInkLength(canvas.getContext('2d')!.getImageData(0, 0, canvas.width, canvas.height).data, canvas.width);
+
+// Quadro de assinatura: guarda os traços como vetores em coordenadas do quadro e redesenha na densidade de pixels da tela
+const SignaturePad = ({ title, value, strokes: savedStrokes = null, onChange, error }: SignaturePadProps) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const strokesRef = useRef<Stroke[]>([]);
+  const activeStrokeRef = useRef<{ pointerId: number; stroke: Stroke } | null>(null);
+  // Imagem de um rascunho salvo antes dos traços vetoriais: fica por baixo e sai só com "Limpar"
+  const backgroundRef = useRef<HTMLImageElement | null>(null);
+  const [strokeCount, setStrokeCount] = useState(0);
+  const [hasBackground, setHasBackground] = useState(false);
+  const [length, setLength] = useState(0);
+
+  const redraw = useCallback(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    if (backgroundRef.current) ctx.drawImage(backgroundRef.current, 0, 0, canvas.width, canvas.height);
+
+    const strokes = activeStrokeRef.current ? [...strokesRef.current, activeStrokeRef.current.stroke] : strokesRef.current;
+    renderStrokes(ctx, strokes, canvas.width / SIGNATURE_WIDTH);
+  }, []);
+
+  // Imagem exportada em resolução fixa, independente do tamanho do quadro na tela
+  const renderExport = useCallback(() => {
+    const canvas = document.createElement('canvas');
+    canvas.width = SIGNATURE_WIDTH * SIGNATURE_PNG_SCALE;
+    canvas.height = SIGNATURE_HEIGHT * SIGNATURE_PNG_SCALE;
+    const ctx = canvas.getContext('2d')!;
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    if (backgroundRef.current) ctx.drawImage(backgroundRef.current, 0, 0, canvas.width, canvas.height);
+    renderStrokes(ctx, strokesRef.current, SIGNATURE_PNG_SCALE);
+    return canvas;
+  }, []);
+
+  // Publica a assinatura para o rascunho; curta demais conta como em branco
+  const publish = useCallback(() => {
+    const strokes = strokesRef.current;
+    const canvas = renderExport();
+    const total = measure(canvas);
+    setStrokeCount(strokes.length);
+    setLength(total);
+    redraw();
+
+    if (total < MIN_SIGNATURE_LENGTH) {
+      onChange(null);
+      return;
+    }
+    onChange({ png: canvas.toDataURL('image/png'), strokes: backgroundRef.current ? null : strokes });
+  }, [renderExport, onChange, redraw]);
+
+  // Acompanha o tamanho exibido e a densidade de pixels (nítido em telas HiDPI)
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const resize = () => {
+      const rect = canvas.getBoundingClientRect();
+      const ratio = window.devicePixelRatio || 1;
+      canvas.width = Math.max(1, Math.round(rect.width * ratio));
+      canvas.height = Math.max(1, Math.round(rect.height * ratio));
+      redraw();
+    };
+    resize();
+
+    const observer = new ResizeObserver(resize);
+    observer.observe(canvas);
+    return () => observer.disconnect();
+  }, [redraw]);
+
+  // Restaura a assinatura salva (ao voltar de outra etapa ou retomar um rascunho)
+  useEffect(() => {
+    if (savedStrokes) {
+      strokesRef.current = savedStrokes;
+      setStrokeCount(savedStrokes.length);
+      setLength(measure(renderExport()));
+      redraw();
+    } else if (value) {
+      const image = new Image();
+      image.onload = () => {
+        backgroundRef.current = image;
+        setHasBackground(true);
+        setLength(measure(renderExport()));
+        redraw();
+      };
+      image.src = value;
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  // Posição do ponteiro em coordenadas do quadro
+  const toBoardPoint = (e: { clientX: number; clientY: number }) => {
+    const rect = canvasRef.current!.getBoundingClientRect();
+    return {
+      x: Math.min(SIGNATURE_WIDTH, Math.max(0, ((e.clientX - rect.left) / rect.width) * SIGNATURE_WIDTH)),
+      y: Math.min(SIGNATURE_HEIGHT, Math.max(0, ((e.clientY - rect.top) / rect.height) * SIGNATURE_HEIGHT)),
+    };
+  };
+
+  const handlePointerDown = (e: PointerEvent<HTMLCanvasElement>) => {
+    if (activeStrokeRef.current || (e.pointerType === 'mouse' && e.button !== 0)) return;
+    e.preventDefault();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    activeStrokeRef.current = { pointerId: e.pointerId, stroke: [toBoardPoint(e)] };
+    redraw();
+  };
+
+  const handlePointerMove = (e: PointerEvent<HTMLCanvasElement>) => {
+    const active = activeStrokeRef.current;
+    if (!active || active.pointerId !== e.pointerId) return;
+    e.preventDefault();
+    // Eventos agrupados pelo navegador entre dois quadros deixam a curva mais fiel
+    const coalesced = e.nativeEvent.getCoalescedEvents?.() || [];
+    (coalesced.length > 0 ? coalesced : [e.nativeEvent]).forEach(event => active.stroke.push(toBoardPoint(event)));
+    redraw();
+  };
+
+  const handlePointerUp = (e: PointerEvent<HTMLCanvasElement>) => {
+    const active = activeStrokeRef.current;
+    if (!active || active.pointerId !== e.pointerId) return;
+    activeStrokeRef.current = null;
+    strokesRef.current = [...strokesRef.current, active.stroke];
+    publish();
+  };
+
+  const undo = () => {
+    if (strokesRef.current.length === 0) return;
+    strokesRef.current = strokesRef.current.slice(0, -1);
+    publish();
+  };
+
+  const clear = () => {
+    strokesRef.current = [];
+    backgroundRef.current = null;
+    setHasBackground(false);
+    publish();
+  };
+
+  const tooShort = length > 0 && length < MIN_SIGNATURE_LENGTH;
+
+  return (
+    <div className="w-full">
+      <label className="block text-sm font-medium text-gray-300 mb-2">{title}</label>
+      <div className={`bg-white border ${error ? 'border-red-500' : 'border-gray-400'} rounded-lg p-2`}>
+        <canvas
+          ref={canvasRef}
+          className="w-full border rounded cursor-crosshair touch-none"
+          style={{ aspectRatio: `${SIGNATURE_WIDTH} / ${SIGNATURE_HEIGHT}`, touchAction: 'none' }}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+        />
+      </div>
+      <div className="flex gap-2 mt-2">
+        <button
+          type="button"
+          onClick={undo}
+          disabled={strokeCount === 0}
+          className="flex items-center gap-1 text-sm text-amber-500 hover:text-amber-400 bg-gray-700 px-3 py-1 rounded disabled:opacity-50"
+        >
+          <Undo2 size={14} /> Desfazer
+        </button>
+        <button
+          type="button"
+          onClick={clear}
+          disabled={strokeCount === 0 && !hasBackground}
+          className="flex items-center gap-1 text-sm text-amber-500 hover:text-amber-400 bg-gray-700 px-3 py-1 rounded disabled:opacity-50"
+        >
+          <Eraser size={14} /> Limpar Assinatura
+        </button>
+      </div>
+      {tooShort && <p className="text-sm text-yellow-300 mt-1">Assinatura muito curta. Continue assinando no quadro.</p>}
+      {error && <p className="text-sm text-red-400 mt-1">{error}</p>}
     </div>
-    <button 
-      type="button" 
-      onClick={onClear} 
-      className="text-sm text-amber-500 hover:text-amber-400 mt-2"
-    >
-      Limpar
-    </button>
-  </div>
-);
-
-export default SignaturePad;
\ No newline at end of file
+  );
+};
+
+export default SignaturePad;
@@ -0,0 +1,22 @@
+"use client";
+
+import { LogOut, UserCircle } from 'lucide-react';
+import { signOut, useSession } from 'next-auth/react';
+
+// Usuário logado e botão de sair, no cabeçalho das páginas
+const UserMenu = () => {
+  const { data: session } = useSession();
+  if (!session?.user) return null;
+
+  return (
+    <div className="flex items-center gap-2 text-sm text-gray-300">
+      <UserCircle size={20} className="text-amber-500" />
+      <span className="hidden md:inline max-w-[12rem] truncate" title={session.user.email || undefined}>{session.user.name}</span>
+      <button type="button" onClick={() => signOut({ callbackUrl: '/login' })} className="flex items-center gap-1 hover:text-white" aria-label="Sair">
+        <LogOut size={18} /> <span className="hidden md:inline">Sair</span>
+      </button>
+    </div>
+  );
+};
+
+export default UserMenu;
@@ -0,0 +1,42 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import { ActionListResponse } from '@/types/actions';
+
+/**
+ * Busca o quadro de ações corretivas em /api/actions; status é "pendentes", "todas" ou uma situação
+ */
+export function useActionBoard(status: string, unidade: string) {
+  const [data, setData] = useState<ActionListResponse | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const query = new URLSearchParams({ status });
+  if (unidade) query.set('unidade', unidade);
+  const queryString = query.toString();
+
+  useEffect(() => {
+    const controller = new AbortController();
+    setIsLoading(true);
+    setError(null);
+
+    fetch(`/api/actions?${queryString}`, { signal: controller.signal })
+      .then(async (response) => {
+        const result = await response.json();
+        if (!response.ok) throw new Error(result.error || `Erro HTTP ${response.status}`);
+        setData(result);
+      })
+      .catch((err) => {
+        if (controller.signal.aborted) return;
+        console.error('Erro ao carregar as ações:', err);
+        setError(err instanceof Error ? err.message : 'Não foi possível carregar as ações');
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setIsLoading(false);
+      });
+
+    return () => controller.abort();
+  }, [queryString]);
+
+  return { data, isLoading, error };
+}
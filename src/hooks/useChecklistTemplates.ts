@@ -0,0 +1,36 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import { ChecklistTemplate } from '@/lib/validation/checklistSchema';
+
+/**
+ * Modelos de checklist de /api/checklists (sem conexão, o service worker responde com a última lista recebida)
+ */
+export function useChecklistTemplates() {
+  const [templates, setTemplates] = useState<ChecklistTemplate[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+
+    fetch('/api/checklists', { signal: controller.signal })
+      .then(async (response) => {
+        const result = await response.json();
+        if (!response.ok) throw new Error(result.error || `Erro HTTP ${response.status}`);
+        setTemplates(result.templates);
+      })
+      .catch((err) => {
+        if (controller.signal.aborted) return;
+        console.error('Erro ao carregar os modelos de checklist:', err);
+        setError('Não foi possível carregar os modelos de checklist');
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setIsLoading(false);
+      });
+
+    return () => controller.abort();
+  }, []);
+
+  return { templates, isLoading, error };
+}
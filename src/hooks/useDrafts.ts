@@ -0,0 +1,59 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { InspectionDraft } from '@/types/inspection';
+import { deleteDraft, isDraftEmpty, listDrafts, saveDraft } from '@/lib/offline/drafts';
+
+const AUTOSAVE_DELAY_MS = 800;
+
+/**
+ * Salva automaticamente o rascunho atual e expõe a lista de rascunhos salvos
+ */
+export function useDrafts(currentDraft: InspectionDraft) {
+  const [drafts, setDrafts] = useState<InspectionDraft[]>([]);
+  const timeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setDrafts(await listDrafts());
+    } catch (error) {
+      console.error('Erro ao ler rascunhos:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // Salva após cada alteração, com um pequeno atraso para agrupar digitação
+  useEffect(() => {
+    if (isDraftEmpty(currentDraft)) return;
+
+    timeoutRef.current = setTimeout(async () => {
+      try {
+        await saveDraft(currentDraft);
+        await refresh();
+      } catch (error) {
+        console.error('Erro ao salvar rascunho:', error);
+      }
+    }, AUTOSAVE_DELAY_MS);
+
+    return () => {
+      if (timeoutRef.current) clearTimeout(timeoutRef.current);
+    };
+  }, [currentDraft, refresh]);
+
+  const save = useCallback(async (draft: InspectionDraft) => {
+    await saveDraft(draft);
+    await refresh();
+  }, [refresh]);
+
+  const remove = useCallback(async (id: string) => {
+    // Evita que um salvamento agendado recrie o rascunho removido
+    if (id === currentDraft.id && timeoutRef.current) clearTimeout(timeoutRef.current);
+    await deleteDraft(id);
+    await refresh();
+  }, [currentDraft.id, refresh]);
+
+  return { drafts, save, remove, refresh };
+}
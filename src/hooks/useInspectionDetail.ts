@@ -0,0 +1,98 @@
+"use client";
+
+import { useCallback, useEffect, useState } from 'react';
+import type { EmailReport } from '@/lib/email/report';
+import type { RemoteSignatureLinkResult } from '@/lib/reports/remoteSignature';
+import { TrackedAction } from '@/types/actions';
+import { InspectionDetailResponse } from '@/types/history';
+
+export type ResendState =
+  | { status: 'idle' | 'sending' }
+  | { status: 'done'; email: EmailReport }
+  | { status: 'error'; error: string; email?: EmailReport };
+
+export type SignatureLinkState =
+  | { status: 'idle' | 'sending' }
+  | { status: 'done'; result: RemoteSignatureLinkResult }
+  | { status: 'error'; error: string };
+
+/**
+ * Carrega o detalhe de uma inspeção em /api/inspections/[id] e expõe o reenvio do e-mail do relatório,
+ * o reenvio do link de assinatura remota e a atualização local das ações corretivas
+ */
+export function useInspectionDetail(inspectionId: string) {
+  const [data, setData] = useState<InspectionDetailResponse | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [resend, setResend] = useState<ResendState>({ status: 'idle' });
+  const [signatureLink, setSignatureLink] = useState<SignatureLinkState>({ status: 'idle' });
+
+  useEffect(() => {
+    const controller = new AbortController();
+    setIsLoading(true);
+    setError(null);
+
+    fetch(`/api/inspections/${encodeURIComponent(inspectionId)}`, { signal: controller.signal })
+      .then(async (response) => {
+        const result = await response.json();
+        if (!response.ok) throw new Error(result.error || `Erro HTTP ${response.status}`);
+        setData(result);
+      })
+      .catch((err) => {
+        if (controller.signal.aborted) return;
+        console.error('Erro ao carregar a inspeção:', err);
+        setError(err instanceof Error ? err.message : 'Não foi possível carregar a inspeção');
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setIsLoading(false);
+      });
+
+    return () => controller.abort();
+  }, [inspectionId]);
+
+  const resendEmail = useCallback(async () => {
+    setResend({ status: 'sending' });
+    try {
+      const response = await fetch(`/api/inspections/${encodeURIComponent(inspectionId)}/email`, { method: 'POST' });
+      const result = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        setResend({ status: 'error', error: result.error || `Erro HTTP ${response.status}`, email: result.email });
+        return;
+      }
+      setResend({ status: 'done', email: result.email });
+    } catch (err) {
+      console.error('Erro ao reenviar o e-mail:', err);
+      setResend({ status: 'error', error: 'Sem conexão com o servidor' });
+    }
+  }, [inspectionId]);
+
+  const resendSignatureLink = useCallback(async () => {
+    setSignatureLink({ status: 'sending' });
+    try {
+      const response = await fetch(`/api/inspections/${encodeURIComponent(inspectionId)}/assinatura`, { method: 'POST' });
+      const result = await response.json().catch(() => ({}));
+      // O novo link vale mesmo se o e-mail falhar; a situação exibida passa a ser a dele
+      if (result.remoteSignature) {
+        setData(prev => prev && { ...prev, remoteSignature: result.remoteSignature.request });
+      }
+      if (!response.ok) {
+        setSignatureLink({ status: 'error', error: result.error || `Erro HTTP ${response.status}` });
+        return;
+      }
+      setSignatureLink({ status: 'done', result: result.remoteSignature });
+    } catch (err) {
+      console.error('Erro ao reenviar o link de assinatura:', err);
+      setSignatureLink({ status: 'error', error: 'Sem conexão com o servidor' });
+    }
+  }, [inspectionId]);
+
+  // Troca a ação atualizada sem recarregar a inspeção inteira
+  const replaceAction = useCallback((action: TrackedAction) => {
+    setData(prev => prev && {
+      ...prev,
+      actions: prev.actions.map(current => (current.item === action.item ? action : current)),
+    });
+  }, []);
+
+  return { data, isLoading, error, resend, resendEmail, signatureLink, resendSignatureLink, replaceAction };
+}
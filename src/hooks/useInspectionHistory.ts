@@ -0,0 +1,44 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import { InspectionFilters, InspectionListResponse } from '@/types/history';
+
+/**
+ * Busca uma página do histórico de inspeções em /api/inspections sempre que os filtros mudam
+ */
+export function useInspectionHistory(filters: InspectionFilters, page: number, pageSize = 20) {
+  const [data, setData] = useState<InspectionListResponse | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const query = new URLSearchParams({ page: String(page), pageSize: String(pageSize) });
+  Object.entries(filters).forEach(([name, value]) => {
+    if (value) query.set(name, value);
+  });
+  const queryString = query.toString();
+
+  useEffect(() => {
+    const controller = new AbortController();
+    setIsLoading(true);
+    setError(null);
+
+    fetch(`/api/inspections?${queryString}`, { signal: controller.signal })
+      .then(async (response) => {
+        const result = await response.json();
+        if (!response.ok) throw new Error(result.error || `Erro HTTP ${response.status}`);
+        setData(result);
+      })
+      .catch((err) => {
+        if (controller.signal.aborted) return;
+        console.error('Erro ao carregar o histórico:', err);
+        setError(err instanceof Error ? err.message : 'Não foi possível carregar o histórico');
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setIsLoading(false);
+      });
+
+    return () => controller.abort();
+  }, [queryString]);
+
+  return { data, isLoading, error };
+}
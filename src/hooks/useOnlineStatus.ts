@@ -0,0 +1,29 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+
+/**
+ * Acompanha os eventos online/offline do navegador
+ */
+export function useOnlineStatus(onReconnect?: () => void) {
+  const [isOnline, setIsOnline] = useState(true);
+
+  useEffect(() => {
+    setIsOnline(navigator.onLine);
+
+    const handleOnline = () => {
+      setIsOnline(true);
+      onReconnect?.();
+    };
+    const handleOffline = () => setIsOnline(false);
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [onReconnect]);
+
+  return isOnline;
+}
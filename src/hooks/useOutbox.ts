@@ -0,0 +1,84 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { InspectionDraft, OutboxEntry } from '@/types/inspection';
+import { SendProgress, enqueueReport, listOutbox, recoverInterruptedEntries, removeOutboxEntry, sendOutboxEntry } from '@/lib/offline/outbox';
+import { useOnlineStatus } from './useOnlineStatus';
+
+/**
+ * Mantém a fila de envio sincronizada com o IndexedDB e a esvazia quando o aparelho volta a ficar online
+ */
+export function useOutbox() {
+  const [entries, setEntries] = useState<OutboxEntry[]>([]);
+  // Progresso do envio de cada item em andamento: arquivos e etapas do processamento no servidor (só em memória)
+  const [progress, setProgress] = useState<Record<string, SendProgress>>({});
+  const flushingRef = useRef(false);
+
+  const refresh = useCallback(async () => {
+    try {
+      setEntries(await listOutbox());
+    } catch (error) {
+      console.error('Erro ao ler a fila de envio:', error);
+    }
+  }, []);
+
+  const send = useCallback(async (id: string) => {
+    const promise = sendOutboxEntry(id, (current) => setProgress(prev => ({ ...prev, [id]: current })));
+    // Mostra o status "enviando" enquanto a requisição está em andamento
+    await refresh();
+    const entry = await promise;
+    setProgress(prev => {
+      const next = { ...prev };
+      delete next[id];
+      return next;
+    });
+    await refresh();
+    return entry;
+  }, [refresh]);
+
+  const flush = useCallback(async () => {
+    if (flushingRef.current || !navigator.onLine) return;
+    flushingRef.current = true;
+
+    try {
+      const pending = (await listOutbox()).filter(entry => entry.status === 'pendente');
+      for (const entry of pending) {
+        const result = await send(entry.id);
+        // Sem conexão de novo: interrompe e espera o próximo evento "online"
+        if (result?.status === 'pendente') break;
+      }
+    } finally {
+      flushingRef.current = false;
+    }
+  }, [send]);
+
+  const enqueue = useCallback(async (draft: InspectionDraft) => {
+    const entry = await enqueueReport(draft);
+    await refresh();
+    return entry;
+  }, [refresh]);
+
+  const remove = useCallback(async (id: string) => {
+    await removeOutboxEntry(id);
+    await refresh();
+  }, [refresh]);
+
+  const clearSent = useCallback(async () => {
+    const sent = entries.filter(entry => entry.status === 'enviado');
+    await Promise.all(sent.map(entry => removeOutboxEntry(entry.id)));
+    await refresh();
+  }, [entries, refresh]);
+
+  // Ao reconectar, envia o que estiver pendente
+  const isOnline = useOnlineStatus(flush);
+
+  // Ao abrir, itens presos em "enviando" por um envio interrompido voltam a ser pendentes e são enviados de novo
+  useEffect(() => {
+    recoverInterruptedEntries()
+      .catch(error => console.error('Erro ao recuperar envios interrompidos:', error))
+      .then(refresh)
+      .then(flush);
+  }, [refresh, flush]);
+
+  return { entries, progress, isOnline, enqueue, send, flush, remove, clearSent };
+}
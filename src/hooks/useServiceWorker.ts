@@ -0,0 +1,57 @@
+"use client";
+
+import { useCallback, useEffect, useState } from 'react';
+import { MAP_TILE_URL } from '@/lib/geo/tiles';
+
+// O modelo de URL dos tiles vai junto para o service worker reconhecer (e guardar) os tiles do mapa
+const SW_URL = `/sw.js?v=${process.env.NEXT_PUBLIC_APP_VERSION || 'dev'}&tiles=${encodeURIComponent(MAP_TILE_URL)}`;
+
+/**
+ * Registra o service worker e avisa quando uma nova versão do app está pronta
+ */
+export function useServiceWorker() {
+  const [waitingWorker, setWaitingWorker] = useState<ServiceWorker | null>(null);
+
+  useEffect(() => {
+    // Em desenvolvimento o cache atrapalharia o hot reload
+    if (process.env.NODE_ENV !== 'production' || !('serviceWorker' in navigator)) return;
+
+    let refreshing = false;
+    const handleControllerChange = () => {
+      if (refreshing) return;
+      refreshing = true;
+      window.location.reload();
+    };
+
+    const trackInstalling = (worker: ServiceWorker) => {
+      worker.addEventListener('statechange', () => {
+        // Só é atualização se já havia uma versão controlando a página
+        if (worker.state === 'installed' && navigator.serviceWorker.controller) {
+          setWaitingWorker(worker);
+        }
+      });
+    };
+
+    navigator.serviceWorker.register(SW_URL)
+      .then((registration) => {
+        console.log('✅ Service worker registrado:', registration.scope);
+
+        if (registration.waiting && navigator.serviceWorker.controller) {
+          setWaitingWorker(registration.waiting);
+        }
+        registration.addEventListener('updatefound', () => {
+          if (registration.installing) trackInstalling(registration.installing);
+        });
+      })
+      .catch((error) => console.error('❌ Erro ao registrar service worker:', error));
+
+    navigator.serviceWorker.addEventListener('controllerchange', handleControllerChange);
+    return () => navigator.serviceWorker.removeEventListener('controllerchange', handleControllerChange);
+  }, []);
+
+  const applyUpdate = useCallback(() => {
+    waitingWorker?.postMessage({ type: 'SKIP_WAITING' });
+  }, [waitingWorker]);
+
+  return { updateAvailable: !!waitingWorker, applyUpdate };
+}
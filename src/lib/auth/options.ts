@@ -0,0 +1,83 @@
+import type { NextAuthOptions } from 'next-auth';
+import type { Provider } from 'next-auth/providers/index';
+import CredentialsProvider from 'next-auth/providers/credentials';
+import { authenticateLocalUser, isLocalLoginEnabled } from './users';
+
+// Login do app: usuário e senha locais (AUTH_USERS_FILE) e/ou um provedor OIDC genérico (OIDC_ISSUER)
+
+export const LOCAL_PROVIDER_ID = 'credentials';
+export const OIDC_PROVIDER_ID = 'oidc';
+
+// Sessão longa: o inspetor trabalha dias sem conexão e envia a fila quando volta
+const SESSION_MAX_AGE_SECONDS = 30 * 24 * 60 * 60;
+
+interface OidcProfile {
+  sub: string;
+  name?: string;
+  preferred_username?: string;
+  email?: string;
+}
+
+function buildProviders(): Provider[] {
+  const providers: Provider[] = [];
+
+  if (isLocalLoginEnabled()) {
+    providers.push(CredentialsProvider({
+      id: LOCAL_PROVIDER_ID,
+      name: 'Usuário e senha',
+      credentials: {
+        email: { label: 'E-mail', type: 'email' },
+        senha: { label: 'Senha', type: 'password' },
+      },
+      async authorize(credentials) {
+        if (!credentials?.email || !credentials.senha) return null;
+        const user = await authenticateLocalUser(credentials.email, credentials.senha);
+        return user ? { id: user.email, name: user.nome, email: user.email } : null;
+      },
+    }));
+  }
+
+  const issuer = process.env.OIDC_ISSUER?.replace(/\/$/, '');
+  if (issuer && process.env.OIDC_CLIENT_ID) {
+    providers.push({
+      id: OIDC_PROVIDER_ID,
+      name: process.env.OIDC_NAME || 'Login corporativo',
+      type: 'oauth',
+      wellKnown: `${issuer}/.well-known/openid-configuration`,
+      clientId: process.env.OIDC_CLIENT_ID,
+      clientSecret: process.env.OIDC_CLIENT_SECRET || '',
+      authorization: { params: { scope: 'openid email profile' } },
+      idToken: true,
+      checks: ['pkce', 'state'],
+      profile(profile: OidcProfile) {
+        return {
+          id: profile.sub,
+          name: profile.name || profile.preferred_username || profile.email || profile.sub,
+          email: profile.email || null,
+        };
+      },
+    });
+  }
+
+  if (providers.length === 0) {
+    console.error(`⚠️ Nenhum provedor de login configurado: crie ${process.env.AUTH_USERS_FILE || 'config/usuarios.json'} ou defina OIDC_ISSUER e OIDC_CLIENT_ID`);
+  }
+  return providers;
+}
+
+export const authOptions: NextAuthOptions = {
+  providers: buildProviders(),
+  session: { strategy: 'jwt', maxAge: SESSION_MAX_AGE_SECONDS },
+  pages: { signIn: '/login', error: '/login' },
+  callbacks: {
+    jwt({ token, account }) {
+      // account só vem no login; o provedor fica no token para constar nos relatórios
+      if (account) token.provider = account.provider;
+      return token;
+    },
+    session({ session, token }) {
+      if (session.user) session.user.provider = token.provider || '';
+      return session;
+    },
+  },
+};
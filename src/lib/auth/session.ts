@@ -0,0 +1,15 @@
+import { getServerSession } from 'next-auth';
+import { NextResponse } from 'next/server';
+import { authOptions } from './options';
+import { Submitter } from './submitter';
+
+// Usuário logado nas rotas de API; o middleware já recusa chamadas sem sessão, aqui a identidade é lida para os registros
+
+export async function getCurrentUser(): Promise<Submitter | null> {
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.name) return null;
+  return { nome: session.user.name, email: session.user.email || '', provedor: session.user.provider };
+}
+
+export const unauthorizedResponse = () =>
+  NextResponse.json({ error: 'Sessão expirada ou ausente. Entre novamente.' }, { status: 401 });
@@ -0,0 +1,13 @@
+// Identidade de quem enviou o relatório; sem dependências do servidor, para uso também nas páginas
+
+export interface Submitter {
+  nome: string;
+  email: string;
+  /** Provedor do login: "credentials" ou "oidc" */
+  provedor: string;
+}
+
+/**
+ * Texto do usuário para a planilha e o PDF, ex.: "Maria Silva <maria@empresa.com>"
+ */
+export const formatSubmitter = (user: Submitter) => (user.email ? `${user.nome} <${user.email}>` : user.nome);
@@ -0,0 +1,70 @@
+import { existsSync, promises as fs } from 'fs';
+import { randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+
+// Usuários do login local (usuário e senha), lidos de AUTH_USERS_FILE (JSON)
+
+export interface LocalUser {
+  email: string;
+  nome: string;
+  /** "scrypt$<sal>$<hash>", em base64; gere com `npm run hash-senha` */
+  senhaHash: string;
+}
+
+interface UsersConfig {
+  usuarios?: LocalUser[];
+}
+
+const DEFAULT_USERS_FILE = 'config/usuarios.json';
+const KEY_LENGTH = 64;
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keyLength: number) => Promise<Buffer>;
+
+export const getUsersFilePath = () => process.env.AUTH_USERS_FILE || DEFAULT_USERS_FILE;
+
+/** O login local só aparece quando o arquivo de usuários existe */
+export const isLocalLoginEnabled = () => existsSync(getUsersFilePath());
+
+async function loadUsers(): Promise<LocalUser[]> {
+  const filePath = getUsersFilePath();
+  try {
+    const config = JSON.parse(await fs.readFile(filePath, 'utf-8')) as UsersConfig;
+    return config.usuarios || [];
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.error(`⚠️ Erro ao ler usuários em ${filePath}:`, error);
+    }
+    return [];
+  }
+}
+
+/**
+ * Gera o hash da senha no formato guardado em senhaHash
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const hash = await scryptAsync(password, salt, KEY_LENGTH);
+  return `scrypt$${salt.toString('base64')}$${hash.toString('base64')}`;
+}
+
+async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [algorithm, salt, hash] = stored.split('$');
+  if (algorithm !== 'scrypt' || !salt || !hash) return false;
+
+  const expected = Buffer.from(hash, 'base64');
+  const actual = await scryptAsync(password, Buffer.from(salt, 'base64'), expected.length);
+  return timingSafeEqual(actual, expected);
+}
+
+/**
+ * Confere e-mail e senha; devolve o usuário ou null (sem indicar qual dos dois estava errado)
+ */
+export async function authenticateLocalUser(email: string, password: string): Promise<LocalUser | null> {
+  const users = await loadUsers();
+  const user = users.find(candidate => candidate.email.trim().toLowerCase() === email.trim().toLowerCase());
+  if (!user || !(await verifyPassword(password, user.senhaHash))) {
+    console.log(`🔒 Login local recusado para ${email}`);
+    return null;
+  }
+  return user;
+}
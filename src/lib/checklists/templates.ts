@@ -0,0 +1,46 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { ChecklistTemplate, checklistTemplateSchema } from '@/lib/validation/checklistSchema';
+
+// Modelos de checklist lidos de CHECKLIST_TEMPLATES_DIR: um arquivo JSON por modelo
+
+const DEFAULT_TEMPLATES_DIR = 'config/checklists';
+
+/**
+ * Modelos válidos do diretório, em ordem alfabética. Arquivos inválidos são ignorados com aviso no log,
+ * para que um modelo com erro não tire os demais do formulário.
+ */
+export async function listChecklistTemplates(): Promise<ChecklistTemplate[]> {
+  const dir = process.env.CHECKLIST_TEMPLATES_DIR || DEFAULT_TEMPLATES_DIR;
+
+  let fileNames: string[];
+  try {
+    fileNames = (await fs.readdir(dir)).filter(name => name.endsWith('.json')).sort();
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.error(`⚠️ Erro ao listar modelos de checklist em ${dir}:`, error);
+    }
+    return [];
+  }
+
+  const templates: ChecklistTemplate[] = [];
+  for (const fileName of fileNames) {
+    const filePath = path.join(dir, fileName);
+    try {
+      const parsed = checklistTemplateSchema.safeParse(JSON.parse(await fs.readFile(filePath, 'utf-8')));
+      if (!parsed.success) {
+        console.error(`⚠️ Modelo de checklist inválido em ${filePath}:`, parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`));
+        continue;
+      }
+      if (templates.some(template => template.id === parsed.data.id)) {
+        console.error(`⚠️ Modelo de checklist repetido (${parsed.data.id}) em ${filePath}; mantido o primeiro`);
+        continue;
+      }
+      templates.push(parsed.data);
+    } catch (error) {
+      console.error(`⚠️ Erro ao ler modelo de checklist em ${filePath}:`, error);
+    }
+  }
+
+  return templates.sort((a, b) => a.nome.localeCompare(b.nome, 'pt-BR'));
+}
@@ -0,0 +1,97 @@
+import { promises as fs } from 'fs';
+
+// Listas de distribuição por unidade, lidas de EMAIL_DISTRIBUTION_FILE (JSON)
+
+export interface DistributionList {
+  to?: string[];
+  cc?: string[];
+  bcc?: string[];
+}
+
+interface DistributionConfig {
+  todas?: DistributionList; // Aplicada a todas as unidades
+  unidades?: { [unidade: string]: DistributionList };
+}
+
+export interface ReportRecipients {
+  to: string[];
+  cc: string[];
+  bcc: string[];
+}
+
+const DEFAULT_DISTRIBUTION_FILE = 'config/distribuicao-email.json';
+
+/**
+ * Normaliza o nome da unidade para comparação (sem acentos, caixa ou espaços extras)
+ */
+export function normalizeUnit(unidade: string): string {
+  return unidade.normalize('NFD').replace(/[\u0300-\u036f]/g, '').trim().toLowerCase();
+}
+
+async function loadDistributionConfig(): Promise<DistributionConfig> {
+  const filePath = process.env.EMAIL_DISTRIBUTION_FILE || DEFAULT_DISTRIBUTION_FILE;
+  try {
+    return JSON.parse(await fs.readFile(filePath, 'utf-8')) as DistributionConfig;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.error(`⚠️ Erro ao ler listas de distribuição em ${filePath}:`, error);
+    }
+    return {};
+  }
+}
+
+/**
+ * Remove duplicados e garante que um endereço apareça em um único campo (prioridade: to > cc > bcc)
+ */
+function dedupe(recipients: ReportRecipients): ReportRecipients {
+  const seen = new Set<string>();
+  const take = (addresses: string[]) => addresses
+    .map(address => address.trim())
+    .filter(address => {
+      const key = address.toLowerCase();
+      if (!address || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+
+  return { to: take(recipients.to), cc: take(recipients.cc), bcc: take(recipients.bcc) };
+}
+
+/**
+ * Listas configuradas para todas as unidades e para a unidade informada
+ */
+async function loadUnitLists(unidade: string): Promise<DistributionList[]> {
+  const config = await loadDistributionConfig();
+
+  const unitKey = normalizeUnit(unidade);
+  const unitList = Object.entries(config.unidades || {})
+    .find(([name]) => normalizeUnit(name) === unitKey)?.[1] || {};
+  return [config.todas || {}, unitList];
+}
+
+/**
+ * Monta os destinatários do relatório: o e-mail da companhia informado no formulário
+ * mais as listas configuradas para todas as unidades e para a unidade da inspeção.
+ */
+export async function resolveReportRecipients(emailCompanhia: string, unidade: string): Promise<ReportRecipients> {
+  const lists = await loadUnitLists(unidade);
+
+  return dedupe({
+    to: [emailCompanhia, ...lists.flatMap(list => list.to || [])],
+    cc: lists.flatMap(list => list.cc || []),
+    bcc: lists.flatMap(list => list.bcc || []),
+  });
+}
+
+/**
+ * Destinatários dos avisos de uma unidade (ex.: lembretes de prazo): somente as listas de distribuição
+ */
+export async function resolveUnitRecipients(unidade: string): Promise<ReportRecipients> {
+  const lists = await loadUnitLists(unidade);
+
+  return dedupe({
+    to: lists.flatMap(list => list.to || []),
+    cc: lists.flatMap(list => list.cc || []),
+    bcc: lists.flatMap(list => list.bcc || []),
+  });
+}
@@ -0,0 +1,180 @@
+import { ACTION_STATUS_LABELS, PENDING_ACTION_STATUSES } from '@/lib/validation/actionSchema';
+import { listTrackedActions, sortActionsByDeadline } from '@/lib/sheets/actions';
+import { TrackedAction } from '@/types/actions';
+import { RecipientFailure, deliverMail } from './transport';
+import { normalizeUnit, resolveUnitRecipients } from './recipients';
+
+// Lembretes de prazo das ações corretivas: um resumo por responsável e um por unidade
+
+export const DEFAULT_REMINDER_DAYS_AHEAD = 7;
+const DEFAULT_REMINDER_TIME_ZONE = 'America/Sao_Paulo';
+
+export interface ReminderOptions {
+  /** Inclui ações que vencem em até N dias (além das já vencidas) */
+  daysAhead: number;
+  /** Data de referência AAAA-MM-DD; padrão: hoje no fuso REMINDER_TIME_ZONE */
+  today?: string;
+  /** Só monta os resumos, sem enviar */
+  dryRun?: boolean;
+}
+
+export interface ReminderDigestResult {
+  kind: 'responsavel' | 'unidade';
+  /** E-mail do responsável ou nome da unidade */
+  target: string;
+  actionCount: number;
+  sent: boolean;
+  accepted: string[];
+  rejected: RecipientFailure[];
+  skippedReason?: string;
+}
+
+export interface ReminderRunResult {
+  today: string;
+  daysAhead: number;
+  dueActions: number;
+  /** Ações que só entram no resumo da unidade por não terem e-mail do responsável */
+  withoutResponsibleEmail: number;
+  digests: ReminderDigestResult[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const formatDate = (value: string) => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  return match ? `${match[3]}/${match[2]}/${match[1]}` : value;
+};
+
+/**
+ * Data de hoje (AAAA-MM-DD) no fuso das unidades, para não virar o dia antes da hora quando o servidor roda em UTC
+ */
+export function getReminderToday(now = new Date()): string {
+  const timeZone = process.env.REMINDER_TIME_ZONE || DEFAULT_REMINDER_TIME_ZONE;
+  return new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' }).format(now);
+}
+
+const addDays = (isoDate: string, days: number) =>
+  new Date(Date.parse(`${isoDate}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+
+/**
+ * Ações ainda não concluídas com prazo vencido ou vencendo em até `daysAhead` dias, do prazo mais antigo ao mais novo
+ */
+export function findDueActions(actions: TrackedAction[], today: string, daysAhead: number): TrackedAction[] {
+  const limit = addDays(today, daysAhead);
+  return sortActionsByDeadline(
+    actions.filter(action => PENDING_ACTION_STATUSES.includes(action.status) && action.prazo !== '' && action.prazo <= limit)
+  );
+}
+
+const daysUntil = (prazo: string, today: string) => Math.round((Date.parse(`${prazo}T00:00:00Z`) - Date.parse(`${today}T00:00:00Z`)) / DAY_MS);
+
+function describeDeadline(prazo: string, today: string): string {
+  const days = daysUntil(prazo, today);
+  if (days < 0) return `vencido há ${-days} dia${days === -1 ? '' : 's'}`;
+  if (days === 0) return 'vence hoje';
+  return `vence em ${days} dia${days === 1 ? '' : 's'}`;
+}
+
+const actionLink = (action: TrackedAction) => {
+  const baseUrl = process.env.APP_BASE_URL?.replace(/\/$/, '');
+  return baseUrl ? `${baseUrl}/inspecoes/${encodeURIComponent(action.inspectionId)}#item-${action.item}` : '';
+};
+
+/**
+ * Texto do resumo: uma entrada por ação, com prazo, situação e link para a inspeção (quando APP_BASE_URL está definida)
+ */
+export function buildReminderText(intro: string, actions: TrackedAction[], today: string): string {
+  const entries = actions.map((action, index) => {
+    const lines = [
+      `${index + 1}. ${action.fato}`,
+      `   Prazo: ${formatDate(action.prazo)} (${describeDeadline(action.prazo, today)}) · Situação: ${ACTION_STATUS_LABELS[action.status]}`,
+      `   ${[action.unidade, action.local].filter(Boolean).join(' - ')} · Inspeção ${action.inspectionId}, item ${action.item}`,
+    ];
+    if (action.recomendacoes) lines.push(`   Recomendação: ${action.recomendacoes}`);
+    if (action.responsavel) lines.push(`   Responsável: ${action.responsavel}`);
+    const link = actionLink(action);
+    if (link) lines.push(`   ${link}`);
+    return lines.join('\n');
+  });
+
+  return `${intro}\n\n${entries.join('\n\n')}\n\nAtualize a situação de cada ação no app de inspeções quando a correção for feita.`;
+}
+
+async function sendDigest(
+  kind: ReminderDigestResult['kind'],
+  target: string,
+  recipients: { to: string[]; cc?: string[]; bcc?: string[] },
+  subject: string,
+  text: string,
+  actionCount: number,
+  dryRun: boolean
+): Promise<ReminderDigestResult> {
+  const base = { kind, target, actionCount };
+  if (dryRun) {
+    return { ...base, sent: false, accepted: [], rejected: [], skippedReason: 'Simulação (dryRun)' };
+  }
+
+  const delivery = await deliverMail({ ...recipients, subject, text }, `lembrete_${target}`);
+  if (delivery.accepted.length > 0) {
+    console.log(`✅ Lembrete (${kind}) enviado para: ${delivery.accepted.join(', ')}`);
+  }
+  if (delivery.rejected.length > 0) {
+    console.log(`⚠️ Falha no lembrete (${kind}) para:`, delivery.rejected);
+  }
+  return { ...base, sent: delivery.accepted.length > 0, accepted: delivery.accepted, rejected: delivery.rejected };
+}
+
+/**
+ * Envia os lembretes de prazo: cada responsável com e-mail recebe as suas ações e cada unidade,
+ * pelas listas de distribuição, recebe todas as ações dela (inclusive as de responsáveis sem e-mail).
+ */
+export async function sendActionReminders({ daysAhead, today = getReminderToday(), dryRun = false }: ReminderOptions): Promise<ReminderRunResult> {
+  const dueActions = findDueActions(await listTrackedActions(), today, daysAhead);
+  console.log(`⏰ ${dueActions.length} ações com prazo até ${formatDate(addDays(today, daysAhead))} ainda não concluídas`);
+
+  const byResponsible = new Map<string, TrackedAction[]>();
+  // Pelo nome normalizado, como nas listas de distribuição: "Mina Sossego" e "mina sossego " são a mesma unidade
+  const byUnit = new Map<string, { unit: string; actions: TrackedAction[] }>();
+  let withoutResponsibleEmail = 0;
+
+  dueActions.forEach(action => {
+    const email = action.responsavelEmail.trim().toLowerCase();
+    if (email) {
+      byResponsible.set(email, [...(byResponsible.get(email) || []), action]);
+    } else {
+      withoutResponsibleEmail++;
+    }
+    const unit = action.unidade.trim() || 'Sem unidade';
+    const group = byUnit.get(normalizeUnit(unit));
+    // O resumo usa a grafia da primeira ação encontrada
+    byUnit.set(normalizeUnit(unit), { unit: group?.unit || unit, actions: [...(group?.actions || []), action] });
+  });
+
+  const digests: ReminderDigestResult[] = [];
+
+  for (const [email, actions] of byResponsible) {
+    const text = buildReminderText(
+      `Você é responsável por ${actions.length} aç${actions.length === 1 ? 'ão corretiva' : 'ões corretivas'} com prazo vencido ou próximo:`,
+      actions,
+      today
+    );
+    digests.push(await sendDigest('responsavel', email, { to: [email] }, 'Lembrete: ações corretivas com prazo próximo ou vencido', text, actions.length, dryRun));
+  }
+
+  for (const { unit, actions } of byUnit.values()) {
+    const recipients = await resolveUnitRecipients(unit);
+    if (recipients.to.length + recipients.cc.length + recipients.bcc.length === 0) {
+      console.log(`⚠️ Unidade "${unit}" sem lista de distribuição; resumo não enviado`);
+      digests.push({ kind: 'unidade', target: unit, actionCount: actions.length, sent: false, accepted: [], rejected: [], skippedReason: 'Unidade sem lista de distribuição' });
+      continue;
+    }
+    const text = buildReminderText(
+      `Ações corretivas da unidade ${unit} com prazo vencido ou próximo (${actions.length}):`,
+      actions,
+      today
+    );
+    digests.push(await sendDigest('unidade', unit, recipients, `Lembrete: ações corretivas pendentes - ${unit}`, text, actions.length, dryRun));
+  }
+
+  return { today, daysAhead, dueActions: dueActions.length, withoutResponsibleEmail, digests };
+}
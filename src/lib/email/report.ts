@@ -0,0 +1,72 @@
+import { HeaderData } from '@/lib/validation/submitSchema';
+import { RecipientFailure, deliverMail } from './transport';
+import { resolveReportRecipients } from './recipients';
+
+// Envio do relatório em PDF por e-mail (no envio do formulário e nos reenvios pelo histórico)
+
+export interface EmailReport {
+  sent: boolean;
+  accepted: string[];
+  rejected: RecipientFailure[];
+}
+
+/** Ajustes do e-mail para envios posteriores ao original (ex.: PDF final depois da assinatura remota) */
+export interface ReportEmailOptions {
+  subject?: string;
+  text?: string;
+  /** Destinatários somados às listas da unidade */
+  extraCc?: string[];
+}
+
+/**
+ * Texto do e-mail do envio do relatório enquanto a assinatura remota do responsável da unidade está pendente
+ */
+export const pendingSignatureEmailOptions = (inspectionId: string): ReportEmailOptions => ({
+  text: `Segue em anexo o relatório de inspeção ${inspectionId}. A assinatura do responsável da unidade está pendente; o PDF final será enviado assim que ele assinar.`,
+});
+
+/**
+ * E-mail do PDF final, depois da assinatura remota; quem assinou recebe em cópia
+ */
+export const signedReportEmailOptions = (inspectionId: string, signerEmail: string | null): ReportEmailOptions => ({
+  subject: `Relatório de Inspeção - ${inspectionId} (assinado)`,
+  text: `Segue em anexo a versão final do relatório de inspeção ${inspectionId}, com a assinatura do responsável da unidade.`,
+  extraCc: signerEmail ? [signerEmail] : [],
+});
+
+/**
+ * Envia e-mail com PDF anexado para a companhia e para as listas de distribuição da unidade
+ */
+export async function sendEmailWithPDF(headerData: HeaderData, pdfBuffer: Buffer, inspectionId: string, options: ReportEmailOptions = {}): Promise<EmailReport> {
+  const recipients = await resolveReportRecipients(headerData.emailCompanhia, headerData.unidade);
+  const cc = [...recipients.cc, ...(options.extraCc || []).filter(address => !recipients.cc.includes(address))];
+  console.log(`📧 Destinatários do relatório ${inspectionId}:`, { ...recipients, cc });
+
+  const delivery = await deliverMail({
+    to: recipients.to,
+    cc,
+    bcc: recipients.bcc,
+    subject: options.subject || `Relatório de Inspeção - ${inspectionId}`,
+    text: options.text || `Segue em anexo o relatório de inspeção ${inspectionId}.`,
+    attachments: [
+      {
+        filename: `relatorio_inspecao_${inspectionId}.pdf`,
+        content: pdfBuffer,
+        contentType: 'application/pdf',
+      },
+    ],
+  }, inspectionId);
+
+  if (delivery.accepted.length > 0) {
+    console.log(`✅ E-mail enviado com sucesso para: ${delivery.accepted.join(', ')}`);
+  }
+  if (delivery.rejected.length > 0) {
+    console.log(`⚠️ Falha no envio para:`, delivery.rejected);
+  }
+
+  return {
+    sent: delivery.accepted.length > 0,
+    accepted: delivery.accepted,
+    rejected: delivery.rejected,
+  };
+}
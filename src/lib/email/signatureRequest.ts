@@ -0,0 +1,51 @@
+import { HeaderData } from '@/lib/validation/submitSchema';
+import { deliverMail } from './transport';
+import { EmailReport } from './report';
+
+// E-mail com o link de assinatura remota para o responsável da unidade
+
+const formatDateTime = (iso: string) =>
+  new Date(iso).toLocaleString('pt-BR', { timeZone: 'America/Sao_Paulo', dateStyle: 'short', timeStyle: 'short' });
+
+const formatDate = (value: string) => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  return match ? `${match[3]}/${match[2]}/${match[1]}` : value;
+};
+
+/**
+ * Envia o link de assinatura; o relatório não vai anexado, o responsável o revisa na própria página do link
+ */
+export async function sendSignatureRequestEmail(
+  headerData: HeaderData,
+  inspectionId: string,
+  email: string,
+  link: string,
+  expiresAt: string
+): Promise<EmailReport> {
+  const text = [
+    `Olá${headerData.encarregado ? `, ${headerData.encarregado}` : ''}.`,
+    '',
+    `O relatório de inspeção ${inspectionId} (${[headerData.unidade, headerData.local].filter(Boolean).join(' - ')}, ${formatDate(headerData.data)}) aguarda a sua assinatura como Responsável da Unidade.`,
+    `Inspeção conduzida por ${headerData.responsavelQSMS}.`,
+    '',
+    'Abra o link para revisar o relatório e assinar:',
+    link,
+    '',
+    `O link pode ser usado uma única vez e vale até ${formatDateTime(expiresAt)}. Depois da assinatura, o PDF final é enviado a todos os destinatários do relatório.`,
+  ].join('\n');
+
+  const delivery = await deliverMail({
+    to: email,
+    subject: `Assinatura pendente - Relatório de Inspeção ${inspectionId}`,
+    text,
+  }, `assinatura_${inspectionId}`);
+
+  if (delivery.accepted.length > 0) {
+    console.log(`✅ Link de assinatura de ${inspectionId} enviado para: ${delivery.accepted.join(', ')}`);
+  }
+  if (delivery.rejected.length > 0) {
+    console.log(`⚠️ Falha no envio do link de assinatura de ${inspectionId}:`, delivery.rejected);
+  }
+
+  return { sent: delivery.accepted.length > 0, accepted: delivery.accepted, rejected: delivery.rejected };
+}
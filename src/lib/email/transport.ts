@@ -0,0 +1,128 @@
+import nodemailer from 'nodemailer';
+import type Mail from 'nodemailer/lib/mailer';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+// Transporte de e-mail escolhido por EMAIL_TRANSPORT: gmail (padrão), smtp ou file
+
+export type MailTransportName = 'gmail' | 'smtp' | 'file';
+
+export interface RecipientFailure {
+  address: string;
+  reason: string;
+}
+
+export interface MailDeliveryResult {
+  accepted: string[];
+  rejected: RecipientFailure[];
+  messageId?: string;
+  filePath?: string; // Somente no transporte "file"
+}
+
+type Address = string | Mail.Address;
+
+const addressToString = (address: Address) => (typeof address === 'string' ? address : address.address);
+
+/**
+ * Remetente usado em todos os e-mails do app
+ */
+export function getMailSender(): string | undefined {
+  return process.env.EMAIL_FROM || process.env.EMAIL_USER;
+}
+
+export function getMailTransportName(): MailTransportName {
+  const name = (process.env.EMAIL_TRANSPORT || 'gmail').toLowerCase();
+  if (name !== 'gmail' && name !== 'smtp' && name !== 'file') {
+    throw new Error(`EMAIL_TRANSPORT desconhecido: ${name} (use gmail, smtp ou file)`);
+  }
+  return name;
+}
+
+/**
+ * Cria o transporter do nodemailer conforme a configuração
+ */
+function createTransporter(name: MailTransportName) {
+  const auth = process.env.EMAIL_USER
+    ? { user: process.env.EMAIL_USER, pass: process.env.EMAIL_PASS }
+    : undefined;
+
+  switch (name) {
+    case 'gmail':
+      return nodemailer.createTransport({ service: 'gmail', auth });
+
+    case 'smtp': {
+      const host = process.env.SMTP_HOST;
+      if (!host) {
+        throw new Error('SMTP_HOST não encontrada nas variáveis de ambiente');
+      }
+      const secure = process.env.SMTP_SECURE === 'true';
+      return nodemailer.createTransport({
+        host,
+        port: Number(process.env.SMTP_PORT) || (secure ? 465 : 587),
+        secure,
+        requireTLS: process.env.SMTP_REQUIRE_TLS === 'true',
+        tls: { rejectUnauthorized: process.env.SMTP_TLS_REJECT_UNAUTHORIZED !== 'false' },
+        auth,
+      });
+    }
+
+    case 'file':
+      return nodemailer.createTransport({ streamTransport: true, buffer: true, newline: 'unix' });
+  }
+}
+
+/**
+ * Grava a mensagem gerada pelo streamTransport como arquivo .eml
+ */
+async function writeEmlFile(message: Buffer, baseName: string): Promise<string> {
+  const dir = process.env.EMAIL_FILE_DIR || './emails';
+  await fs.mkdir(dir, { recursive: true });
+
+  const safeName = baseName.replace(/[^a-zA-Z0-9._-]/g, '_');
+  const filePath = path.join(dir, `${new Date().toISOString().replace(/[:.]/g, '-')}_${safeName}.eml`);
+  await fs.writeFile(filePath, message);
+  return filePath;
+}
+
+/**
+ * Envia um e-mail pelo transporte configurado e informa quais destinatários foram aceitos e quais falharam.
+ * Erros de conexão/autenticação marcam todos os destinatários como falha, sem lançar exceção.
+ */
+export async function deliverMail(options: Mail.Options, fileBaseName = 'email'): Promise<MailDeliveryResult> {
+  const allRecipients = [options.to, options.cc, options.bcc]
+    .flat()
+    .filter((address): address is Address => !!address)
+    .map(addressToString);
+
+  try {
+    const transportName = getMailTransportName();
+    const transporter = createTransporter(transportName);
+    const info = await transporter.sendMail({ from: getMailSender(), ...options });
+
+    const result: MailDeliveryResult = {
+      accepted: (info.accepted || []).map(addressToString),
+      rejected: (info.rejected || []).map((address: Address) => ({
+        address: addressToString(address),
+        reason: 'Destinatário recusado pelo servidor',
+      })),
+      messageId: info.messageId,
+    };
+
+    // O streamTransport devolve a mensagem completa em info.message
+    const message = (info as { message?: unknown }).message;
+    if (transportName === 'file' && Buffer.isBuffer(message)) {
+      result.filePath = await writeEmlFile(message, fileBaseName);
+      result.accepted = allRecipients;
+      console.log(`📁 E-mail gravado em: ${result.filePath}`);
+    }
+
+    return result;
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    console.error('❌ Erro ao enviar e-mail:', error);
+    return {
+      accepted: [],
+      rejected: allRecipients.map(address => ({ address, reason })),
+    };
+  }
+}
@@ -0,0 +1,79 @@
+import type { GeoLocation } from '@/lib/validation/submitSchema';
+import { MAP_TILE_URL, buildTileUrl, tilesAround } from './tiles';
+
+// Captura da posição pelo navegador e cópia local dos tiles em volta dela (mapa sem conexão)
+
+/** Mesmo nome usado em public/sw.js, que serve os tiles guardados quando não há conexão */
+export const MAP_TILE_CACHE = 'inspecao-mapa';
+
+const CAPTURE_TIMEOUT_MS = 15000;
+// Posição obtida há pouco (por exemplo, para a foto anterior) ainda vale
+const CAPTURE_MAX_AGE_MS = 30000;
+
+// Zooms e raio (em tiles) guardados em volta de cada posição capturada: o suficiente para ajustar o pino no local
+const PREFETCH_ZOOMS = [15, 16, 17];
+const PREFETCH_RADIUS = 1;
+
+const GEOLOCATION_ERRORS: { [code: number]: string } = {
+  1: 'Permissão de localização negada. Ajuste o pino no mapa ou digite as coordenadas.',
+  2: 'Localização indisponível no momento. Ajuste o pino no mapa ou digite as coordenadas.',
+  3: 'O GPS demorou a responder. Tente de novo ou digite as coordenadas.',
+};
+
+/**
+ * Posição atual do aparelho, em alta precisão; rejeita com uma mensagem pronta para o inspetor.
+ * Cada posição obtida também guarda os tiles em volta dela, para ajustar o pino depois sem conexão.
+ */
+export function captureLocation(timeout = CAPTURE_TIMEOUT_MS): Promise<GeoLocation> {
+  return new Promise((resolve, reject) => {
+    if (typeof navigator === 'undefined' || !navigator.geolocation) {
+      reject(new Error('Este navegador não informa a localização. Digite as coordenadas.'));
+      return;
+    }
+
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        const { latitude, longitude, accuracy } = position.coords;
+        void prefetchMapTiles(latitude, longitude);
+        resolve({
+          latitude,
+          longitude,
+          precisao: Number.isFinite(accuracy) ? accuracy : null,
+          origem: 'gps',
+          capturadaEm: new Date(position.timestamp || Date.now()).toISOString(),
+        });
+      },
+      (error) => reject(new Error(GEOLOCATION_ERRORS[error.code] || 'Não foi possível obter a localização.')),
+      { enableHighAccuracy: true, timeout, maximumAge: CAPTURE_MAX_AGE_MS }
+    );
+  });
+}
+
+/**
+ * Guarda no cache do navegador os tiles em volta da posição, para o mapa funcionar depois sem conexão.
+ * Falhas (sem conexão, servidor sem CORS) são ignoradas: o mapa só fica sem aquele pedaço.
+ */
+export async function prefetchMapTiles(latitude: number, longitude: number): Promise<void> {
+  if (typeof caches === 'undefined' || !navigator.onLine) return;
+
+  try {
+    const cache = await caches.open(MAP_TILE_CACHE);
+    const urls = tilesAround(latitude, longitude, PREFETCH_ZOOMS, PREFETCH_RADIUS)
+      .map(tile => buildTileUrl(tile, MAP_TILE_URL))
+      .filter((url): url is string => url !== null);
+
+    let stored = 0;
+    for (const url of urls) {
+      if (await cache.match(url)) continue;
+      try {
+        await cache.add(url);
+        stored++;
+      } catch {
+        // Tile indisponível: segue com os demais
+      }
+    }
+    if (stored > 0) console.log(`🗺️ ${stored} tile(s) do mapa guardado(s) para uso sem conexão`);
+  } catch (error) {
+    console.error('⚠️ Não foi possível guardar os tiles do mapa:', error);
+  }
+}
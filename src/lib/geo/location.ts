@@ -0,0 +1,54 @@
+import type { GeoLocation } from '@/lib/validation/submitSchema';
+
+// Localização do relatório e das fotos: origem, formatação e leitura das coordenadas digitadas
+
+/** gps = navegador; mapa = pino ajustado pelo inspetor; manual = coordenadas digitadas */
+export const GEO_SOURCES = ['gps', 'mapa', 'manual'] as const;
+export type GeoSource = (typeof GEO_SOURCES)[number];
+
+export const GEO_SOURCE_LABELS: { [source in GeoSource]: string } = {
+  gps: 'GPS',
+  mapa: 'Ajustada no mapa',
+  manual: 'Digitada',
+};
+
+const COORDINATE_DECIMALS = 6;
+
+/**
+ * Coordenadas com 6 casas decimais (cerca de 10 cm), ex.: "-6.439120, -50.072310"
+ */
+export function formatLatLng(location: Pick<GeoLocation, 'latitude' | 'longitude'>): string {
+  return `${location.latitude.toFixed(COORDINATE_DECIMALS)}, ${location.longitude.toFixed(COORDINATE_DECIMALS)}`;
+}
+
+/**
+ * Precisão do GPS em metros, ex.: "±12 m"; vazio quando a posição foi ajustada no mapa ou digitada
+ */
+export function formatAccuracy(location: GeoLocation): string {
+  return location.precisao === null ? '' : `±${Math.round(location.precisao)} m`;
+}
+
+/**
+ * Coordenadas com a precisão ou a origem, ex.: "-6.439120, -50.072310 (±12 m)" ou "... (Ajustada no mapa)"
+ */
+export function formatCoordinates(location: GeoLocation): string {
+  return `${formatLatLng(location)} (${formatAccuracy(location) || GEO_SOURCE_LABELS[location.origem]})`;
+}
+
+/**
+ * Converte uma coordenada digitada (aceita vírgula decimal) e confere o intervalo; null se inválida
+ */
+export function parseCoordinate(value: string, limit: 90 | 180): number | null {
+  const normalized = value.trim().replace(',', '.');
+  if (!/^-?\d{1,3}(\.\d+)?$/.test(normalized)) return null;
+  const coordinate = Number(normalized);
+  return Math.abs(coordinate) <= limit ? coordinate : null;
+}
+
+/**
+ * Link para abrir as coordenadas no OpenStreetMap
+ */
+export function buildMapLink(location: Pick<GeoLocation, 'latitude' | 'longitude'>): string {
+  const { latitude, longitude } = location;
+  return `https://www.openstreetmap.org/?mlat=${latitude}&mlon=${longitude}#map=17/${latitude}/${longitude}`;
+}
@@ -0,0 +1,167 @@
+import { PNG } from 'pngjs';
+import type { SubmitPayload } from '@/lib/validation/submitSchema';
+import { MAP_ATTRIBUTION, MAP_TILE_URL, TILE_SIZE, buildTileUrl, projectToWorld } from './tiles';
+
+// Recorte do mapa para o PDF: busca os tiles no servidor configurado e monta uma única imagem PNG.
+// Os pinos não entram na imagem; o PDF os desenha em vetor nas posições devolvidas aqui.
+
+export interface StaticMapMarker {
+  /** null = localização da inspeção; "1.2" = item 1, foto 2 */
+  label: string | null;
+  /** Posição na imagem, em pixels */
+  x: number;
+  y: number;
+}
+
+export interface StaticMap {
+  /** data URL PNG */
+  image: string;
+  width: number;
+  height: number;
+  markers: StaticMapMarker[];
+  attribution: string;
+}
+
+const MAP_WIDTH = 720;
+const MAP_HEIGHT = 320;
+// Margem em volta dos pinos ao escolher o zoom
+const MARKER_PADDING = 40;
+const MAP_MAX_ZOOM = 17;
+const MAP_MIN_ZOOM = 3;
+
+const TILE_TIMEOUT_MS = 5000;
+const MAX_CACHED_TILES = 200;
+// Fundo das áreas sem tile (cinza claro)
+const EMPTY_COLOR = [229, 231, 235];
+
+// Tiles já buscados (PDFs do mesmo relatório e de relatórios do mesmo local repetem os tiles)
+const tileCache = new Map<string, PNG>();
+
+interface GeoPoint {
+  label: string | null;
+  latitude: number;
+  longitude: number;
+}
+
+/**
+ * Busca e decodifica um tile PNG; null se não responder a tempo ou não for PNG (tiles JPEG ficam de fora)
+ */
+async function fetchTile(url: string): Promise<PNG | null> {
+  const cached = tileCache.get(url);
+  if (cached) return cached;
+
+  try {
+    const response = await fetch(url, {
+      // A política de uso do OpenStreetMap pede um User-Agent que identifique a aplicação
+      headers: { 'User-Agent': 'relatorio-inspecao (mapa do PDF)' },
+      signal: AbortSignal.timeout(TILE_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      console.log(`⚠️ Tile do mapa indisponível (HTTP ${response.status}): ${url}`);
+      return null;
+    }
+    const tile = PNG.sync.read(Buffer.from(await response.arrayBuffer()));
+    if (tileCache.size >= MAX_CACHED_TILES) tileCache.delete(tileCache.keys().next().value!);
+    tileCache.set(url, tile);
+    return tile;
+  } catch (error) {
+    console.log(`⚠️ Não foi possível carregar o tile ${url}:`, error instanceof Error ? error.message : error);
+    return null;
+  }
+}
+
+/**
+ * Maior zoom em que todos os pontos cabem na imagem, com margem
+ */
+function chooseZoom(points: GeoPoint[]): number {
+  for (let zoom = MAP_MAX_ZOOM; zoom > MAP_MIN_ZOOM; zoom--) {
+    const projected = points.map(point => projectToWorld(point.latitude, point.longitude, zoom));
+    const xs = projected.map(point => point.x);
+    const ys = projected.map(point => point.y);
+    if (Math.max(...xs) - Math.min(...xs) <= MAP_WIDTH - 2 * MARKER_PADDING &&
+      Math.max(...ys) - Math.min(...ys) <= MAP_HEIGHT - 2 * MARKER_PADDING) {
+      return zoom;
+    }
+  }
+  return MAP_MIN_ZOOM;
+}
+
+/**
+ * Localização da inspeção e das fotos que a tiverem
+ */
+function listReportPoints(payload: SubmitPayload): GeoPoint[] {
+  const points: GeoPoint[] = [];
+  // Relatórios guardados antes da localização não têm os campos
+  if (payload.localizacao) points.push({ label: null, ...payload.localizacao });
+  payload.inspectionItems.forEach(item => {
+    item.fotos.forEach((foto, photoIndex) => {
+      if (foto.localizacao) points.push({ label: `${item.item}.${photoIndex + 1}`, ...foto.localizacao });
+    });
+  });
+  return points;
+}
+
+/**
+ * Mapa com a localização da inspeção e das fotos, para o PDF. null quando o relatório não tem
+ * coordenadas ou nenhum tile pôde ser carregado (o PDF sai só com as coordenadas em texto).
+ */
+export async function buildReportMap(payload: SubmitPayload): Promise<StaticMap | null> {
+  const points = listReportPoints(payload);
+  if (points.length === 0) return null;
+
+  const zoom = chooseZoom(points);
+  const projected = points.map(point => ({ label: point.label, ...projectToWorld(point.latitude, point.longitude, zoom) }));
+  const xs = projected.map(point => point.x);
+  const ys = projected.map(point => point.y);
+  const left = Math.round((Math.min(...xs) + Math.max(...xs)) / 2 - MAP_WIDTH / 2);
+  const top = Math.round((Math.min(...ys) + Math.max(...ys)) / 2 - MAP_HEIGHT / 2);
+
+  const firstTileX = Math.floor(left / TILE_SIZE);
+  const firstTileY = Math.floor(top / TILE_SIZE);
+  const lastTileX = Math.floor((left + MAP_WIDTH - 1) / TILE_SIZE);
+  const lastTileY = Math.floor((top + MAP_HEIGHT - 1) / TILE_SIZE);
+
+  const requests: Promise<{ tileX: number; tileY: number; tile: PNG | null }>[] = [];
+  for (let tileY = firstTileY; tileY <= lastTileY; tileY++) {
+    for (let tileX = firstTileX; tileX <= lastTileX; tileX++) {
+      const url = buildTileUrl({ z: zoom, x: tileX, y: tileY }, MAP_TILE_URL);
+      requests.push((url ? fetchTile(url) : Promise.resolve(null)).then(tile => ({ tileX, tileY, tile })));
+    }
+  }
+  const tiles = await Promise.all(requests);
+  if (tiles.every(({ tile }) => !tile)) {
+    console.log('⚠️ Nenhum tile do mapa disponível; o PDF sai sem o mapa');
+    return null;
+  }
+
+  const map = new PNG({ width: MAP_WIDTH, height: MAP_HEIGHT });
+  for (let i = 0; i < map.data.length; i += 4) {
+    map.data[i] = EMPTY_COLOR[0];
+    map.data[i + 1] = EMPTY_COLOR[1];
+    map.data[i + 2] = EMPTY_COLOR[2];
+    map.data[i + 3] = 255;
+  }
+
+  tiles.forEach(({ tileX, tileY, tile }) => {
+    if (!tile) return;
+    const offsetX = tileX * TILE_SIZE - left;
+    const offsetY = tileY * TILE_SIZE - top;
+    // Copia a parte do tile que cai dentro da imagem, linha a linha
+    const sourceX = Math.max(0, -offsetX);
+    const targetX = Math.max(0, offsetX);
+    const width = Math.min(tile.width - sourceX, MAP_WIDTH - targetX);
+    if (width <= 0) return;
+    for (let row = Math.max(0, -offsetY); row < tile.height && offsetY + row < MAP_HEIGHT; row++) {
+      const sourceStart = (row * tile.width + sourceX) * 4;
+      tile.data.copy(map.data, ((offsetY + row) * MAP_WIDTH + targetX) * 4, sourceStart, sourceStart + width * 4);
+    }
+  });
+
+  return {
+    image: `data:image/png;base64,${PNG.sync.write(map).toString('base64')}`,
+    width: MAP_WIDTH,
+    height: MAP_HEIGHT,
+    markers: projected.map(point => ({ label: point.label, x: point.x - left, y: point.y - top })),
+    attribution: MAP_ATTRIBUTION,
+  };
+}
@@ -0,0 +1,80 @@
+// Tiles do mapa (projeção Web Mercator, blocos de 256 px): usados pelo mapa do formulário e pelo recorte do mapa no PDF.
+// O servidor de tiles é configurável; o padrão é o do OpenStreetMap.
+
+export const TILE_SIZE = 256;
+export const MIN_ZOOM = 3;
+export const MAX_ZOOM = 19;
+
+/** Modelo de URL com {z}, {x}, {y} e, opcionalmente, {s} (subdomínio a, b ou c) */
+export const MAP_TILE_URL = process.env.NEXT_PUBLIC_MAP_TILE_URL || 'https://tile.openstreetmap.org/{z}/{x}/{y}.png';
+export const MAP_ATTRIBUTION = process.env.NEXT_PUBLIC_MAP_ATTRIBUTION || '© colaboradores do OpenStreetMap';
+
+export interface WorldPoint {
+  x: number;
+  y: number;
+}
+
+export interface TileCoordinate {
+  z: number;
+  x: number;
+  y: number;
+}
+
+// Limite da projeção: acima disso o mapa não tem tiles
+const MAX_LATITUDE = 85.05112878;
+
+/**
+ * Posição em pixels no "mundo" do nível de zoom (0 a 256 × 2^zoom em cada eixo)
+ */
+export function projectToWorld(latitude: number, longitude: number, zoom: number): WorldPoint {
+  const size = TILE_SIZE * 2 ** zoom;
+  const sin = Math.sin((Math.max(-MAX_LATITUDE, Math.min(MAX_LATITUDE, latitude)) * Math.PI) / 180);
+  return {
+    x: ((longitude + 180) / 360) * size,
+    y: (0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI)) * size,
+  };
+}
+
+/**
+ * Inverso de projectToWorld
+ */
+export function worldToLatLng(point: WorldPoint, zoom: number): { latitude: number; longitude: number } {
+  const size = TILE_SIZE * 2 ** zoom;
+  const longitude = (point.x / size) * 360 - 180;
+  const n = Math.PI - (2 * Math.PI * point.y) / size;
+  const latitude = (180 / Math.PI) * Math.atan(Math.sinh(n));
+  // Longitude volta ao intervalo -180..180 depois de arrastar o mapa além da borda
+  return { latitude, longitude: ((((longitude + 180) % 360) + 360) % 360) - 180 };
+}
+
+/**
+ * URL do tile; x dá a volta no globo e y fora do mapa devolve null
+ */
+export function buildTileUrl({ z, x, y }: TileCoordinate, template = MAP_TILE_URL): string | null {
+  const count = 2 ** z;
+  if (y < 0 || y >= count) return null;
+  const wrappedX = ((x % count) + count) % count;
+  return template
+    .replace('{s}', 'abc'[(wrappedX + y) % 3])
+    .replace('{z}', String(z))
+    .replace('{x}', String(wrappedX))
+    .replace('{y}', String(y));
+}
+
+/**
+ * Tiles de um quadrado com `radius` tiles em volta do ponto, em cada nível de zoom
+ */
+export function tilesAround(latitude: number, longitude: number, zooms: number[], radius: number): TileCoordinate[] {
+  return zooms.flatMap(z => {
+    const center = projectToWorld(latitude, longitude, z);
+    const centerX = Math.floor(center.x / TILE_SIZE);
+    const centerY = Math.floor(center.y / TILE_SIZE);
+    const tiles: TileCoordinate[] = [];
+    for (let dy = -radius; dy <= radius; dy++) {
+      for (let dx = -radius; dx <= radius; dx++) {
+        tiles.push({ z, x: centerX + dx, y: centerY + dy });
+      }
+    }
+    return tiles;
+  });
+}
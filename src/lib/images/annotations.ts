@@ -0,0 +1,134 @@
+import { canvasToPhotoFile } from './compress';
+
+// Anotações sobre as fotos de evidência (setas, círculos, retângulos, traço livre e rótulos de texto).
+// Guardadas como vetores em pixels da foto original, para o editor reabrir o desenho e desfazer;
+// a versão enviada é a foto com as anotações aplicadas ("achatada").
+
+export const ANNOTATION_TOOLS = ['seta', 'circulo', 'retangulo', 'livre', 'texto'] as const;
+export type AnnotationTool = typeof ANNOTATION_TOOLS[number];
+
+export const ANNOTATION_TOOL_LABELS: { [tool in AnnotationTool]: string } = {
+  seta: 'Seta',
+  circulo: 'Círculo',
+  retangulo: 'Retângulo',
+  livre: 'Traço livre',
+  texto: 'Texto',
+};
+
+// Vermelho primeiro: é a cor padrão, visível sobre a maioria das fotos de campo
+export const ANNOTATION_COLORS = ['#ef4444', '#facc15', '#22c55e', '#3b82f6', '#ffffff'];
+
+export const MAX_ANNOTATION_TEXT = 60;
+
+export interface AnnotationPoint {
+  x: number;
+  y: number;
+}
+
+/**
+ * Uma anotação. Seta, círculo e retângulo têm dois pontos (início e fim do arraste; o círculo é a elipse
+ * inscrita no retângulo entre eles), o traço livre tem todos os pontos e o texto, só a posição do rótulo.
+ */
+export interface PhotoAnnotation {
+  ferramenta: AnnotationTool;
+  cor: string;
+  pontos: AnnotationPoint[];
+  texto?: string;
+}
+
+/**
+ * Espessura do traço proporcional à foto, para as anotações terem o mesmo peso em qualquer resolução
+ */
+export const annotationLineWidth = (width: number, height: number) => Math.max(3, Math.round(Math.max(width, height) / 250));
+
+function drawArrow(ctx: CanvasRenderingContext2D, from: AnnotationPoint, to: AnnotationPoint, lineWidth: number) {
+  const angle = Math.atan2(to.y - from.y, to.x - from.x);
+  const headLength = lineWidth * 5;
+  ctx.beginPath();
+  ctx.moveTo(from.x, from.y);
+  ctx.lineTo(to.x, to.y);
+  ctx.stroke();
+  ctx.beginPath();
+  ctx.moveTo(to.x, to.y);
+  ctx.lineTo(to.x - headLength * Math.cos(angle - Math.PI / 7), to.y - headLength * Math.sin(angle - Math.PI / 7));
+  ctx.lineTo(to.x - headLength * Math.cos(angle + Math.PI / 7), to.y - headLength * Math.sin(angle + Math.PI / 7));
+  ctx.closePath();
+  ctx.fill();
+}
+
+function drawLabel(ctx: CanvasRenderingContext2D, position: AnnotationPoint, text: string, color: string, lineWidth: number) {
+  const fontSize = lineWidth * 6;
+  const padding = fontSize * 0.3;
+  ctx.font = `bold ${fontSize}px sans-serif`;
+  ctx.textBaseline = 'top';
+  const width = ctx.measureText(text).width;
+  // Fundo escuro para o texto ficar legível sobre qualquer parte da foto
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.65)';
+  ctx.fillRect(position.x, position.y, width + 2 * padding, fontSize + 2 * padding);
+  ctx.fillStyle = color;
+  ctx.fillText(text, position.x + padding, position.y + padding);
+}
+
+/**
+ * Desenha as anotações no contexto, que deve estar nas dimensões da foto original
+ */
+export function renderAnnotations(ctx: CanvasRenderingContext2D, annotations: PhotoAnnotation[], width: number, height: number): void {
+  const lineWidth = annotationLineWidth(width, height);
+  ctx.lineWidth = lineWidth;
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+
+  annotations.forEach(annotation => {
+    const [start, end = start] = annotation.pontos;
+    if (!start) return;
+    ctx.strokeStyle = annotation.cor;
+    ctx.fillStyle = annotation.cor;
+
+    switch (annotation.ferramenta) {
+      case 'seta':
+        drawArrow(ctx, start, end, lineWidth);
+        break;
+      case 'circulo':
+        ctx.beginPath();
+        ctx.ellipse((start.x + end.x) / 2, (start.y + end.y) / 2, Math.abs(end.x - start.x) / 2, Math.abs(end.y - start.y) / 2, 0, 0, Math.PI * 2);
+        ctx.stroke();
+        break;
+      case 'retangulo':
+        ctx.strokeRect(Math.min(start.x, end.x), Math.min(start.y, end.y), Math.abs(end.x - start.x), Math.abs(end.y - start.y));
+        break;
+      case 'livre':
+        ctx.beginPath();
+        annotation.pontos.forEach((point, index) => {
+          if (index === 0) ctx.moveTo(point.x, point.y);
+          else ctx.lineTo(point.x, point.y);
+        });
+        ctx.stroke();
+        break;
+      case 'texto':
+        if (annotation.texto) drawLabel(ctx, start, annotation.texto, annotation.cor, lineWidth);
+        break;
+    }
+  });
+}
+
+/**
+ * Foto com as anotações aplicadas, no mesmo formato e qualidade das fotos comprimidas
+ */
+export async function flattenAnnotations(original: File, annotations: PhotoAnnotation[]): Promise<File> {
+  const bitmap = await createImageBitmap(original);
+  try {
+    const canvas = document.createElement('canvas');
+    canvas.width = bitmap.width;
+    canvas.height = bitmap.height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas 2D indisponível');
+
+    ctx.drawImage(bitmap, 0, 0);
+    renderAnnotations(ctx, annotations, canvas.width, canvas.height);
+    const annotated = await canvasToPhotoFile(canvas, original.name);
+    console.log('✏️ Foto anotada:', { fileName: original.name, annotations: annotations.length, finalSize: annotated.size });
+    return annotated;
+  } finally {
+    bitmap.close();
+  }
+}
@@ -0,0 +1,121 @@
+// Redimensiona, corrige a orientação e recomprime as fotos no navegador antes de irem para o rascunho/fila
+
+export type PhotoFormat = 'image/jpeg' | 'image/webp';
+
+export interface PhotoCompressionOptions {
+  maxDimension: number; // Maior lado, em pixels
+  quality: number; // 0 a 1
+  format: PhotoFormat;
+}
+
+export const PHOTO_COMPRESSION_OPTIONS: PhotoCompressionOptions = {
+  maxDimension: Number(process.env.NEXT_PUBLIC_PHOTO_MAX_DIMENSION) || 1600,
+  quality: Number(process.env.NEXT_PUBLIC_PHOTO_QUALITY) || 0.8,
+  format: process.env.NEXT_PUBLIC_PHOTO_FORMAT === 'image/webp' ? 'image/webp' : 'image/jpeg',
+};
+
+interface DecodedImage {
+  source: CanvasImageSource;
+  width: number;
+  height: number;
+  close: () => void;
+}
+
+/**
+ * Decodifica a imagem já girada pelo navegador conforme a orientação EXIF; em navegadores
+ * sem createImageBitmap, usa <img>, que também aplica a orientação.
+ * A rotação não é feita à mão: com 'none' alguns navegadores giram mesmo assim, e a foto sairia girada duas vezes.
+ */
+async function decodeImage(file: File): Promise<DecodedImage> {
+  if (typeof createImageBitmap === 'function') {
+    try {
+      const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+      return { source: bitmap, width: bitmap.width, height: bitmap.height, close: () => bitmap.close() };
+    } catch (error) {
+      console.log('⚠️ createImageBitmap indisponível, usando <img>:', error);
+    }
+  }
+
+  const url = URL.createObjectURL(file);
+  try {
+    const image = new Image();
+    image.src = url;
+    await image.decode();
+    return { source: image, width: image.naturalWidth, height: image.naturalHeight, close: () => {} };
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+function canvasToBlob(canvas: HTMLCanvasElement, type: string, quality: number): Promise<Blob | null> {
+  return new Promise(resolve => canvas.toBlob(resolve, type, quality));
+}
+
+/**
+ * Troca a extensão do nome do arquivo conforme o novo formato
+ */
+function renameForFormat(fileName: string, mimeType: string): string {
+  const extension = mimeType === 'image/webp' ? 'webp' : 'jpg';
+  const baseName = fileName.replace(/\.[^./]+$/, '') || 'foto';
+  return `${baseName}.${extension}`;
+}
+
+/**
+ * Codifica o canvas no formato configurado para as fotos (JPEG ou WebP), com o nome ajustado à extensão
+ */
+export async function canvasToPhotoFile(canvas: HTMLCanvasElement, fileName: string, options: PhotoCompressionOptions = PHOTO_COMPRESSION_OPTIONS): Promise<File> {
+  let blob = await canvasToBlob(canvas, options.format, options.quality);
+  // Navegadores sem codificador WebP devolvem PNG; nesse caso usa JPEG
+  if (!blob || blob.type !== options.format) {
+    blob = await canvasToBlob(canvas, 'image/jpeg', options.quality);
+  }
+  if (!blob) throw new Error('Falha ao gerar a imagem comprimida');
+  return new File([blob], renameForFormat(fileName, blob.type), { type: blob.type, lastModified: Date.now() });
+}
+
+/**
+ * Reduz a foto ao tamanho máximo configurado, corrige a orientação EXIF e converte para JPEG/WebP
+ */
+export async function compressPhoto(file: File, options: PhotoCompressionOptions = PHOTO_COMPRESSION_OPTIONS): Promise<File> {
+  const decoded = await decodeImage(file);
+
+  try {
+    const scale = Math.min(1, options.maxDimension / Math.max(decoded.width, decoded.height));
+    const drawWidth = Math.round(decoded.width * scale);
+    const drawHeight = Math.round(decoded.height * scale);
+
+    const canvas = document.createElement('canvas');
+    canvas.width = drawWidth;
+    canvas.height = drawHeight;
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas 2D indisponível');
+
+    // Fundo branco para fotos PNG com transparência virarem JPEG corretamente
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.drawImage(decoded.source, 0, 0, drawWidth, drawHeight);
+
+    const photo = await canvasToPhotoFile(canvas, file.name, options);
+
+    console.log(`📷 Foto comprimida:`, {
+      fileName: file.name,
+      originalSize: file.size,
+      finalSize: photo.size,
+      dimensions: `${canvas.width}x${canvas.height}`,
+    });
+
+    return photo;
+  } finally {
+    decoded.close();
+  }
+}
+
+/**
+ * Formata um tamanho em bytes para exibição (ex.: "245 KB")
+ */
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
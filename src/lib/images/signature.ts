@@ -0,0 +1,58 @@
+import { PNG } from 'pngjs';
+import { MIN_SIGNATURE_LENGTH, SIGNATURE_HEIGHT, SIGNATURE_PNG_SCALE, SIGNATURE_WIDTH, measureInkLength } from './signatureStrokes';
+
+// Conferência, no servidor, das assinaturas desenhadas no quadro (PNG)
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+/**
+ * Lê largura e altura do cabeçalho IHDR, sem decodificar a imagem; lança erro se o arquivo não começar como um PNG
+ */
+function readPngSize(png: Buffer): { width: number; height: number } {
+  if (png.length < 24 || !png.subarray(0, 8).equals(PNG_SIGNATURE) || png.toString('ascii', 12, 16) !== 'IHDR') {
+    throw new Error('Arquivo não é um PNG');
+  }
+  return { width: png.readUInt32BE(16), height: png.readUInt32BE(20) };
+}
+
+/**
+ * Comprimento aproximado dos traços, em unidades do quadro, medido nos pixels decodificados do PNG
+ * com a mesma conta do quadro de assinatura (measureInkLength)
+ */
+export function measureSignatureLength(png: Buffer): number {
+  // O quadro exporta no máximo SIGNATURE_PNG_SCALE vezes o seu tamanho; uma imagem maior não veio dele
+  // e é recusada antes de decodificar, para um PNG pequeno não ocupar gigabytes de memória
+  const size = readPngSize(png);
+  if (size.width > SIGNATURE_WIDTH * SIGNATURE_PNG_SCALE || size.height > SIGNATURE_HEIGHT * SIGNATURE_PNG_SCALE) {
+    throw new Error(`Assinatura maior que o quadro (${size.width}x${size.height})`);
+  }
+
+  const { width, data } = PNG.sync.read(png);
+  return measureInkLength(data, width);
+}
+
+/**
+ * Verifica se a assinatura (data URL PNG) está em branco ou curta demais para valer como assinatura
+ */
+export function isSignatureBlank(base64Data: string): boolean {
+  if (!base64Data || !base64Data.startsWith('data:image/png')) {
+    return true;
+  }
+
+  try {
+    const buffer = Buffer.from(base64Data.substring(base64Data.indexOf(',') + 1), 'base64');
+    const length = measureSignatureLength(buffer);
+
+    console.log(`🔍 Análise da assinatura:`, {
+      bufferSize: buffer.length,
+      strokeLength: Math.round(length),
+      isBlank: length < MIN_SIGNATURE_LENGTH,
+    });
+
+    return length < MIN_SIGNATURE_LENGTH;
+  } catch (error) {
+    // PNG que não decodifica não tem assinatura que possa ser conferida
+    console.error('Erro ao analisar assinatura:', error instanceof Error ? error.message : error);
+    return true;
+  }
+}
@@ -0,0 +1,62 @@
+// Assinatura como traços vetoriais, em um sistema de coordenadas fixo do quadro (independe do tamanho da tela e da densidade de pixels).
+// Usado no navegador (desenho, exportação e rascunho) e no servidor (conferência do PNG).
+
+export const SIGNATURE_WIDTH = 400;
+export const SIGNATURE_HEIGHT = 150;
+export const SIGNATURE_LINE_WIDTH = 2.5;
+
+/** PNG exportado com o dobro da resolução do quadro, nítido no PDF */
+export const SIGNATURE_PNG_SCALE = 2;
+
+/** Comprimento mínimo da assinatura (ver measureInkLength), em unidades do quadro; abaixo disso é tratada como em branco */
+export const MIN_SIGNATURE_LENGTH = 60;
+
+export interface StrokePoint {
+  x: number;
+  y: number;
+}
+
+export type Stroke = StrokePoint[];
+
+/**
+ * Comprimento aproximado dos traços, em unidades do quadro, a partir dos pixels RGBA da assinatura exportada.
+ * Soma a "tinta" de cada pixel (escuro e opaco = 1, branco ou transparente = 0), o que dá a área pintada,
+ * e divide pela espessura da caneta na escala da imagem. As pontas arredondadas só aumentam a estimativa.
+ * O quadro (getImageData) e o servidor (PNG decodificado) medem os mesmos pixels, então chegam ao mesmo valor.
+ */
+export function measureInkLength(rgba: ArrayLike<number>, width: number): number {
+  let ink = 0;
+  for (let i = 0; i < rgba.length; i += 4) {
+    const luminance = 0.299 * rgba[i] + 0.587 * rgba[i + 1] + 0.114 * rgba[i + 2];
+    ink += (1 - luminance / 255) * (rgba[i + 3] / 255);
+  }
+  const scale = width / SIGNATURE_WIDTH;
+  return ink / (SIGNATURE_LINE_WIDTH * scale) / scale;
+}
+
+/**
+ * Desenha os traços no contexto, com `scale` pixels por unidade do quadro
+ */
+export function renderStrokes(ctx: CanvasRenderingContext2D, strokes: Stroke[], scale: number): void {
+  ctx.strokeStyle = '#000000';
+  ctx.fillStyle = '#000000';
+  ctx.lineWidth = SIGNATURE_LINE_WIDTH * scale;
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+
+  strokes.forEach(stroke => {
+    if (stroke.length === 1) {
+      // Toque sem movimento vira um ponto
+      ctx.beginPath();
+      ctx.arc(stroke[0].x * scale, stroke[0].y * scale, (SIGNATURE_LINE_WIDTH * scale) / 2, 0, Math.PI * 2);
+      ctx.fill();
+      return;
+    }
+    ctx.beginPath();
+    stroke.forEach((point, index) => {
+      if (index === 0) ctx.moveTo(point.x * scale, point.y * scale);
+      else ctx.lineTo(point.x * scale, point.y * scale);
+    });
+    ctx.stroke();
+  });
+}
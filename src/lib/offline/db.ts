@@ -0,0 +1,91 @@
+// Acesso mínimo ao IndexedDB usado pelos rascunhos e pela fila de envio
+
+const DB_NAME = 'meu-app-inspecao';
+const DB_VERSION = 1;
+
+export const DRAFTS_STORE = 'drafts';
+export const OUTBOX_STORE = 'outbox';
+
+type StoreName = typeof DRAFTS_STORE | typeof OUTBOX_STORE;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Abre (e cria, se necessário) o banco local do aplicativo
+ */
+function openDatabase(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB não está disponível neste navegador'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(DRAFTS_STORE)) {
+        db.createObjectStore(DRAFTS_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(OUTBOX_STORE)) {
+        db.createObjectStore(OUTBOX_STORE, { keyPath: 'id' });
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+
+  return dbPromise;
+}
+
+/**
+ * Executa uma operação em um object store e resolve quando a transação termina
+ */
+async function withStore<T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = operation(transaction.objectStore(storeName));
+
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+export function getRecord<T>(storeName: StoreName, id: string): Promise<T | undefined> {
+  return withStore(storeName, 'readonly', (store) => store.get(id) as IDBRequest<T | undefined>);
+}
+
+export function getAllRecords<T>(storeName: StoreName): Promise<T[]> {
+  return withStore(storeName, 'readonly', (store) => store.getAll() as IDBRequest<T[]>);
+}
+
+export async function putRecord<T>(storeName: StoreName, value: T): Promise<void> {
+  await withStore(storeName, 'readwrite', (store) => store.put(value));
+}
+
+export async function deleteRecord(storeName: StoreName, id: string): Promise<void> {
+  await withStore(storeName, 'readwrite', (store) => store.delete(id));
+}
+
+/**
+ * Gera um identificador único para rascunhos e itens da fila
+ */
+export function createLocalId(): string {
+  if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) {
+    return crypto.randomUUID();
+  }
+  return `${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+}
@@ -0,0 +1,89 @@
+import { HeaderData, InspectionDraft, InspectionItem, SignatureData } from '@/types/inspection';
+import { DRAFTS_STORE, createLocalId, deleteRecord, getAllRecords, putRecord } from './db';
+
+// Item salvo por versões anteriores do app, com uma única foto e sem o e-mail do responsável, a classificação de risco ou o checklist
+type LegacyInspectionItem = Omit<InspectionItem, 'fotos' | 'responsavelEmail' | 'tipoAchado' | 'probabilidade' | 'severidade' | 'pergunta' | 'resposta'> & {
+  fotos?: InspectionItem['fotos'];
+  pergunta?: string;
+  resposta?: InspectionItem['resposta'];
+  foto?: File | null;
+  responsavelEmail?: string;
+  tipoAchado?: InspectionItem['tipoAchado'];
+  probabilidade?: number | null;
+  severidade?: number | null;
+};
+
+// Assinaturas salvas por versões anteriores do app, sem os traços ou sem a assinatura remota
+type LegacySignatureData = Omit<SignatureData, 'responsavelInspecaoTracos' | 'responsavelUnidadeTracos' | 'responsavelUnidadeEmail'> & {
+  responsavelInspecaoTracos?: SignatureData['responsavelInspecaoTracos'];
+  responsavelUnidadeTracos?: SignatureData['responsavelUnidadeTracos'];
+  responsavelUnidadeEmail?: string | null;
+};
+
+/**
+ * Converte rascunhos antigos (campo "foto" único, sem e-mail do responsável, classificação de risco, checklist, assinatura remota, localização ou anotações nas fotos) para o formato atual
+ */
+export function normalizeDraft(draft: InspectionDraft): InspectionDraft {
+  const inspectionItems = (draft.inspectionItems as LegacyInspectionItem[]).map(({ foto, fotos, ...item }): InspectionItem => ({
+    ...item,
+    pergunta: item.pergunta || '',
+    resposta: item.resposta || '',
+    responsavelEmail: item.responsavelEmail || '',
+    tipoAchado: item.tipoAchado || '',
+    probabilidade: item.probabilidade ?? null,
+    severidade: item.severidade ?? null,
+    fotos: fotos
+      ? fotos.map(photo => ({ ...photo, localizacao: photo.localizacao ?? null, original: photo.original ?? null, anotacoes: photo.anotacoes ?? [] }))
+      : foto ? [{ id: createLocalId(), file: foto, legenda: '', localizacao: null, original: null, anotacoes: [] }] : [],
+  }));
+  // Campos copiados um a um: os traços em SVG de versões anteriores ficam para trás e o quadro volta só com o PNG, sem desfazer
+  const savedSignatures = draft.signatures as LegacySignatureData;
+  const signatures: SignatureData = {
+    responsavelInspecao: savedSignatures.responsavelInspecao,
+    responsavelUnidade: savedSignatures.responsavelUnidade,
+    responsavelInspecaoTracos: savedSignatures.responsavelInspecaoTracos ?? null,
+    responsavelUnidadeTracos: savedSignatures.responsavelUnidadeTracos ?? null,
+    responsavelUnidadeEmail: savedSignatures.responsavelUnidadeEmail ?? null,
+  };
+  return { ...draft, checklist: draft.checklist ?? null, localizacao: draft.localizacao ?? null, inspectionItems, signatures };
+}
+
+/**
+ * Lista os rascunhos salvos, do mais recente para o mais antigo
+ */
+export async function listDrafts(): Promise<InspectionDraft[]> {
+  const drafts = await getAllRecords<InspectionDraft>(DRAFTS_STORE);
+  return drafts.map(normalizeDraft).sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export function saveDraft(draft: InspectionDraft): Promise<void> {
+  return putRecord(DRAFTS_STORE, { ...draft, updatedAt: Date.now() });
+}
+
+export function deleteDraft(id: string): Promise<void> {
+  return deleteRecord(DRAFTS_STORE, id);
+}
+
+/**
+ * Indica se o inspetor ainda não preencheu nada no item (a pergunta do checklist não conta)
+ */
+export function isItemEmpty(item: InspectionItem): boolean {
+  return item.fotos.length === 0 && item.tipoAchado === '' && item.resposta === '' &&
+    [item.fato, item.recomendacoes, item.prazo, item.responsavel, item.responsavelEmail, item.conclusao].every(value => value.trim() === '');
+}
+
+// Campos preenchidos pelo app ao abrir o formulário (o responsável vem da sessão); a localização, capturada sozinha, também não conta
+const AUTO_FILLED_HEADER_FIELDS: (keyof HeaderData)[] = ['responsavelQSMS'];
+
+/**
+ * Indica se o rascunho tem algum conteúdo preenchido pelo inspetor
+ */
+export function isDraftEmpty(draft: InspectionDraft): boolean {
+  const headerFilled = (Object.keys(draft.headerData) as (keyof HeaderData)[])
+    .some(field => !AUTO_FILLED_HEADER_FIELDS.includes(field) && draft.headerData[field].trim() !== '');
+  const participantsFilled = draft.participants.some(p => p.nome.trim() !== '' || p.funcao.trim() !== '');
+  const itemsFilled = draft.inspectionItems.some(item => !isItemEmpty(item));
+  const signed = !!(draft.signatures.responsavelInspecao || draft.signatures.responsavelUnidade || draft.signatures.responsavelUnidadeEmail);
+
+  return !headerFilled && !participantsFilled && !itemsFilled && !signed && !draft.checklist && draft.conclusionData.conclusaoGeral.trim() === '';
+}
@@ -0,0 +1,190 @@
+import { InspectionDraft, OutboxEntry } from '@/types/inspection';
+import { OUTBOX_STORE, deleteRecord, getAllRecords, getRecord, putRecord } from './db';
+import { normalizeDraft } from './drafts';
+import { buildSubmitPayload, listDraftFiles } from './payload';
+import { UploadProgress, uploadDraftFiles } from './uploads';
+import type { SubmitJobView } from '@/lib/reports/jobs';
+import type { SubmitStep } from '@/lib/reports/steps';
+
+/** Andamento do envio: bytes dos arquivos e, depois que o servidor aceita o relatório, as etapas do processamento */
+export type SendProgress = UploadProgress & { etapas?: SubmitStep[] };
+
+const POLL_INTERVAL_MS = 1500;
+// Sem conclusão nesse tempo o item volta a ficar pendente; a próxima tentativa acompanha o mesmo processamento
+const MAX_POLL_MS = 10 * 60 * 1000;
+
+/**
+ * Lista os relatórios da fila, do mais antigo para o mais recente
+ */
+export async function listOutbox(): Promise<OutboxEntry[]> {
+  const entries = await getAllRecords<OutboxEntry>(OUTBOX_STORE);
+  return entries
+    .map(entry => ({ ...entry, draft: normalizeDraft(entry.draft) }))
+    .sort((a, b) => a.createdAt - b.createdAt);
+}
+
+/**
+ * Coloca um relatório finalizado na fila de envio
+ */
+export async function enqueueReport(draft: InspectionDraft): Promise<OutboxEntry> {
+  const now = Date.now();
+  const entry: OutboxEntry = {
+    id: draft.id,
+    createdAt: now,
+    updatedAt: now,
+    status: 'pendente',
+    attempts: 0,
+    draft,
+  };
+  await putRecord(OUTBOX_STORE, entry);
+  return entry;
+}
+
+/**
+ * Devolve à fila os itens que ficaram "enviando" porque a página foi fechada ou recarregada no meio do envio.
+ * Chamada ao abrir a fila, quando nada desta página está enviando; a mesma chave de idempotência torna o reenvio seguro.
+ */
+export async function recoverInterruptedEntries(): Promise<void> {
+  const entries = await getAllRecords<OutboxEntry>(OUTBOX_STORE);
+  await Promise.all(entries
+    .filter(entry => entry.status === 'enviando')
+    .map(entry => updateEntry(entry, { status: 'pendente', lastError: 'Envio interrompido; será retomado automaticamente' })));
+}
+
+export function removeOutboxEntry(id: string): Promise<void> {
+  return deleteRecord(OUTBOX_STORE, id);
+}
+
+async function updateEntry(entry: OutboxEntry, changes: Partial<OutboxEntry>): Promise<OutboxEntry> {
+  const updated = { ...entry, ...changes, updatedAt: Date.now() };
+  await putRecord(OUTBOX_STORE, updated);
+  return updated;
+}
+
+/**
+ * Acompanha o processamento aceito por /api/submit (HTTP 202) até o fim e devolve o status e o corpo equivalentes
+ * aos da resposta síncrona; sem conexão, sem sessão ou depois de MAX_POLL_MS, devolve o motivo para o item esperar na fila
+ */
+async function followSubmitJob(
+  accepted: SubmitJobView,
+  onProgress?: (progress: SendProgress) => void
+): Promise<{ status: number; body: unknown } | { pending: string }> {
+  const startedAt = Date.now();
+  let job = accepted;
+
+  while (true) {
+    onProgress?.({ loaded: 0, total: 0, etapas: job.etapas });
+    if (job.status === 'concluido') return { status: 200, body: job.resultado };
+    if (job.status === 'falhou') return { status: job.erro?.status || 500, body: job.erro };
+    if (Date.now() - startedAt > MAX_POLL_MS) return { pending: 'Envio ainda em processamento no servidor' };
+
+    await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+    let response: Response;
+    try {
+      response = await fetch(`/api/submit/${job.id}`, { cache: 'no-store' });
+    } catch {
+      return { pending: 'Sem conexão com o servidor' };
+    }
+    if (response.status === 401) return { pending: 'Sessão expirada. Entre novamente.' };
+    // Consulta sem sucesso: a próxima tentativa reenvia com a mesma chave e retoma o mesmo processamento
+    if (!response.ok) return { pending: `Não foi possível consultar o envio (HTTP ${response.status})` };
+    job = await response.json();
+  }
+}
+
+/**
+ * Envia um relatório da fila: primeiro os arquivos que faltam, direto ao armazenamento, depois o JSON para /api/submit.
+ * O servidor responde assim que guarda o relatório e o processa em seguida; o item acompanha as etapas até o fim.
+ * Falhas de rede e sessão expirada mantêm o item como pendente; as demais respostas de erro do servidor o marcam como erro.
+ */
+export async function sendOutboxEntry(id: string, onProgress?: (progress: SendProgress) => void): Promise<OutboxEntry | undefined> {
+  const stored = await getRecord<OutboxEntry>(OUTBOX_STORE, id);
+  if (!stored || stored.status === 'enviado') return stored;
+
+  let entry = await updateEntry(stored, { status: 'enviando', attempts: stored.attempts + 1 });
+
+  // Uma segunda rodada só acontece se o servidor não encontrar algum arquivo já marcado como enviado (HTTP 409)
+  for (let round = 0; round < 2; round++) {
+    const uploaded = new Set(entry.uploadedFiles || []);
+    const pendingFiles = listDraftFiles(entry.draft).filter(file => !uploaded.has(file.id));
+
+    if (pendingFiles.length > 0) {
+      const outcome = await uploadDraftFiles(entry.draft.id, pendingFiles, async (file) => {
+        uploaded.add(file.id);
+        entry = await updateEntry(entry, { uploadedFiles: [...uploaded] });
+      }, onProgress);
+
+      if (!outcome.ok) {
+        // Sem conexão ou sem sessão: o relatório espera na fila até a próxima tentativa
+        if (outcome.offline || outcome.unauthorized) {
+          return updateEntry(entry, { status: 'pendente', lastError: outcome.error });
+        }
+        return updateEntry(entry, { status: 'erro', lastError: outcome.error, fieldErrors: outcome.fieldErrors });
+      }
+    }
+
+    let response: Response;
+    try {
+      response = await fetch('/api/submit', {
+        method: 'POST',
+        // O id do relatório na fila é a chave de idempotência: se a resposta de uma tentativa se perder,
+        // a próxima recebe o resultado original em vez de gravar o relatório de novo
+        headers: { 'Content-Type': 'application/json', 'Idempotency-Key': entry.id },
+        body: JSON.stringify(buildSubmitPayload(entry.draft)),
+      });
+    } catch (error) {
+      console.log(`📴 Sem conexão ao enviar ${id}, mantendo na fila:`, error);
+      return updateEntry(entry, { status: 'pendente', lastError: 'Sem conexão com o servidor' });
+    }
+
+    let result;
+    try {
+      result = await response.json();
+    } catch {
+      return updateEntry(entry, { status: 'erro', lastError: `Resposta inválida do servidor (HTTP ${response.status})` });
+    }
+
+    if (response.status === 401) {
+      console.log(`🔒 Sessão expirada ao enviar ${id}, mantendo na fila`);
+      return updateEntry(entry, { status: 'pendente', lastError: result.error || 'Sessão expirada. Entre novamente.' });
+    }
+
+    let status = response.status;
+    if (status === 202) {
+      console.log(`⚙️ Relatório ${id} aceito pelo servidor, acompanhando o processamento ${result.id}`);
+      const followed = await followSubmitJob(result, onProgress);
+      if ('pending' in followed) {
+        console.log(`⏳ Processamento de ${id} sem resposta, mantendo na fila:`, followed.pending);
+        return updateEntry(entry, { status: 'pendente', lastError: followed.pending });
+      }
+      status = followed.status;
+      result = followed.body;
+    }
+
+    if (status === 409 && Array.isArray(result.missingKeys) && round === 0) {
+      // Arquivos sumiram do armazenamento (ex.: envio anterior incompleto): reenviar só esses
+      const missing = new Set<string>(result.missingKeys);
+      const missingIds = listDraftFiles(entry.draft).filter(file => missing.has(file.key)).map(file => file.id);
+      console.log(`🔁 Reenviando ${missingIds.length} arquivo(s) ausente(s) de ${id}`);
+      entry = await updateEntry(entry, { uploadedFiles: (entry.uploadedFiles || []).filter(fileId => !missingIds.includes(fileId)) });
+      continue;
+    }
+
+    if (status < 200 || status >= 300) {
+      return updateEntry(entry, {
+        status: 'erro',
+        lastError: result.error || result.message || `Erro HTTP ${status}`,
+        fieldErrors: Array.isArray(result.fieldErrors) ? result.fieldErrors : undefined,
+      });
+    }
+    return updateEntry(entry, {
+      status: 'enviado',
+      inspectionId: result.inspectionId,
+      lastError: undefined,
+      fieldErrors: undefined,
+      warnings: Array.isArray(result.warnings) && result.warnings.length > 0 ? result.warnings : undefined,
+    });
+  }
+
+  return updateEntry(entry, { status: 'erro', lastError: 'Arquivos do relatório não encontrados no armazenamento' });
+}
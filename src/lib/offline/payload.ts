@@ -0,0 +1,181 @@
+import { InspectionDraft } from '@/types/inspection';
+import type { FindingType } from '@/lib/risk/matrix';
+import { ChecklistAnswer, FINDING_TYPE_BY_ANSWER } from '@/lib/validation/checklistSchema';
+import {
+  ALLOWED_PHOTO_MIME_TYPES,
+  ALLOWED_SIGNATURE_MIME_TYPES,
+  FieldError,
+  MAX_IMAGE_BYTES,
+  NOT_SIGNED,
+  SubmitPayload,
+  UploadKind,
+  ValidationResult,
+  buildUploadKey,
+  validateSubmitPayload,
+} from '@/lib/validation/submitSchema';
+import { normalizeDraft } from './drafts';
+
+// Arquivo do relatório enviado direto ao armazenamento antes de /api/submit
+export interface DraftFile {
+  id: string;
+  kind: UploadKind;
+  key: string;
+  blob: Blob;
+  /** Caminho do campo no corpo de /api/submit, para associar erros ao formulário */
+  path: string;
+}
+
+// A original de uma foto anotada vai ao lado da versão anotada, ex.: "evidencias/<rascunho>/<foto>-original.jpg"
+const originalFileId = (photoId: string) => `${photoId}-original`;
+
+const SIGNATURE_FILE_IDS = {
+  responsavelInspecao: 'assinatura-inspecao',
+  responsavelUnidade: 'assinatura-unidade',
+} as const;
+
+/**
+ * Resumo curto (53 bits, base 36) de um texto; não criptográfico, só distingue versões do mesmo arquivo
+ */
+function contentTag(value: string): string {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < value.length; i++) {
+    const char = value.charCodeAt(i);
+    h1 = Math.imul(h1 ^ char, 2654435761);
+    h2 = Math.imul(h2 ^ char, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+}
+
+// O envio só cria objetos novos: cada desenho da assinatura vai para uma chave própria, ex.: "assinatura-inspecao-1k3x9f2a7q"
+const signatureFileId = (role: keyof typeof SIGNATURE_FILE_IDS, dataUrl: string) => `${SIGNATURE_FILE_IDS[role]}-${contentTag(dataUrl)}`;
+
+/**
+ * Converte um data URL (assinatura desenhada no canvas) em Blob
+ */
+export function dataUrlToBlob(dataUrl: string): Blob {
+  const [header, base64] = dataUrl.split(',');
+  const mimeType = header.substring(header.indexOf(':') + 1, header.indexOf(';'));
+  const bytes = Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+  return new Blob([bytes], { type: mimeType });
+}
+
+// Com a assinatura remota escolhida, o desenho que tenha ficado no rascunho não é enviado
+const signatureDataUrl = (draft: InspectionDraft, role: keyof typeof SIGNATURE_FILE_IDS) =>
+  role === 'responsavelUnidade' && draft.signatures.responsavelUnidadeEmail !== null ? null : draft.signatures[role];
+
+/**
+ * Lista as fotos (e as originais das fotos anotadas) e assinaturas do rascunho com a chave de armazenamento de cada uma
+ */
+export function listDraftFiles(savedDraft: InspectionDraft): DraftFile[] {
+  const draft = normalizeDraft(savedDraft);
+  const files: DraftFile[] = [];
+
+  draft.inspectionItems.forEach((item, index) => {
+    item.fotos.forEach((foto, photoIndex) => {
+      files.push({
+        id: foto.id,
+        kind: 'evidencia',
+        key: buildUploadKey('evidencia', draft.id, foto.id, foto.file.type),
+        blob: foto.file,
+        path: `inspectionItems.${index}.fotos.${photoIndex}.imagem`,
+      });
+      if (foto.original) {
+        files.push({
+          id: originalFileId(foto.id),
+          kind: 'evidencia',
+          key: buildUploadKey('evidencia', draft.id, originalFileId(foto.id), foto.original.type),
+          blob: foto.original,
+          path: `inspectionItems.${index}.fotos.${photoIndex}.original`,
+        });
+      }
+    });
+  });
+
+  (['responsavelInspecao', 'responsavelUnidade'] as const).forEach(role => {
+    const dataUrl = signatureDataUrl(draft, role);
+    if (!dataUrl) return;
+    const blob = dataUrlToBlob(dataUrl);
+    files.push({
+      id: signatureFileId(role, dataUrl),
+      kind: 'assinatura',
+      key: buildUploadKey('assinatura', draft.id, signatureFileId(role, dataUrl), blob.type),
+      blob,
+      path: `signatures.${role}`,
+    });
+  });
+
+  return files;
+}
+
+/**
+ * Monta o corpo JSON esperado por /api/submit a partir de um rascunho.
+ * Fotos e assinaturas vão como chaves de armazenamento; os arquivos são enviados à parte.
+ */
+export function buildSubmitPayload(savedDraft: InspectionDraft): SubmitPayload {
+  const draft = normalizeDraft(savedDraft);
+  const signatureKey = (role: keyof typeof SIGNATURE_FILE_IDS) => {
+    const dataUrl = signatureDataUrl(draft, role);
+    return dataUrl ? buildUploadKey('assinatura', draft.id, signatureFileId(role, dataUrl), dataUrlToBlob(dataUrl).type) : NOT_SIGNED;
+  };
+
+  return {
+    headerData: draft.headerData,
+    checklist: draft.checklist,
+    localizacao: draft.localizacao,
+    participants: draft.participants,
+    inspectionItems: draft.inspectionItems.map(item => ({
+      item: item.item,
+      pergunta: item.pergunta,
+      // Resposta ou tipo ainda não escolhidos seguem vazios e são apontados pela validação
+      resposta: item.pergunta ? item.resposta as ChecklistAnswer : null,
+      // Nas perguntas do checklist o tipo de achado decorre da resposta
+      tipoAchado: item.pergunta ? (item.resposta ? FINDING_TYPE_BY_ANSWER[item.resposta] : null) : item.tipoAchado as FindingType,
+      probabilidade: item.probabilidade,
+      severidade: item.severidade,
+      fato: item.fato,
+      recomendacoes: item.recomendacoes,
+      prazo: item.prazo,
+      responsavel: item.responsavel,
+      responsavelEmail: item.responsavelEmail,
+      conclusao: item.conclusao,
+      fotos: item.fotos.map(foto => ({
+        imagem: buildUploadKey('evidencia', draft.id, foto.id, foto.file.type),
+        legenda: foto.legenda,
+        localizacao: foto.localizacao,
+        original: foto.original ? buildUploadKey('evidencia', draft.id, originalFileId(foto.id), foto.original.type) : null,
+      })),
+    })),
+    conclusionData: draft.conclusionData,
+    signatures: {
+      responsavelInspecao: signatureKey('responsavelInspecao'),
+      responsavelUnidade: signatureKey('responsavelUnidade'),
+      responsavelUnidadeEmail: draft.signatures.responsavelUnidadeEmail,
+    },
+  };
+}
+
+/**
+ * Checagem prévia do relatório no aparelho: mesmo schema do servidor, mais tipo e tamanho de cada arquivo
+ */
+export function validateDraftForSubmit(draft: InspectionDraft): ValidationResult {
+  const fileErrors: FieldError[] = [];
+  listDraftFiles(draft).forEach(file => {
+    const allowed = file.kind === 'evidencia' ? ALLOWED_PHOTO_MIME_TYPES : ALLOWED_SIGNATURE_MIME_TYPES;
+    if (!allowed.includes(file.blob.type)) {
+      fileErrors.push({ path: file.path, message: `Tipo de imagem não permitido (${file.blob.type || 'desconhecido'}). Use: ${allowed.join(', ')}` });
+    } else if (file.blob.size > MAX_IMAGE_BYTES) {
+      fileErrors.push({ path: file.path, message: `Imagem maior que ${MAX_IMAGE_BYTES / 1024 / 1024} MB` });
+    }
+  });
+
+  const validation = validateSubmitPayload(buildSubmitPayload(draft));
+  if (!validation.success) {
+    // Um arquivo de tipo inválido também gera chave inválida; basta o erro mais claro
+    const schemaErrors = validation.errors.filter(error => !fileErrors.some(fileError => fileError.path === error.path));
+    return { success: false, errors: [...fileErrors, ...schemaErrors] };
+  }
+  return fileErrors.length > 0 ? { success: false, errors: fileErrors } : validation;
+}
@@ -0,0 +1,155 @@
+import type { UploadTargetResponse } from '@/lib/validation/uploadSchema';
+import { FieldError } from '@/lib/validation/submitSchema';
+import { DraftFile } from './payload';
+
+// Envio direto das fotos e assinaturas ao armazenamento, arquivo por arquivo, com progresso e retomada
+
+export interface UploadProgress {
+  loaded: number;
+  total: number;
+}
+
+export type UploadOutcome =
+  | { ok: true }
+  | { ok: false; offline: boolean; unauthorized?: boolean; error: string; fieldErrors?: FieldError[] };
+
+// Margem para não começar um envio com uma URL prestes a expirar
+const TARGET_EXPIRY_MARGIN_MS = 60 * 1000;
+
+interface PutResponse {
+  status: number;
+  body: string;
+}
+
+/**
+ * PUT via XMLHttpRequest (o fetch não informa o progresso do envio).
+ * Só rejeita em falha de rede; respostas HTTP de erro são devolvidas normalmente.
+ */
+function putWithProgress(url: string, headers: { [name: string]: string }, body: Blob, onProgress: (loaded: number) => void): Promise<PutResponse> {
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open('PUT', url);
+    Object.entries(headers).forEach(([name, value]) => xhr.setRequestHeader(name, value));
+    xhr.upload.onprogress = (event) => onProgress(event.loaded);
+    xhr.onload = () => resolve({ status: xhr.status, body: xhr.responseText });
+    xhr.onerror = () => reject(new Error('Falha de rede durante o envio'));
+    xhr.ontimeout = () => reject(new Error('Tempo esgotado durante o envio'));
+    xhr.send(body);
+  });
+}
+
+const readReceived = (body: string): number | null => {
+  try {
+    const received = JSON.parse(body).received;
+    return typeof received === 'number' ? received : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Envia um arquivo para o destino gerado por /api/uploads.
+ * Destinos com chunkSize recebem o arquivo em partes; o servidor informa quantos bytes já tem,
+ * então um envio interrompido continua de onde parou. Devolve a mensagem de erro, ou null se deu certo.
+ */
+async function uploadToTarget(target: UploadTargetResponse, blob: Blob, onProgress: (loaded: number) => void): Promise<string | null> {
+  if (!target.chunkSize) {
+    const response = await putWithProgress(target.url, target.headers, blob, onProgress);
+    // 412: o objeto já existe (a URL não substitui arquivos); é o mesmo arquivo, gravado por uma tentativa anterior
+    // cuja conclusão não chegou a ser registrada no aparelho
+    if (response.status === 412) return null;
+    return response.status >= 200 && response.status < 300 ? null : `Armazenamento recusou o arquivo (HTTP ${response.status})`;
+  }
+
+  let offset = 0;
+  // Limite de voltas para não insistir indefinidamente se o servidor não avançar
+  let remainingRequests = Math.ceil(blob.size / target.chunkSize) * 2 + 2;
+
+  while (offset < blob.size && remainingRequests-- > 0) {
+    const chunk = blob.slice(offset, offset + target.chunkSize);
+    const chunkStart = offset;
+    const response = await putWithProgress(
+      target.url,
+      { ...target.headers, 'Content-Range': `bytes ${chunkStart}-${chunkStart + chunk.size - 1}/${blob.size}` },
+      chunk,
+      (loaded) => onProgress(chunkStart + loaded)
+    );
+
+    const received = readReceived(response.body);
+    if ((response.status === 200 || response.status === 409) && received !== null) {
+      offset = received;
+      onProgress(offset);
+    } else {
+      return `Armazenamento recusou o arquivo (HTTP ${response.status})`;
+    }
+  }
+
+  return offset >= blob.size ? null : 'O envio do arquivo não avançou';
+}
+
+async function requestUploadTargets(batchId: string, files: DraftFile[]): Promise<{ uploads?: UploadTargetResponse[]; error?: string; fieldErrors?: FieldError[]; unauthorized?: boolean }> {
+  const response = await fetch('/api/uploads', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      batchId,
+      files: files.map(file => ({ id: file.id, kind: file.kind, contentType: file.blob.type, size: file.blob.size })),
+    }),
+  });
+
+  const result = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    // Os caminhos do pedido ("files.3.size") são traduzidos para os campos do formulário
+    const fieldErrors = Array.isArray(result.fieldErrors)
+      ? result.fieldErrors.map((fieldError: FieldError) => {
+          const match = /^files\.(\d+)/.exec(fieldError.path);
+          return match && files[Number(match[1])] ? { ...fieldError, path: files[Number(match[1])].path } : fieldError;
+        })
+      : undefined;
+    return { error: result.error || `Erro HTTP ${response.status}`, fieldErrors, unauthorized: response.status === 401 };
+  }
+  return { uploads: result.uploads };
+}
+
+/**
+ * Envia os arquivos que ainda faltam, um de cada vez, chamando onFileUploaded após cada um
+ * para que o chamador registre o avanço (retomada após queda de conexão ou recarga da página).
+ */
+export async function uploadDraftFiles(
+  batchId: string,
+  files: DraftFile[],
+  onFileUploaded: (file: DraftFile) => Promise<void>,
+  onProgress?: (progress: UploadProgress) => void
+): Promise<UploadOutcome> {
+  const total = files.reduce((sum, file) => sum + file.blob.size, 0);
+  let completed = 0;
+  let targets = new Map<string, UploadTargetResponse>();
+
+  try {
+    for (const [index, file] of files.entries()) {
+      let target = targets.get(file.id);
+      if (!target || Date.parse(target.expiresAt) - Date.now() < TARGET_EXPIRY_MARGIN_MS) {
+        const result = await requestUploadTargets(batchId, files.slice(index));
+        if (!result.uploads) {
+          return { ok: false, offline: false, unauthorized: result.unauthorized, error: result.error || 'Não foi possível preparar o envio', fieldErrors: result.fieldErrors };
+        }
+        targets = new Map(result.uploads.map(upload => [upload.id, upload]));
+        target = targets.get(file.id)!;
+      }
+
+      const error = await uploadToTarget(target, file.blob, (loaded) => onProgress?.({ loaded: completed + loaded, total }));
+      if (error) {
+        return { ok: false, offline: false, error, fieldErrors: [{ path: file.path, message: error }] };
+      }
+
+      completed += file.blob.size;
+      onProgress?.({ loaded: completed, total });
+      await onFileUploaded(file);
+    }
+  } catch (error) {
+    console.log('📴 Envio de arquivos interrompido:', error);
+    return { ok: false, offline: true, error: 'Sem conexão com o servidor' };
+  }
+
+  return { ok: true };
+}
@@ -0,0 +1,799 @@
+import { jsPDF } from 'jspdf';
+import QRCode from 'qrcode';
+import { readFileSync } from 'fs';
+import path from 'path';
+import { Submitter, formatSubmitter } from '@/lib/auth/submitter';
+import { formatVerificationCode } from '@/lib/reports/integrity';
+import { formatCoordinates } from '@/lib/geo/location';
+import type { StaticMap } from '@/lib/geo/staticMap';
+import { InspectionPhoto, NOT_SIGNED, SIGNATURE_PENDING, SubmitPayload, parseDataUrl } from '@/lib/validation/submitSchema';
+import {
+  FINDING_TYPES,
+  FINDING_TYPE_COLORS,
+  FINDING_TYPE_LABELS,
+  RISK_LEVELS,
+  RISK_LEVEL_INFO,
+  assessRisk,
+  formatRisk,
+  summarizeRisks,
+} from '@/lib/risk/matrix';
+import {
+  CHECKLIST_ANSWERS,
+  CHECKLIST_ANSWER_COLORS,
+  CHECKLIST_ANSWER_LABELS,
+  formatChecklistRef,
+  requiresFindingDetails,
+} from '@/lib/validation/checklistSchema';
+
+// Modelo do PDF do relatório: faixa com logo e ID em todas as páginas, tabelas,
+// blocos por item e rodapé "Página X de Y" com o QR code de verificação, com fonte Unicode incorporada.
+
+export interface SignatureUrls {
+  signature1: string;
+  signature2: string;
+}
+
+/** URLs das fotos de cada item (mesma ordem de `fotos`), indexadas pela posição do item */
+export interface EvidenceUrls {
+  [index: number]: string[];
+}
+
+/** Página pública de verificação (QR code em todas as páginas) e hash do relatório, quando selado */
+export interface PdfVerification {
+  url: string;
+  hash: string | null;
+}
+
+type Rgb = [number, number, number];
+
+const COLORS: { [name: string]: Rgb } = {
+  text: [17, 24, 39],
+  muted: [107, 114, 128],
+  accent: [217, 119, 6],
+  dark: [31, 41, 55],
+  light: [243, 244, 246],
+  border: [209, 213, 219],
+  link: [29, 78, 216],
+  error: [185, 28, 28],
+};
+
+const FONT_FAMILY = 'Roboto';
+const FONT_DIR = path.join(process.cwd(), 'src', 'lib', 'pdf', 'fonts');
+const LOGO_PATH = path.join(process.cwd(), 'public', 'logo.png');
+
+const PAGE_MARGIN = 15;
+const CONTENT_TOP = 32;
+const FOOTER_HEIGHT = 22;
+const QR_SIZE = 15;
+const CELL_PADDING = 2;
+const PT_TO_MM = 0.3528;
+
+interface PdfAssets {
+  fonts: { regular: string; bold: string; italic: string } | null;
+  logo: string | null;
+}
+
+let cachedAssets: PdfAssets | null = null;
+
+/**
+ * Lê (uma vez) a fonte e o logo em base64; se algum arquivo faltar, o PDF sai sem ele
+ */
+function loadAssets(): PdfAssets {
+  if (cachedAssets) return cachedAssets;
+
+  const readBase64 = (filePath: string) => {
+    try {
+      return readFileSync(filePath).toString('base64');
+    } catch (error) {
+      console.error(`⚠️ Arquivo do modelo de PDF não encontrado: ${filePath}`, error);
+      return null;
+    }
+  };
+
+  const regular = readBase64(path.join(FONT_DIR, 'Roboto-Regular.ttf'));
+  const bold = readBase64(path.join(FONT_DIR, 'Roboto-Bold.ttf'));
+  const italic = readBase64(path.join(FONT_DIR, 'Roboto-Italic.ttf'));
+  const logo = readBase64(LOGO_PATH);
+
+  cachedAssets = {
+    fonts: regular && bold && italic ? { regular, bold, italic } : null,
+    logo: logo ? `data:image/png;base64,${logo}` : null,
+  };
+  return cachedAssets;
+}
+
+/**
+ * Formato do jsPDF correspondente ao tipo MIME de uma imagem em data URL
+ */
+export function getPdfImageFormat(dataUrl: string): 'PNG' | 'JPEG' | 'WEBP' | null {
+  const parsed = parseDataUrl(dataUrl);
+  if (!parsed) return null;
+
+  const formats: { [mimeType: string]: 'PNG' | 'JPEG' | 'WEBP' } = {
+    'image/png': 'PNG',
+    'image/jpeg': 'JPEG',
+    'image/webp': 'WEBP',
+  };
+  return formats[parsed.mimeType] || null;
+}
+
+/**
+ * Formata uma data AAAA-MM-DD como DD/MM/AAAA
+ */
+function formatDate(value: string): string {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  return match ? `${match[3]}/${match[2]}/${match[1]}` : value;
+}
+
+const isUsableUrl = (value: string | undefined) =>
+  !!value && value !== 'Nenhuma' && value !== 'Não assinado' && !value.includes('❌');
+
+// A fonte do PDF não tem emojis; remove o marcador de falha das mensagens
+const stripFailureMarker = (value: string) => value.replace('❌', '').trim();
+
+/**
+ * Gera PDF do relatório de inspeção
+ */
+export function generateInspectionPDF(
+  data: SubmitPayload,
+  inspectionId: string,
+  signatureUrls: SignatureUrls,
+  evidenceUrls: EvidenceUrls,
+  submittedBy: Submitter | null,
+  verification: PdfVerification | null,
+  locationMap: StaticMap | null
+): Buffer {
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  const assets = loadAssets();
+
+  // Fonte Unicode incorporada (acentos do português em todo o documento)
+  let fontFamily = 'helvetica';
+  if (assets.fonts) {
+    doc.addFileToVFS('Roboto-Regular.ttf', assets.fonts.regular);
+    doc.addFileToVFS('Roboto-Bold.ttf', assets.fonts.bold);
+    doc.addFileToVFS('Roboto-Italic.ttf', assets.fonts.italic);
+    doc.addFont('Roboto-Regular.ttf', FONT_FAMILY, 'normal');
+    doc.addFont('Roboto-Bold.ttf', FONT_FAMILY, 'bold');
+    doc.addFont('Roboto-Italic.ttf', FONT_FAMILY, 'italic');
+    fontFamily = FONT_FAMILY;
+  }
+
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const contentWidth = pageWidth - 2 * PAGE_MARGIN;
+  const contentBottom = pageHeight - FOOTER_HEIGHT - 4;
+  let yPosition = CONTENT_TOP;
+
+  // Bloco com borda aberto no momento (pode atravessar páginas)
+  let openBlock: { startY: number } | null = null;
+
+  const setFont = (fontSize: number, style: 'normal' | 'bold' | 'italic' = 'normal', color: Rgb = COLORS.text) => {
+    doc.setFont(fontFamily, style);
+    doc.setFontSize(fontSize);
+    doc.setTextColor(...color);
+  };
+
+  const lineHeightFor = (fontSize: number) => fontSize * PT_TO_MM * 1.25;
+
+  const newPage = () => {
+    if (openBlock) {
+      doc.setDrawColor(...COLORS.border);
+      doc.rect(PAGE_MARGIN, openBlock.startY, contentWidth, contentBottom - openBlock.startY);
+    }
+    doc.addPage();
+    yPosition = CONTENT_TOP;
+    if (openBlock) openBlock.startY = yPosition;
+  };
+
+  // Garante espaço vertical na página atual, abrindo uma nova se necessário
+  const ensureSpace = (height: number) => {
+    if (yPosition + height > contentBottom) newPage();
+  };
+
+  interface TextOptions {
+    fontSize?: number;
+    style?: 'normal' | 'bold' | 'italic';
+    color?: Rgb;
+    indent?: number;
+    spacingAfter?: number;
+  }
+
+  // Função para adicionar texto com quebra de linha
+  const addText = (text: string, { fontSize = 10, style = 'normal', color = COLORS.text, indent = 0, spacingAfter = 2 }: TextOptions = {}) => {
+    setFont(fontSize, style, color);
+    const lineHeight = lineHeightFor(fontSize);
+    const lines: string[] = doc.splitTextToSize(text || '-', contentWidth - 2 * indent);
+
+    lines.forEach((line) => {
+      ensureSpace(lineHeight);
+      doc.text(line, PAGE_MARGIN + indent, yPosition + lineHeight * 0.8);
+      yPosition += lineHeight;
+    });
+    yPosition += spacingAfter;
+  };
+
+  // Função para adicionar link clicável
+  const addLink = (text: string, url: string, indent = 0) => {
+    setFont(9, 'normal', COLORS.link);
+    const lineHeight = lineHeightFor(9);
+    ensureSpace(lineHeight);
+    doc.textWithLink(text, PAGE_MARGIN + indent, yPosition + lineHeight * 0.8, { url });
+    yPosition += lineHeight + 2;
+    doc.setTextColor(...COLORS.text);
+  };
+
+  // Rótulo pequeno seguido do valor, usado dentro dos blocos de item
+  const addLabeledText = (label: string, value: string, indent: number) => {
+    // Mantém o rótulo na mesma página da primeira linha do valor
+    ensureSpace(lineHeightFor(7.5) + lineHeightFor(10) + 1);
+    addText(label.toUpperCase(), { fontSize: 7.5, style: 'bold', color: COLORS.muted, indent, spacingAfter: 0.5 });
+    addText(value, { fontSize: 10, indent, spacingAfter: 3 });
+  };
+
+  const addSectionTitle = (title: string) => {
+    ensureSpace(14);
+    yPosition += 2;
+    setFont(12, 'bold', COLORS.dark);
+    doc.text(title, PAGE_MARGIN, yPosition + 4.5);
+    doc.setDrawColor(...COLORS.accent);
+    doc.setLineWidth(0.6);
+    doc.line(PAGE_MARGIN, yPosition + 6.5, PAGE_MARGIN + 18, yPosition + 6.5);
+    doc.setLineWidth(0.2);
+    yPosition += 10;
+  };
+
+  interface TableCell {
+    text: string;
+    width: number;
+    bold?: boolean;
+    fill?: Rgb;
+    color?: Rgb;
+  }
+
+  // Desenha uma linha de tabela com células de altura igual; devolve false se não couber na página
+  const drawRow = (cells: TableCell[], fontSize = 9, allowBreak = true) => {
+    const lineHeight = lineHeightFor(fontSize);
+    const cellLines = cells.map(cell => {
+      setFont(fontSize, cell.bold ? 'bold' : 'normal');
+      return doc.splitTextToSize(cell.text || '-', cell.width - 2 * CELL_PADDING) as string[];
+    });
+    const rowHeight = Math.max(...cellLines.map(lines => lines.length)) * lineHeight + 2 * CELL_PADDING;
+
+    if (yPosition + rowHeight > contentBottom) {
+      if (!allowBreak) return false;
+      newPage();
+    }
+
+    let x = PAGE_MARGIN;
+    cells.forEach((cell, index) => {
+      doc.setDrawColor(...COLORS.border);
+      if (cell.fill) {
+        doc.setFillColor(...cell.fill);
+        doc.rect(x, yPosition, cell.width, rowHeight, 'FD');
+      } else {
+        doc.rect(x, yPosition, cell.width, rowHeight);
+      }
+
+      setFont(fontSize, cell.bold ? 'bold' : 'normal', cell.color || COLORS.text);
+      cellLines[index].forEach((line, lineIndex) => {
+        doc.text(line, x + CELL_PADDING, yPosition + CELL_PADDING + lineHeight * (lineIndex + 0.8));
+      });
+      x += cell.width;
+    });
+
+    yPosition += rowHeight;
+    return true;
+  };
+
+  // Tabela rótulo/valor com dois pares por linha
+  const drawKeyValueTable = (pairs: [string, string][]) => {
+    const labelWidth = 32;
+    const valueWidth = contentWidth / 2 - labelWidth;
+
+    for (let i = 0; i < pairs.length; i += 2) {
+      const row = pairs.slice(i, i + 2);
+      const cells: TableCell[] = row.flatMap(([label, value]) => [
+        { text: label, width: labelWidth, bold: true, fill: COLORS.light, color: COLORS.dark },
+        { text: value, width: row.length === 1 ? contentWidth - labelWidth : valueWidth },
+      ]);
+      drawRow(cells);
+    }
+    yPosition += 4;
+  };
+
+  // Tabela com linha de cabeçalho repetida a cada quebra de página
+  const drawGridTable = (headers: string[], widths: number[], rows: string[][]) => {
+    const headerCells = () => headers.map((header, index) => ({
+      text: header, width: widths[index], bold: true, fill: COLORS.dark, color: [255, 255, 255] as Rgb,
+    }));
+
+    ensureSpace(14);
+    drawRow(headerCells());
+    rows.forEach(row => {
+      const cells = row.map((text, index) => ({ text, width: widths[index] }));
+      if (!drawRow(cells, 9, false)) {
+        newPage();
+        drawRow(headerCells());
+        drawRow(cells);
+      }
+    });
+    yPosition += 4;
+  };
+
+  interface Badge {
+    text: string;
+    fill: Rgb;
+  }
+
+  // Selos coloridos alinhados à direita, com o centro vertical em centerY
+  const drawBadges = (badges: Badge[], rightX: number, centerY: number) => {
+    let x = rightX;
+    setFont(7.5, 'bold', [255, 255, 255]);
+    [...badges].reverse().forEach(badge => {
+      const width = doc.getTextWidth(badge.text) + 4;
+      x -= width;
+      doc.setFillColor(...badge.fill);
+      doc.roundedRect(x, centerY - 2.5, width, 5, 1, 1, 'F');
+      doc.text(badge.text, x + 2, centerY + 1);
+      x -= 2;
+    });
+  };
+
+  const startBlock = (title: string, badges: Badge[] = []) => {
+    ensureSpace(40);
+    openBlock = { startY: yPosition };
+    doc.setFillColor(...COLORS.dark);
+    doc.rect(PAGE_MARGIN, yPosition, contentWidth, 8, 'F');
+    setFont(10, 'bold', [255, 255, 255]);
+    doc.text(title, PAGE_MARGIN + 4, yPosition + 5.5);
+    drawBadges(badges, PAGE_MARGIN + contentWidth - 2, yPosition + 4);
+    yPosition += 12;
+  };
+
+  const endBlock = () => {
+    if (!openBlock) return;
+    yPosition += 1;
+    doc.setDrawColor(...COLORS.border);
+    doc.rect(PAGE_MARGIN, openBlock.startY, contentWidth, yPosition - openBlock.startY);
+    openBlock = null;
+    yPosition += 6;
+  };
+
+  // Tamanho da imagem ajustado à caixa disponível, mantendo a proporção
+  const fitImage = (dataUrl: string, maxWidth: number, maxHeight: number) => {
+    const { width, height } = doc.getImageProperties(dataUrl);
+    const scale = Math.min(maxWidth / width, maxHeight / height, 1);
+    return { width: width * scale, height: height * scale };
+  };
+
+  // Fotos de um item: largura total quando há uma só, em grade de duas colunas quando há várias.
+  // Cada foto leva a legenda e o link para o arquivo original logo abaixo (nas fotos anotadas, também o da versão sem anotações).
+  const drawPhotoGrid = (fotos: InspectionPhoto[], urls: string[], indent: number) => {
+    const columns = fotos.length === 1 ? 1 : 2;
+    const gap = 6;
+    const columnWidth = (contentWidth - 2 * indent - gap * (columns - 1)) / columns;
+    const maxImageHeight = columns === 1 ? 90 : 65;
+    const captionLineHeight = lineHeightFor(8.5);
+    const linkLineHeight = lineHeightFor(8);
+
+    for (let rowStart = 0; rowStart < fotos.length; rowStart += columns) {
+      const cells = fotos.slice(rowStart, rowStart + columns).map((foto, offset) => {
+        const photoIndex = rowStart + offset;
+        const format = getPdfImageFormat(foto.imagem);
+        let size: { width: number; height: number } | null = null;
+        if (format) {
+          try {
+            size = fitImage(foto.imagem, columnWidth, maxImageHeight);
+          } catch (error) {
+            console.error('⚠️ Erro ao ler imagem de evidência:', error);
+          }
+        }
+
+        setFont(8.5, 'italic');
+        const caption = `Foto ${photoIndex + 1}${foto.legenda ? ` - ${foto.legenda}` : ''}`;
+        // Relatórios guardados antes da localização das fotos não têm o campo
+        const captionLines = [
+          ...doc.splitTextToSize(caption, columnWidth) as string[],
+          ...(foto.localizacao ? doc.splitTextToSize(formatCoordinates(foto.localizacao), columnWidth) as string[] : []),
+          // Relatórios guardados antes das anotações não têm o campo
+          ...(foto.original ? ['Com anotações do inspetor'] : []),
+        ];
+
+        const url = urls[photoIndex];
+        setFont(8);
+        const failureLines = url && !isUsableUrl(url) && url.includes('❌')
+          ? doc.splitTextToSize(stripFailureMarker(url), columnWidth) as string[]
+          : [];
+
+        return { foto, format, size, captionLines, url, failureLines };
+      });
+
+      const rowHeight = Math.max(...cells.map(cell =>
+        (cell.size ? cell.size.height : captionLineHeight) + 2 +
+        cell.captionLines.length * captionLineHeight +
+        (isUsableUrl(cell.url) ? linkLineHeight : cell.failureLines.length * linkLineHeight)
+      ));
+      ensureSpace(rowHeight + 2);
+
+      const rowTop = yPosition;
+      cells.forEach((cell, column) => {
+        const x = PAGE_MARGIN + indent + column * (columnWidth + gap);
+        let y = rowTop;
+
+        if (cell.size && cell.format) {
+          try {
+            doc.addImage(cell.foto.imagem, cell.format, x, y, cell.size.width, cell.size.height, undefined, 'FAST');
+          } catch (error) {
+            console.error('⚠️ Erro ao incorporar imagem no PDF:', error);
+          }
+          y += cell.size.height;
+        } else {
+          setFont(8.5, 'italic', COLORS.muted);
+          doc.text('(Não foi possível incorporar a imagem)', x, y + captionLineHeight * 0.8);
+          y += captionLineHeight;
+        }
+        y += 2;
+
+        setFont(8.5, 'italic', COLORS.muted);
+        cell.captionLines.forEach(line => {
+          doc.text(line, x, y + captionLineHeight * 0.8);
+          y += captionLineHeight;
+        });
+
+        if (isUsableUrl(cell.url)) {
+          setFont(8, 'normal', COLORS.link);
+          if (cell.foto.original && isUsableUrl(cell.foto.original)) {
+            // Foto anotada: link para a versão anotada e para a foto como foi tirada
+            const annotatedLabel = 'Ver anotada';
+            doc.textWithLink(annotatedLabel, x, y + linkLineHeight * 0.8, { url: cell.url });
+            doc.textWithLink('Ver original', x + doc.getTextWidth(annotatedLabel) + 4, y + linkLineHeight * 0.8, { url: cell.foto.original });
+          } else {
+            doc.textWithLink('Ver original', x, y + linkLineHeight * 0.8, { url: cell.url });
+          }
+        } else {
+          setFont(8, 'normal', COLORS.error);
+          cell.failureLines.forEach(line => {
+            doc.text(line, x, y + linkLineHeight * 0.8);
+            y += linkLineHeight;
+          });
+        }
+      });
+
+      yPosition = rowTop + rowHeight + 3;
+    }
+    doc.setTextColor(...COLORS.text);
+  };
+
+  // Assinatura desenhada acima da linha com o nome e a função do signatário; sem imagem, o texto de `placeholder`
+  const drawSignatureBlock = (x: number, width: number, top: number, title: string, signerName: string, imageDataUrl: string | null, placeholder = NOT_SIGNED) => {
+    const imageAreaHeight = 30;
+    const format = imageDataUrl ? getPdfImageFormat(imageDataUrl) : null;
+
+    if (imageDataUrl && format) {
+      try {
+        const size = fitImage(imageDataUrl, width, imageAreaHeight);
+        doc.addImage(imageDataUrl, format, x + (width - size.width) / 2, top + imageAreaHeight - size.height, size.width, size.height, undefined, 'FAST');
+      } catch (error) {
+        console.error('⚠️ Erro ao incorporar assinatura no PDF:', error);
+      }
+    } else {
+      setFont(9, 'italic', COLORS.muted);
+      doc.text(placeholder, x + width / 2, top + imageAreaHeight - 5, { align: 'center' });
+    }
+
+    const lineY = top + imageAreaHeight + 2;
+    doc.setDrawColor(...COLORS.text);
+    doc.line(x, lineY, x + width, lineY);
+
+    setFont(10, 'bold');
+    doc.text(signerName || '-', x + width / 2, lineY + 5, { align: 'center' });
+    setFont(9, 'normal', COLORS.muted);
+    doc.text(title, x + width / 2, lineY + 10, { align: 'center' });
+  };
+
+  // Faixa superior e rodapé, desenhados em todas as páginas ao final
+  const drawPageChrome = () => {
+    const totalPages = doc.getNumberOfPages();
+    const generatedAt = new Date().toLocaleString('pt-BR', { timeZone: 'America/Sao_Paulo' });
+
+    for (let page = 1; page <= totalPages; page++) {
+      doc.setPage(page);
+
+      if (assets.logo) {
+        try {
+          const size = fitImage(assets.logo, 70, 12);
+          doc.addImage(assets.logo, 'PNG', PAGE_MARGIN, 8, size.width, size.height, 'logo', 'FAST');
+        } catch (error) {
+          console.error('⚠️ Erro ao incorporar logo no PDF:', error);
+        }
+      }
+
+      setFont(11, 'bold', COLORS.dark);
+      doc.text('Relatório de Inspeção', pageWidth - PAGE_MARGIN, 12, { align: 'right' });
+      setFont(9, 'normal', COLORS.muted);
+      doc.text(`ID: ${inspectionId}`, pageWidth - PAGE_MARGIN, 18, { align: 'right' });
+
+      doc.setDrawColor(...COLORS.accent);
+      doc.setLineWidth(0.8);
+      doc.line(PAGE_MARGIN, 24, pageWidth - PAGE_MARGIN, 24);
+      doc.setLineWidth(0.2);
+
+      const footerY = pageHeight - FOOTER_HEIGHT + 6;
+      doc.setDrawColor(...COLORS.border);
+      doc.line(PAGE_MARGIN, footerY - 4, pageWidth - PAGE_MARGIN, footerY - 4);
+      setFont(8, 'normal', COLORS.muted);
+      doc.text(`Gerado em ${generatedAt}`, PAGE_MARGIN, footerY);
+
+      let pageNumberX = pageWidth - PAGE_MARGIN;
+      if (verification && qrModules) {
+        drawQrCode(pageWidth - PAGE_MARGIN - QR_SIZE, footerY - 2.5, QR_SIZE);
+        pageNumberX -= QR_SIZE + 3;
+        setFont(7.5, 'normal', COLORS.muted);
+        if (verification.hash) {
+          doc.text(`Código de verificação: ${formatVerificationCode(verification.hash)}`, PAGE_MARGIN, footerY + 4);
+        }
+        setFont(7.5, 'normal', COLORS.link);
+        doc.textWithLink(`Verifique a autenticidade em ${verification.url}`, PAGE_MARGIN, footerY + 8, { url: verification.url });
+        setFont(8, 'normal', COLORS.muted);
+      }
+      doc.text(`Página ${page} de ${totalPages}`, pageNumberX, footerY, { align: 'right' });
+    }
+  };
+
+  // QR code da página de verificação, desenhado em vetor (módulos escuros agrupados por linha)
+  const qrModules = verification ? QRCode.create(verification.url, { errorCorrectionLevel: 'M' }).modules : null;
+  const drawQrCode = (x: number, y: number, size: number) => {
+    if (!qrModules) return;
+    const moduleSize = size / qrModules.size;
+    doc.setFillColor(...COLORS.text);
+    for (let row = 0; row < qrModules.size; row++) {
+      let runStart = -1;
+      for (let column = 0; column <= qrModules.size; column++) {
+        const dark = column < qrModules.size && qrModules.get(row, column);
+        if (dark && runStart < 0) runStart = column;
+        if (!dark && runStart >= 0) {
+          doc.rect(x + runStart * moduleSize, y + row * moduleSize, (column - runStart) * moduleSize, moduleSize, 'F');
+          runStart = -1;
+        }
+      }
+    }
+  };
+
+  // Recorte do mapa na largura do conteúdo, com os pinos em vetor e a atribuição dos dados do mapa abaixo
+  const drawLocationMap = (map: StaticMap) => {
+    const height = contentWidth * (map.height / map.width);
+    const scale = contentWidth / map.width;
+    ensureSpace(height + 8);
+    const top = yPosition;
+
+    try {
+      doc.addImage(map.image, 'PNG', PAGE_MARGIN, top, contentWidth, height, undefined, 'FAST');
+    } catch (error) {
+      console.error('⚠️ Erro ao incorporar o mapa no PDF:', error);
+      return;
+    }
+    doc.setDrawColor(...COLORS.border);
+    doc.rect(PAGE_MARGIN, top, contentWidth, height);
+
+    // Fotos primeiro, para o pino da inspeção ficar por cima
+    [...map.markers].sort((a, b) => (a.label === null ? 1 : 0) - (b.label === null ? 1 : 0)).forEach(marker => {
+      const x = PAGE_MARGIN + marker.x * scale;
+      const y = top + marker.y * scale;
+      doc.setDrawColor(255, 255, 255);
+      doc.setLineWidth(0.4);
+      if (marker.label === null) {
+        doc.setFillColor(...COLORS.error);
+        doc.circle(x, y, 2.2, 'FD');
+        doc.setFillColor(255, 255, 255);
+        doc.circle(x, y, 0.7, 'F');
+      } else {
+        setFont(6, 'bold', [255, 255, 255]);
+        const width = doc.getTextWidth(marker.label) + 2;
+        doc.setFillColor(...COLORS.accent);
+        doc.roundedRect(x - width / 2, y - 1.75, width, 3.5, 1, 1, 'FD');
+        doc.text(marker.label, x, y + 0.75, { align: 'center' });
+      }
+      doc.setLineWidth(0.2);
+    });
+
+    yPosition = top + height + 1;
+    setFont(7, 'normal', COLORS.muted);
+    const legend = [
+      map.markers.some(marker => marker.label === null) ? 'Pino vermelho: local da inspeção' : '',
+      map.markers.some(marker => marker.label !== null) ? 'Fotos numeradas como item.foto' : '',
+    ].filter(Boolean).join(' · ');
+    doc.text(legend, PAGE_MARGIN, yPosition + 3);
+    doc.text(`Mapa: ${map.attribution}`, PAGE_MARGIN + contentWidth, yPosition + 3, { align: 'right' });
+    yPosition += 8;
+  };
+
+  const { headerData } = data;
+
+  // Título
+  setFont(16, 'bold', COLORS.dark);
+  doc.text('RELATÓRIO DE INSPEÇÃO', PAGE_MARGIN, yPosition + 6);
+  yPosition += 10;
+  addText(`${headerData.unidade} · ${headerData.local} · ${formatDate(headerData.data)} às ${headerData.hora}`, { fontSize: 10, color: COLORS.muted, spacingAfter: 4 });
+
+  // Dados da inspeção
+  addSectionTitle('DADOS DA INSPEÇÃO');
+  drawKeyValueTable([
+    ['Departamento', headerData.departamento],
+    ['Unidade', headerData.unidade],
+    ['Encarregado', headerData.encarregado],
+    ['Local', headerData.local],
+    ['Responsável QSMS', headerData.responsavelQSMS],
+    ['Data', formatDate(headerData.data)],
+    ['Gerente de Contrato', headerData.gerenteContrato],
+    ['Hora', headerData.hora],
+    ['E-mail', headerData.emailCompanhia],
+    // Relatórios guardados antes dos modelos de checklist não têm o campo
+    ...(data.checklist ? [['Checklist', formatChecklistRef(data.checklist)] as [string, string]] : []),
+    // Relatórios guardados antes da localização não têm o campo
+    ...(data.localizacao ? [['Coordenadas', formatCoordinates(data.localizacao)] as [string, string]] : []),
+    // Relatórios guardados antes do login não registram quem enviou
+    ...(submittedBy ? [['Enviado por', formatSubmitter(submittedBy)] as [string, string]] : []),
+  ]);
+
+  // Mapa com a localização da inspeção e das fotos (pinos numerados como item.foto)
+  if (locationMap) {
+    addSectionTitle('LOCALIZAÇÃO');
+    drawLocationMap(locationMap);
+  }
+
+  // Participantes
+  addSectionTitle('PARTICIPANTES');
+  if (data.participants.length > 0) {
+    drawGridTable(
+      ['#', 'Nome', 'Função'],
+      [10, (contentWidth - 10) * 0.55, (contentWidth - 10) * 0.45],
+      data.participants.map((participant, index) => [String(index + 1), participant.nome, participant.funcao])
+    );
+  } else {
+    addText('Nenhum participante informado.', { style: 'italic', color: COLORS.muted, spacingAfter: 4 });
+  }
+
+  // Resumo dos itens por nível de risco e por tipo de achado
+  if (data.inspectionItems.length > 0) {
+    addSectionTitle('RESUMO DE RISCOS');
+    const summary = summarizeRisks(data.inspectionItems);
+    const labelWidth = 60;
+    const countWidth = 25;
+    const headerCell = (text: string, width: number) => ({ text, width, bold: true, fill: COLORS.dark, color: [255, 255, 255] as Rgb });
+
+    ensureSpace(45);
+    drawRow([headerCell('Nível de risco', labelWidth), headerCell('Itens', countWidth)]);
+    RISK_LEVELS.forEach(level => {
+      const info = RISK_LEVEL_INFO[level];
+      drawRow([
+        { text: info.label, width: labelWidth, bold: true, fill: info.rgb, color: [255, 255, 255] },
+        { text: String(summary.levels[level]), width: countWidth },
+      ]);
+    });
+    if (summary.notAssessed > 0) {
+      drawRow([
+        { text: 'Não avaliado', width: labelWidth, fill: COLORS.light, color: COLORS.muted },
+        { text: String(summary.notAssessed), width: countWidth },
+      ]);
+    }
+    yPosition += 4;
+
+    ensureSpace(30);
+    drawRow([headerCell('Tipo de achado', labelWidth), headerCell('Itens', countWidth)]);
+    FINDING_TYPES.forEach(type => {
+      drawRow([
+        { text: FINDING_TYPE_LABELS[type], width: labelWidth, bold: true, fill: FINDING_TYPE_COLORS[type].rgb, color: [255, 255, 255] },
+        { text: String(summary.findingTypes[type]), width: countWidth },
+      ]);
+    });
+    yPosition += 4;
+
+    const answered = data.inspectionItems.filter(item => item.resposta);
+    if (answered.length > 0) {
+      ensureSpace(30);
+      drawRow([headerCell('Resposta do checklist', labelWidth), headerCell('Itens', countWidth)]);
+      CHECKLIST_ANSWERS.forEach(answer => {
+        drawRow([
+          { text: CHECKLIST_ANSWER_LABELS[answer], width: labelWidth, bold: true, fill: CHECKLIST_ANSWER_COLORS[answer].rgb, color: [255, 255, 255] },
+          { text: String(answered.filter(item => item.resposta === answer).length), width: countWidth },
+        ]);
+      });
+      yPosition += 4;
+    }
+  }
+
+  // Itens de inspeção
+  if (data.inspectionItems.length > 0) {
+    // Título junto do primeiro item
+    ensureSpace(54);
+    addSectionTitle('ITENS DE INSPEÇÃO');
+    const indent = 4;
+
+    data.inspectionItems.forEach((item, index) => {
+      // Relatórios guardados antes da matriz de risco não têm tipo nem classificação
+      const risk = assessRisk(item.probabilidade, item.severidade);
+      const badges: Badge[] = [];
+      if (item.resposta) {
+        // Na pergunta do checklist o tipo de achado repetiria a resposta
+        badges.push({ text: CHECKLIST_ANSWER_LABELS[item.resposta], fill: CHECKLIST_ANSWER_COLORS[item.resposta].rgb });
+      } else if (item.tipoAchado) {
+        badges.push({ text: FINDING_TYPE_LABELS[item.tipoAchado], fill: FINDING_TYPE_COLORS[item.tipoAchado].rgb });
+      }
+      if (risk) {
+        badges.push({ text: `Risco ${formatRisk(risk)} · P${item.probabilidade} × S${item.severidade}`, fill: RISK_LEVEL_INFO[risk.level].rgb });
+      }
+
+      startBlock(`Item ${item.item}`, badges);
+
+      // Conforme e N/A trazem só a pergunta e, se houver, a observação e as fotos
+      if (item.resposta && !requiresFindingDetails(item.resposta)) {
+        addLabeledText('Pergunta', item.pergunta, indent);
+        if (item.fato) addLabeledText('Observação', item.fato, indent);
+        if (item.fotos.length > 0) {
+          addText('EVIDÊNCIA FOTOGRÁFICA', { fontSize: 7.5, style: 'bold', color: COLORS.muted, indent, spacingAfter: 1 });
+          drawPhotoGrid(item.fotos, evidenceUrls[index] || [], indent);
+        }
+        endBlock();
+        return;
+      }
+
+      if (item.pergunta) addLabeledText('Pergunta', item.pergunta, indent);
+      addLabeledText('Fato observado', item.fato, indent);
+
+      // Evidências fotográficas incorporadas, com o hyperlink como referência secundária
+      addText('EVIDÊNCIA FOTOGRÁFICA', { fontSize: 7.5, style: 'bold', color: COLORS.muted, indent, spacingAfter: 1 });
+      if (item.fotos.length > 0) {
+        drawPhotoGrid(item.fotos, evidenceUrls[index] || [], indent);
+      } else {
+        addText('Nenhuma', { fontSize: 10, indent, spacingAfter: 3 });
+      }
+      yPosition += 1;
+
+      addLabeledText('Recomendações', item.recomendacoes, indent);
+      addLabeledText('Prazo', formatDate(item.prazo), indent);
+      addLabeledText('Responsável', [item.responsavel, item.responsavelEmail].filter(Boolean).join(' · '), indent);
+      addLabeledText('Conclusão', item.conclusao, indent);
+      endBlock();
+    });
+  }
+
+  // Conclusão geral
+  addSectionTitle('CONCLUSÃO GERAL');
+  openBlock = { startY: yPosition };
+  yPosition += 3;
+  addText(data.conclusionData.conclusaoGeral, { indent: 4 });
+  endBlock();
+
+  // Assinaturas: imagens lado a lado, acima dos nomes dos signatários
+  addSectionTitle('ASSINATURAS');
+
+  const signatureImage = (dataUrl: string, url: string) =>
+    url !== 'Não assinado' && dataUrl !== NOT_SIGNED ? dataUrl : null;
+  const columnGap = 12;
+  const columnWidth = (contentWidth - columnGap) / 2;
+
+  ensureSpace(50);
+  const signaturesTop = yPosition;
+  drawSignatureBlock(PAGE_MARGIN, columnWidth, signaturesTop, 'Responsável pela Inspeção', headerData.responsavelQSMS,
+    signatureImage(data.signatures.responsavelInspecao, signatureUrls.signature1));
+  drawSignatureBlock(PAGE_MARGIN + columnWidth + columnGap, columnWidth, signaturesTop, 'Responsável da Unidade', headerData.encarregado,
+    signatureImage(data.signatures.responsavelUnidade, signatureUrls.signature2),
+    signatureUrls.signature2 === SIGNATURE_PENDING ? SIGNATURE_PENDING : NOT_SIGNED);
+  yPosition = signaturesTop + 50;
+
+  // Links das assinaturas como referência secundária
+  if (isUsableUrl(signatureUrls.signature1)) {
+    addLink('Ver assinatura original - Responsável pela Inspeção', signatureUrls.signature1);
+  } else if (signatureUrls.signature1.includes('❌')) {
+    addText(`Responsável pela Inspeção: ${stripFailureMarker(signatureUrls.signature1)}`, { fontSize: 9, color: COLORS.error });
+  }
+  if (isUsableUrl(signatureUrls.signature2)) {
+    addLink('Ver assinatura original - Responsável da Unidade', signatureUrls.signature2);
+  } else if (signatureUrls.signature2.includes('❌')) {
+    addText(`Responsável da Unidade: ${stripFailureMarker(signatureUrls.signature2)}`, { fontSize: 9, color: COLORS.error });
+  }
+
+  drawPageChrome();
+
+  return Buffer.from(doc.output('arraybuffer'));
+}
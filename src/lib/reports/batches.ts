@@ -0,0 +1,36 @@
+import { getStorageBackend } from '@/lib/storage';
+import { LOCAL_ID_PATTERN } from '@/lib/validation/submitSchema';
+import { withLock } from './locks';
+import { STORED_REPORTS_PREFIX } from './store';
+
+// Lotes de envio de /api/uploads: o rascunho (ou a atualização de ação) a que os arquivos pertencem.
+// O usuário que pede as primeiras URLs de um lote passa a ser o dono dele; os demais não recebem URLs para o mesmo lote.
+
+export interface UploadBatch {
+  batchId: string;
+  /** Usuário que abriu o lote (formatSubmitter) */
+  enviadoPor: string;
+  criadoEm: string;
+}
+
+const batchKey = (batchId: string) => `${STORED_REPORTS_PREFIX}lotes/${batchId}.json`;
+
+export async function loadUploadBatch(batchId: string): Promise<UploadBatch | null> {
+  if (!LOCAL_ID_PATTERN.test(batchId)) return null;
+  const stored = await getStorageBackend().read(batchKey(batchId));
+  return stored ? JSON.parse(stored.data.toString('utf8')) as UploadBatch : null;
+}
+
+/**
+ * Registra `enviadoPor` como dono de um lote novo; devolve false se o lote já pertence a outro usuário
+ */
+export async function claimUploadBatch(batchId: string, enviadoPor: string): Promise<boolean> {
+  return withLock(`lote:${batchId}`, async () => {
+    const existing = await loadUploadBatch(batchId);
+    if (existing) return existing.enviadoPor === enviadoPor;
+
+    const batch: UploadBatch = { batchId, enviadoPor, criadoEm: new Date().toISOString() };
+    await getStorageBackend().upload(batchKey(batchId), Buffer.from(JSON.stringify(batch)), 'application/json');
+    return true;
+  });
+}
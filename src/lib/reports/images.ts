@@ -0,0 +1,105 @@
+import { StorageBackend } from '@/lib/storage';
+import {
+  ALLOWED_PHOTO_MIME_TYPES,
+  ALLOWED_SIGNATURE_MIME_TYPES,
+  MAX_IMAGE_BYTES,
+  NOT_SIGNED,
+  SubmitPayload,
+} from '@/lib/validation/submitSchema';
+
+// Imagens do relatório (fotos e assinaturas) lidas de volta do armazenamento
+
+export interface UploadedImage {
+  url: string;
+  dataUrl: string;
+}
+
+export type UploadedImageResult =
+  | { status: 'ok'; image: UploadedImage }
+  | { status: 'missing' }
+  | { status: 'invalid'; error: string };
+
+export interface ImageReference {
+  /** Caminho do campo no corpo de /api/submit, ex.: "inspectionItems.0.fotos.1.imagem" */
+  path: string;
+  key: string;
+  allowedMimeTypes: string[];
+}
+
+/**
+ * Lista as assinaturas e fotos referenciadas pelo relatório, incluindo as originais das fotos anotadas
+ */
+export function listImageReferences(payload: SubmitPayload): ImageReference[] {
+  const references: ImageReference[] = [];
+  (['responsavelInspecao', 'responsavelUnidade'] as const).forEach(role => {
+    if (payload.signatures[role] !== NOT_SIGNED) {
+      references.push({ path: `signatures.${role}`, key: payload.signatures[role], allowedMimeTypes: ALLOWED_SIGNATURE_MIME_TYPES });
+    }
+  });
+  payload.inspectionItems.forEach((item, index) => {
+    item.fotos.forEach((foto, photoIndex) => {
+      references.push({ path: `inspectionItems.${index}.fotos.${photoIndex}.imagem`, key: foto.imagem, allowedMimeTypes: ALLOWED_PHOTO_MIME_TYPES });
+      // Relatórios guardados antes das anotações não têm o campo
+      if (foto.original) {
+        references.push({ path: `inspectionItems.${index}.fotos.${photoIndex}.original`, key: foto.original, allowedMimeTypes: ALLOWED_PHOTO_MIME_TYPES });
+      }
+    });
+  });
+  return references;
+}
+
+/**
+ * Lê do armazenamento uma imagem enviada direto pelo navegador, conferindo tipo e tamanho.
+ * Erros de acesso ao armazenamento não são tratados aqui: sobem como falha do servidor.
+ */
+export async function loadUploadedImage(backend: StorageBackend, key: string, allowedMimeTypes: string[]): Promise<UploadedImageResult> {
+  const stored = await backend.read(key);
+  if (!stored) {
+    console.log(`❌ Arquivo não encontrado no armazenamento: ${key}`);
+    return { status: 'missing' };
+  }
+
+  const contentType = stored.contentType.split(';')[0].trim();
+  if (!allowedMimeTypes.includes(contentType)) {
+    return { status: 'invalid', error: `Tipo de imagem não permitido (${contentType}). Use: ${allowedMimeTypes.join(', ')}` };
+  }
+  if (stored.data.length > MAX_IMAGE_BYTES) {
+    return { status: 'invalid', error: `Imagem maior que ${MAX_IMAGE_BYTES / 1024 / 1024} MB` };
+  }
+
+  console.log(`📥 Arquivo conferido: ${key}`, { contentType, bufferSize: stored.data.length });
+  return {
+    status: 'ok',
+    image: {
+      url: backend.getPublicUrl(key),
+      dataUrl: `data:${contentType};base64,${stored.data.toString('base64')}`,
+    },
+  };
+}
+
+/**
+ * Relatório com as chaves de armazenamento trocadas pelas imagens em data URL, no formato que o PDF incorpora
+ * (as originais das fotos anotadas, pela URL pública).
+ * Fotos que não estiverem em `images` ficam sem imagem (o PDF mostra um aviso no lugar); assinaturas ausentes ficam como não assinadas.
+ */
+export function embedReportImages(payload: SubmitPayload, images: Map<string, UploadedImage>): SubmitPayload {
+  const embedSignature = (key: string) => images.get(key)?.dataUrl || NOT_SIGNED;
+
+  return {
+    ...payload,
+    inspectionItems: payload.inspectionItems.map(item => ({
+      ...item,
+      // A original de uma foto anotada não entra no PDF, só o link para ela
+      fotos: item.fotos.map(foto => ({
+        ...foto,
+        imagem: images.get(foto.imagem)?.dataUrl || '',
+        original: foto.original ? images.get(foto.original)?.url || null : null,
+      })),
+    })),
+    signatures: {
+      ...payload.signatures,
+      responsavelInspecao: embedSignature(payload.signatures.responsavelInspecao),
+      responsavelUnidade: embedSignature(payload.signatures.responsavelUnidade),
+    },
+  };
+}
@@ -0,0 +1,173 @@
+import { createHash } from 'crypto';
+import { getStorageBackend } from '@/lib/storage';
+import { withLock } from './locks';
+import { INSPECTION_ID_PATTERN, STORED_REPORTS_PREFIX, StoredReport } from './store';
+
+// Selo de integridade do relatório: hash SHA-256 do JSON canônico do relatório junto com o hash de cada imagem de assinatura
+// e os dados de quem assinou. Alterar o relatório guardado ou trocar um PNG de assinatura no armazenamento muda o hash.
+
+export type SignatureRole = 'responsavelInspecao' | 'responsavelUnidade';
+
+export interface ReportSigner {
+  role: SignatureRole;
+  name: string;
+  /** E-mail do usuário logado (inspeção) ou do link de assinatura remota; null na assinatura presencial da unidade */
+  email: string | null;
+  signedAt: string;
+  ip: string;
+  userAgent: string;
+  /** SHA-256 (hex) do arquivo da assinatura no momento em que foi registrada */
+  imageSha256: string;
+}
+
+export interface ReportIntegrity {
+  algorithm: 'sha256';
+  hash: string;
+  sealedAt: string;
+  signers: ReportSigner[];
+}
+
+/** Parte do relatório coberta pelo hash; os links de planilha e PDF ficam de fora, pois dependem do armazenamento */
+export type SealedContent = Pick<StoredReport, 'inspectionId' | 'submittedAt' | 'payload' | 'submittedBy'>;
+
+export type IntegrityStatus = 'valid' | 'altered' | 'unsealed';
+
+export interface ReportVerification {
+  status: IntegrityStatus;
+  /** Hash registrado no envio (ou na última assinatura); null em relatórios sem selo */
+  sealedHash: string | null;
+  /** Hash recalculado agora, com as imagens de assinatura lidas do armazenamento */
+  currentHash: string | null;
+  /** Assinaturas cujo arquivo sumiu ou não confere mais com o registrado */
+  alteredSignatures: SignatureRole[];
+}
+
+/**
+ * Ocasião em que o PDF foi emitido: "envio" (e-mail do envio), "assinatura" (PDF final depois da assinatura remota)
+ * ou "reemissao" (download e reenvio manual do e-mail)
+ */
+export type IssuedPdfKind = 'envio' | 'assinatura' | 'reemissao';
+
+/** PDF emitido pelo sistema para um relatório (envio, download ou reenvio do e-mail) */
+export interface IssuedPdf {
+  sha256: string;
+  /** Hash do relatório na versão usada para gerar o PDF */
+  reportHash: string;
+  issuedAt: string;
+  /** Ausente nos registros anteriores à distinção, tratados como reemissão */
+  tipo?: IssuedPdfKind;
+}
+
+// Limite de reemissões lembradas por relatório, as mais antigas saem primeiro; os PDFs do envio e da assinatura ficam sempre
+const MAX_REISSUED_PDFS = 200;
+
+const issuedPdfsKey = (inspectionId: string) => `${STORED_REPORTS_PREFIX}pdfs/${inspectionId}.json`;
+
+export const sha256Hex = (data: Buffer | string) => createHash('sha256').update(data).digest('hex');
+
+/**
+ * JSON com as chaves dos objetos em ordem alfabética e sem espaços, para o mesmo conteúdo gerar sempre o mesmo texto
+ */
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(entry => (entry === undefined ? 'null' : canonicalJson(entry))).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value)
+      .sort()
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .map(key => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+const hashSealedContent = ({ inspectionId, submittedAt, payload, submittedBy }: SealedContent, signers: ReportSigner[]) =>
+  sha256Hex(canonicalJson({ inspectionId, submittedAt, payload, submittedBy, signers }));
+
+/**
+ * Código de verificação impresso no rodapé do PDF: os primeiros 16 caracteres do hash, em grupos de 4
+ */
+export const formatVerificationCode = (hash: string) => (hash.slice(0, 16).toUpperCase().match(/.{1,4}/g) || []).join('-');
+
+/**
+ * Endereço e navegador de quem fez a requisição, registrados junto da assinatura
+ */
+export function readClientInfo(headers: Headers): { ip: string; userAgent: string } {
+  const forwarded = headers.get('x-forwarded-for')?.split(',')[0].trim();
+  return {
+    ip: forwarded || headers.get('x-real-ip') || 'desconhecido',
+    userAgent: headers.get('user-agent') || 'desconhecido',
+  };
+}
+
+/**
+ * Calcula o selo do relatório com os signatários informados (imagens já conferidas pelo chamador)
+ */
+export function sealReport(content: SealedContent, signers: ReportSigner[]): ReportIntegrity {
+  const integrity: ReportIntegrity = { algorithm: 'sha256', hash: hashSealedContent(content, signers), sealedAt: new Date().toISOString(), signers };
+  console.log(`🔏 Relatório ${content.inspectionId} selado (${integrity.hash.slice(0, 16)}…)`);
+  return integrity;
+}
+
+/**
+ * Confere o relatório guardado: recalcula o hash lendo de novo as imagens de assinatura do armazenamento
+ */
+export async function verifyStoredReport(report: StoredReport): Promise<ReportVerification> {
+  if (!report.integrity) {
+    return { status: 'unsealed', sealedHash: null, currentHash: null, alteredSignatures: [] };
+  }
+
+  const backend = getStorageBackend();
+  const alteredSignatures: SignatureRole[] = [];
+  const currentSigners = await Promise.all(report.integrity.signers.map(async (signer) => {
+    const stored = await backend.read(report.payload.signatures[signer.role]);
+    const imageSha256 = stored ? sha256Hex(stored.data) : '';
+    if (imageSha256 !== signer.imageSha256) alteredSignatures.push(signer.role);
+    return { ...signer, imageSha256 };
+  }));
+
+  const currentHash = hashSealedContent(report, currentSigners);
+  return {
+    status: currentHash === report.integrity.hash ? 'valid' : 'altered',
+    sealedHash: report.integrity.hash,
+    currentHash,
+    alteredSignatures,
+  };
+}
+
+async function loadIssuedPdfs(inspectionId: string): Promise<IssuedPdf[]> {
+  const stored = await getStorageBackend().read(issuedPdfsKey(inspectionId));
+  return stored ? (JSON.parse(stored.data.toString('utf8')) as { pdfs: IssuedPdf[] }).pdfs : [];
+}
+
+/**
+ * Registra o hash de um PDF gerado para o relatório, para a página de verificação reconhecer o arquivo depois
+ */
+export async function recordIssuedPdf(inspectionId: string, reportHash: string, pdf: Buffer, tipo: IssuedPdfKind): Promise<void> {
+  const entry: IssuedPdf = { sha256: sha256Hex(pdf), reportHash, issuedAt: new Date().toISOString(), tipo };
+  // Uma gravação por vez, para downloads simultâneos não perderem registros
+  await withLock(`pdfs:${inspectionId}`, async () => {
+    const all = [...(await loadIssuedPdfs(inspectionId)), entry];
+    const reissued = all.filter(pdf => (pdf.tipo || 'reemissao') === 'reemissao');
+    const dropped = new Set(reissued.slice(0, Math.max(0, reissued.length - MAX_REISSUED_PDFS)));
+    const pdfs = all.filter(pdf => !dropped.has(pdf));
+    await getStorageBackend().upload(issuedPdfsKey(inspectionId), Buffer.from(JSON.stringify({ pdfs })), 'application/json');
+  });
+}
+
+/**
+ * Procura um PDF emitido para o relatório pelo hash do arquivo
+ */
+export async function findIssuedPdf(inspectionId: string, pdfSha256: string): Promise<IssuedPdf | null> {
+  if (!INSPECTION_ID_PATTERN.test(inspectionId)) return null;
+  return (await loadIssuedPdfs(inspectionId)).find(pdf => pdf.sha256 === pdfSha256) || null;
+}
+
+/**
+ * Endereço da página pública de verificação, usado no QR code do PDF; a base vem de APP_BASE_URL ou do endereço da requisição
+ */
+export function buildVerificationUrl(origin: string, inspectionId: string): string {
+  const baseUrl = (process.env.APP_BASE_URL || origin).replace(/\/$/, '');
+  return `${baseUrl}/verificar/${encodeURIComponent(inspectionId)}`;
+}
@@ -0,0 +1,245 @@
+import { randomUUID } from 'crypto';
+import { getStorageBackend, getStorageErrorMessage } from '@/lib/storage';
+import { withLock } from './locks';
+import { StepReporter, SubmitFailure, SubmitJobInput, SubmitProgress, SubmitResponse, listInitialSteps, processSubmission } from './pipeline';
+import { SubmitStep } from './steps';
+import { STORED_REPORTS_PREFIX } from './store';
+import { loadSubmission, saveSubmission } from './submissions';
+
+// Fila de processamento dos envios: /api/submit guarda o envio e responde na hora com o id do processamento,
+// e as etapas rodam aqui, uma por vez, no próprio processo do servidor (sem broker externo).
+// O estado de cada processamento fica em relatorios/processamentos/<id>.json e é consultado por GET /api/submit/<id>;
+// os ainda não terminados ficam listados em relatorios/processamentos/fila.json, de onde são retomados depois de um reinício.
+
+export type SubmitJobStatus = 'na_fila' | 'processando' | 'concluido' | 'falhou';
+
+export interface SubmitJob {
+  id: string;
+  status: SubmitJobStatus;
+  /** Usuário que enviou (formatSubmitter); só ele consulta o processamento */
+  enviadoPor: string;
+  criadoEm: string;
+  atualizadoEm: string;
+  etapas: SubmitStep[];
+  /** Preenchido quando concluído: o mesmo corpo que a requisição síncrona devolvia */
+  resultado: SubmitResponse | null;
+  /** Preenchido quando falhou */
+  erro: SubmitFailure | null;
+  entrada: SubmitJobInput;
+  /** Resultados das etapas já feitas, para uma retomada não repeti-las */
+  progresso: SubmitProgress;
+}
+
+/** Estado devolvido ao aparelho, sem o relatório enviado */
+export type SubmitJobView = Omit<SubmitJob, 'entrada' | 'progresso'>;
+
+export const SUBMIT_JOB_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+// Processamentos terminados mantidos em memória para as consultas; os mais antigos são lidos do armazenamento
+const MAX_FINISHED_IN_MEMORY = 200;
+
+const jobs = new Map<string, SubmitJob>();
+const queue: string[] = [];
+let draining = false;
+let workerStarted = false;
+
+const jobKey = (id: string) => `${STORED_REPORTS_PREFIX}processamentos/${id}.json`;
+const pendingKey = `${STORED_REPORTS_PREFIX}processamentos/fila.json`;
+
+const isFinished = (job: SubmitJob) => job.status === 'concluido' || job.status === 'falhou';
+
+export const toSubmitJobView = ({ id, status, enviadoPor, criadoEm, atualizadoEm, etapas, resultado, erro }: SubmitJob): SubmitJobView =>
+  ({ id, status, enviadoPor, criadoEm, atualizadoEm, etapas, resultado, erro });
+
+async function saveJob(job: SubmitJob): Promise<void> {
+  await getStorageBackend().upload(jobKey(job.id), Buffer.from(JSON.stringify(job)), 'application/json');
+}
+
+async function readJob(id: string): Promise<SubmitJob | null> {
+  const stored = await getStorageBackend().read(jobKey(id));
+  if (!stored) return null;
+  const job = JSON.parse(stored.data.toString('utf8')) as SubmitJob;
+  // Processamentos gravados antes do registro dos resultados não têm o campo
+  return { ...job, progresso: job.progresso || {} };
+}
+
+async function readPendingIds(): Promise<string[]> {
+  const stored = await getStorageBackend().read(pendingKey);
+  return stored ? JSON.parse(stored.data.toString('utf8')) as string[] : [];
+}
+
+/**
+ * Altera a lista de processamentos não terminados; uma alteração por vez, cada uma sobre a lista gravada pela anterior
+ */
+async function updatePendingIds(change: (ids: string[]) => string[]): Promise<void> {
+  await withLock('processamentos:fila', async () => {
+    const ids = await readPendingIds();
+    await getStorageBackend().upload(pendingKey, Buffer.from(JSON.stringify(change(ids))), 'application/json');
+  });
+}
+
+/**
+ * Atualiza o processamento em memória e grava a cópia; uma gravação por vez, então o arquivo termina no estado mais recente.
+ * Uma falha na gravação não interrompe as etapas: as consultas deste processo continuam vendo o estado em memória.
+ */
+async function updateJob(id: string, changes: Partial<Omit<SubmitJob, 'id'>>): Promise<void> {
+  const job = jobs.get(id);
+  if (!job) return;
+  jobs.set(id, { ...job, ...changes, atualizadoEm: new Date().toISOString() });
+
+  await withLock(`processamento:${id}`, async () => {
+    try {
+      await saveJob(jobs.get(id)!);
+    } catch (error) {
+      console.error(`⚠️ Não foi possível gravar o andamento do processamento ${id}:`, getStorageErrorMessage(error));
+    }
+  });
+}
+
+const stepReporter = (id: string): StepReporter => async (...changed) => {
+  const job = jobs.get(id);
+  if (!job) return;
+  const etapas = job.etapas.map(step => changed.find(update => update.etapa === step.etapa && update.arquivo === step.arquivo) || step);
+  await updateJob(id, { etapas });
+};
+
+const progressSaver = (id: string) => async (changes: SubmitProgress) => {
+  const job = jobs.get(id);
+  if (!job) return;
+  await updateJob(id, { progresso: { ...job.progresso, ...changes } });
+};
+
+function trimFinishedJobs(): void {
+  const finished = [...jobs.values()].filter(isFinished);
+  finished.slice(0, Math.max(0, finished.length - MAX_FINISHED_IN_MEMORY)).forEach(job => jobs.delete(job.id));
+}
+
+async function runJob(id: string): Promise<void> {
+  const job = jobs.get(id);
+  if (!job) return;
+  console.log(`⚙️ Processando o envio ${id}...`);
+
+  let entrada = job.entrada;
+  if (entrada.submission) {
+    // Um processamento anterior da mesma chave pode ter reservado o identificador depois que este foi criado
+    const record = await loadSubmission(entrada.submission.key).catch(() => null);
+    if (record?.inspectionId) entrada = { ...entrada, submission: { ...entrada.submission, inspectionId: record.inspectionId } };
+  }
+  await updateJob(id, { status: 'processando', entrada });
+
+  try {
+    const outcome = await processSubmission(entrada, {
+      steps: job.etapas,
+      progress: job.progresso,
+      report: stepReporter(id),
+      save: progressSaver(id),
+    });
+    if (outcome.ok) {
+      await updateJob(id, { status: 'concluido', resultado: outcome.response });
+      console.log(`✅ Envio ${id} concluído: ${outcome.response.inspectionId}`);
+    } else {
+      await updateJob(id, { status: 'falhou', erro: outcome.failure });
+      console.log(`❌ Envio ${id} recusado (HTTP ${outcome.failure.status}): ${outcome.failure.error}`);
+    }
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Erro desconhecido';
+    console.error(`💥 ERRO no processamento do envio ${id}:`);
+    console.error("Mensagem:", errorMessage);
+    console.error("Stack:", error instanceof Error ? error.stack : 'N/A');
+
+    // A etapa em andamento é a que falhou; as seguintes ficam pendentes
+    const etapas = (jobs.get(id)?.etapas || []).map(step => (step.status === 'andamento' ? { ...step, status: 'falhou' as const, mensagem: errorMessage } : step));
+    await updateJob(id, { status: 'falhou', erro: { status: 500, error: errorMessage }, etapas });
+  } finally {
+    trimFinishedJobs();
+    // Sem a remoção, o processamento só é lido de novo (e descartado, por estar terminado) no próximo reinício
+    await updatePendingIds(ids => ids.filter(pendingId => pendingId !== id)).catch(error =>
+      console.error(`⚠️ Não foi possível tirar o envio ${id} da lista de pendentes:`, getStorageErrorMessage(error)));
+  }
+}
+
+async function drainQueue(): Promise<void> {
+  if (draining) return;
+  draining = true;
+  try {
+    while (queue.length > 0) {
+      await runJob(queue.shift()!);
+    }
+  } finally {
+    draining = false;
+  }
+}
+
+function enqueueJob(job: SubmitJob): void {
+  jobs.set(job.id, job);
+  queue.push(job.id);
+  void drainQueue();
+}
+
+/**
+ * Guarda um envio validado e o coloca na fila; a chave de idempotência, se houver, passa a apontar para ele.
+ * Lança o erro do armazenamento se o envio não puder ser guardado.
+ */
+export async function createSubmitJob(input: SubmitJobInput, enviadoPor: string): Promise<SubmitJob> {
+  const id = randomUUID();
+  const now = new Date().toISOString();
+  const job: SubmitJob = {
+    id,
+    status: 'na_fila',
+    enviadoPor,
+    criadoEm: now,
+    atualizadoEm: now,
+    etapas: listInitialSteps(input.payload),
+    resultado: null,
+    erro: null,
+    entrada: { ...input, submission: input.submission && { ...input.submission, jobId: id } },
+    progresso: {},
+  };
+
+  await saveJob(job);
+  await updatePendingIds(ids => [...ids, id]);
+  if (job.entrada.submission) await saveSubmission(job.entrada.submission);
+  console.log(`📥 Envio ${id} na fila de processamento`);
+  enqueueJob(job);
+  return job;
+}
+
+/**
+ * Lê um processamento, no estado em que estiver; os interrompidos por um reinício são retomados por startSubmitWorker
+ */
+export async function loadSubmitJob(id: string): Promise<SubmitJob | null> {
+  if (!SUBMIT_JOB_ID_PATTERN.test(id)) return null;
+  return jobs.get(id) || readJob(id);
+}
+
+/**
+ * Volta para a fila os processamentos que um reinício interrompeu; as etapas já concluídas não são repetidas
+ */
+async function resumePendingJobs(): Promise<void> {
+  const ids = await readPendingIds();
+  for (const id of ids) {
+    if (jobs.has(id)) continue;
+    const job = await readJob(id);
+    if (!job || isFinished(job)) {
+      await updatePendingIds(pending => pending.filter(pendingId => pendingId !== id));
+      continue;
+    }
+    console.log(`🔁 Retomando o envio ${id}, interrompido antes de terminar`);
+    // A etapa que estava em andamento recomeça; as concluídas ficam como estavam
+    const etapas = job.etapas.map(step => (step.status === 'andamento' ? { ...step, status: 'pendente' as const, mensagem: 'Aguardando' } : step));
+    enqueueJob({ ...job, status: 'na_fila', etapas });
+  }
+}
+
+/**
+ * Retoma a fila de processamento (uma vez por processo); chamada pelas rotas de envio, como a fila de reenvio
+ */
+export function startSubmitWorker(): void {
+  if (workerStarted) return;
+  workerStarted = true;
+  resumePendingJobs().catch(error => {
+    // A próxima requisição tenta de novo
+    workerStarted = false;
+    console.error('⚠️ Não foi possível retomar os envios pendentes:', getStorageErrorMessage(error));
+  });
+}
@@ -0,0 +1,20 @@
+// Exclusão mútua dentro do processo do servidor, por nome (ex.: contador de uma unidade, chave de um envio).
+// Os backends de armazenamento não têm escrita condicional, então a contagem sequencial pressupõe uma única instância do app.
+
+const tails = new Map<string, Promise<unknown>>();
+
+/**
+ * Executa `task` depois que as anteriores com o mesmo nome terminarem (com sucesso ou erro)
+ */
+export async function withLock<T>(name: string, task: () => Promise<T>): Promise<T> {
+  const previous = tails.get(name) || Promise.resolve();
+  const current = previous.catch(() => undefined).then(task);
+  const tail = current.catch(() => undefined);
+  tails.set(name, tail);
+  try {
+    return await current;
+  } finally {
+    // Ninguém entrou na fila depois: libera o nome
+    if (tails.get(name) === tail) tails.delete(name);
+  }
+}
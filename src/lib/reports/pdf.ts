@@ -0,0 +1,44 @@
+import { getStorageBackend, getStorageErrorMessage } from '@/lib/storage';
+import { generateInspectionPDF } from '@/lib/pdf/inspectionPdf';
+import { buildReportMap } from '@/lib/geo/staticMap';
+import { UploadedImage, embedReportImages, listImageReferences, loadUploadedImage } from './images';
+import { IssuedPdfKind, buildVerificationUrl, recordIssuedPdf } from './integrity';
+import { StoredReport } from './store';
+
+/**
+ * Registra o PDF emitido para a página de verificação; falhar aqui não impede a entrega do PDF
+ */
+export async function registerIssuedPdf(inspectionId: string, reportHash: string | undefined, pdf: Buffer, tipo: IssuedPdfKind): Promise<void> {
+  if (!reportHash) return;
+  try {
+    await recordIssuedPdf(inspectionId, reportHash, pdf, tipo);
+  } catch (error) {
+    console.error(`⚠️ Não foi possível registrar o PDF emitido de ${inspectionId}:`, getStorageErrorMessage(error));
+  }
+}
+
+/**
+ * Gera de novo o PDF de um relatório guardado, lendo fotos e assinaturas do armazenamento.
+ * Imagens que não estiverem mais disponíveis aparecem como aviso no PDF; sem os tiles do mapa, o PDF sai sem o mapa.
+ * `origin` é a base do link de verificação quando APP_BASE_URL não está definida; `tipo` é a ocasião registrada para a verificação.
+ */
+export async function renderStoredReportPdf(report: StoredReport, origin: string, tipo: IssuedPdfKind = 'reemissao'): Promise<Buffer> {
+  const backend = getStorageBackend();
+  const references = listImageReferences(report.payload);
+
+  const images = new Map<string, UploadedImage>();
+  const results = await Promise.all(references.map(reference => loadUploadedImage(backend, reference.key, reference.allowedMimeTypes)));
+  results.forEach((result, index) => {
+    if (result.status === 'ok') {
+      images.set(references[index].key, result.image);
+    } else {
+      console.log(`⚠️ Imagem indisponível para o PDF de ${report.inspectionId}: ${references[index].key}`);
+    }
+  });
+
+  const verification = { url: buildVerificationUrl(origin, report.inspectionId), hash: report.integrity?.hash || null };
+  const locationMap = await buildReportMap(report.payload);
+  const pdf = generateInspectionPDF(embedReportImages(report.payload, images), report.inspectionId, report.signatureUrls, report.evidenceUrls, report.submittedBy || null, verification, locationMap);
+  await registerIssuedPdf(report.inspectionId, report.integrity?.hash, pdf, tipo);
+  return pdf;
+}
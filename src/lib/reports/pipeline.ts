@@ -0,0 +1,540 @@
+import {
+  FieldError,
+  GeoLocation,
+  InspectionPhoto,
+  SIGNATURE_PENDING,
+  SubmitPayload,
+} from '@/lib/validation/submitSchema';
+import { StorageBackend, getStorageBackend, getStorageErrorMessage } from '@/lib/storage';
+import { EmailReport, pendingSignatureEmailOptions, sendEmailWithPDF } from '@/lib/email/report';
+import { EvidenceUrls, generateInspectionPDF } from '@/lib/pdf/inspectionPdf';
+import { MAPA_DE_CONTROLE_RANGE, getSheetsContext } from '@/lib/sheets/client';
+import { invalidateInspectionCache } from '@/lib/sheets/inspections';
+import { isSignatureBlank } from '@/lib/images/signature';
+import { Submitter, formatSubmitter } from '@/lib/auth/submitter';
+import { FINDING_TYPE_LABELS, assessRisk, formatRisk } from '@/lib/risk/matrix';
+import { CHECKLIST_ANSWER_LABELS, formatChecklistRef } from '@/lib/validation/checklistSchema';
+import { GEO_SOURCE_LABELS, formatCoordinates } from '@/lib/geo/location';
+import { buildReportMap } from '@/lib/geo/staticMap';
+import { UploadedImage, embedReportImages, listImageReferences, loadUploadedImage } from './images';
+import { StoredReport, saveStoredReport } from './store';
+import { ReportSigner, buildVerificationUrl, sealReport, sha256Hex } from './integrity';
+import { registerIssuedPdf } from './pdf';
+import { RemoteSignatureLinkResult, sendRemoteSignatureLink } from './remoteSignature';
+import { nextInspectionId } from './sequence';
+import { claimUploadBatch } from './batches';
+import { SubmissionRecord, saveSubmission } from './submissions';
+import { RetryStep, enqueueRetry } from './retries';
+import { SubmitStep, SubmitStepName, listStepWarnings } from './steps';
+
+// Etapas de um envio de /api/submit, executadas pela fila de processamento (jobs.ts) depois que a requisição já respondeu:
+// conferência dos arquivos, PDF, planilha, cópia do relatório, e-mail e link de assinatura remota.
+
+/** Tudo o que o processamento precisa, guardado junto do processamento para sobreviver a um reinício */
+export interface SubmitJobInput {
+  /** Corpo validado, com o responsável pela inspeção já trocado pelo usuário logado */
+  payload: SubmitPayload;
+  submittedBy: Submitter;
+  /** Endereço e navegador de quem enviou, para o selo de integridade */
+  client: { ip: string; userAgent: string };
+  /** Base dos links de verificação e de assinatura quando APP_BASE_URL não está definida */
+  origin: string;
+  /** Registro da chave de idempotência; null para clientes que não mandam a chave */
+  submission: SubmissionRecord | null;
+}
+
+/** Corpo de sucesso, devolvido pelo status do processamento e às repetições da mesma chave */
+export interface SubmitResponse {
+  message: string;
+  inspectionId: string;
+  email: EmailReport;
+  remoteSignature: RemoteSignatureLinkResult | null;
+  etapas: SubmitStep[];
+  warnings: string[];
+}
+
+/** Falha que encerra o envio, com o status HTTP que a requisição síncrona devolvia */
+export interface SubmitFailure {
+  status: number;
+  error: string;
+  fieldErrors?: FieldError[];
+  /** 409: arquivos que o aparelho deve enviar de novo antes de tentar outra vez */
+  missingKeys?: string[];
+}
+
+export type SubmitOutcome = { ok: true; response: SubmitResponse } | { ok: false; failure: SubmitFailure };
+
+/** Recebe as etapas atualizadas (substituídas pela etapa e, nos arquivos, pelo campo) */
+export type StepReporter = (...steps: SubmitStep[]) => Promise<void>;
+
+/** Resultados guardados com o processamento à medida que as etapas terminam */
+export interface SubmitProgress {
+  inspectionId?: string;
+  /** Data do envio no selo de integridade; a mesma em uma retomada, para o hash não mudar */
+  submittedAt?: string;
+  email?: EmailReport;
+  remoteSignature?: RemoteSignatureLinkResult | null;
+}
+
+/** Acompanhamento do processamento: o que um processamento interrompido já fez e onde registrar o andamento */
+export interface SubmitTracker {
+  /** Etapas gravadas até agora; no primeiro processamento, todas pendentes */
+  steps: SubmitStep[];
+  progress: SubmitProgress;
+  report: StepReporter;
+  save: (changes: SubmitProgress) => Promise<void>;
+}
+
+/**
+ * Etapas do envio na ordem em que acontecem, todas pendentes: um registro por arquivo e um por etapa seguinte
+ */
+export function listInitialSteps(payload: SubmitPayload): SubmitStep[] {
+  const pending = (etapa: SubmitStep['etapa']): SubmitStep => ({ etapa, status: 'pendente', mensagem: 'Aguardando' });
+  return [
+    ...listImageReferences(payload).map(reference => ({ ...pending('arquivo'), arquivo: reference.path })),
+    pending('pdf'),
+    pending('planilha'),
+    pending('relatorio'),
+    pending('email'),
+    ...(payload.signatures.responsavelUnidadeEmail ? [pending('assinaturaRemota')] : []),
+  ];
+}
+
+/**
+ * Monta o conteúdo da coluna de evidências da planilha.
+ * Com uma única foto usa HYPERLINK (a legenda vira o texto do link); com várias,
+ * lista uma linha por foto, já que o Sheets só aceita um HYPERLINK por célula.
+ */
+function buildEvidenceCell(legendas: string[], urls: string[]): string {
+  if (urls.length === 0) return 'Nenhuma';
+
+  if (urls.length === 1) {
+    const label = (legendas[0] || 'Ver Evidência').replace(/"/g, '""');
+    return `=HYPERLINK("${urls[0]}"; "${label}")`;
+  }
+
+  return urls
+    .map((url, photoIndex) => {
+      const label = legendas[photoIndex] ? `Foto ${photoIndex + 1} - ${legendas[photoIndex]}` : `Foto ${photoIndex + 1}`;
+      return `${label}: ${url}`;
+    })
+    .join('\n');
+}
+
+/**
+ * Colunas de localização da inspeção: latitude, longitude, precisão do GPS em metros e origem
+ */
+function buildLocationCells(localizacao: GeoLocation | null): (string | number)[] {
+  if (!localizacao) return ['', '', '', ''];
+  return [
+    localizacao.latitude,
+    localizacao.longitude,
+    localizacao.precisao === null ? '' : Math.round(localizacao.precisao),
+    GEO_SOURCE_LABELS[localizacao.origem],
+  ];
+}
+
+/**
+ * Coordenadas das fotos do item, uma linha por foto que tiver localização
+ */
+function buildPhotoLocationCell(fotos: InspectionPhoto[]): string {
+  return fotos
+    .map((foto, photoIndex) => (foto.localizacao ? `Foto ${photoIndex + 1}: ${formatCoordinates(foto.localizacao)}` : ''))
+    .filter(Boolean)
+    .join('\n');
+}
+
+/**
+ * Agenda a nova tentativa de uma etapa não crítica que falhou; o envio segue e a resposta traz o aviso
+ */
+async function retryLater(
+  etapa: RetryStep & SubmitStepName,
+  inspectionId: string,
+  error: string,
+  origin: string,
+  mensagem: string,
+  relatorio?: Omit<StoredReport, 'version'>
+): Promise<SubmitStep> {
+  await enqueueRetry(inspectionId, etapa, error, origin, relatorio);
+  return { etapa, status: 'reenvio', mensagem };
+}
+
+// Uma etapa nesses estados não é refeita em uma retomada ("reenvio" já está na fila de reenvio)
+const FINISHED_STEP_STATUSES: SubmitStep['status'][] = ['ok', 'reenvio', 'pulado'];
+
+// Bytes da imagem conferida, para o hash da assinatura no selo do relatório
+const imageBytes = (image: UploadedImage) => Buffer.from(image.dataUrl.substring(image.dataUrl.indexOf(',') + 1), 'base64');
+
+/**
+ * Função para testar conectividade com o backend de armazenamento
+ */
+async function testCloudStorageConnection(): Promise<boolean> {
+  console.log("🔧 TESTE DE CONECTIVIDADE - Iniciando teste do armazenamento...");
+
+  try {
+    const backend = getStorageBackend();
+    await backend.testConnection();
+
+    console.log(`🎉 TODOS OS TESTES DE ARMAZENAMENTO (${backend.name}) PASSARAM!`);
+    return true;
+
+  } catch (error) {
+    console.error("💥 FALHA NO TESTE DE ARMAZENAMENTO:");
+    console.error("Tipo:", typeof error);
+    console.error("Mensagem:", error instanceof Error ? error.message : String(error));
+
+    return false;
+  }
+}
+
+/**
+ * Executa as etapas de um envio já validado, informando cada uma a `tracker.report`.
+ * Planilha, cópia do relatório, e-mail e link de assinatura concluídos por um processamento interrompido não são repetidos;
+ * a conferência dos arquivos e o PDF, que não têm efeito fora do servidor, são refeitos.
+ * Arquivos ausentes ou inválidos encerram o envio com uma falha; erros inesperados (ex.: planilha) são lançados.
+ */
+export async function processSubmission(input: SubmitJobInput, tracker: SubmitTracker): Promise<SubmitOutcome> {
+  const { payload: body, submittedBy, client, origin } = input;
+  const { progress, report, save } = tracker;
+  const finishedBefore = (etapa: SubmitStepName) =>
+    tracker.steps.find(step => step.etapa === etapa && FINISHED_STEP_STATUSES.includes(step.status));
+  const { headerData, checklist, localizacao, participants, inspectionItems, conclusionData, signatures } = body;
+
+  console.log(`👤 Enviado por ${formatSubmitter(submittedBy)} (${submittedBy.provedor})`);
+  console.log("📊 Dados recebidos:", {
+    headerData: !!headerData,
+    participantsCount: participants?.length || 0,
+    itemsCount: inspectionItems?.length || 0,
+    hasConclusion: !!conclusionData?.conclusaoGeral,
+    hasSignatures: !!(signatures?.responsavelInspecao && signatures?.responsavelUnidade)
+  });
+
+  // Conferência dos arquivos enviados direto ao armazenamento, antes de gravar qualquer coisa
+  let backend: StorageBackend;
+  try {
+    backend = getStorageBackend();
+  } catch (error) {
+    throw new Error(getStorageErrorMessage(error));
+  }
+
+  const references = listImageReferences(body);
+
+  console.log(`📥 Conferindo ${references.length} arquivo(s) no armazenamento (${backend.name})...`);
+  await report(...references.map(reference => ({ etapa: 'arquivo' as const, arquivo: reference.path, status: 'andamento' as const, mensagem: 'Conferindo no armazenamento' })));
+
+  // Só entram no relatório arquivos de lotes abertos por quem envia ("evidencias/<lote>/<arquivo>");
+  // um lote sem registro, enviado antes do registro dos lotes, passa a ser de quem o referencia primeiro
+  const batchOf = (key: string) => key.split('/')[1];
+  const ownedBatches = new Set<string>();
+  for (const batchId of new Set(references.map(reference => batchOf(reference.key)))) {
+    if (await claimUploadBatch(batchId, formatSubmitter(submittedBy))) ownedBatches.add(batchId);
+  }
+  const loadedImages = await Promise.all(
+    references.map(reference => (ownedBatches.has(batchOf(reference.key)) ? loadUploadedImage(backend, reference.key, reference.allowedMimeTypes) : null))
+  );
+
+  const images = new Map<string, UploadedImage>();
+  const missingKeys: string[] = [];
+  const fileErrors: FieldError[] = [];
+  // Resultado de cada etapa, na ordem em que acontecem; começa com um registro por arquivo conferido
+  const steps: SubmitStep[] = [];
+  loadedImages.forEach((result, index) => {
+    const { path, key } = references[index];
+    let failure: string | null = null;
+    if (!result) {
+      failure = 'Arquivo enviado por outro usuário';
+    } else if (result.status === 'ok' && path.startsWith('signatures.') && isSignatureBlank(result.image.dataUrl)) {
+      // O quadro só publica assinaturas com o traço mínimo; uma imagem em branco aqui veio de fora do formulário
+      failure = 'Assinatura em branco ou curta demais. Limpe o quadro e assine novamente.';
+    } else if (result.status === 'ok') {
+      images.set(key, result.image);
+    } else if (result.status === 'missing') {
+      missingKeys.push(key);
+      failure = 'Arquivo não encontrado no armazenamento; envie novamente';
+    } else {
+      failure = result.error;
+    }
+    if (failure) fileErrors.push({ path, message: failure });
+    steps.push({ etapa: 'arquivo', arquivo: path, status: failure ? 'falhou' : 'ok', mensagem: failure || 'Arquivo conferido no armazenamento' });
+  });
+  await report(...steps);
+
+  // 409: o aparelho reenvia os arquivos ausentes e tenta de novo
+  if (missingKeys.length > 0) {
+    return { ok: false, failure: { status: 409, error: 'Arquivos não encontrados no armazenamento', missingKeys, fieldErrors: fileErrors } };
+  }
+  if (fileErrors.length > 0) {
+    console.log("❌ Arquivos enviados inválidos:", fileErrors);
+    return { ok: false, failure: { status: 400, error: 'Arquivos enviados inválidos', fieldErrors: fileErrors } };
+  }
+
+  // Autenticação para Google Sheets (valida as variáveis de ambiente)
+  const { sheets, spreadsheetId } = getSheetsContext();
+  console.log("📊 GOOGLE_SHEET_ID:", spreadsheetId);
+
+  // *** TESTE DE CONECTIVIDADE com o armazenamento ***
+  console.log("🚀 Executando teste de conectividade com o armazenamento...");
+  const storageConnected = await testCloudStorageConnection();
+
+  if (!storageConnected) {
+    console.log("❌ Conexão com o armazenamento falhou, mas continuando...");
+  }
+
+  // Preparação dos dados para a planilha
+  // Numeração sequencial por unidade e ano; um processamento anterior interrompido já tinha reservado o número
+  const inspectionId = input.submission?.inspectionId || progress.inspectionId || await nextInspectionId(headerData.unidade, headerData.data);
+  const submittedAt = progress.submittedAt || new Date().toISOString();
+  if (!progress.inspectionId || !progress.submittedAt) await save({ inspectionId, submittedAt });
+  const submission: SubmissionRecord | null = input.submission && { ...input.submission, inspectionId };
+  if (submission && !input.submission?.inspectionId) await saveSubmission(submission);
+  const participantNames = participants.map(p => p.nome).join(', ');
+  const participantFunctions = participants.map(p => p.funcao).join(', ');
+
+  // Preparar URLs para o PDF (preenchidas com os arquivos conferidos)
+  const signatureUrls = { signature1: 'Não assinado', signature2: 'Não assinado' };
+  const evidenceUrls: EvidenceUrls = {};
+  const originalEvidenceUrls: EvidenceUrls = {};
+
+  const signatureImage1 = images.get(signatures.responsavelInspecao);
+  const signatureImage2 = images.get(signatures.responsavelUnidade);
+
+  // Assinaturas já conferidas (traço mínimo) junto com os demais arquivos
+  const signature1IsBlank = !signatureImage1;
+  const signature2IsBlank = !signatureImage2;
+
+  console.log("✍️ Status das assinaturas:", { signature1IsBlank, signature2IsBlank });
+
+  // Lógica para determinar o texto/link das assinaturas
+  // Esta lógica fica fora do loop .map para funcionar corretamente
+  // tanto para casos com itens de inspeção quanto para casos sem itens.
+  let signatureLink1 = 'Não assinado';
+  if (signatureImage1 && !signature1IsBlank) {
+    signatureLink1 = `=HYPERLINK("${signatureImage1.url}"; "Ver Assinatura")`;
+    signatureUrls.signature1 = signatureImage1.url; // URL para o PDF
+  }
+
+  let signatureLink2 = 'Não assinado';
+  if (signatureImage2 && !signature2IsBlank) {
+    signatureLink2 = `=HYPERLINK("${signatureImage2.url}"; "Ver Assinatura")`;
+    signatureUrls.signature2 = signatureImage2.url; // URL para o PDF
+  } else if (signatures.responsavelUnidadeEmail) {
+    // Assinatura remota: a célula e o PDF são atualizados quando o responsável assinar pelo link
+    signatureLink2 = SIGNATURE_PENDING;
+    signatureUrls.signature2 = SIGNATURE_PENDING;
+  }
+
+  // Selo de integridade: conteúdo do relatório, hash de cada assinatura e quem assinou, de onde e quando.
+  // As duas assinaturas presenciais são feitas no aparelho do inspetor, então registram o mesmo endereço e navegador.
+  const signers: ReportSigner[] = [];
+  if (signatureImage1 && !signature1IsBlank) {
+    signers.push({ role: 'responsavelInspecao', name: headerData.responsavelQSMS, email: submittedBy.email || null, signedAt: submittedAt, ...client, imageSha256: sha256Hex(imageBytes(signatureImage1)) });
+  }
+  if (signatureImage2 && !signature2IsBlank) {
+    signers.push({ role: 'responsavelUnidade', name: headerData.encarregado, email: null, signedAt: submittedAt, ...client, imageSha256: sha256Hex(imageBytes(signatureImage2)) });
+  }
+  const integrity = sealReport({ inspectionId, submittedAt, payload: body, submittedBy }, signers);
+
+  // Mapear os itens com os links das evidências já conferidas
+  console.log(`📷 Processando ${inspectionItems.length} itens de inspeção...`);
+
+  const checklistText = checklist ? formatChecklistRef(checklist) : '';
+  const locationCells = buildLocationCells(localizacao);
+
+  const rowsToAppend = inspectionItems.map((item, index) => {
+    console.log(`📸 Processando item ${index + 1}:`, { photoCount: item.fotos.length });
+
+    // URLs para a planilha e o PDF, na ordem definida no formulário
+    const photoUrls = item.fotos.map(foto => images.get(foto.imagem)!.url);
+    evidenceUrls[index] = photoUrls;
+    originalEvidenceUrls[index] = item.fotos.map(foto => (foto.original ? images.get(foto.original)!.url : ''));
+
+    const evidenceText = buildEvidenceCell(item.fotos.map(foto => foto.legenda), photoUrls);
+    const risk = assessRisk(item.probabilidade, item.severidade);
+
+    return [
+      inspectionId,
+      headerData.data || '',
+      headerData.hora || '',
+      headerData.departamento || '',
+      headerData.encarregado || '',
+      headerData.responsavelQSMS || '',
+      headerData.gerenteContrato || '',
+      headerData.unidade || '',
+      headerData.local || '',
+      headerData.emailCompanhia || '',
+      participantNames,
+      participantFunctions,
+      item.fato || '',
+      item.recomendacoes || '',
+      item.prazo || '',
+      item.responsavel || '',
+      item.conclusao || '',
+      evidenceText,
+      conclusionData.conclusaoGeral || '',
+      signatureLink1,
+      signatureLink2,
+      item.responsavelEmail || '',
+      item.tipoAchado ? FINDING_TYPE_LABELS[item.tipoAchado] : '',
+      item.probabilidade ?? '',
+      item.severidade ?? '',
+      risk ? formatRisk(risk) : '',
+      checklistText,
+      item.pergunta,
+      item.resposta ? CHECKLIST_ANSWER_LABELS[item.resposta] : '',
+      formatSubmitter(submittedBy),
+      ...locationCells,
+      buildPhotoLocationCell(item.fotos),
+    ];
+  });
+
+  // Tratamento para formulários sem itens de inspeção
+  // Esta seção agora usa as variáveis de assinatura pré-calculadas corretamente
+  if (rowsToAppend.length === 0) {
+    rowsToAppend.push([
+      inspectionId, headerData.data || '', headerData.hora || '', headerData.departamento || '',
+      headerData.encarregado || '', headerData.responsavelQSMS || '', headerData.gerenteContrato || '',
+      headerData.unidade || '', headerData.local || '', headerData.emailCompanhia || '', participantNames, participantFunctions,
+      'N/A', 'Nenhum item de inspeção foi adicionado.', '', '', '', 'Nenhuma',
+      conclusionData.conclusaoGeral || '',
+      signatureLink1,
+      signatureLink2,
+      '', '', '', '', '',
+      checklistText, '', '',
+      formatSubmitter(submittedBy),
+      ...locationCells, '',
+    ]);
+  }
+
+  console.log("📝 Dados formatados para planilha:", rowsToAppend.length, "linhas");
+
+  // Gerar PDF do relatório com URLs das assinaturas e evidências
+  console.log("📄 Gerando PDF do relatório...");
+  await report({ etapa: 'pdf', status: 'andamento', mensagem: 'Gerando o PDF' });
+  // O PDF incorpora as imagens, então recebe o relatório com os arquivos carregados como data URL
+  const reportData = embedReportImages(body, images);
+  const verification = { url: buildVerificationUrl(origin, inspectionId), hash: integrity.hash };
+  const locationMap = await buildReportMap(body);
+  const pdfBuffer = generateInspectionPDF(reportData, inspectionId, signatureUrls, evidenceUrls, submittedBy, verification, locationMap);
+  steps.push({ etapa: 'pdf', status: 'ok', mensagem: 'PDF gerado' });
+  await report(steps[steps.length - 1]);
+  console.log("✅ PDF gerado com sucesso");
+
+  // A planilha é o registro da inspeção: se ela falhar, o envio falha e o aparelho tenta de novo.
+  // As etapas seguintes não desfazem o envio; as que falharem entram na fila de reenvio do servidor.
+  const sheetsDone = finishedBefore('planilha');
+  if (sheetsDone) {
+    console.log(`⏭️ Linhas de ${inspectionId} já gravadas na planilha por um processamento anterior`);
+    steps.push(sheetsDone);
+  } else {
+    console.log("📤 Enviando para Google Sheets...");
+    await report({ etapa: 'planilha', status: 'andamento', mensagem: 'Gravando na planilha' });
+    const appendResponse = await sheets.spreadsheets.values.append({
+      spreadsheetId,
+      range: MAPA_DE_CONTROLE_RANGE,
+      valueInputOption: 'USER_ENTERED',
+      requestBody: {
+        values: rowsToAppend,
+      },
+    });
+
+    console.log("✅ Dados inseridos com sucesso:", {
+      updates: appendResponse.data.updates
+    });
+    steps.push({ etapa: 'planilha', status: 'ok', mensagem: `${rowsToAppend.length} linha(s) gravada(s) na planilha` });
+    await report(steps[steps.length - 1]);
+    invalidateInspectionCache();
+  }
+
+  // Cópia do relatório para o histórico (detalhe, novo PDF e reenvio do e-mail)
+  const reportDone = finishedBefore('relatorio');
+  let reportSaved = reportDone?.status === 'ok';
+  if (reportDone) {
+    steps.push(reportDone);
+  } else {
+    await report({ etapa: 'relatorio', status: 'andamento', mensagem: 'Guardando a cópia do relatório' });
+    const storedReport: Omit<StoredReport, 'version'> = { inspectionId, submittedAt, payload: body, signatureUrls, evidenceUrls, originalEvidenceUrls, submittedBy, integrity };
+    try {
+      await saveStoredReport(storedReport);
+      reportSaved = true;
+      steps.push({ etapa: 'relatorio', status: 'ok', mensagem: 'Cópia do relatório guardada' });
+    } catch (error) {
+      const message = getStorageErrorMessage(error);
+      console.error(`⚠️ Não foi possível guardar o relatório ${inspectionId}:`, message);
+      steps.push(await retryLater('relatorio', inspectionId, message, origin, 'Cópia do relatório não guardada; será guardada automaticamente mais tarde', storedReport));
+    }
+    await report(steps[steps.length - 1]);
+  }
+
+  // Enviar e-mail com PDF se o e-mail foi fornecido
+  const emailDone = finishedBefore('email');
+  let emailReport: EmailReport = progress.email || { sent: false, accepted: [], rejected: [] };
+  if (emailDone) {
+    // O PDF daquele processamento já foi registrado antes do e-mail; o gerado agora não chega a ninguém
+    console.log(`⏭️ E-mail de ${inspectionId} já tratado por um processamento anterior`);
+    steps.push(emailDone);
+  } else {
+    // O PDF enviado por e-mail passa a ser reconhecido pela página de verificação (que também depende da cópia do relatório)
+    await registerIssuedPdf(inspectionId, integrity.hash, pdfBuffer, 'envio');
+
+    if (headerData.emailCompanhia && headerData.emailCompanhia.trim() !== '') {
+      console.log(`📧 Enviando e-mail para: ${headerData.emailCompanhia}`);
+      await report({ etapa: 'email', status: 'andamento', mensagem: 'Enviando o e-mail' });
+      let emailError = 'Nenhum destinatário aceitou o e-mail';
+      try {
+        emailReport = await sendEmailWithPDF(headerData, pdfBuffer, inspectionId, signatures.responsavelUnidadeEmail ? pendingSignatureEmailOptions(inspectionId) : {});
+      } catch (error) {
+        emailError = getStorageErrorMessage(error);
+      }
+      if (emailReport.sent) {
+        console.log("✅ E-mail enviado com sucesso");
+        await save({ email: emailReport });
+        const rejected = emailReport.rejected.map(failure => failure.address);
+        steps.push({ etapa: 'email', status: 'ok', mensagem: `E-mail enviado para ${emailReport.accepted.join(', ')}${rejected.length > 0 ? `; não aceito por ${rejected.join(', ')}` : ''}` });
+      } else {
+        console.log("⚠️ Falha no envio do e-mail, agendando novo envio");
+        steps.push(await retryLater('email', inspectionId, emailError, origin, 'E-mail não enviado; será reenviado automaticamente'));
+      }
+    } else {
+      console.log("⚠️ E-mail da companhia não fornecido, pulando envio de e-mail");
+      steps.push({ etapa: 'email', status: 'pulado', mensagem: 'E-mail da companhia não informado' });
+    }
+    await report(steps[steps.length - 1]);
+  }
+
+  // Link de assinatura remota; a página do link lê o relatório guardado, então sem a cópia ele espera na fila de reenvio
+  const linkDone = finishedBefore('assinaturaRemota');
+  let remoteSignature: RemoteSignatureLinkResult | null = progress.remoteSignature ?? null;
+  if (linkDone) {
+    steps.push(linkDone);
+  } else if (signatures.responsavelUnidadeEmail) {
+    await report({ etapa: 'assinaturaRemota', status: 'andamento', mensagem: 'Enviando o link de assinatura' });
+    let linkError = 'Relatório ainda não guardado no armazenamento';
+    if (reportSaved) {
+      try {
+        remoteSignature = await sendRemoteSignatureLink(headerData, inspectionId, signatures.responsavelUnidadeEmail, origin);
+        if (remoteSignature.sent) await save({ remoteSignature });
+        else linkError = `E-mail com o link não aceito por ${signatures.responsavelUnidadeEmail}`;
+      } catch (error) {
+        linkError = getStorageErrorMessage(error);
+        console.error(`⚠️ Não foi possível solicitar a assinatura remota de ${inspectionId}:`, linkError);
+      }
+    }
+    steps.push(remoteSignature?.sent
+      ? { etapa: 'assinaturaRemota', status: 'ok', mensagem: `Link de assinatura enviado para ${signatures.responsavelUnidadeEmail}` }
+      : await retryLater('assinaturaRemota', inspectionId, linkError, origin, 'Link de assinatura remota não enviado; será reenviado automaticamente'));
+    await report(steps[steps.length - 1]);
+  }
+
+  const warnings = listStepWarnings(steps);
+  if (warnings.length > 0) console.log(`⚠️ ${inspectionId} enviado com avisos:`, warnings);
+  const responseBody: SubmitResponse = { message: 'Dados inseridos com sucesso', inspectionId, email: emailReport, remoteSignature, etapas: steps, warnings };
+  if (submission) {
+    // Sem o registro, uma repetição criaria outra linha com o mesmo identificador; o envio em si já foi feito
+    try {
+      await saveSubmission({ ...submission, completedAt: new Date().toISOString(), response: responseBody });
+    } catch (error) {
+      console.error(`⚠️ Não foi possível registrar o envio ${submission.key}:`, getStorageErrorMessage(error));
+    }
+  }
+  return { ok: true, response: responseBody };
+}
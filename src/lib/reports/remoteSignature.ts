@@ -0,0 +1,122 @@
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { getStorageBackend } from '@/lib/storage';
+import type { RecipientFailure } from '@/lib/email/transport';
+import { sendSignatureRequestEmail } from '@/lib/email/signatureRequest';
+import { HeaderData } from '@/lib/validation/submitSchema';
+import { INSPECTION_ID_PATTERN, STORED_REPORTS_PREFIX } from './store';
+
+// Assinatura remota do responsável da unidade: link de uso único, com validade, enviado por e-mail depois do envio do relatório.
+// A solicitação fica junto dos relatórios guardados (prefixo sem leitura pública) e guarda só o hash do token.
+
+const DEFAULT_TTL_HOURS = 72;
+
+export interface RemoteSignatureRequest {
+  inspectionId: string;
+  email: string;
+  tokenHash: string;
+  requestedAt: string;
+  expiresAt: string;
+  /** Preenchido quando o link é usado; depois disso ele não vale mais */
+  signedAt: string | null;
+}
+
+/** Situação exibida no detalhe da inspeção (sem o hash do token) */
+export type RemoteSignatureStatus = Omit<RemoteSignatureRequest, 'tokenHash'>;
+
+/** Resultado do envio do link (no envio do relatório e no reenvio pelo detalhe) */
+export interface RemoteSignatureLinkResult {
+  request: RemoteSignatureStatus;
+  sent: boolean;
+  rejected: RecipientFailure[];
+}
+
+export type RemoteSignatureCheck =
+  | { status: 'ok'; request: RemoteSignatureRequest }
+  | { status: 'invalid' | 'expired' | 'used' };
+
+const requestKey = (inspectionId: string) => `${STORED_REPORTS_PREFIX}assinaturas/${inspectionId}.json`;
+
+const hashToken = (token: string) => createHash('sha256').update(token).digest('hex');
+
+const getTtlHours = () => {
+  const hours = Number(process.env.REMOTE_SIGNATURE_TTL_HOURS);
+  return Number.isFinite(hours) && hours > 0 ? hours : DEFAULT_TTL_HOURS;
+};
+
+async function saveRequest(request: RemoteSignatureRequest): Promise<void> {
+  await getStorageBackend().upload(requestKey(request.inspectionId), Buffer.from(JSON.stringify(request)), 'application/json');
+}
+
+export async function loadRemoteSignatureRequest(inspectionId: string): Promise<RemoteSignatureRequest | null> {
+  if (!INSPECTION_ID_PATTERN.test(inspectionId)) return null;
+  const stored = await getStorageBackend().read(requestKey(inspectionId));
+  if (!stored) return null;
+  return JSON.parse(stored.data.toString('utf8')) as RemoteSignatureRequest;
+}
+
+export const toRemoteSignatureStatus = ({ inspectionId, email, requestedAt, expiresAt, signedAt }: RemoteSignatureRequest): RemoteSignatureStatus =>
+  ({ inspectionId, email, requestedAt, expiresAt, signedAt });
+
+/**
+ * Cria (ou substitui) a solicitação da inspeção e devolve o token do link; um link enviado antes deixa de valer
+ */
+async function createRemoteSignatureRequest(inspectionId: string, email: string): Promise<{ request: RemoteSignatureRequest; token: string }> {
+  const token = randomBytes(32).toString('base64url');
+  const now = Date.now();
+  const request: RemoteSignatureRequest = {
+    inspectionId,
+    email,
+    tokenHash: hashToken(token),
+    requestedAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + getTtlHours() * 60 * 60 * 1000).toISOString(),
+    signedAt: null,
+  };
+  await saveRequest(request);
+  console.log(`✍️ Assinatura remota de ${inspectionId} solicitada para ${email} (válida até ${request.expiresAt})`);
+  return { request, token };
+}
+
+/**
+ * Confere o token do link: inválido (não confere ou não há solicitação), expirado ou já usado
+ */
+export async function checkRemoteSignatureToken(inspectionId: string, token: string): Promise<RemoteSignatureCheck> {
+  const request = token ? await loadRemoteSignatureRequest(inspectionId) : null;
+  if (!request) return { status: 'invalid' };
+
+  const expected = Buffer.from(request.tokenHash, 'hex');
+  const received = Buffer.from(hashToken(token), 'hex');
+  if (expected.length !== received.length || !timingSafeEqual(expected, received)) return { status: 'invalid' };
+
+  if (request.signedAt) return { status: 'used' };
+  if (Date.parse(request.expiresAt) < Date.now()) return { status: 'expired' };
+  return { status: 'ok', request };
+}
+
+export async function markRemoteSignatureSigned(request: RemoteSignatureRequest): Promise<RemoteSignatureRequest> {
+  const signed = { ...request, signedAt: new Date().toISOString() };
+  await saveRequest(signed);
+  return signed;
+}
+
+/**
+ * Link da página pública de assinatura; a base vem de APP_BASE_URL ou, sem ela, do endereço da requisição
+ */
+function buildRemoteSignatureLink(origin: string, inspectionId: string, token: string): string {
+  const baseUrl = (process.env.APP_BASE_URL || origin).replace(/\/$/, '');
+  return `${baseUrl}/assinar/${encodeURIComponent(inspectionId)}?token=${encodeURIComponent(token)}`;
+}
+
+/**
+ * Gera um novo link para a inspeção e o envia por e-mail ao responsável da unidade
+ */
+export async function sendRemoteSignatureLink(
+  headerData: HeaderData,
+  inspectionId: string,
+  email: string,
+  origin: string
+): Promise<RemoteSignatureLinkResult> {
+  const { request, token } = await createRemoteSignatureRequest(inspectionId, email);
+  const link = buildRemoteSignatureLink(origin, inspectionId, token);
+  const delivery = await sendSignatureRequestEmail(headerData, inspectionId, email, link, request.expiresAt);
+  return { request: toRemoteSignatureStatus(request), sent: delivery.sent, rejected: delivery.rejected };
+}
@@ -0,0 +1,206 @@
+import { getStorageBackend, getStorageErrorMessage } from '@/lib/storage';
+import { pendingSignatureEmailOptions, sendEmailWithPDF, signedReportEmailOptions } from '@/lib/email/report';
+import { updateUnitSignatureCell } from '@/lib/sheets/inspections';
+import { SIGNATURE_PENDING } from '@/lib/validation/submitSchema';
+import { withLock } from './locks';
+import { renderStoredReportPdf } from './pdf';
+import { sendRemoteSignatureLink } from './remoteSignature';
+import { STORED_REPORTS_PREFIX, StoredReport, loadStoredReport, saveStoredReport } from './store';
+
+// Fila de reenvio das etapas não críticas que falharam: em /api/submit, cópia do relatório, e-mail e link de assinatura remota;
+// na assinatura remota (/api/assinaturas/<id>), a célula da assinatura na planilha e o e-mail do PDF final.
+// As tarefas ficam em memória no processo do servidor e são copiadas para relatorios/reenvios/fila.json, de onde são
+// retomadas depois de um reinício. Cada falha adia a próxima tentativa (1 min, 2 min, 4 min... até 1 h), até MAX_ATTEMPTS.
+
+export type RetryStep = 'relatorio' | 'email' | 'assinaturaRemota' | 'planilhaAssinatura' | 'emailAssinado';
+
+export interface RetryJob {
+  /** `<inspectionId>:<etapa>`; uma tarefa por etapa de cada inspeção */
+  id: string;
+  inspectionId: string;
+  etapa: RetryStep;
+  /** Base dos links de verificação e de assinatura quando APP_BASE_URL não está definida */
+  origin: string;
+  /** "esgotada": passou de MAX_ATTEMPTS e fica registrada para conferência manual */
+  situacao: 'pendente' | 'esgotada';
+  tentativas: number;
+  proximaTentativa: string;
+  ultimoErro: string;
+  criadoEm: string;
+  /** Etapa "relatorio": a cópia que não pôde ser guardada no envio */
+  relatorio?: Omit<StoredReport, 'version'>;
+}
+
+const queueKey = `${STORED_REPORTS_PREFIX}reenvios/fila.json`;
+
+const CHECK_INTERVAL_MS = 30 * 1000;
+const BASE_DELAY_MS = 60 * 1000;
+const MAX_DELAY_MS = 60 * 60 * 1000;
+const MAX_ATTEMPTS = 10;
+// A cópia do relatório vem antes: e-mail e link de assinatura são montados a partir dela
+const STEP_ORDER: RetryStep[] = ['relatorio', 'email', 'assinaturaRemota', 'planilhaAssinatura', 'emailAssinado'];
+
+const jobs = new Map<string, RetryJob>();
+// Só grava a fila depois de ler a cópia do armazenamento, para não apagar tarefas de antes de um reinício
+let restored = false;
+let timer: ReturnType<typeof setInterval> | null = null;
+
+const retryDelay = (attempts: number) => Math.min(BASE_DELAY_MS * 2 ** (attempts - 1), MAX_DELAY_MS);
+
+async function restoreJobs(): Promise<void> {
+  if (restored) return;
+  try {
+    const stored = await getStorageBackend().read(queueKey);
+    const saved = stored ? JSON.parse(stored.data.toString('utf8')) as RetryJob[] : [];
+    saved.forEach(job => {
+      if (!jobs.has(job.id)) jobs.set(job.id, job);
+    });
+    restored = true;
+    if (saved.length > 0) console.log(`🔁 Fila de reenvio retomada com ${saved.length} tarefa(s)`);
+  } catch (error) {
+    console.error('⚠️ Não foi possível ler a fila de reenvio:', getStorageErrorMessage(error));
+  }
+}
+
+// Leitura e gravação da cópia uma de cada vez: a última gravação sempre leva o estado mais recente da memória
+const withQueueFile = <T>(task: () => Promise<T>) => withLock('reenvios:fila', task);
+
+async function persistJobs(): Promise<void> {
+  await withQueueFile(async () => {
+    await restoreJobs();
+    if (!restored) return;
+    try {
+      await getStorageBackend().upload(queueKey, Buffer.from(JSON.stringify([...jobs.values()])), 'application/json');
+    } catch (error) {
+      console.error('⚠️ Não foi possível gravar a fila de reenvio; ela continua em memória:', getStorageErrorMessage(error));
+    }
+  });
+}
+
+async function requireStoredReport(inspectionId: string): Promise<StoredReport> {
+  const report = await loadStoredReport(inspectionId);
+  if (!report) throw new Error('Relatório ainda não guardado no armazenamento');
+  return report;
+}
+
+async function runJob(job: RetryJob): Promise<void> {
+  switch (job.etapa) {
+    case 'relatorio':
+      if (!job.relatorio) throw new Error('Tarefa sem a cópia do relatório');
+      await saveStoredReport(job.relatorio);
+      return;
+    case 'email': {
+      const report = await requireStoredReport(job.inspectionId);
+      // O PDF sai no estado atual do relatório; se a assinatura remota já foi feita, ele já vem assinado
+      const pending = report.signatureUrls.signature2 === SIGNATURE_PENDING;
+      const pdfBuffer = await renderStoredReportPdf(report, job.origin, 'envio');
+      const email = await sendEmailWithPDF(report.payload.headerData, pdfBuffer, job.inspectionId, pending ? pendingSignatureEmailOptions(job.inspectionId) : {});
+      if (!email.sent) throw new Error('Nenhum destinatário aceitou o e-mail');
+      return;
+    }
+    case 'assinaturaRemota': {
+      const report = await requireStoredReport(job.inspectionId);
+      const email = report.payload.signatures.responsavelUnidadeEmail;
+      if (!email || report.signatureUrls.signature2 !== SIGNATURE_PENDING) return;
+      const result = await sendRemoteSignatureLink(report.payload.headerData, job.inspectionId, email, job.origin);
+      if (!result.sent) throw new Error(`E-mail com o link não aceito por ${email}`);
+      return;
+    }
+    case 'planilhaAssinatura': {
+      // O link da assinatura é lido do relatório guardado, já assinado
+      const report = await requireStoredReport(job.inspectionId);
+      const url = report.signatureUrls.signature2;
+      if (url === SIGNATURE_PENDING) throw new Error('Relatório ainda sem a assinatura da unidade');
+      const updated = await updateUnitSignatureCell(job.inspectionId, `=HYPERLINK("${url}"; "Ver Assinatura")`);
+      if (updated === 0) throw new Error('Linhas da inspeção não encontradas na planilha');
+      return;
+    }
+    case 'emailAssinado': {
+      const report = await requireStoredReport(job.inspectionId);
+      const signer = report.integrity?.signers.find(candidate => candidate.role === 'responsavelUnidade');
+      const pdfBuffer = await renderStoredReportPdf(report, job.origin, 'assinatura');
+      const email = await sendEmailWithPDF(report.payload.headerData, pdfBuffer, job.inspectionId, signedReportEmailOptions(job.inspectionId, signer?.email || null));
+      if (!email.sent) throw new Error('Nenhum destinatário aceitou o e-mail');
+      return;
+    }
+  }
+}
+
+/**
+ * Executa as tarefas vencidas, uma de cada vez; novas tarefas podem entrar na fila enquanto isso
+ */
+async function processDueJobs(): Promise<void> {
+  await withLock('reenvios', async () => {
+    await withQueueFile(restoreJobs);
+    const now = Date.now();
+    const due = [...jobs.values()]
+      .filter(job => job.situacao === 'pendente' && Date.parse(job.proximaTentativa) <= now)
+      .sort((a, b) => STEP_ORDER.indexOf(a.etapa) - STEP_ORDER.indexOf(b.etapa));
+    if (due.length === 0) return;
+
+    for (const job of due) {
+      const attempts = job.tentativas + 1;
+      try {
+        await runJob(job);
+        jobs.delete(job.id);
+        console.log(`✅ Reenvio concluído: ${job.id} (tentativa ${attempts})`);
+      } catch (error) {
+        const message = getStorageErrorMessage(error);
+        const exhausted = attempts >= MAX_ATTEMPTS;
+        jobs.set(job.id, {
+          ...job,
+          tentativas: attempts,
+          situacao: exhausted ? 'esgotada' : 'pendente',
+          proximaTentativa: new Date(Date.now() + retryDelay(attempts)).toISOString(),
+          ultimoErro: message,
+        });
+        console.error(exhausted
+          ? `💥 Reenvio de ${job.id} desistido após ${attempts} tentativas: ${message}`
+          : `⚠️ Reenvio de ${job.id} falhou (tentativa ${attempts}): ${message}`);
+      }
+    }
+    await persistJobs();
+  });
+}
+
+/**
+ * Liga a verificação periódica da fila (uma vez por processo); chamada a cada envio, retoma a fila depois de um reinício
+ */
+export function startRetryWorker(): void {
+  if (timer) return;
+  timer = setInterval(() => {
+    processDueJobs().catch(error => console.error('💥 Erro na fila de reenvio:', getStorageErrorMessage(error)));
+  }, CHECK_INTERVAL_MS);
+  // Não segura o processo aberto só por causa da fila
+  timer.unref?.();
+}
+
+/**
+ * Agenda uma etapa que falhou no envio; a primeira nova tentativa acontece depois de BASE_DELAY_MS
+ */
+export async function enqueueRetry(
+  inspectionId: string,
+  etapa: RetryStep,
+  error: string,
+  origin: string,
+  relatorio?: Omit<StoredReport, 'version'>
+): Promise<void> {
+  const now = Date.now();
+  const job: RetryJob = {
+    id: `${inspectionId}:${etapa}`,
+    inspectionId,
+    etapa,
+    origin,
+    situacao: 'pendente',
+    tentativas: 0,
+    proximaTentativa: new Date(now + BASE_DELAY_MS).toISOString(),
+    ultimoErro: error,
+    criadoEm: new Date(now).toISOString(),
+    relatorio,
+  };
+
+  jobs.set(job.id, job);
+  await persistJobs();
+  console.log(`🔁 ${job.id} agendado para reenvio em ${job.proximaTentativa}`);
+  startRetryWorker();
+}
@@ -0,0 +1,97 @@
+import { promises as fs } from 'fs';
+import { getStorageBackend } from '@/lib/storage';
+import { normalizeUnit } from '@/lib/email/recipients';
+import { withLock } from './locks';
+import { STORED_REPORTS_PREFIX, loadStoredReport } from './store';
+
+// Identificadores sequenciais por unidade e ano, ex.: "SOSSEGO-2026-0042".
+// O último número de cada unidade/ano fica em relatorios/sequencias/<SIGLA>-<ANO>.json.
+
+interface SequenceCounter {
+  sigla: string;
+  ano: number;
+  ultimo: number;
+  atualizadoEm: string;
+}
+
+const DEFAULT_UNIT_CODES_FILE = 'config/siglas-unidades.json';
+
+// Sigla + ano + número cabem com folga no limite de 64 caracteres dos identificadores
+const MAX_UNIT_CODE_LENGTH = 32;
+const UNIT_CODE_PATTERN = /^[A-Z0-9]+(-[A-Z0-9]+)*$/;
+const SEQUENCE_DIGITS = 4;
+// Sigla usada quando o nome da unidade não tem letras nem números
+const FALLBACK_UNIT_CODE = 'INSPEC';
+
+// Preposições e artigos que não entram na sigla derivada do nome ("Mina do Sossego" -> "MINA-SOSSEGO")
+const IGNORED_WORDS = new Set(['A', 'O', 'AS', 'OS', 'E', 'DE', 'DA', 'DO', 'DAS', 'DOS']);
+
+const counterKey = (sigla: string, ano: number) => `${STORED_REPORTS_PREFIX}sequencias/${sigla}-${ano}.json`;
+
+async function loadUnitCodes(): Promise<{ [unidade: string]: string }> {
+  const filePath = process.env.UNIT_CODES_FILE || DEFAULT_UNIT_CODES_FILE;
+  try {
+    return JSON.parse(await fs.readFile(filePath, 'utf-8')) as { [unidade: string]: string };
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.error(`⚠️ Erro ao ler as siglas das unidades em ${filePath}:`, error);
+    }
+    return {};
+  }
+}
+
+/**
+ * Sigla a partir do nome: sem acentos, em maiúsculas, palavras separadas por hífen
+ */
+export function deriveUnitCode(unidade: string): string {
+  const words = normalizeUnit(unidade).toUpperCase().split(/[^A-Z0-9]+/).filter(Boolean);
+  const significant = words.filter(word => !IGNORED_WORDS.has(word));
+  const code = (significant.length > 0 ? significant : words).join('-').slice(0, MAX_UNIT_CODE_LENGTH).replace(/-+$/, '');
+  return code || FALLBACK_UNIT_CODE;
+}
+
+/**
+ * Sigla configurada para a unidade em UNIT_CODES_FILE ou, sem configuração, derivada do nome
+ */
+export async function resolveUnitCode(unidade: string): Promise<string> {
+  const unitKey = normalizeUnit(unidade);
+  const configured = Object.entries(await loadUnitCodes()).find(([name]) => normalizeUnit(name) === unitKey)?.[1];
+  if (configured !== undefined) {
+    const code = configured.trim().toUpperCase();
+    if (code.length <= MAX_UNIT_CODE_LENGTH && UNIT_CODE_PATTERN.test(code)) return code;
+    console.error(`⚠️ Sigla inválida para a unidade "${unidade}": "${configured}" (use letras, números e hífens, até ${MAX_UNIT_CODE_LENGTH} caracteres)`);
+  }
+  return deriveUnitCode(unidade);
+}
+
+async function loadCounter(sigla: string, ano: number): Promise<SequenceCounter | null> {
+  const stored = await getStorageBackend().read(counterKey(sigla, ano));
+  return stored ? JSON.parse(stored.data.toString('utf8')) as SequenceCounter : null;
+}
+
+export const formatInspectionId = (sigla: string, ano: number, numero: number) =>
+  `${sigla}-${ano}-${String(numero).padStart(SEQUENCE_DIGITS, '0')}`;
+
+/**
+ * Reserva o próximo identificador da unidade no ano da inspeção (data AAAA-MM-DD do formulário).
+ * Um número que já tenha relatório guardado (ex.: contador perdido ou restaurado de um backup) é pulado.
+ */
+export async function nextInspectionId(unidade: string, data: string): Promise<string> {
+  const sigla = await resolveUnitCode(unidade);
+  const ano = Number(data.slice(0, 4)) || new Date().getFullYear();
+
+  return withLock(`sequencia:${sigla}-${ano}`, async () => {
+    let numero = ((await loadCounter(sigla, ano))?.ultimo || 0) + 1;
+    while (await loadStoredReport(formatInspectionId(sigla, ano, numero))) {
+      console.log(`⚠️ ${formatInspectionId(sigla, ano, numero)} já existe; pulando o número`);
+      numero++;
+    }
+
+    const counter: SequenceCounter = { sigla, ano, ultimo: numero, atualizadoEm: new Date().toISOString() };
+    await getStorageBackend().upload(counterKey(sigla, ano), Buffer.from(JSON.stringify(counter)), 'application/json');
+
+    const inspectionId = formatInspectionId(sigla, ano, numero);
+    console.log(`🔢 Identificador reservado: ${inspectionId}`);
+    return inspectionId;
+  });
+}
@@ -0,0 +1,59 @@
+// Resultado de cada etapa do processamento de um envio, acompanhado pelo aparelho enquanto ele acontece.
+// Sem dependências do servidor: também é lido pelo navegador.
+
+export type SubmitStepName = 'arquivo' | 'pdf' | 'planilha' | 'relatorio' | 'email' | 'assinaturaRemota';
+
+/** "reenvio": falhou e entrou na fila de reenvio do servidor; "pulado": a etapa não se aplica ao relatório */
+export type SubmitStepStatus = 'pendente' | 'andamento' | 'ok' | 'falhou' | 'reenvio' | 'pulado';
+
+export interface SubmitStep {
+  etapa: SubmitStepName;
+  status: SubmitStepStatus;
+  mensagem: string;
+  /** Campo do formulário do arquivo conferido (etapa "arquivo"), ex.: "inspectionItems.0.fotos.1.imagem" */
+  arquivo?: string;
+}
+
+export const SUBMIT_STEP_LABELS: { [step in SubmitStepName]: string } = {
+  arquivo: 'Arquivos',
+  pdf: 'PDF',
+  planilha: 'Planilha',
+  relatorio: 'Cópia do relatório',
+  email: 'E-mail',
+  assinaturaRemota: 'Link de assinatura',
+};
+
+/** Linha do resumo do andamento; os arquivos aparecem juntos, com a contagem dos já conferidos */
+export interface StepSummary {
+  etapa: SubmitStepName;
+  status: SubmitStepStatus;
+  label: string;
+}
+
+/**
+ * Avisos para o inspetor: as etapas que não foram concluídas, na ordem em que aconteceram
+ */
+export const listStepWarnings = (steps: SubmitStep[]) =>
+  steps.filter(step => step.status === 'falhou' || step.status === 'reenvio').map(step => step.mensagem);
+
+/**
+ * Resume as etapas para exibir o andamento: uma linha para todos os arquivos e uma para cada etapa seguinte
+ */
+export function summarizeSteps(steps: SubmitStep[]): StepSummary[] {
+  const files = steps.filter(step => step.etapa === 'arquivo');
+  const summary: StepSummary[] = [];
+
+  if (files.length > 0) {
+    const checked = files.filter(step => step.status === 'ok').length;
+    const status: SubmitStepStatus = files.some(step => step.status === 'falhou') ? 'falhou'
+      : checked === files.length ? 'ok'
+      : files.some(step => step.status !== 'pendente') ? 'andamento'
+      : 'pendente';
+    summary.push({ etapa: 'arquivo', status, label: `${SUBMIT_STEP_LABELS.arquivo} ${checked}/${files.length}` });
+  }
+
+  steps
+    .filter(step => step.etapa !== 'arquivo')
+    .forEach(step => summary.push({ etapa: step.etapa, status: step.status, label: SUBMIT_STEP_LABELS[step.etapa] }));
+  return summary;
+}
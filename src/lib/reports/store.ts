@@ -0,0 +1,50 @@
+import { getStorageBackend } from '@/lib/storage';
+import type { Submitter } from '@/lib/auth/submitter';
+import type { ReportIntegrity } from './integrity';
+import { EvidenceUrls, SignatureUrls } from '@/lib/pdf/inspectionPdf';
+import { SubmitPayload } from '@/lib/validation/submitSchema';
+
+// Cópia do relatório enviado (JSON) guardada no armazenamento, para rever, regenerar o PDF e reenviar o e-mail
+
+const REPORT_FORMAT_VERSION = 1;
+
+export interface StoredReport {
+  version: number;
+  inspectionId: string;
+  submittedAt: string;
+  /** Corpo validado de /api/submit, com fotos e assinaturas como chaves de armazenamento */
+  payload: SubmitPayload;
+  /** Links gravados na planilha e no PDF no momento do envio */
+  signatureUrls: SignatureUrls;
+  evidenceUrls: EvidenceUrls;
+  /** Fotos sem as anotações do inspetor (vazio nas fotos não anotadas); ausente nos relatórios enviados antes das anotações */
+  originalEvidenceUrls?: EvidenceUrls;
+  /** Usuário logado que enviou; ausente nos relatórios enviados antes do login */
+  submittedBy?: Submitter;
+  /** Hash do conteúdo e das assinaturas com os dados dos signatários; ausente nos relatórios enviados antes do selo */
+  integrity?: ReportIntegrity;
+}
+
+/** Prefixo dos relatórios guardados; não deve ter leitura pública */
+export const STORED_REPORTS_PREFIX = 'relatorios/';
+
+// Identificadores gerados por /api/submit (<SIGLA>-<ANO>-<NÚMERO>; os mais antigos, INSPEC-<timestamp>); impede caminhos arbitrários no armazenamento
+export const INSPECTION_ID_PATTERN = /^[A-Za-z0-9-]{1,64}$/;
+
+const reportKey = (inspectionId: string) => `${STORED_REPORTS_PREFIX}${inspectionId}.json`;
+
+export async function saveStoredReport(report: Omit<StoredReport, 'version'>): Promise<void> {
+  const data = Buffer.from(JSON.stringify({ version: REPORT_FORMAT_VERSION, ...report }));
+  await getStorageBackend().upload(reportKey(report.inspectionId), data, 'application/json');
+  console.log(`💾 Relatório ${report.inspectionId} guardado no armazenamento`);
+}
+
+/**
+ * Lê o relatório guardado; null se a inspeção não existir ou tiver sido enviada antes de os relatórios serem guardados
+ */
+export async function loadStoredReport(inspectionId: string): Promise<StoredReport | null> {
+  if (!INSPECTION_ID_PATTERN.test(inspectionId)) return null;
+  const stored = await getStorageBackend().read(reportKey(inspectionId));
+  if (!stored) return null;
+  return JSON.parse(stored.data.toString('utf8')) as StoredReport;
+}
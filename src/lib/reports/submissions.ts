@@ -0,0 +1,38 @@
+import { getStorageBackend } from '@/lib/storage';
+import { LOCAL_ID_PATTERN } from '@/lib/validation/submitSchema';
+import { STORED_REPORTS_PREFIX } from './store';
+
+// Envios de /api/submit registrados pela chave de idempotência que o aparelho manda com cada relatório.
+// Uma nova tentativa com a mesma chave (resposta perdida por queda de conexão) recebe o processamento em andamento
+// ou a resposta original, sem gravar a planilha, guardar arquivos ou mandar e-mails de novo.
+
+/** Cabeçalho com a chave: o id do relatório na fila do aparelho, o mesmo em todas as tentativas */
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+
+export interface SubmissionRecord {
+  key: string;
+  /** Processamento mais recente da chave; um novo só é criado se o anterior falhar */
+  jobId: string | null;
+  /** Identificador reservado no primeiro processamento e reaproveitado se ele não tiver terminado; null antes da reserva */
+  inspectionId: string | null;
+  /** Usuário que enviou (formatSubmitter); a chave não vale para outro usuário */
+  enviadoPor: string;
+  startedAt: string;
+  completedAt: string | null;
+  /** Corpo da resposta de sucesso, devolvido às repetições */
+  response: unknown | null;
+}
+
+const submissionKey = (key: string) => `${STORED_REPORTS_PREFIX}envios/${key}.json`;
+
+export const isValidIdempotencyKey = (key: string) => LOCAL_ID_PATTERN.test(key);
+
+export async function loadSubmission(key: string): Promise<SubmissionRecord | null> {
+  if (!isValidIdempotencyKey(key)) return null;
+  const stored = await getStorageBackend().read(submissionKey(key));
+  return stored ? JSON.parse(stored.data.toString('utf8')) as SubmissionRecord : null;
+}
+
+export async function saveSubmission(record: SubmissionRecord): Promise<void> {
+  await getStorageBackend().upload(submissionKey(record.key), Buffer.from(JSON.stringify(record)), 'application/json');
+}
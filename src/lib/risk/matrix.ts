@@ -0,0 +1,112 @@
+// Matriz de risco do QSMS (probabilidade × severidade, de 1 a 5) e tipos de achado.
+// Usada no formulário, na validação, na planilha e no PDF.
+
+export const FINDING_TYPES = ['conformidade', 'nao_conformidade', 'observacao'] as const;
+export type FindingType = typeof FINDING_TYPES[number];
+
+export const FINDING_TYPE_LABELS: { [type in FindingType]: string } = {
+  conformidade: 'Conformidade',
+  nao_conformidade: 'Não conformidade',
+  observacao: 'Observação',
+};
+
+// Cor do selo do tipo de achado: RGB no PDF e classes na interface
+export const FINDING_TYPE_COLORS: { [type in FindingType]: { rgb: [number, number, number]; className: string } } = {
+  conformidade: { rgb: [22, 101, 52], className: 'bg-green-800 text-white' },
+  nao_conformidade: { rgb: [153, 27, 27], className: 'bg-red-800 text-white' },
+  observacao: { rgb: [75, 85, 99], className: 'bg-gray-600 text-white' },
+};
+
+export const PROBABILITY_LABELS: { [level: number]: string } = {
+  1: 'Rara',
+  2: 'Improvável',
+  3: 'Possível',
+  4: 'Provável',
+  5: 'Quase certa',
+};
+
+export const SEVERITY_LABELS: { [level: number]: string } = {
+  1: 'Insignificante',
+  2: 'Menor',
+  3: 'Moderada',
+  4: 'Maior',
+  5: 'Catastrófica',
+};
+
+export const RISK_SCALE = [1, 2, 3, 4, 5];
+
+export const RISK_LEVELS = ['baixo', 'medio', 'alto', 'critico'] as const;
+export type RiskLevel = typeof RISK_LEVELS[number];
+
+interface RiskLevelInfo {
+  label: string;
+  /** Menor pontuação (probabilidade × severidade) do nível */
+  minScore: number;
+  /** Cor do selo no PDF (RGB) */
+  rgb: [number, number, number];
+  /** Classes do selo na interface */
+  className: string;
+}
+
+export const RISK_LEVEL_INFO: { [level in RiskLevel]: RiskLevelInfo } = {
+  baixo: { label: 'Baixo', minScore: 1, rgb: [21, 128, 61], className: 'bg-green-700 text-white' },
+  medio: { label: 'Médio', minScore: 5, rgb: [202, 138, 4], className: 'bg-yellow-600 text-white' },
+  alto: { label: 'Alto', minScore: 10, rgb: [234, 88, 12], className: 'bg-orange-600 text-white' },
+  critico: { label: 'Crítico', minScore: 17, rgb: [185, 28, 28], className: 'bg-red-700 text-white' },
+};
+
+export interface RiskAssessment {
+  score: number;
+  level: RiskLevel;
+}
+
+const isScaleValue = (value: number | null | undefined): value is number =>
+  typeof value === 'number' && RISK_SCALE.includes(value);
+
+/**
+ * Pontuação e nível de risco; null enquanto probabilidade ou severidade não forem escolhidas
+ */
+export function assessRisk(probabilidade: number | null | undefined, severidade: number | null | undefined): RiskAssessment | null {
+  if (!isScaleValue(probabilidade) || !isScaleValue(severidade)) return null;
+
+  const score = probabilidade * severidade;
+  const level = [...RISK_LEVELS].reverse().find(candidate => score >= RISK_LEVEL_INFO[candidate].minScore)!;
+  return { score, level };
+}
+
+/**
+ * Texto do nível de risco para a planilha e o PDF, ex.: "Alto (12)"
+ */
+export const formatRisk = (risk: RiskAssessment) => `${RISK_LEVEL_INFO[risk.level].label} (${risk.score})`;
+
+/** O tipo de achado exige a classificação de risco */
+export const requiresRiskAssessment = (type: FindingType | '') => type === 'nao_conformidade';
+
+export interface RiskSummary {
+  levels: { [level in RiskLevel]: number };
+  /** Itens sem probabilidade e severidade */
+  notAssessed: number;
+  findingTypes: { [type in FindingType]: number };
+}
+
+/**
+ * Contagem dos itens por nível de risco e por tipo de achado, para o resumo do relatório
+ */
+export function summarizeRisks(items: { tipoAchado?: FindingType | '' | null; probabilidade?: number | null; severidade?: number | null }[]): RiskSummary {
+  const summary: RiskSummary = {
+    levels: { baixo: 0, medio: 0, alto: 0, critico: 0 },
+    notAssessed: 0,
+    findingTypes: { conformidade: 0, nao_conformidade: 0, observacao: 0 },
+  };
+
+  items.forEach(item => {
+    const risk = assessRisk(item.probabilidade, item.severidade);
+    if (risk) {
+      summary.levels[risk.level]++;
+    } else {
+      summary.notAssessed++;
+    }
+    if (item.tipoAchado) summary.findingTypes[item.tipoAchado]++;
+  });
+  return summary;
+}
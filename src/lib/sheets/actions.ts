@@ -0,0 +1,198 @@
+import { ActionPhoto, ActionUpdate, TrackedAction } from '@/types/actions';
+import { InspectionRecord } from '@/types/history';
+import { ACTION_STATUSES, ACTION_STATUS_LABELS, ActionStatus } from '@/lib/validation/actionSchema';
+import { CHECKLIST_ANSWER_LABELS } from '@/lib/validation/checklistSchema';
+import { ACTIONS_RANGE, ACTIONS_SHEET_TITLE, ensureSheetTab, getSheetsContext } from './client';
+import { createSheetCache } from './cache';
+import { SheetCell, cellText, normalizeText } from './cells';
+import { listInspectionRecords } from './inspections';
+
+// Acompanhamento das ações corretivas: cada item de inspeção é uma ação, e a aba "Ações"
+// guarda o histórico de atualizações feitas depois do envio do relatório
+
+const ACTIONS_HEADERS = ['ID da Inspeção', 'Item', 'Registrado em', 'Situação', 'Comentário', 'Conclusão', 'Autor', 'Evidências de fechamento'];
+
+const COLUMNS = {
+  inspectionId: 0,
+  item: 1,
+  registradoEm: 2,
+  status: 3,
+  comentario: 4,
+  conclusao: 5,
+  autor: 6,
+  evidencias: 7,
+};
+
+export interface ActionLogEntry {
+  inspectionId: string;
+  item: number;
+  update: ActionUpdate;
+}
+
+const parseStatus = (value: SheetCell): ActionStatus | null => {
+  const text = normalizeText(cellText(value));
+  return ACTION_STATUSES.find(status => normalizeText(ACTION_STATUS_LABELS[status]) === text || status === text) || null;
+};
+
+/**
+ * Uma linha por foto, "Foto 2 - legenda: url", para ficar legível na planilha e poder ser lida de volta
+ */
+function formatActionPhotos(fotos: ActionPhoto[]): string {
+  return fotos
+    .map((foto, index) => {
+      const legenda = foto.legenda.replace(/\s+/g, ' ').trim();
+      return `${legenda ? `Foto ${index + 1} - ${legenda}` : `Foto ${index + 1}`}: ${foto.url}`;
+    })
+    .join('\n');
+}
+
+function parseActionPhotos(value: SheetCell): ActionPhoto[] {
+  return cellText(value)
+    .split('\n')
+    .map(line => /^Foto \d+(?: - (.*))?: (\S+)$/.exec(line.trim()))
+    .filter((match): match is RegExpExecArray => match !== null)
+    .map(match => ({ url: match[2], legenda: match[1] || '' }));
+}
+
+export function parseActionLogRows(rows: SheetCell[][]): ActionLogEntry[] {
+  const entries: ActionLogEntry[] = [];
+  rows.forEach(row => {
+    const inspectionId = cellText(row[COLUMNS.inspectionId]);
+    const item = Number(row[COLUMNS.item]);
+    const status = parseStatus(row[COLUMNS.status]);
+    // Ignora a linha de títulos e linhas editadas à mão que não dá para interpretar
+    if (!inspectionId || !Number.isInteger(item) || item < 1 || !status) return;
+
+    entries.push({
+      inspectionId,
+      item,
+      update: {
+        registradoEm: cellText(row[COLUMNS.registradoEm]),
+        status,
+        comentario: cellText(row[COLUMNS.comentario]),
+        conclusao: cellText(row[COLUMNS.conclusao]),
+        autor: cellText(row[COLUMNS.autor]),
+        fotos: parseActionPhotos(row[COLUMNS.evidencias]),
+      },
+    });
+  });
+  return entries;
+}
+
+async function readActionLog(): Promise<ActionLogEntry[]> {
+  const context = getSheetsContext();
+  await ensureSheetTab(context, ACTIONS_SHEET_TITLE, ACTIONS_HEADERS);
+  console.log("📖 Lendo atualizações das ações do Google Sheets...");
+
+  const response = await context.sheets.spreadsheets.values.get({
+    spreadsheetId: context.spreadsheetId,
+    range: ACTIONS_RANGE,
+    valueRenderOption: 'UNFORMATTED_VALUE',
+  });
+
+  const entries = parseActionLogRows((response.data.values || []) as SheetCell[][]);
+  console.log(`✅ ${entries.length} atualizações de ações lidas da planilha`);
+  return entries;
+}
+
+const actionLogCache = createSheetCache(readActionLog);
+
+const actionKey = (inspectionId: string, item: number) => `${inspectionId}#${item}`;
+
+/**
+ * Junta os itens das inspeções com as atualizações registradas.
+ * Sem atualizações, o item está "concluída" se o relatório já trazia a conclusão e "aberta" caso contrário.
+ * Perguntas do checklist respondidas como Conforme ou N/A não geram ação.
+ */
+export function buildTrackedActions(records: InspectionRecord[], log: ActionLogEntry[]): TrackedAction[] {
+  const updatesByAction = new Map<string, ActionUpdate[]>();
+  log.forEach(entry => {
+    const key = actionKey(entry.inspectionId, entry.item);
+    updatesByAction.set(key, [...(updatesByAction.get(key) || []), entry.update]);
+  });
+
+  return records.flatMap(record =>
+    record.itens.flatMap((item, index): TrackedAction[] => {
+      if (item.resposta && item.resposta !== CHECKLIST_ANSWER_LABELS.nao_conforme) return [];
+
+      const historico = (updatesByAction.get(actionKey(record.inspectionId, index + 1)) || [])
+        .sort((a, b) => a.registradoEm.localeCompare(b.registradoEm));
+      const latest = historico[historico.length - 1];
+      const latestConclusao = [...historico].reverse().find(update => update.conclusao)?.conclusao;
+
+      return [{
+        inspectionId: record.inspectionId,
+        item: index + 1,
+        data: record.data,
+        unidade: record.unidade,
+        local: record.local,
+        departamento: record.departamento,
+        fato: item.fato,
+        recomendacoes: item.recomendacoes,
+        prazo: item.prazo,
+        responsavel: item.responsavel,
+        responsavelEmail: item.responsavelEmail,
+        conclusao: latestConclusao || item.conclusao,
+        status: latest ? latest.status : item.conclusao ? 'concluida' : 'aberta',
+        atualizadoEm: latest ? latest.registradoEm : null,
+        historico,
+      }];
+    })
+  );
+}
+
+/**
+ * Todas as ações das inspeções registradas, com a situação atual (leituras em cache, como o histórico)
+ */
+export async function listTrackedActions(): Promise<TrackedAction[]> {
+  const [records, log] = await Promise.all([listInspectionRecords(), actionLogCache.get()]);
+  return buildTrackedActions(records, log);
+}
+
+export async function getInspectionActions(inspectionId: string): Promise<TrackedAction[]> {
+  const actions = await listTrackedActions();
+  return actions.filter(action => action.inspectionId === inspectionId);
+}
+
+/**
+ * Ordena pelo prazo, do mais próximo (ou mais atrasado) ao mais distante; ações sem prazo vão para o fim
+ */
+export function sortActionsByDeadline(actions: TrackedAction[]): TrackedAction[] {
+  return [...actions].sort((a, b) => {
+    if (a.prazo !== b.prazo) {
+      if (!a.prazo) return 1;
+      if (!b.prazo) return -1;
+      return a.prazo.localeCompare(b.prazo);
+    }
+    return a.inspectionId.localeCompare(b.inspectionId) || a.item - b.item;
+  });
+}
+
+/**
+ * Registra uma atualização na aba "Ações" e descarta o cache para que ela apareça em seguida
+ */
+export async function appendActionUpdate(inspectionId: string, item: number, update: ActionUpdate): Promise<void> {
+  const context = getSheetsContext();
+  await ensureSheetTab(context, ACTIONS_SHEET_TITLE, ACTIONS_HEADERS);
+
+  // RAW: o texto fica como foi digitado (sem virar fórmula ou data)
+  await context.sheets.spreadsheets.values.append({
+    spreadsheetId: context.spreadsheetId,
+    range: ACTIONS_RANGE,
+    valueInputOption: 'RAW',
+    requestBody: {
+      values: [[
+        inspectionId,
+        item,
+        update.registradoEm,
+        ACTION_STATUS_LABELS[update.status],
+        update.comentario,
+        update.conclusao,
+        update.autor,
+        formatActionPhotos(update.fotos),
+      ]],
+    },
+  });
+  actionLogCache.invalidate();
+  console.log(`✅ Ação ${inspectionId} #${item} atualizada: ${ACTION_STATUS_LABELS[update.status]}`);
+}
@@ -0,0 +1,52 @@
+// Cache em memória das leituras da planilha
+
+const DEFAULT_CACHE_TTL_SECONDS = 60;
+
+const getCacheTtlMs = () => {
+  const seconds = Number(process.env.SHEETS_CACHE_TTL_SECONDS);
+  return (Number.isFinite(seconds) && seconds >= 0 ? seconds : DEFAULT_CACHE_TTL_SECONDS) * 1000;
+};
+
+export interface SheetCache<T> {
+  get: () => Promise<T>;
+  invalidate: () => void;
+}
+
+/**
+ * Guarda o resultado de `read` por SHEETS_CACHE_TTL_SECONDS (padrão 60 s);
+ * chamadas simultâneas compartilham a mesma leitura.
+ * Uma leitura iniciada antes de `invalidate` não é reaproveitada nem grava o cache: pode ter lido a planilha antes da alteração.
+ */
+export function createSheetCache<T>(read: () => Promise<T>): SheetCache<T> {
+  let cache: { value: T; fetchedAt: number } | null = null;
+  let pendingRead: Promise<T> | null = null;
+  // Incrementada a cada invalidate; a leitura só grava o cache se ainda for da geração atual
+  let generation = 0;
+
+  return {
+    get: async () => {
+      if (cache && Date.now() - cache.fetchedAt < getCacheTtlMs()) {
+        return cache.value;
+      }
+
+      if (!pendingRead) {
+        const readGeneration = generation;
+        const current: Promise<T> = read()
+          .then(value => {
+            if (readGeneration === generation) cache = { value, fetchedAt: Date.now() };
+            return value;
+          })
+          .finally(() => {
+            if (pendingRead === current) pendingRead = null;
+          });
+        pendingRead = current;
+      }
+      return pendingRead;
+    },
+    invalidate: () => {
+      generation++;
+      cache = null;
+      pendingRead = null;
+    },
+  };
+}
@@ -0,0 +1,40 @@
+// Conversão das células lidas com UNFORMATTED_VALUE e datas como número serial
+
+export type SheetCell = string | number | boolean | null | undefined;
+
+// Dia zero das datas seriais do Sheets
+const SHEETS_EPOCH_MS = Date.UTC(1899, 11, 30);
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const cellText = (value: SheetCell) => (value === null || value === undefined ? '' : String(value).trim());
+
+/**
+ * Converte a célula de data em AAAA-MM-DD. O Sheets interpreta "2026-10-19" como data,
+ * então a célula pode vir como número serial ou como texto (AAAA-MM-DD ou DD/MM/AAAA).
+ */
+export function parseSheetDate(value: SheetCell): string {
+  if (typeof value === 'number') {
+    return new Date(SHEETS_EPOCH_MS + Math.floor(value) * DAY_MS).toISOString().slice(0, 10);
+  }
+  const text = cellText(value);
+  const iso = /^(\d{4})-(\d{2})-(\d{2})/.exec(text);
+  if (iso) return `${iso[1]}-${iso[2]}-${iso[3]}`;
+  const br = /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/.exec(text);
+  if (br) return `${br[3]}-${br[2].padStart(2, '0')}-${br[1].padStart(2, '0')}`;
+  return '';
+}
+
+/**
+ * Converte a célula de hora em HH:MM (fração do dia quando o Sheets reconhece o horário)
+ */
+export function parseSheetTime(value: SheetCell): string {
+  if (typeof value === 'number') {
+    const minutes = Math.round((value % 1) * 24 * 60);
+    return `${String(Math.floor(minutes / 60) % 24).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+  }
+  const match = /^(\d{1,2}):(\d{2})/.exec(cellText(value));
+  return match ? `${match[1].padStart(2, '0')}:${match[2]}` : cellText(value);
+}
+
+export const normalizeText = (value: string) =>
+  value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').trim().toLowerCase();
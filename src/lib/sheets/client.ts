@@ -0,0 +1,79 @@
+import { google, sheets_v4 } from 'googleapis';
+
+// Acesso à planilha de controle das inspeções (Google Sheets)
+
+/** Aba e intervalo onde /api/submit grava uma linha por item de inspeção */
+export const MAPA_DE_CONTROLE_SHEET_TITLE = 'Mapa de Controle';
+export const MAPA_DE_CONTROLE_RANGE = `${MAPA_DE_CONTROLE_SHEET_TITLE}!A:AI`;
+
+/** Aba com o histórico das atualizações das ações corretivas (uma linha por atualização) */
+export const ACTIONS_SHEET_TITLE = 'Ações';
+export const ACTIONS_RANGE = `${ACTIONS_SHEET_TITLE}!A:H`;
+
+export interface SheetsContext {
+  sheets: sheets_v4.Sheets;
+  spreadsheetId: string;
+}
+
+/**
+ * Monta o cliente autenticado do Google Sheets a partir das variáveis de ambiente.
+ * Lança erro com o nome da variável que estiver faltando.
+ */
+export function getSheetsContext(): SheetsContext {
+  const privateKey = process.env.GOOGLE_PRIVATE_KEY;
+  if (!privateKey) {
+    console.log("❌ GOOGLE_PRIVATE_KEY não encontrada");
+    throw new Error('GOOGLE_PRIVATE_KEY não encontrada');
+  }
+
+  const clientEmail = process.env.GOOGLE_CLIENT_EMAIL;
+  if (!clientEmail) {
+    console.log("❌ GOOGLE_CLIENT_EMAIL não encontrada");
+    throw new Error('GOOGLE_CLIENT_EMAIL não encontrada');
+  }
+
+  const spreadsheetId = process.env.GOOGLE_SHEET_ID;
+  if (!spreadsheetId) {
+    console.log("❌ GOOGLE_SHEET_ID não encontrada");
+    throw new Error('GOOGLE_SHEET_ID não encontrada');
+  }
+
+  const auth = new google.auth.GoogleAuth({
+    credentials: {
+      client_email: clientEmail,
+      private_key: privateKey.replace(/\\n/g, '\n'),
+    },
+    scopes: ['https://www.googleapis.com/auth/spreadsheets'],
+  });
+  console.log(`🔐 Autenticação configurada com: ${clientEmail}`);
+
+  return { sheets: google.sheets({ version: 'v4', auth }), spreadsheetId };
+}
+
+// Abas já conferidas neste processo
+const ensuredSheets = new Set<string>();
+
+/**
+ * Cria a aba com a linha de títulos se ela ainda não existir na planilha
+ */
+export async function ensureSheetTab({ sheets, spreadsheetId }: SheetsContext, title: string, headers: string[]): Promise<void> {
+  if (ensuredSheets.has(title)) return;
+
+  const spreadsheet = await sheets.spreadsheets.get({ spreadsheetId, fields: 'sheets.properties.title' });
+  const exists = (spreadsheet.data.sheets || []).some(sheet => sheet.properties?.title === title);
+
+  if (!exists) {
+    console.log(`🆕 Criando a aba "${title}" na planilha...`);
+    await sheets.spreadsheets.batchUpdate({
+      spreadsheetId,
+      requestBody: { requests: [{ addSheet: { properties: { title } } }] },
+    });
+    await sheets.spreadsheets.values.update({
+      spreadsheetId,
+      range: `${title}!A1`,
+      valueInputOption: 'RAW',
+      requestBody: { values: [headers] },
+    });
+  }
+  ensuredSheets.add(title);
+}
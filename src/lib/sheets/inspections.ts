@@ -0,0 +1,216 @@
+import { InspectionFilters, InspectionRecord, InspectionSummary } from '@/types/history';
+import { MAPA_DE_CONTROLE_RANGE, MAPA_DE_CONTROLE_SHEET_TITLE, getSheetsContext } from './client';
+import { createSheetCache } from './cache';
+import { SheetCell, cellText, normalizeText, parseSheetDate, parseSheetTime } from './cells';
+
+// Leitura do histórico de inspeções a partir das linhas gravadas por /api/submit, com cache em memória
+
+// Posição das colunas na ordem em que /api/submit monta cada linha
+const COLUMNS = {
+  inspectionId: 0,
+  data: 1,
+  hora: 2,
+  departamento: 3,
+  encarregado: 4,
+  responsavelQSMS: 5,
+  gerenteContrato: 6,
+  unidade: 7,
+  local: 8,
+  emailCompanhia: 9,
+  participantes: 10,
+  funcoes: 11,
+  fato: 12,
+  recomendacoes: 13,
+  prazo: 14,
+  responsavel: 15,
+  conclusao: 16,
+  evidencias: 17,
+  conclusaoGeral: 18,
+  assinaturaInspecao: 19,
+  assinaturaUnidade: 20,
+  responsavelEmail: 21,
+  tipoAchado: 22,
+  nivelRisco: 25,
+  checklist: 26,
+  pergunta: 27,
+  resposta: 28,
+  enviadoPor: 29,
+  latitude: 30,
+  longitude: 31,
+  precisao: 32,
+};
+
+/**
+ * Coordenadas da inspeção como texto, ex.: "-6.43912, -50.07231 (±12 m)"; vazio em inspeções sem localização
+ */
+function readCoordinates(row: SheetCell[]): string {
+  const latitude = cellText(row[COLUMNS.latitude]);
+  const longitude = cellText(row[COLUMNS.longitude]);
+  if (!latitude || !longitude) return '';
+  const precisao = cellText(row[COLUMNS.precisao]);
+  return `${latitude}, ${longitude}${precisao ? ` (±${precisao} m)` : ''}`;
+}
+
+/**
+ * Agrupa as linhas da planilha (uma por item) em inspeções, da mais recente para a mais antiga
+ */
+export function groupInspectionRows(rows: SheetCell[][]): InspectionRecord[] {
+  const records = new Map<string, InspectionRecord>();
+
+  rows.forEach((row, rowIndex) => {
+    const inspectionId = cellText(row[COLUMNS.inspectionId]);
+    if (!inspectionId) return;
+    // Linha de títulos da planilha
+    if (rowIndex === 0 && !parseSheetDate(row[COLUMNS.data])) return;
+
+    let record = records.get(inspectionId);
+    if (!record) {
+      record = {
+        inspectionId,
+        data: parseSheetDate(row[COLUMNS.data]),
+        hora: parseSheetTime(row[COLUMNS.hora]),
+        departamento: cellText(row[COLUMNS.departamento]),
+        encarregado: cellText(row[COLUMNS.encarregado]),
+        responsavelQSMS: cellText(row[COLUMNS.responsavelQSMS]),
+        gerenteContrato: cellText(row[COLUMNS.gerenteContrato]),
+        unidade: cellText(row[COLUMNS.unidade]),
+        local: cellText(row[COLUMNS.local]),
+        emailCompanhia: cellText(row[COLUMNS.emailCompanhia]),
+        participantes: cellText(row[COLUMNS.participantes]),
+        funcoes: cellText(row[COLUMNS.funcoes]),
+        conclusaoGeral: cellText(row[COLUMNS.conclusaoGeral]),
+        checklist: cellText(row[COLUMNS.checklist]),
+        enviadoPor: cellText(row[COLUMNS.enviadoPor]),
+        coordenadas: readCoordinates(row),
+        itens: [],
+      };
+      records.set(inspectionId, record);
+    }
+
+    // Inspeções sem itens gravam uma linha de marcação com fato "N/A"; perguntas do checklist podem não ter fato
+    const fato = cellText(row[COLUMNS.fato]);
+    const pergunta = cellText(row[COLUMNS.pergunta]);
+    if (pergunta || (fato && fato !== 'N/A')) {
+      record.itens.push({
+        pergunta,
+        resposta: cellText(row[COLUMNS.resposta]),
+        fato,
+        recomendacoes: cellText(row[COLUMNS.recomendacoes]),
+        prazo: parseSheetDate(row[COLUMNS.prazo]),
+        responsavel: cellText(row[COLUMNS.responsavel]),
+        responsavelEmail: cellText(row[COLUMNS.responsavelEmail]),
+        tipoAchado: cellText(row[COLUMNS.tipoAchado]),
+        nivelRisco: cellText(row[COLUMNS.nivelRisco]),
+        conclusao: cellText(row[COLUMNS.conclusao]),
+        evidencias: cellText(row[COLUMNS.evidencias]),
+      });
+    }
+  });
+
+  return [...records.values()].sort((a, b) =>
+    `${b.data} ${b.hora}`.localeCompare(`${a.data} ${a.hora}`) || b.inspectionId.localeCompare(a.inspectionId)
+  );
+}
+
+async function readInspectionRecords(): Promise<InspectionRecord[]> {
+  const { sheets, spreadsheetId } = getSheetsContext();
+  console.log("📖 Lendo histórico de inspeções do Google Sheets...");
+
+  const response = await sheets.spreadsheets.values.get({
+    spreadsheetId,
+    range: MAPA_DE_CONTROLE_RANGE,
+    valueRenderOption: 'UNFORMATTED_VALUE',
+    dateTimeRenderOption: 'SERIAL_NUMBER',
+  });
+
+  const records = groupInspectionRows((response.data.values || []) as SheetCell[][]);
+  console.log(`✅ ${records.length} inspeções lidas da planilha`);
+  return records;
+}
+
+const inspectionCache = createSheetCache(readInspectionRecords);
+
+/**
+ * Inspeções registradas na planilha. As leituras ficam em cache por SHEETS_CACHE_TTL_SECONDS (padrão 60 s)
+ * e requisições simultâneas compartilham a mesma leitura.
+ */
+export function listInspectionRecords(): Promise<InspectionRecord[]> {
+  return inspectionCache.get();
+}
+
+/**
+ * Descarta o cache, para que um relatório recém-enviado apareça no histórico
+ */
+export function invalidateInspectionCache(): void {
+  inspectionCache.invalidate();
+}
+
+// Letra da coluna no formato A1 (0 → A, 20 → U, 29 → AD)
+const columnLetter = (index: number): string =>
+  (index >= 26 ? columnLetter(Math.floor(index / 26) - 1) : '') + String.fromCharCode(65 + (index % 26));
+
+/**
+ * Grava a assinatura do responsável da unidade em todas as linhas da inspeção (assinatura remota recebida depois do envio).
+ * Devolve quantas linhas foram atualizadas.
+ */
+export async function updateUnitSignatureCell(inspectionId: string, value: string): Promise<number> {
+  const { sheets, spreadsheetId } = getSheetsContext();
+  const column = columnLetter(COLUMNS.assinaturaUnidade);
+
+  const response = await sheets.spreadsheets.values.get({
+    spreadsheetId,
+    range: `${MAPA_DE_CONTROLE_SHEET_TITLE}!A:A`,
+  });
+  const rowNumbers = ((response.data.values || []) as SheetCell[][])
+    .map((row, index) => (cellText(row[0]) === inspectionId ? index + 1 : null))
+    .filter((rowNumber): rowNumber is number => rowNumber !== null);
+
+  if (rowNumbers.length === 0) return 0;
+
+  await sheets.spreadsheets.values.batchUpdate({
+    spreadsheetId,
+    requestBody: {
+      valueInputOption: 'USER_ENTERED',
+      data: rowNumbers.map(rowNumber => ({ range: `${MAPA_DE_CONTROLE_SHEET_TITLE}!${column}${rowNumber}`, values: [[value]] })),
+    },
+  });
+  invalidateInspectionCache();
+  console.log(`✅ Assinatura da unidade gravada em ${rowNumbers.length} linha(s) de ${inspectionId}`);
+  return rowNumbers.length;
+}
+
+export async function getInspectionRecord(inspectionId: string): Promise<InspectionRecord | null> {
+  const records = await listInspectionRecords();
+  return records.find(record => record.inspectionId === inspectionId) || null;
+}
+
+/**
+ * Aplica os filtros do histórico; a busca livre considera o cabeçalho e os textos dos itens
+ */
+export function filterInspections(records: InspectionRecord[], filters: InspectionFilters): InspectionRecord[] {
+  const matches = (value: string, filter?: string) => !filter || normalizeText(value) === normalizeText(filter);
+  const terms = normalizeText(filters.q || '').split(/\s+/).filter(Boolean);
+
+  return records.filter(record => {
+    if (!matches(record.unidade, filters.unidade)) return false;
+    if (!matches(record.departamento, filters.departamento)) return false;
+    if (!matches(record.local, filters.local)) return false;
+    if (filters.de && record.data < filters.de) return false;
+    if (filters.ate && record.data > filters.ate) return false;
+
+    if (terms.length > 0) {
+      const haystack = normalizeText([
+        record.inspectionId, record.departamento, record.encarregado, record.responsavelQSMS, record.gerenteContrato,
+        record.unidade, record.local, record.participantes, record.conclusaoGeral,
+        record.checklist,
+        ...record.itens.flatMap(item => [item.pergunta, item.fato, item.recomendacoes, item.responsavel, item.conclusao]),
+      ].join(' '));
+      if (!terms.every(term => haystack.includes(term))) return false;
+    }
+    return true;
+  });
+}
+
+export function toInspectionSummary({ itens, ...record }: InspectionRecord): InspectionSummary {
+  return { ...record, itemCount: itens.length };
+}
@@ -0,0 +1,100 @@
+import { Storage } from '@google-cloud/storage';
+import { StorageBackend, UPLOAD_URL_TTL_SECONDS } from './types';
+
+interface GcsConfig {
+  projectId: string;
+  bucketName: string;
+  clientEmail?: string;
+  privateKey?: string;
+}
+
+/**
+ * Backend Google Cloud Storage (comportamento original do app)
+ */
+export function createGcsStorage(config: GcsConfig): StorageBackend {
+  const storage = new Storage({
+    projectId: config.projectId,
+    credentials: {
+      client_email: config.clientEmail,
+      private_key: config.privateKey?.replace(/\\n/g, '\n'),
+    }
+  });
+  const bucket = storage.bucket(config.bucketName);
+
+  const publicUrlFor = (key: string) => `https://storage.googleapis.com/${config.bucketName}/${key}`;
+
+  return {
+    name: 'gcs',
+
+    async upload(key, data, contentType) {
+      console.log(`📤 Fazendo upload para Cloud Storage: gs://${config.bucketName}/${key}`);
+
+      await bucket.file(key).save(data, {
+        metadata: {
+          contentType,
+          cacheControl: 'public, max-age=31536000',
+        },
+      });
+
+      return publicUrlFor(key);
+    },
+
+    async createUploadTarget(key, contentType, size) {
+      const expires = Date.now() + UPLOAD_URL_TTL_SECONDS * 1000;
+      // O intervalo de tamanho entra na assinatura: o GCS recusa arquivos diferentes do anunciado.
+      // Geração 0: a URL só cria o objeto; se ele já existir, o GCS responde 412 sem substituí-lo
+      const headers = {
+        'Content-Type': contentType,
+        'x-goog-content-length-range': `${size},${size}`,
+        'x-goog-if-generation-match': '0',
+      };
+
+      const [url] = await bucket.file(key).getSignedUrl({
+        version: 'v4',
+        action: 'write',
+        expires,
+        contentType,
+        extensionHeaders: {
+          'x-goog-content-length-range': headers['x-goog-content-length-range'],
+          'x-goog-if-generation-match': headers['x-goog-if-generation-match'],
+        },
+      });
+
+      return { method: 'PUT', url, headers, expiresAt: new Date(expires).toISOString() };
+    },
+
+    async read(key) {
+      const file = bucket.file(key);
+      try {
+        const [[data], [metadata]] = await Promise.all([file.download(), file.getMetadata()]);
+        return { data, contentType: metadata.contentType || 'application/octet-stream' };
+      } catch (error) {
+        if ((error as { code?: number }).code === 404) return null;
+        throw error;
+      }
+    },
+
+    getPublicUrl: publicUrlFor,
+
+    async testConnection() {
+      console.log("📋 Teste 1: Verificando acesso ao projeto...");
+      const [buckets] = await storage.getBuckets();
+      console.log("✅ Teste 1 PASSOU:", {
+        projeto: config.projectId,
+        bucketsEncontrados: buckets.length,
+        primeirosBuckets: buckets.slice(0, 3).map((b) => b.name)
+      });
+
+      console.log("📋 Teste 2: Verificando bucket específico...");
+      const [exists] = await bucket.exists();
+
+      if (!exists) {
+        console.log(`⚠️ Bucket ${config.bucketName} não existe, mas pode ser criado automaticamente`);
+      } else {
+        console.log("✅ Teste 2 PASSOU:", { bucketName: config.bucketName, exists: true });
+      }
+
+      return true;
+    },
+  };
+}
@@ -0,0 +1,75 @@
+import { createGcsStorage } from './gcs';
+import { createLocalStorage } from './local';
+import { createS3Storage } from './s3';
+import { StorageBackend, StorageBackendName } from './types';
+
+export type { StorageBackend, StorageBackendName, StoredObject, UploadResult, UploadTarget } from './types';
+export { UPLOAD_URL_TTL_SECONDS, getStorageErrorMessage } from './types';
+
+export const DEFAULT_LOCAL_STORAGE_DIR = './storage';
+
+let cachedBackend: StorageBackend | null = null;
+
+/**
+ * Diretório usado pelo backend local (também lido pela rota que serve os arquivos)
+ */
+export function getLocalStorageDir(): string {
+  return process.env.STORAGE_LOCAL_DIR || DEFAULT_LOCAL_STORAGE_DIR;
+}
+
+/**
+ * Monta o backend escolhido em STORAGE_BACKEND (gcs, local ou s3). Sem a variável, usa o Google Cloud Storage.
+ * Lança erro se a configuração do backend escolhido estiver incompleta.
+ */
+export function getStorageBackend(): StorageBackend {
+  if (cachedBackend) return cachedBackend;
+
+  const name = (process.env.STORAGE_BACKEND || 'gcs').toLowerCase() as StorageBackendName;
+
+  switch (name) {
+    case 'gcs': {
+      const projectId = process.env.GOOGLE_CLOUD_PROJECT_ID;
+      const bucketName = process.env.GOOGLE_CLOUD_STORAGE_BUCKET;
+      if (!projectId || !bucketName) {
+        throw new Error('Configurações do Google Cloud Storage não encontradas nas variáveis de ambiente');
+      }
+      cachedBackend = createGcsStorage({
+        projectId,
+        bucketName,
+        clientEmail: process.env.GOOGLE_CLIENT_EMAIL,
+        privateKey: process.env.GOOGLE_PRIVATE_KEY,
+      });
+      break;
+    }
+
+    case 'local':
+      cachedBackend = createLocalStorage({
+        rootDir: getLocalStorageDir(),
+        publicBaseUrl: process.env.STORAGE_PUBLIC_BASE_URL || process.env.APP_BASE_URL || 'http://localhost:3000',
+      });
+      break;
+
+    case 's3': {
+      const bucketName = process.env.S3_BUCKET;
+      if (!bucketName) {
+        throw new Error('S3_BUCKET não encontrada nas variáveis de ambiente');
+      }
+      cachedBackend = createS3Storage({
+        bucketName,
+        region: process.env.S3_REGION || 'us-east-1',
+        endpoint: process.env.S3_ENDPOINT,
+        accessKeyId: process.env.S3_ACCESS_KEY_ID,
+        secretAccessKey: process.env.S3_SECRET_ACCESS_KEY,
+        forcePathStyle: process.env.S3_FORCE_PATH_STYLE === 'true',
+        publicBaseUrl: process.env.STORAGE_PUBLIC_BASE_URL,
+      });
+      break;
+    }
+
+    default:
+      throw new Error(`STORAGE_BACKEND desconhecido: ${name} (use gcs, local ou s3)`);
+  }
+
+  console.log(`🗄️ Backend de armazenamento: ${cachedBackend.name}`);
+  return cachedBackend;
+}
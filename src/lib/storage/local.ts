@@ -0,0 +1,142 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { StorageBackend, UPLOAD_URL_TTL_SECONDS } from './types';
+import { createUploadToken } from './uploadToken';
+
+interface LocalConfig {
+  rootDir: string;
+  publicBaseUrl: string;
+}
+
+/** Tamanho das partes aceitas pela rota de envio local (abaixo dos limites de corpo das plataformas) */
+export const LOCAL_UPLOAD_CHUNK_SIZE = 1024 * 1024;
+
+const CONTENT_TYPES: { [extension: string]: string } = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.webp': 'image/webp',
+  '.pdf': 'application/pdf',
+};
+
+/**
+ * Tipo MIME de um arquivo local, deduzido pela extensão
+ */
+export function getLocalContentType(filePath: string): string {
+  return CONTENT_TYPES[path.extname(filePath).toLowerCase()] || 'application/octet-stream';
+}
+
+/**
+ * Converte a chave do objeto em um caminho dentro do diretório raiz, recusando "..", caminhos absolutos etc.
+ */
+export function resolveLocalPath(rootDir: string, key: string): string | null {
+  const root = path.resolve(rootDir);
+  const target = path.resolve(root, key);
+  if (!target.startsWith(root + path.sep)) return null;
+  return target;
+}
+
+const encodeKey = (key: string) => key.split('/').map(encodeURIComponent).join('/');
+
+/**
+ * Grava uma parte de um envio em andamento (arquivo ".part") e devolve quantos bytes já foram recebidos.
+ * Se `start` não coincidir com o que já está gravado, nada é escrito e o cliente retoma a partir do valor devolvido.
+ * Ao completar `total` bytes o arquivo é movido para o caminho final.
+ * Um arquivo já completo não é substituído: nada é escrito e o envio é dado como recebido.
+ */
+export async function writeLocalChunk(filePath: string, start: number, data: Buffer, total: number): Promise<number> {
+  const partPath = `${filePath}.part`;
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+
+  try {
+    await fs.access(filePath);
+    return total;
+  } catch {
+    // Ainda não existe: segue com a gravação da parte
+  }
+
+  let received = 0;
+  try {
+    received = (await fs.stat(partPath)).size;
+  } catch {
+    received = 0;
+  }
+
+  if (start !== received || start + data.length > total) return received;
+
+  await fs.appendFile(partPath, data);
+  received += data.length;
+
+  if (received === total) {
+    // link falha se o destino já existir, ao contrário de rename
+    try {
+      await fs.link(partPath, filePath);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+    }
+    await fs.unlink(partPath);
+  }
+  return received;
+}
+
+/**
+ * Backend em disco local, servido pela rota /api/storage/[...key]
+ */
+export function createLocalStorage(config: LocalConfig): StorageBackend {
+  const publicUrlFor = (key: string) => `${config.publicBaseUrl.replace(/\/$/, '')}/api/storage/${encodeKey(key)}`;
+
+  return {
+    name: 'local',
+
+    async upload(key, data, contentType) {
+      const filePath = resolveLocalPath(config.rootDir, key);
+      if (!filePath) {
+        throw new Error(`Chave de armazenamento inválida: ${key}`);
+      }
+
+      console.log(`📤 Gravando arquivo local: ${filePath} (${contentType})`);
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(filePath, data);
+
+      return publicUrlFor(key);
+    },
+
+    async createUploadTarget(key, contentType, size) {
+      if (!resolveLocalPath(config.rootDir, key)) {
+        throw new Error(`Chave de armazenamento inválida: ${key}`);
+      }
+
+      const expiresAt = Date.now() + UPLOAD_URL_TTL_SECONDS * 1000;
+      const token = createUploadToken({ key, contentType, size, expiresAt });
+
+      // URL relativa: o navegador envia para a mesma origem do app, em partes
+      return {
+        method: 'PUT',
+        url: `/api/storage/${encodeKey(key)}?token=${encodeURIComponent(token)}`,
+        headers: { 'Content-Type': contentType },
+        chunkSize: LOCAL_UPLOAD_CHUNK_SIZE,
+        expiresAt: new Date(expiresAt).toISOString(),
+      };
+    },
+
+    async read(key) {
+      const filePath = resolveLocalPath(config.rootDir, key);
+      if (!filePath) return null;
+      try {
+        return { data: await fs.readFile(filePath), contentType: getLocalContentType(filePath) };
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+        throw error;
+      }
+    },
+
+    getPublicUrl: publicUrlFor,
+
+    async testConnection() {
+      await fs.mkdir(config.rootDir, { recursive: true });
+      await fs.access(config.rootDir, fs.constants.W_OK);
+      console.log(`✅ Diretório de armazenamento local acessível: ${path.resolve(config.rootDir)}`);
+      return true;
+    },
+  };
+}
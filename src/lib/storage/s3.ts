@@ -0,0 +1,104 @@
+import { GetObjectCommand, HeadBucketCommand, NoSuchKey, PutObjectCommand, S3Client } from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import { StorageBackend, UPLOAD_URL_TTL_SECONDS } from './types';
+
+interface S3Config {
+  bucketName: string;
+  region: string;
+  endpoint?: string;
+  accessKeyId?: string;
+  secretAccessKey?: string;
+  forcePathStyle: boolean;
+  publicBaseUrl?: string;
+}
+
+/**
+ * Backend S3 compatível (AWS S3, MinIO, etc.)
+ */
+export function createS3Storage(config: S3Config): StorageBackend {
+  const client = new S3Client({
+    region: config.region,
+    endpoint: config.endpoint,
+    forcePathStyle: config.forcePathStyle,
+    // Sem isso o SDK inclui na URL pré-assinada o checksum de um corpo vazio e o envio direto falha
+    requestChecksumCalculation: 'WHEN_REQUIRED',
+    credentials: config.accessKeyId && config.secretAccessKey
+      ? { accessKeyId: config.accessKeyId, secretAccessKey: config.secretAccessKey }
+      : undefined,
+  });
+
+  // URL pública: base configurada, ou endpoint/bucket (path style, ex.: MinIO), ou o padrão da AWS
+  const publicUrlFor = (key: string) => {
+    if (config.publicBaseUrl) {
+      return `${config.publicBaseUrl.replace(/\/$/, '')}/${key}`;
+    }
+    if (config.endpoint) {
+      const endpoint = config.endpoint.replace(/\/$/, '');
+      return config.forcePathStyle
+        ? `${endpoint}/${config.bucketName}/${key}`
+        : endpoint.replace('://', `://${config.bucketName}.`) + `/${key}`;
+    }
+    return `https://${config.bucketName}.s3.${config.region}.amazonaws.com/${key}`;
+  };
+
+  return {
+    name: 's3',
+
+    async upload(key, data, contentType) {
+      console.log(`📤 Fazendo upload para S3: s3://${config.bucketName}/${key}`);
+
+      await client.send(new PutObjectCommand({
+        Bucket: config.bucketName,
+        Key: key,
+        Body: data,
+        ContentType: contentType,
+        CacheControl: 'public, max-age=31536000',
+      }));
+
+      return publicUrlFor(key);
+    },
+
+    async createUploadTarget(key, contentType, size) {
+      const command = new PutObjectCommand({
+        Bucket: config.bucketName,
+        Key: key,
+        ContentType: contentType,
+        ContentLength: size,
+        CacheControl: 'public, max-age=31536000',
+        // Só cria o objeto; se ele já existir, o S3 responde 412 sem substituí-lo
+        IfNoneMatch: '*',
+      });
+      // Tipo e tamanho ficam na assinatura, como cabeçalhos que o navegador precisa repetir
+      const url = await getSignedUrl(client, command, {
+        expiresIn: UPLOAD_URL_TTL_SECONDS,
+        signableHeaders: new Set(['content-type', 'content-length', 'cache-control', 'if-none-match']),
+      });
+
+      return {
+        method: 'PUT',
+        url,
+        headers: { 'Content-Type': contentType, 'Cache-Control': 'public, max-age=31536000', 'If-None-Match': '*' },
+        expiresAt: new Date(Date.now() + UPLOAD_URL_TTL_SECONDS * 1000).toISOString(),
+      };
+    },
+
+    async read(key) {
+      try {
+        const result = await client.send(new GetObjectCommand({ Bucket: config.bucketName, Key: key }));
+        const data = Buffer.from(await result.Body!.transformToByteArray());
+        return { data, contentType: result.ContentType || 'application/octet-stream' };
+      } catch (error) {
+        if (error instanceof NoSuchKey) return null;
+        throw error;
+      }
+    },
+
+    getPublicUrl: publicUrlFor,
+
+    async testConnection() {
+      await client.send(new HeadBucketCommand({ Bucket: config.bucketName }));
+      console.log(`✅ Bucket S3 acessível: ${config.bucketName}`);
+      return true;
+    },
+  };
+}
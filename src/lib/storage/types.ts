@@ -0,0 +1,56 @@
+// Contrato comum dos backends de armazenamento de evidências e assinaturas
+
+export interface UploadResult {
+  url: string;
+  success: boolean;
+  error?: string;
+}
+
+export type StorageBackendName = 'gcs' | 'local' | 's3';
+
+/** Validade das URLs de envio direto */
+export const UPLOAD_URL_TTL_SECONDS = 15 * 60;
+
+/** Destino para o navegador enviar um arquivo direto ao armazenamento, sem passar por /api/submit */
+export interface UploadTarget {
+  method: 'PUT';
+  url: string;
+  /** Cabeçalhos que o navegador deve enviar exatamente como estão (fazem parte da assinatura) */
+  headers: { [name: string]: string };
+  /** Presente quando o destino aceita o arquivo em partes (Content-Range), permitindo retomar o envio */
+  chunkSize?: number;
+  expiresAt: string;
+}
+
+export interface StoredObject {
+  data: Buffer;
+  contentType: string;
+}
+
+export interface StorageBackend {
+  name: StorageBackendName;
+  /** Grava o objeto e devolve a URL pública para planilha, PDF e e-mail */
+  upload(key: string, data: Buffer, contentType: string): Promise<string>;
+  /** Gera um destino de envio de curta duração para um objeto de tipo e tamanho conhecidos */
+  createUploadTarget(key: string, contentType: string, size: number): Promise<UploadTarget>;
+  /** Lê um objeto já gravado; devolve null se ele não existir */
+  read(key: string): Promise<StoredObject | null>;
+  /** URL pública de um objeto, a mesma devolvida por upload() */
+  getPublicUrl(key: string): string;
+  /** Verifica se o backend está acessível com a configuração atual */
+  testConnection(): Promise<boolean>;
+}
+
+/**
+ * Extrai a mensagem de erro dos formatos usados pelos SDKs de armazenamento
+ */
+export function getStorageErrorMessage(error: unknown): string {
+  if (error instanceof Error) {
+    return error.message;
+  }
+  if (typeof error === 'object' && error !== null) {
+    const sdkError = error as { errors?: { message?: string }[]; message?: string };
+    return sdkError.errors?.[0]?.message || sdkError.message || JSON.stringify(error);
+  }
+  return 'Erro desconhecido durante o upload.';
+}
@@ -0,0 +1,51 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+// Tokens das URLs de envio do backend local: autorizam gravar uma chave, com tipo e tamanho fixos, até expirar
+
+export interface UploadGrant {
+  key: string;
+  contentType: string;
+  size: number;
+  expiresAt: number;
+}
+
+let fallbackSecret: string | null = null;
+
+function getSigningSecret(): string {
+  if (process.env.UPLOAD_SIGNING_SECRET) return process.env.UPLOAD_SIGNING_SECRET;
+  if (!fallbackSecret) {
+    console.log('⚠️ UPLOAD_SIGNING_SECRET não definida; usando segredo temporário (URLs de envio expiram ao reiniciar o servidor)');
+    fallbackSecret = randomBytes(32).toString('hex');
+  }
+  return fallbackSecret;
+}
+
+const sign = (payload: string) => createHmac('sha256', getSigningSecret()).update(payload).digest('base64url');
+
+/**
+ * Gera o token assinado para a URL de envio
+ */
+export function createUploadToken(grant: UploadGrant): string {
+  const payload = Buffer.from(JSON.stringify(grant)).toString('base64url');
+  return `${payload}.${sign(payload)}`;
+}
+
+/**
+ * Valida o token e devolve a autorização; null se a assinatura não confere, expirou ou é de outra chave
+ */
+export function verifyUploadToken(token: string, key: string): UploadGrant | null {
+  const [payload, signature] = token.split('.');
+  if (!payload || !signature) return null;
+
+  const expected = Buffer.from(sign(payload));
+  const received = Buffer.from(signature);
+  if (expected.length !== received.length || !timingSafeEqual(expected, received)) return null;
+
+  try {
+    const grant = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8')) as UploadGrant;
+    if (grant.key !== key || grant.expiresAt < Date.now()) return null;
+    return grant;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,58 @@
+import { z } from 'zod';
+import { FieldError, MAX_PHOTOS_PER_ITEM, inspectionPhotoSchema, optionalText } from './submitSchema';
+
+// Schema das atualizações de ações corretivas (POST /api/inspections/[id]/actions/[item])
+
+export const ACTION_STATUSES = ['aberta', 'em_andamento', 'concluida', 'verificada'] as const;
+export type ActionStatus = typeof ACTION_STATUSES[number];
+
+export const ACTION_STATUS_LABELS: { [status in ActionStatus]: string } = {
+  aberta: 'Aberta',
+  em_andamento: 'Em andamento',
+  concluida: 'Concluída',
+  verificada: 'Verificada',
+};
+
+/** Situações que ainda aparecem no quadro de ações pendentes */
+export const PENDING_ACTION_STATUSES: ActionStatus[] = ['aberta', 'em_andamento'];
+
+// Situações em que a ação está resolvida e precisa de uma conclusão descrita
+const CLOSED_ACTION_STATUSES: ActionStatus[] = ['concluida', 'verificada'];
+
+export const isClosedActionStatus = (status: ActionStatus) => CLOSED_ACTION_STATUSES.includes(status);
+
+export const actionUpdateSchema = z.object({
+  status: z.enum(ACTION_STATUSES, { error: 'Situação inválida' }),
+  comentario: optionalText(2000),
+  conclusao: optionalText(2000),
+  fotos: z.array(inspectionPhotoSchema, { error: 'Lista de fotos inválida' })
+    .max(MAX_PHOTOS_PER_ITEM, `Máximo de ${MAX_PHOTOS_PER_ITEM} fotos por atualização`),
+}, { error: 'Corpo da requisição inválido' }).superRefine((update, ctx) => {
+  if (isClosedActionStatus(update.status) && !update.conclusao) {
+    ctx.addIssue({ code: 'custom', path: ['conclusao'], message: 'Descreva a conclusão para encerrar a ação' });
+  }
+});
+
+export type ActionUpdateInput = z.infer<typeof actionUpdateSchema>;
+
+export type ActionUpdateValidationResult =
+  | { success: true; data: ActionUpdateInput }
+  | { success: false; errors: FieldError[] };
+
+/**
+ * Valida o corpo de uma atualização de ação e devolve os erros com o caminho de cada campo
+ */
+export function validateActionUpdate(input: unknown): ActionUpdateValidationResult {
+  const result = actionUpdateSchema.safeParse(input);
+  if (result.success) {
+    return { success: true, data: result.data };
+  }
+
+  return {
+    success: false,
+    errors: result.error.issues.map(issue => ({
+      path: issue.path.map(String).join('.') || '(corpo)',
+      message: issue.message,
+    })),
+  };
+}
@@ -0,0 +1,86 @@
+import { z } from 'zod';
+import type { FindingType } from '@/lib/risk/matrix';
+
+// Modelos de checklist por tipo de inspeção (arquivos JSON em CHECKLIST_TEMPLATES_DIR) e respostas de cada pergunta
+
+export const CHECKLIST_ANSWERS = ['conforme', 'nao_conforme', 'na'] as const;
+export type ChecklistAnswer = typeof CHECKLIST_ANSWERS[number];
+
+export const CHECKLIST_ANSWER_LABELS: { [answer in ChecklistAnswer]: string } = {
+  conforme: 'Conforme',
+  nao_conforme: 'Não conforme',
+  na: 'N/A',
+};
+
+// Cor do selo da resposta: RGB no PDF e classes na interface
+export const CHECKLIST_ANSWER_COLORS: { [answer in ChecklistAnswer]: { rgb: [number, number, number]; className: string } } = {
+  conforme: { rgb: [21, 128, 61], className: 'bg-green-700 text-white' },
+  nao_conforme: { rgb: [185, 28, 28], className: 'bg-red-700 text-white' },
+  na: { rgb: [107, 114, 128], className: 'bg-gray-500 text-white' },
+};
+
+/** Tipo de achado correspondente à resposta; N/A não gera achado */
+export const FINDING_TYPE_BY_ANSWER: { [answer in ChecklistAnswer]: FindingType | null } = {
+  conforme: 'conformidade',
+  nao_conforme: 'nao_conformidade',
+  na: null,
+};
+
+/** Só a resposta "Não conforme" exige fato, fotos e recomendações */
+export const requiresFindingDetails = (answer: ChecklistAnswer | '' | null) => answer === 'nao_conforme';
+
+const TEMPLATE_ID_PATTERN = /^[a-z0-9-]{1,64}$/;
+
+const templateText = (max: number) =>
+  z.string({ error: 'Campo obrigatório' })
+    .trim()
+    .min(1, 'Campo obrigatório')
+    .max(max, `Máximo de ${max} caracteres`);
+
+export const checklistQuestionSchema = z.object({
+  id: z.string({ error: 'Identificador obrigatório' }).regex(TEMPLATE_ID_PATTERN, 'Use letras minúsculas, números e hífen'),
+  texto: templateText(500),
+  /** Orientação exibida abaixo da pergunta */
+  ajuda: z.string().trim().max(500).optional(),
+}, { error: 'Pergunta inválida' });
+
+export const checklistTemplateSchema = z.object({
+  id: z.string({ error: 'Identificador obrigatório' }).regex(TEMPLATE_ID_PATTERN, 'Use letras minúsculas, números e hífen'),
+  nome: templateText(120),
+  versao: templateText(20),
+  tipoInspecao: templateText(120),
+  descricao: z.string().trim().max(500).optional(),
+  // A ordem do arquivo é a ordem dos itens no formulário
+  perguntas: z.array(checklistQuestionSchema, { error: 'Lista de perguntas inválida' })
+    .min(1, 'O modelo precisa de ao menos uma pergunta')
+    .max(100, 'Máximo de 100 perguntas'),
+}, { error: 'Modelo de checklist inválido' }).superRefine((template, ctx) => {
+  const seen = new Set<string>();
+  template.perguntas.forEach((pergunta, index) => {
+    if (seen.has(pergunta.id)) {
+      ctx.addIssue({ code: 'custom', path: ['perguntas', index, 'id'], message: `Pergunta repetida (${pergunta.id})` });
+    }
+    seen.add(pergunta.id);
+  });
+});
+
+/** Modelo usado no relatório, guardado com ele (nome e versão no momento do preenchimento) */
+export const checklistRefSchema = z.object({
+  id: z.string({ error: 'Identificador obrigatório' }).regex(TEMPLATE_ID_PATTERN, 'Modelo de checklist inválido'),
+  nome: templateText(120),
+  versao: templateText(20),
+}, { error: 'Modelo de checklist inválido' });
+
+export type ChecklistQuestion = z.infer<typeof checklistQuestionSchema>;
+export type ChecklistTemplate = z.infer<typeof checklistTemplateSchema>;
+export type ChecklistRef = z.infer<typeof checklistRefSchema>;
+
+/**
+ * Texto do modelo para a planilha e o PDF, ex.: "Inspeção de EPI (v1.0)"
+ */
+export const formatChecklistRef = (checklist: ChecklistRef) => `${checklist.nome} (v${checklist.versao})`;
+
+// Resposta de GET /api/checklists
+export interface ChecklistTemplateListResponse {
+  templates: ChecklistTemplate[];
+}
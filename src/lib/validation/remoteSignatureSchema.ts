@@ -0,0 +1,41 @@
+import { z } from 'zod';
+import { ALLOWED_SIGNATURE_MIME_TYPES, FieldError, MAX_IMAGE_BYTES, parseDataUrl } from './submitSchema';
+
+// Schema da assinatura enviada pela página pública do link (POST /api/assinaturas/[id])
+
+export const remoteSignatureSchema = z.object({
+  token: z.string({ error: 'Link inválido' }).min(1, 'Link inválido').max(200, 'Link inválido'),
+  // PNG desenhado no canvas, como data URL; pequeno o bastante para ir no próprio corpo
+  assinatura: z.string({ error: 'Assinatura ausente' }).superRefine((value, ctx) => {
+    const parsed = parseDataUrl(value);
+    if (!parsed || !ALLOWED_SIGNATURE_MIME_TYPES.includes(parsed.mimeType)) {
+      ctx.addIssue({ code: 'custom', message: 'A assinatura deve ser uma imagem PNG' });
+    } else if (Buffer.byteLength(parsed.base64, 'base64') > MAX_IMAGE_BYTES) {
+      ctx.addIssue({ code: 'custom', message: `Imagem maior que ${MAX_IMAGE_BYTES / 1024 / 1024} MB` });
+    }
+  }),
+}, { error: 'Corpo da requisição inválido' });
+
+export type RemoteSignatureInput = z.infer<typeof remoteSignatureSchema>;
+
+export type RemoteSignatureValidationResult =
+  | { success: true; data: RemoteSignatureInput }
+  | { success: false; errors: FieldError[] };
+
+/**
+ * Valida o corpo da assinatura remota e devolve os erros com o caminho de cada campo
+ */
+export function validateRemoteSignature(input: unknown): RemoteSignatureValidationResult {
+  const result = remoteSignatureSchema.safeParse(input);
+  if (result.success) {
+    return { success: true, data: result.data };
+  }
+
+  return {
+    success: false,
+    errors: result.error.issues.map(issue => ({
+      path: issue.path.map(String).join('.') || '(corpo)',
+      message: issue.message,
+    })),
+  };
+}
@@ -0,0 +1,259 @@
+import { z } from 'zod';
+import { FINDING_TYPES, RISK_SCALE, requiresRiskAssessment } from '@/lib/risk/matrix';
+import { GEO_SOURCES } from '@/lib/geo/location';
+import { CHECKLIST_ANSWERS, FINDING_TYPE_BY_ANSWER, checklistRefSchema, requiresFindingDetails } from './checklistSchema';
+
+// Schema do corpo recebido por /api/submit; usado no servidor e na checagem prévia do formulário.
+// Fotos e assinaturas chegam como chaves de objetos já enviados ao armazenamento (ver /api/uploads).
+
+export const NOT_SIGNED = 'Não assinado';
+// Assinatura do responsável da unidade solicitada por link enviado por e-mail, ainda não recebida
+export const SIGNATURE_PENDING = 'Assinatura pendente';
+
+export const ALLOWED_PHOTO_MIME_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+export const ALLOWED_SIGNATURE_MIME_TYPES = ['image/png'];
+
+export const MAX_IMAGE_BYTES = 10 * 1024 * 1024;
+
+export type UploadKind = 'evidencia' | 'assinatura';
+
+const UPLOAD_FOLDERS: { [kind in UploadKind]: string } = {
+  evidencia: 'evidencias',
+  assinatura: 'assinaturas',
+};
+
+const UPLOAD_EXTENSIONS: { [mimeType: string]: string } = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+};
+
+// Identificadores locais (rascunho, foto) usados para compor as chaves
+export const LOCAL_ID_PATTERN = /^[A-Za-z0-9-]{1,64}$/;
+const EVIDENCE_KEY_PATTERN = /^evidencias\/[A-Za-z0-9-]{1,64}\/[A-Za-z0-9-]{1,64}\.(jpg|png|webp)$/;
+const SIGNATURE_KEY_PATTERN = /^assinaturas\/[A-Za-z0-9-]{1,64}\/[A-Za-z0-9-]{1,64}\.png$/;
+
+const DATA_URL_PATTERN = /^data:([a-z]+\/[a-z0-9.+-]+);base64,([A-Za-z0-9+/]*={0,2})$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+/**
+ * Separa o tipo MIME e o conteúdo base64 de um data URL (null se o formato for inválido)
+ */
+export function parseDataUrl(value: string): { mimeType: string; base64: string } | null {
+  const match = DATA_URL_PATTERN.exec(value);
+  if (!match) return null;
+  return { mimeType: match[1], base64: match[2] };
+}
+
+/**
+ * Chave do objeto no armazenamento para um arquivo do relatório, ex.: "evidencias/<rascunho>/<foto>.jpg".
+ * Os envios só criam objetos novos, então um arquivo alterado (foto anotada, assinatura refeita) precisa de outro id;
+ * o mesmo arquivo reenviado cai na mesma chave e é aceito como já enviado.
+ */
+export function buildUploadKey(kind: UploadKind, batchId: string, fileId: string, contentType: string): string {
+  return `${UPLOAD_FOLDERS[kind]}/${batchId}/${fileId}.${UPLOAD_EXTENSIONS[contentType] || 'bin'}`;
+}
+
+const isValidDate = (value: string) => {
+  if (!DATE_PATTERN.test(value)) return false;
+  const date = new Date(`${value}T00:00:00Z`);
+  return !Number.isNaN(date.getTime()) && date.toISOString().startsWith(value);
+};
+
+const requiredText = (max: number) =>
+  z.string({ error: 'Campo obrigatório' })
+    .trim()
+    .min(1, 'Campo obrigatório')
+    .max(max, `Máximo de ${max} caracteres`);
+
+export const optionalText = (max: number) =>
+  z.string({ error: 'Deve ser um texto' })
+    .trim()
+    .max(max, `Máximo de ${max} caracteres`);
+
+const dateField = z.string({ error: 'Campo obrigatório' })
+  .refine(isValidDate, 'Data inválida (use AAAA-MM-DD)');
+
+const optionalDateField = z.string({ error: 'Deve ser um texto' })
+  .refine(value => value === '' || isValidDate(value), 'Data inválida (use AAAA-MM-DD)');
+
+/**
+ * Chave de um objeto já enviado ao armazenamento ou, se informado, um valor "vazio" (ex.: 'Não assinado')
+ */
+const uploadedObjectKey = (pattern: RegExp, emptyValue?: string) =>
+  z.string({ error: 'Arquivo inválido' }).refine(
+    value => (emptyValue !== undefined && value === emptyValue) || pattern.test(value),
+    'Referência de arquivo inválida'
+  );
+
+export const headerDataSchema = z.object({
+  departamento: requiredText(120),
+  encarregado: requiredText(120),
+  responsavelQSMS: requiredText(120),
+  gerenteContrato: requiredText(120),
+  unidade: requiredText(120),
+  data: dateField,
+  hora: z.string({ error: 'Campo obrigatório' }).regex(TIME_PATTERN, 'Hora inválida (use HH:MM)'),
+  local: requiredText(200),
+  emailCompanhia: z.string({ error: 'Campo obrigatório' }).trim().max(254, 'Máximo de 254 caracteres').pipe(z.email('E-mail inválido')),
+}, { error: 'Cabeçalho ausente ou inválido' });
+
+export const participantSchema = z.object({
+  nome: requiredText(120),
+  funcao: requiredText(120),
+}, { error: 'Participante inválido' });
+
+// Posição capturada pelo GPS do aparelho, ajustada no mapa ou digitada pelo inspetor
+export const geoLocationSchema = z.object({
+  latitude: z.number({ error: 'Latitude inválida' }).min(-90, 'Latitude inválida').max(90, 'Latitude inválida'),
+  longitude: z.number({ error: 'Longitude inválida' }).min(-180, 'Longitude inválida').max(180, 'Longitude inválida'),
+  // Raio de precisão do GPS, em metros; null quando a posição foi ajustada no mapa ou digitada
+  precisao: z.number({ error: 'Precisão inválida' }).nonnegative('Precisão inválida').nullable(),
+  origem: z.enum(GEO_SOURCES, { error: 'Origem da localização inválida' }),
+  capturadaEm: z.iso.datetime({ error: 'Data da localização inválida' }),
+}, { error: 'Localização inválida' });
+
+export const MAX_PHOTOS_PER_ITEM = 10;
+
+export const inspectionPhotoSchema = z.object({
+  imagem: uploadedObjectKey(EVIDENCE_KEY_PATTERN),
+  legenda: optionalText(200),
+  // Onde o inspetor estava ao anexar a foto; null sem permissão ou sem sinal de GPS
+  localizacao: geoLocationSchema.nullable(),
+  // Foto sem as anotações do inspetor, guardada para auditoria; null quando a foto não foi anotada
+  original: uploadedObjectKey(EVIDENCE_KEY_PATTERN).nullable(),
+}, { error: 'Foto inválida' });
+
+// Probabilidade ou severidade da matriz de risco (1 a 5); null quando não avaliada
+const riskScaleField = z.number({ error: 'Valor inválido' })
+  .int()
+  .refine(value => RISK_SCALE.includes(value), 'Use um valor de 1 a 5')
+  .nullable();
+
+export const inspectionItemSchema = z.object({
+  item: z.number({ error: 'Número do item inválido' }).int().positive(),
+  // Pergunta do modelo de checklist e a resposta; itens livres (sem modelo) têm pergunta vazia e resposta null
+  pergunta: optionalText(500),
+  resposta: z.enum(CHECKLIST_ANSWERS, { error: 'Selecione a resposta' }).nullable(),
+  // null apenas em perguntas respondidas com N/A
+  tipoAchado: z.enum(FINDING_TYPES, { error: 'Selecione o tipo de achado' }).nullable(),
+  probabilidade: riskScaleField,
+  severidade: riskScaleField,
+  fato: optionalText(2000),
+  recomendacoes: optionalText(2000),
+  prazo: optionalDateField,
+  responsavel: optionalText(120),
+  responsavelEmail: z.string({ error: 'Deve ser um texto' })
+    .trim()
+    .max(254, 'Máximo de 254 caracteres')
+    .refine(value => value === '' || z.email().safeParse(value).success, 'E-mail inválido'),
+  conclusao: optionalText(2000),
+  fotos: z.array(inspectionPhotoSchema, { error: 'Lista de fotos inválida' })
+    .max(MAX_PHOTOS_PER_ITEM, `Máximo de ${MAX_PHOTOS_PER_ITEM} fotos por item`),
+}, { error: 'Item de inspeção inválido' }).superRefine((item, ctx) => {
+  if (item.resposta === null) {
+    // Item livre: tipo de achado e fato sempre obrigatórios
+    if (item.tipoAchado === null) {
+      ctx.addIssue({ code: 'custom', path: ['tipoAchado'], message: 'Selecione o tipo de achado' });
+    }
+    if (item.fato === '') {
+      ctx.addIssue({ code: 'custom', path: ['fato'], message: 'Campo obrigatório' });
+    }
+  } else {
+    if (item.pergunta === '') {
+      ctx.addIssue({ code: 'custom', path: ['pergunta'], message: 'Pergunta do checklist ausente' });
+    }
+    if (item.tipoAchado !== FINDING_TYPE_BY_ANSWER[item.resposta]) {
+      ctx.addIssue({ code: 'custom', path: ['tipoAchado'], message: 'Tipo de achado não corresponde à resposta' });
+    }
+    // Só a não conformidade precisa ser descrita, fotografada e ter correção recomendada
+    if (requiresFindingDetails(item.resposta)) {
+      if (item.fato === '') {
+        ctx.addIssue({ code: 'custom', path: ['fato'], message: 'Descreva a não conformidade' });
+      }
+      if (item.fotos.length === 0) {
+        ctx.addIssue({ code: 'custom', path: ['fotos'], message: 'Anexe ao menos uma foto da não conformidade' });
+      }
+      if (item.recomendacoes === '') {
+        ctx.addIssue({ code: 'custom', path: ['recomendacoes'], message: 'Informe a correção recomendada' });
+      }
+    }
+  }
+
+  if (!item.tipoAchado || !requiresRiskAssessment(item.tipoAchado)) return;
+  if (item.probabilidade === null) {
+    ctx.addIssue({ code: 'custom', path: ['probabilidade'], message: 'Informe a probabilidade' });
+  }
+  if (item.severidade === null) {
+    ctx.addIssue({ code: 'custom', path: ['severidade'], message: 'Informe a severidade' });
+  }
+});
+
+export const conclusionDataSchema = z.object({
+  conclusaoGeral: requiredText(5000),
+}, { error: 'Conclusão ausente ou inválida' });
+
+export const signaturesSchema = z.object({
+  responsavelInspecao: uploadedObjectKey(SIGNATURE_KEY_PATTERN, NOT_SIGNED),
+  responsavelUnidade: uploadedObjectKey(SIGNATURE_KEY_PATTERN, NOT_SIGNED),
+  // E-mail para onde vai o link de assinatura remota; null quando o responsável da unidade assina no aparelho
+  responsavelUnidadeEmail: z.string({ error: 'Informe o e-mail do responsável da unidade' })
+    .trim()
+    .max(254, 'Máximo de 254 caracteres')
+    .pipe(z.email('E-mail inválido'))
+    .nullable(),
+}, { error: 'Assinaturas ausentes ou inválidas' }).superRefine((signatures, ctx) => {
+  if (signatures.responsavelUnidadeEmail !== null && signatures.responsavelUnidade !== NOT_SIGNED) {
+    ctx.addIssue({ code: 'custom', path: ['responsavelUnidade'], message: 'Assine agora ou envie o link por e-mail, não os dois' });
+  }
+});
+
+export const submitPayloadSchema = z.object({
+  headerData: headerDataSchema,
+  // Modelo de checklist escolhido na etapa 1; null quando os itens foram preenchidos livremente
+  checklist: checklistRefSchema.nullable(),
+  // Posição do início da inspeção (complementa o texto livre de headerData.local); null quando não foi informada
+  localizacao: geoLocationSchema.nullable(),
+  participants: z.array(participantSchema, { error: 'Lista de participantes inválida' }).max(50, 'Máximo de 50 participantes'),
+  inspectionItems: z.array(inspectionItemSchema, { error: 'Lista de itens inválida' }).max(100, 'Máximo de 100 itens'),
+  conclusionData: conclusionDataSchema,
+  signatures: signaturesSchema,
+}, { error: 'Corpo da requisição inválido' });
+
+export type GeoLocation = z.infer<typeof geoLocationSchema>;
+export type HeaderData = z.infer<typeof headerDataSchema>;
+export type Participant = z.infer<typeof participantSchema>;
+export type InspectionPhoto = z.infer<typeof inspectionPhotoSchema>;
+export type InspectionItem = z.infer<typeof inspectionItemSchema>;
+export type ConclusionData = z.infer<typeof conclusionDataSchema>;
+export type Signatures = z.infer<typeof signaturesSchema>;
+export type SubmitPayload = z.infer<typeof submitPayloadSchema>;
+
+// Erro de validação de um campo; path no formato "inspectionItems.0.fato"
+export interface FieldError {
+  path: string;
+  message: string;
+}
+
+export type ValidationResult =
+  | { success: true; data: SubmitPayload }
+  | { success: false; errors: FieldError[] };
+
+/**
+ * Valida o corpo de /api/submit e devolve os erros com o caminho de cada campo
+ */
+export function validateSubmitPayload(input: unknown): ValidationResult {
+  const result = submitPayloadSchema.safeParse(input);
+  if (result.success) {
+    return { success: true, data: result.data };
+  }
+
+  return {
+    success: false,
+    errors: result.error.issues.map(issue => ({
+      path: issue.path.map(String).join('.') || '(corpo)',
+      message: issue.message,
+    })),
+  };
+}
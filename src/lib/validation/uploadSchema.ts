@@ -0,0 +1,50 @@
+import { z } from 'zod';
+import type { UploadTarget } from '@/lib/storage/types';
+import {
+  ALLOWED_PHOTO_MIME_TYPES,
+  ALLOWED_SIGNATURE_MIME_TYPES,
+  LOCAL_ID_PATTERN,
+  MAX_IMAGE_BYTES,
+  MAX_PHOTOS_PER_ITEM,
+} from './submitSchema';
+
+// Schema do pedido de URLs de envio direto (/api/uploads)
+
+const ALLOWED_MIME_TYPES_BY_KIND = {
+  evidencia: ALLOWED_PHOTO_MIME_TYPES,
+  assinatura: ALLOWED_SIGNATURE_MIME_TYPES,
+};
+
+const localId = z.string({ error: 'Identificador obrigatório' }).regex(LOCAL_ID_PATTERN, 'Identificador inválido');
+
+export const uploadFileRequestSchema = z.object({
+  id: localId,
+  kind: z.enum(['evidencia', 'assinatura'], { error: 'Tipo de arquivo inválido' }),
+  contentType: z.string({ error: 'Tipo MIME obrigatório' }),
+  size: z.number({ error: 'Tamanho obrigatório' })
+    .int()
+    .positive('Arquivo vazio')
+    .max(MAX_IMAGE_BYTES, `Arquivo maior que ${MAX_IMAGE_BYTES / 1024 / 1024} MB`),
+}, { error: 'Arquivo inválido' }).superRefine((file, ctx) => {
+  const allowed = ALLOWED_MIME_TYPES_BY_KIND[file.kind];
+  if (!allowed.includes(file.contentType)) {
+    ctx.addIssue({ code: 'custom', path: ['contentType'], message: `Tipo de imagem não permitido (${file.contentType}). Use: ${allowed.join(', ')}` });
+  }
+});
+
+export const uploadRequestSchema = z.object({
+  batchId: localId,
+  files: z.array(uploadFileRequestSchema, { error: 'Lista de arquivos inválida' })
+    .min(1, 'Nenhum arquivo informado')
+    // Cada foto anotada vai com a original; mais as duas assinaturas
+    .max(100 * MAX_PHOTOS_PER_ITEM * 2 + 2, 'Arquivos demais em um único pedido'),
+}, { error: 'Corpo da requisição inválido' });
+
+export type UploadFileRequest = z.infer<typeof uploadFileRequestSchema>;
+export type UploadRequest = z.infer<typeof uploadRequestSchema>;
+
+// Resposta de /api/uploads: um destino por arquivo pedido, na mesma ordem
+export interface UploadTargetResponse extends UploadTarget {
+  id: string;
+  key: string;
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getToken } from 'next-auth/jwt';
+
+/**
+ * Exige login em todas as páginas e rotas de API, exceto as listadas em config.matcher.
+ * APIs sem sessão recebem 401; páginas redirecionam para /login e voltam ao endereço pedido.
+ */
+export async function middleware(request: NextRequest) {
+  const token = await getToken({ req: request, secret: process.env.NEXTAUTH_SECRET });
+  if (token) return NextResponse.next();
+
+  if (request.nextUrl.pathname.startsWith('/api/')) {
+    return NextResponse.json({ error: 'Sessão expirada ou ausente. Entre novamente.' }, { status: 401 });
+  }
+
+  const loginUrl = new URL('/login', request.url);
+  loginUrl.searchParams.set('callbackUrl', `${request.nextUrl.pathname}${request.nextUrl.search}`);
+  return NextResponse.redirect(loginUrl);
+}
+
+export const config = {
+  // Públicos: login e rotas do next-auth; lembretes (protegidos por REMINDERS_SECRET);
+  // assinatura remota pelo link enviado por e-mail (autorizada pelo token do link);
+  // verificação de autenticidade aberta pelo QR code do PDF (só o resumo do relatório);
+  // arquivos do armazenamento local (links da planilha e do e-mail; a gravação exige token de envio);
+  // arquivos estáticos, service worker e manifesto.
+  // Cada exceção termina em "/" ou no fim do caminho, para /loginx ou /login-admin não escaparem do login.
+  matcher: [
+    '/((?!login(?:/|$)|api/auth/|api/reminders(?:/|$)|assinar/|api/assinaturas/|verificar/|api/verificar/|api/storage/|_next/static/|_next/image(?:/|$)|sw\\.js$|manifest\\.webmanifest$|favicon\\.ico$|logo\\.png$|icons/).*)',
+  ],
+};
@@ -0,0 +1,47 @@
+// Tipos do acompanhamento das ações corretivas (um item de inspeção = uma ação)
+
+import type { ActionStatus } from '@/lib/validation/actionSchema';
+
+export interface ActionPhoto {
+  url: string;
+  legenda: string;
+}
+
+// Uma linha da aba "Ações": atualização registrada depois do envio do relatório
+export interface ActionUpdate {
+  registradoEm: string; // ISO 8601
+  status: ActionStatus;
+  comentario: string;
+  conclusao: string;
+  autor: string;
+  fotos: ActionPhoto[];
+}
+
+// Item de inspeção com a situação atual e o histórico de atualizações
+export interface TrackedAction {
+  inspectionId: string;
+  item: number; // posição do item no relatório, a partir de 1
+  data: string; // data da inspeção, AAAA-MM-DD
+  unidade: string;
+  local: string;
+  departamento: string;
+  fato: string;
+  recomendacoes: string;
+  prazo: string; // AAAA-MM-DD ou vazio
+  responsavel: string;
+  responsavelEmail: string;
+  /** Conclusão mais recente (do relatório ou de uma atualização) */
+  conclusao: string;
+  status: ActionStatus;
+  atualizadoEm: string | null; // ISO 8601 da última atualização; null se nunca atualizada
+  historico: ActionUpdate[];
+}
+
+// Resposta de GET /api/actions
+export interface ActionListResponse {
+  actions: TrackedAction[];
+  total: number;
+  options: {
+    unidades: string[];
+  };
+}
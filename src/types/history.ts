@@ -0,0 +1,106 @@
+// Tipos do histórico de inspeções, lido de volta da planilha "Mapa de Controle"
+
+import type { StoredReport } from '@/lib/reports/store';
+import type { RemoteSignatureStatus } from '@/lib/reports/remoteSignature';
+import type { IntegrityStatus, ReportSigner, SignatureRole } from '@/lib/reports/integrity';
+import { TrackedAction } from './actions';
+
+// Uma linha da planilha corresponde a um item de inspeção
+export interface InspectionRecordItem {
+  pergunta: string; // Vazia em itens livres
+  resposta: string; // Rótulo gravado na planilha, ex.: "Não conforme"
+  fato: string;
+  recomendacoes: string;
+  prazo: string;
+  responsavel: string;
+  responsavelEmail: string;
+  conclusao: string;
+  tipoAchado: string; // Rótulo gravado na planilha, ex.: "Não conformidade"
+  nivelRisco: string; // Ex.: "Alto (12)"; vazio quando o risco não foi avaliado
+  evidencias: string;
+}
+
+// Inspeção reconstruída a partir das linhas com o mesmo inspectionId
+export interface InspectionRecord {
+  inspectionId: string;
+  data: string; // AAAA-MM-DD
+  hora: string; // HH:MM
+  departamento: string;
+  encarregado: string;
+  responsavelQSMS: string;
+  gerenteContrato: string;
+  unidade: string;
+  local: string;
+  emailCompanhia: string;
+  participantes: string;
+  funcoes: string;
+  conclusaoGeral: string;
+  checklist: string; // Modelo e versão, ex.: "Inspeção de EPI (v1.0)"; vazio sem modelo
+  enviadoPor: string; // Usuário logado no envio, ex.: "Maria Silva <maria@empresa.com>"
+  coordenadas: string; // Ex.: "-6.43912, -50.07231 (±12 m)"; vazio sem localização
+  itens: InspectionRecordItem[];
+}
+
+export type InspectionSummary = Omit<InspectionRecord, 'itens'> & { itemCount: number };
+
+export interface InspectionFilters {
+  unidade?: string;
+  departamento?: string;
+  local?: string;
+  de?: string; // AAAA-MM-DD, inclusivo
+  ate?: string; // AAAA-MM-DD, inclusivo
+  q?: string;
+}
+
+// Resposta de GET /api/inspections
+export interface InspectionListResponse {
+  inspections: InspectionSummary[];
+  total: number;
+  page: number;
+  pageSize: number;
+  // Valores existentes na planilha, para os filtros de seleção
+  options: {
+    unidades: string[];
+    departamentos: string[];
+    locais: string[];
+  };
+}
+
+// Resposta de GET /api/inspections/[id]; report é null para inspeções enviadas antes de os relatórios serem guardados
+export interface InspectionDetailResponse {
+  report: StoredReport | null;
+  record: InspectionRecord | null;
+  // Uma por item, na ordem do relatório
+  actions: TrackedAction[];
+  // Link de assinatura remota do responsável da unidade, quando foi solicitado
+  remoteSignature: RemoteSignatureStatus | null;
+}
+
+// Relatório exibido na página pública de assinatura remota (/assinar/[id])
+export interface RemoteSignatureReportResponse {
+  report: Pick<StoredReport, 'inspectionId' | 'submittedAt' | 'payload' | 'signatureUrls' | 'evidenceUrls'>;
+  expiresAt: string;
+}
+
+// Resposta de GET /api/verificar/[id] (página pública de verificação); IP e navegador dos signatários ficam só no relatório guardado
+export interface ReportVerificationResponse {
+  inspectionId: string;
+  submittedAt: string;
+  unidade: string;
+  local: string;
+  data: string;
+  status: IntegrityStatus;
+  sealedHash: string | null;
+  verificationCode: string | null;
+  alteredSignatures: SignatureRole[];
+  signers: Pick<ReportSigner, 'role' | 'name' | 'signedAt'>[];
+  signaturePending: boolean;
+}
+
+// Resposta de POST /api/verificar/[id] com um arquivo PDF:
+// current = emitido para a versão atual do relatório; previous = emitido para uma versão anterior; unknown = não emitido pelo sistema
+export interface PdfVerificationResponse {
+  result: 'current' | 'previous' | 'unknown';
+  sha256: string;
+  issuedAt: string | null;
+}
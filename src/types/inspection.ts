@@ -0,0 +1,96 @@
+// Tipos compartilhados pelo formulário de inspeção (lado do cliente)
+
+import type { PhotoAnnotation } from '@/lib/images/annotations';
+import type { Stroke } from '@/lib/images/signatureStrokes';
+import type { FindingType } from '@/lib/risk/matrix';
+import type { ChecklistAnswer, ChecklistRef } from '@/lib/validation/checklistSchema';
+import { FieldError, GeoLocation } from '@/lib/validation/submitSchema';
+
+export interface HeaderData {
+  departamento: string;
+  encarregado: string;
+  responsavelQSMS: string;
+  gerenteContrato: string;
+  unidade: string;
+  data: string;
+  hora: string;
+  local: string;
+  emailCompanhia: string;
+}
+
+export interface Participant {
+  nome: string;
+  funcao: string;
+}
+
+// Foto de evidência já comprimida no aparelho, com legenda e a posição de onde foi anexada
+export interface InspectionPhoto {
+  id: string;
+  file: File; // Versão enviada no relatório; com anotações, já vem com elas aplicadas
+  legenda: string;
+  localizacao: GeoLocation | null;
+  original: File | null; // Foto sem anotações, enviada junto para auditoria; null quando não foi anotada
+  anotacoes: PhotoAnnotation[]; // Desenho sobre a original, para reabrir o editor e desfazer
+}
+
+export interface InspectionItem {
+  item: number;
+  pergunta: string; // Pergunta do modelo de checklist; vazia em itens livres
+  resposta: ChecklistAnswer | '';
+  tipoAchado: FindingType | '';
+  probabilidade: number | null; // 1 a 5, matriz de risco
+  severidade: number | null;
+  fato: string;
+  recomendacoes: string;
+  prazo: string;
+  responsavel: string;
+  responsavelEmail: string; // Recebe os lembretes de prazo
+  conclusao: string;
+  fotos: InspectionPhoto[];
+}
+
+export interface ConclusionData {
+  conclusaoGeral: string;
+}
+
+// Assinaturas capturadas no quadro, como data URL PNG (null = em branco ou curta demais)
+export interface SignatureData {
+  responsavelInspecao: string | null;
+  responsavelUnidade: string | null;
+  // Traços da mesma assinatura, para o quadro voltar editável (com desfazer) ao retomar o rascunho
+  responsavelInspecaoTracos: Stroke[] | null;
+  responsavelUnidadeTracos: Stroke[] | null;
+  // E-mail do responsável da unidade quando ele assina depois, por link; null = assina no aparelho
+  responsavelUnidadeEmail: string | null;
+}
+
+// Rascunho salvo no IndexedDB a cada alteração do formulário
+export interface InspectionDraft {
+  id: string;
+  updatedAt: number;
+  step: number;
+  checklist: ChecklistRef | null; // Modelo escolhido na etapa 1
+  localizacao: GeoLocation | null; // Capturada ao iniciar a inspeção, ajustável na etapa 1
+  headerData: HeaderData;
+  participants: Participant[];
+  inspectionItems: InspectionItem[];
+  conclusionData: ConclusionData;
+  signatures: SignatureData;
+}
+
+export type OutboxStatus = 'pendente' | 'enviando' | 'enviado' | 'erro';
+
+// Relatório finalizado aguardando envio para /api/submit
+export interface OutboxEntry {
+  id: string;
+  createdAt: number;
+  updatedAt: number;
+  status: OutboxStatus;
+  attempts: number;
+  draft: InspectionDraft;
+  inspectionId?: string;
+  lastError?: string;
+  fieldErrors?: FieldError[]; // Erros de validação devolvidos pelo servidor (HTTP 400)
+  uploadedFiles?: string[]; // Fotos/assinaturas já gravadas no armazenamento (retomada do envio)
+  warnings?: string[]; // Etapas do envio que falharam no servidor (ex.: e-mail), devolvidas com o sucesso
+}
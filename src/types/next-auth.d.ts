@@ -0,0 +1,22 @@
+// Campos extras da sessão do next-auth (ver src/lib/auth/options.ts)
+
+import 'next-auth';
+import 'next-auth/jwt';
+
+declare module 'next-auth' {
+  interface Session {
+    user?: {
+      name?: string | null;
+      email?: string | null;
+      image?: string | null;
+      /** "credentials" (usuário e senha) ou "oidc" */
+      provider: string;
+    };
+  }
+}
+
+declare module 'next-auth/jwt' {
+  interface JWT {
+    provider?: string;
+  }
+}